@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+import { loadEnvConfig } from "@next/env";
+import { getScriptLogger } from "./logger";
+import { FirestoreJobQueue } from "@/lib/jobs/firestore-job-queue";
+
+const projectRoot = process.cwd();
+const isDev = process.env.NODE_ENV ? process.env.NODE_ENV !== "production" : true;
+loadEnvConfig(projectRoot, isDev);
+
+function readRequeueTarget(): string | null {
+  const flag = process.argv.find((arg) => arg.startsWith("--requeue="));
+  return flag ? flag.slice("--requeue=".length).trim() || null : null;
+}
+
+async function main() {
+  const logger = getScriptLogger("dead-letter-jobs");
+  const queue = new FirestoreJobQueue();
+  const target = readRequeueTarget();
+
+  if (target) {
+    const job = await queue.requeue(target);
+    if (!job) {
+      logger.warn("Job not found or not dead-lettered", { jobId: target });
+      process.exitCode = 1;
+      return;
+    }
+    logger.info("Job requeued", { jobId: job.id, sessionId: job.sessionId });
+    return;
+  }
+
+  const jobs = await queue.list("dead");
+  if (!jobs.length) {
+    logger.step("No dead-lettered jobs");
+    return;
+  }
+  for (const job of jobs) {
+    logger.info("Dead-lettered job", {
+      jobId: job.id,
+      sessionId: job.sessionId,
+      userId: job.userId,
+      attempts: job.attempts,
+      lastError: job.lastError,
+      updatedAt: job.updatedAt,
+    });
+  }
+}
+
+main().catch((error) => {
+  const logger = getScriptLogger("dead-letter-jobs");
+  logger.error("Dead-letter job listing failed", {
+    message: error instanceof Error ? error.message : String(error),
+  });
+  process.exitCode = 1;
+});
@@ -32,6 +32,7 @@ async function main() {
     const userId = data.userId as string;
     const metadata = (data.metadata ?? {}) as Record<string, unknown>;
     const holdKey = typeof metadata.activeHoldKey === "string" ? metadata.activeHoldKey : null;
+    const generationId = typeof metadata.activeGenerationId === "string" ? metadata.activeGenerationId : null;
     try {
       await sessionRepository.updateSession(
         sessionId,
@@ -39,14 +40,20 @@ async function main() {
           status: "failed",
           processingStartedAt: null,
           processingDeadline: null,
-          metadata: { activeHoldKey: null, processingHoldStartedAt: null },
+          // Checkpoints stay in place so the user can resume the run from its last finished step.
+          metadata: {
+            activeHoldKey: null,
+            processingHoldStartedAt: null,
+            activeGenerationId: null,
+            resumableGenerationId: generationId,
+          },
         },
         userId,
       );
       if (holdKey) {
         await quotaService.releaseHold({ uid: userId, sessionId: holdKey, refund: true });
       }
-      logger.info("Expired session cleaned", { sessionId, userId, holdKey });
+      logger.info("Expired session cleaned", { sessionId, userId, holdKey, resumableGenerationId: generationId });
     } catch (error) {
       logger.error("Failed to clean expired session", {
         sessionId,
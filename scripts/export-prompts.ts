@@ -88,6 +88,8 @@ type PromptExport = Record<
     description: string;
     variables: string[];
     template: string;
+    versions?: Record<string, string>;
+    experiment?: unknown;
   }
 >;
 
@@ -99,6 +101,7 @@ async function run(): Promise<void> {
         throw new Error("Unable to load prompt catalog from TypeScript or JSON");
       })();
 
+    const experiments = loadExperimentsFromJson(logger);
     const output: PromptExport = Object.entries(promptCatalog).reduce((acc, [key, value]) => {
       const meta = metadata[key as keyof typeof metadata] ?? { workflow: "unspecified", description: "" };
       acc[key] = {
@@ -106,6 +109,7 @@ async function run(): Promise<void> {
         description: meta.description,
         variables: Array.from(value.variables),
         template: value.template,
+        ...experiments[key],
       };
       return acc;
     }, {} as PromptExport);
@@ -205,3 +209,32 @@ function loadCatalogFromJson(logger: ReturnType<typeof getScriptLogger>): Prompt
     return null;
   }
 }
+
+/** Prompt versions and experiments are only authored in prompts.json, so carry them over on export. */
+function loadExperimentsFromJson(
+  logger: ReturnType<typeof getScriptLogger>,
+): Record<string, Pick<PromptExport[string], "versions" | "experiment">> {
+  if (!existsSync(outputPath)) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(outputPath, "utf8")) as PromptExport;
+    return Object.entries(parsed).reduce(
+      (acc, [key, value]) => {
+        if (value.versions || value.experiment) {
+          acc[key] = {
+            ...(value.versions ? { versions: value.versions } : {}),
+            ...(value.experiment ? { experiment: value.experiment } : {}),
+          };
+        }
+        return acc;
+      },
+      {} as Record<string, Pick<PromptExport[string], "versions" | "experiment">>,
+    );
+  } catch (error) {
+    logger.warn("Failed to read prompt versions from JSON", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
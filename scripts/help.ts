@@ -84,9 +84,24 @@ const utilitySections: CommandSection[] = [
       },
       {
         command: "npx tsx scripts/expire-processing.ts",
-        description: "Marks sessions past processingDeadline as failed and releases quota holds.",
+        description: "Marks sessions past processingDeadline as failed, releases quota holds, and keeps the run resumable.",
         notes: "Safe to wire into cron/Cloud Scheduler.",
       },
+      {
+        command: "npx tsx scripts/dead-letter-jobs.ts [--requeue=<generationId>]",
+        description: "Lists generation jobs that ran out of attempts, or puts one back in the queue.",
+        notes: "Firestore queue only. A requeued job runs without placing a new quota hold.",
+      },
+      {
+        command: "npx tsx --conditions=react-server scripts/run-evals.ts [--live] [--only=<caseId>] [--skip-compile]",
+        description: "Runs the golden cases in evals/golden through the CV, cover letter, and cold email tasks and writes evals/reports/eval-report.{json,html}.",
+        notes: "Uses the recorded replies unless --live. Exits non-zero when a task errors or the pass rate is below --min-pass-rate (default 1).",
+      },
+      {
+        command: "npx tsx scripts/surface-follow-ups.ts",
+        description: "Marks follow-up emails past their due date and logs them on the session.",
+        notes: "Run daily from cron/Cloud Scheduler.",
+      },
       {
         command: "npx tsx scripts/clear-firestore-logs.ts --force",
         description: "Deletes Firestore log documents in batches from the configured collection.",
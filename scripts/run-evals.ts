@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { loadEnvConfig } from "@next/env";
+
+import { getScriptLogger } from "./logger";
+import type { EvalCase, EvalCaseResult, EvalCheck, EvalTask, EvalTaskResult } from "@/lib/evals/checks";
+
+const projectRoot = process.cwd();
+const isDev = process.env.NODE_ENV ? process.env.NODE_ENV !== "production" : true;
+// App modules read env at import time, so they are imported after this.
+loadEnvConfig(projectRoot, isDev);
+
+type RunnerOptions = {
+  casesDir: string;
+  outDir: string;
+  live: boolean;
+  only: string | null;
+  skipCompile: boolean;
+  minPassRate: number;
+};
+
+function readFlag(name: string): string | null {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag ? flag.slice(name.length + 3).trim() || null : null;
+}
+
+function readOptions(): RunnerOptions {
+  const minPassRate = Number(readFlag("min-pass-rate") ?? "1");
+  return {
+    casesDir: path.resolve(projectRoot, readFlag("cases") ?? "evals/golden"),
+    outDir: path.resolve(projectRoot, readFlag("out") ?? "evals/reports"),
+    live: process.argv.includes("--live"),
+    only: readFlag("only"),
+    skipCompile: process.argv.includes("--skip-compile"),
+    minPassRate: Number.isFinite(minPassRate) ? minPassRate : 1,
+  };
+}
+
+function loadCases(options: RunnerOptions): EvalCase[] {
+  if (!existsSync(options.casesDir)) {
+    throw new Error(`Eval case folder not found: ${options.casesDir}`);
+  }
+  return readdirSync(options.casesDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(readFileSync(path.join(options.casesDir, file), "utf8")) as EvalCase)
+    .filter((entry) => !options.only || entry.id === options.only);
+}
+
+async function main() {
+  const logger = getScriptLogger("run-evals");
+  const options = readOptions();
+
+  const { env } = await import("@/env");
+  const { AIService } = await import("@/lib/ai/service");
+  const { ModelClient } = await import("@/lib/ai/model-client");
+  const { StubModelProvider } = await import("@/lib/ai/providers/stub-provider");
+  const { DocumentService } = await import("@/lib/document-service");
+  const { LocalDiskStorageProvider } = await import("@/lib/storage/local-disk-provider");
+  const { parseColdEmailStructure } = await import("@/app/actions/generate/cold-email");
+  const checks = await import("@/lib/evals/checks");
+  const { buildEvalReport, renderEvalReportHtml } = await import("@/lib/evals/report");
+
+  const cases = loadCases(options);
+  if (!cases.length) {
+    logger.warn("No eval cases found", { casesDir: options.casesDir, only: options.only });
+    process.exitCode = 1;
+    return;
+  }
+  logger.step("Running evals", { cases: cases.length, live: options.live, skipCompile: options.skipCompile });
+
+  const documents = new DocumentService(new LocalDiskStorageProvider());
+  const results: EvalCaseResult[] = [];
+
+  for (const entry of cases) {
+    // Recorded mode answers every model call with the case's stored reply for that task.
+    const stub = new StubModelProvider();
+    const service = options.live ? new AIService() : new AIService(new ModelClient(stub));
+    const expected = entry.expected;
+    const sources = [entry.extensiveCV, entry.originalCV, entry.jobDescription, entry.companyName, entry.jobTitle];
+    const tasks: EvalTaskResult[] = [];
+
+    const runTask = async (
+      task: EvalTask,
+      call: () => Promise<string>,
+      score: (output: string) => Promise<Array<EvalCheck | null>>,
+    ): Promise<string | null> => {
+      const startedAt = Date.now();
+      if (!options.live) {
+        const recorded = entry.responses?.[task];
+        if (recorded === undefined) {
+          tasks.push({ task, durationMs: 0, output: null, error: `No recorded response for ${task}`, checks: [] });
+          return null;
+        }
+        stub.enqueue(recorded);
+      }
+      try {
+        const output = await call();
+        const scored = (await score(output)).filter((check): check is EvalCheck => Boolean(check));
+        tasks.push({ task, durationMs: Date.now() - startedAt, output, error: null, checks: scored });
+        return output;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        tasks.push({ task, durationMs: Date.now() - startedAt, output: null, error: message, checks: [] });
+        return null;
+      }
+    };
+
+    let cvText: string | null = null;
+    await runTask(
+      "generateCVAdvanced",
+      () =>
+        service.generateCVAdvanced({
+          jobDescription: entry.jobDescription,
+          originalCV: entry.originalCV,
+          extensiveCV: entry.extensiveCV,
+          cvStrategy: entry.cvStrategy ?? "",
+          companyName: entry.companyName,
+          jobTitle: entry.jobTitle,
+        }),
+      async (latex) => {
+        const scored: Array<EvalCheck | null> = [];
+        cvText = checks.evalTextFromLatex(latex);
+        if (!options.skipCompile) {
+          try {
+            const rendered = await documents.renderLatexEphemeral(latex);
+            cvText = rendered.text;
+            scored.push({ name: "latex-compiles", passed: true, detail: `${rendered.buffer.length} bytes` });
+            scored.push(checks.checkPageCount(rendered.pageCount, expected?.pageCount ?? env.TARGET_PAGE_COUNT));
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            scored.push({ name: "latex-compiles", passed: false, detail: message.slice(0, 500) });
+            scored.push(checks.checkPageCount(null, expected?.pageCount ?? env.TARGET_PAGE_COUNT));
+          }
+        }
+        scored.push(checks.checkKeywordCoverage(cvText, expected));
+        scored.push(checks.checkGrounding(cvText, sources, expected));
+        return scored;
+      },
+    );
+
+    const validatedCVText = cvText ?? entry.originalCV;
+    await runTask(
+      "generateCoverLetterAdvanced",
+      () =>
+        service.generateCoverLetterAdvanced({
+          jobDescription: entry.jobDescription,
+          companyName: entry.companyName,
+          jobTitle: entry.jobTitle,
+          validatedCVText,
+          extensiveCV: entry.extensiveCV,
+          coverLetterStrategy: entry.coverLetterStrategy ?? "",
+        }),
+      async (letter) => [checks.checkKeywordCoverage(letter, expected), checks.checkGrounding(letter, sources, expected)],
+    );
+
+    const companyProfile = entry.companyProfile ?? entry.jobDescription;
+    await runTask(
+      "generateColdEmail",
+      () =>
+        entry.contact
+          ? service.generatePersonalizedColdEmail({
+              companyName: entry.companyName,
+              companyProfile,
+              contactName: entry.contact.name,
+              contactTitle: entry.contact.title,
+              contactEmail: entry.contact.email,
+              validatedCVText,
+              extensiveCV: entry.extensiveCV,
+              coldEmailStrategy: entry.coldEmailStrategy ?? "",
+            })
+          : service.generateGenericColdEmail({
+              companyName: entry.companyName,
+              companyProfile,
+              genericEmail: entry.genericEmail ?? "",
+              validatedCVText,
+              extensiveCV: entry.extensiveCV,
+              coldEmailStrategy: entry.coldEmailStrategy ?? "",
+            }),
+      async (email) => {
+        const { body } = parseColdEmailStructure(email);
+        const contactSources = entry.contact ? [entry.contact.name, entry.contact.title] : [];
+        return [checks.checkColdEmailLength(body, expected), checks.checkGrounding(body, [...sources, ...contactSources], expected)];
+      },
+    );
+
+    const failed = tasks.flatMap((task) => task.checks).filter((check) => !check.passed).length;
+    logger.info("Eval case finished", { id: entry.id, failedChecks: failed, taskErrors: tasks.filter((task) => task.error).length });
+    results.push({ id: entry.id, description: entry.description ?? null, tasks });
+  }
+
+  const report = buildEvalReport(results, options.live ? "live" : "recorded");
+  mkdirSync(options.outDir, { recursive: true });
+  const jsonPath = path.join(options.outDir, "eval-report.json");
+  const htmlPath = path.join(options.outDir, "eval-report.html");
+  writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+  writeFileSync(htmlPath, renderEvalReportHtml(report), "utf8");
+  logger.info("Eval report written", { jsonPath, htmlPath, ...report.summary });
+
+  if (report.summary.errors > 0 || report.summary.passRate < options.minPassRate) {
+    logger.error("Eval gate failed", { passRate: report.summary.passRate, minPassRate: options.minPassRate, errors: report.summary.errors });
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  const logger = getScriptLogger("run-evals");
+  logger.error("Eval run failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
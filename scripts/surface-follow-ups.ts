@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+import { loadEnvConfig } from "@next/env";
+import { getScriptLogger } from "./logger";
+import { getDb } from "@/lib/firebase-admin";
+import { FOLLOW_UP_NEXT_DUE_KEY, markDueFollowUps, readFollowUps, type FollowUpStep } from "@/lib/follow-ups";
+import { sessionRepository } from "@/lib/session";
+
+const projectRoot = process.cwd();
+const isDev = process.env.NODE_ENV ? process.env.NODE_ENV !== "production" : true;
+loadEnvConfig(projectRoot, isDev);
+
+async function main() {
+  const logger = getScriptLogger("surface-follow-ups");
+  const db = getDb();
+  const now = new Date().toISOString();
+  const snapshot = await db
+    .collection("sessions")
+    .where(`metadata.${FOLLOW_UP_NEXT_DUE_KEY}`, "<=", now)
+    .get();
+
+  if (snapshot.empty) {
+    logger.step("No follow-ups due");
+    return;
+  }
+
+  logger.step("Surfacing due follow-ups", { count: snapshot.size });
+  for (const doc of snapshot.docs) {
+    const sessionId = doc.id;
+    const userId = doc.data().userId as string;
+    try {
+      let surfaced: FollowUpStep[] = [];
+      const updated = await sessionRepository.updateFollowUps(sessionId, userId, (sequence) => {
+        const result = markDueFollowUps(sequence, now);
+        surfaced = result.surfaced;
+        return result.sequence;
+      });
+      const stepIds = readFollowUps(updated.metadata)?.steps.map((step) => step.id) ?? [];
+      for (const step of surfaced) {
+        await sessionRepository.appendChatLog(
+          sessionId,
+          {
+            level: "info",
+            message: `Follow-up ${stepIds.indexOf(step.id) + 1} is due: ${step.subject}`,
+            payload: { followUpId: step.id, dueAt: step.dueAt },
+          },
+          userId,
+        );
+      }
+      logger.info("Follow-ups surfaced", { sessionId, userId, surfaced: surfaced.length });
+    } catch (error) {
+      logger.error("Failed to surface follow-ups", {
+        sessionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+main().catch((error) => {
+  const logger = getScriptLogger("surface-follow-ups");
+  logger.error("Follow-up job failed", {
+    message: error instanceof Error ? error.message : String(error),
+  });
+  process.exitCode = 1;
+});
@@ -12,11 +12,12 @@ async function main() {
     const { ensureLlamaRuntime } = await import("@/lib/ai/llama/runtime");
     const { Document, VectorStoreIndex, Settings } = await import("llamaindex");
 
-    const { llm, embedModel } = ensureLlamaRuntime();
+    const runtime = ensureLlamaRuntime();
     
-    if (!llm || !embedModel) {
-        throw new Error("Failed to initialize Llama runtime");
+    if (!runtime) {
+        throw new Error("Failed to initialize Llama runtime: set GEMINI_API_KEY in .env.local");
     }
+    const { llm, embedModel } = runtime;
 
     console.log("Llama runtime initialized.");
     const resolvedModel = (llm as { model?: string }).model ?? llm.metadata?.model ?? "unknown";
@@ -0,0 +1,59 @@
+"use server";
+
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { GenerationJobStatus } from "@/lib/jobs/policy";
+import { getJobQueue } from "@/lib/jobs/types";
+
+import { attachStreamPublisher } from "./generate/stream";
+import { abortLocalGeneration, settleFailedGeneration } from "./generate/worker";
+
+const logger = createDebugLogger("cancel-generation-action");
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  generationId: z.string().min(1),
+});
+
+export type CancelGenerationInput = z.infer<typeof payloadSchema>;
+
+/**
+ * Cancels a queued or running generation job. A queued job is settled here
+ * because no worker will pick it up; a running one is aborted by its worker,
+ * right away on this instance or at its next lease renewal elsewhere.
+ */
+export async function cancelGenerationAction(input: CancelGenerationInput): Promise<{ status: GenerationJobStatus }> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  const queue = getJobQueue();
+
+  const job = await queue.get(parsed.generationId);
+  if (!job || job.userId !== userId || job.sessionId !== parsed.sessionId) {
+    throw new Error("Generation not found.");
+  }
+  const updated = await queue.cancel(job.id);
+  if (!updated) {
+    throw new Error("Generation not found.");
+  }
+
+  if (job.status === "queued" && updated.status === "cancelled") {
+    await settleFailedGeneration(
+      updated,
+      { userMessage: "Generation cancelled.", internalMessage: "Cancelled before it started.", level: "warning" },
+      attachStreamPublisher(job.id, { userId, sessionId: job.sessionId }),
+    );
+  } else if (updated.status === "running") {
+    abortLocalGeneration(job.id);
+  }
+
+  logger.step("Generation cancel requested", {
+    sessionId: parsed.sessionId,
+    generationId: parsed.generationId,
+    previousStatus: job.status,
+    status: updated.status,
+  });
+  return { status: updated.status };
+}
@@ -0,0 +1,35 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createCvProfile, listCvProfiles, toCvProfileSummary } from "@/lib/cv-profiles";
+import { MAX_CV_PROFILE_NAME_LENGTH } from "@/lib/cv-profiles-shared";
+import { copySourceDocuments, getSourceDocumentsForUser } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("create-cv-profile-action");
+
+const payloadSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required").max(MAX_CV_PROFILE_NAME_LENGTH),
+  copyFromProfileId: z.string().min(1).max(64).optional(),
+});
+
+export async function createCvProfileAction(input: z.infer<typeof payloadSchema>) {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  const profile = await createCvProfile(userId, parsed.name);
+  if (parsed.copyFromProfileId) {
+    await copySourceDocuments(userId, parsed.copyFromProfileId, profile.id);
+  }
+  logger.info("CV profile created", { userId, profileId: profile.id, copied: Boolean(parsed.copyFromProfileId) });
+  const [profiles, sourceDocuments] = await Promise.all([
+    listCvProfiles(userId),
+    getSourceDocumentsForUser(userId, profile.id),
+  ]);
+  return {
+    profileId: profile.id,
+    profiles: profiles.map(toCvProfileSummary),
+    sourceDocuments,
+  };
+}
@@ -2,6 +2,8 @@
 
 import { z } from "zod";
 import { requireServerAuthTokens } from "@/lib/auth";
+import { getCvProfile } from "@/lib/cv-profiles";
+import { CV_PROFILE_ID_PATTERN } from "@/lib/cv-profiles-shared";
 import { sessionRepository } from "@/lib/session";
 import { serializeSession } from "@/lib/serializers/session";
 import { createDebugLogger } from "@/lib/debug-logger";
@@ -16,6 +18,7 @@ const payloadSchema = z.object({
   contactName: z.string().optional().default(""),
   contactTitle: z.string().optional().default(""),
   contactEmail: z.string().optional().default(""),
+  cvProfileId: z.string().regex(CV_PROFILE_ID_PATTERN, "Invalid CV profile id").or(z.literal("")).optional().default(""),
 });
 
 export type CreateSessionInput = z.infer<typeof payloadSchema>;
@@ -24,6 +27,9 @@ export async function createSessionAction(input: CreateSessionInput) {
   const parsed = payloadSchema.parse(input);
   const tokens = await requireServerAuthTokens();
   logger.step("Creating session", { userId: tokens.decodedToken.uid, companyName: parsed.companyName, jobTitle: parsed.jobTitle });
+  if (parsed.cvProfileId && !(await getCvProfile(tokens.decodedToken.uid, parsed.cvProfileId))) {
+    throw new Error("Profile not found");
+  }
   const sanitizedWebsite = parsed.companyWebsite.trim();
   const sanitizedContactName = parsed.contactName.trim();
   const sanitizedContactTitle = parsed.contactTitle.trim();
@@ -41,6 +47,7 @@ export async function createSessionAction(input: CreateSessionInput) {
       ...(sanitizedContactName ? { contactName: sanitizedContactName } : {}),
       ...(sanitizedContactTitle ? { contactTitle: sanitizedContactTitle } : {}),
       ...(sanitizedContactEmail ? { contactEmail: sanitizedContactEmail } : {}),
+      ...(parsed.cvProfileId ? { cvProfileId: parsed.cvProfileId } : {}),
     },
   });
   logger.info("Session created successfully", { sessionId: record.id, userId: tokens.decodedToken.uid });
@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { deleteCvProfile, listCvProfiles, toCvProfileSummary } from "@/lib/cv-profiles";
+import { DEFAULT_CV_PROFILE_ID } from "@/lib/cv-profiles-shared";
+import { getSourceDocumentsForUser } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("delete-cv-profile-action");
+
+const payloadSchema = z.object({
+  profileId: z.string().min(1).max(64),
+});
+
+/** Deletes a profile with its documents and falls back to the default profile. */
+export async function deleteCvProfileAction(input: z.infer<typeof payloadSchema>) {
+  const { profileId } = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  await deleteCvProfile(userId, profileId);
+  logger.info("CV profile deleted", { userId, profileId });
+  const [profiles, sourceDocuments] = await Promise.all([
+    listCvProfiles(userId),
+    getSourceDocumentsForUser(userId, DEFAULT_CV_PROFILE_ID),
+  ]);
+  return {
+    profileId: DEFAULT_CV_PROFILE_ID,
+    profiles: profiles.map(toCvProfileSummary),
+    sourceDocuments,
+  };
+}
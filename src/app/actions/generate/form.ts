@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { env } from "@/env";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { renderResumeLatex } from "@/lib/resume/latex-templates";
+import { parseResumeJson, RESUME_TEMPLATE_IDS } from "@/lib/resume/schema";
 
 const logger = createDebugLogger("form-schema");
 
@@ -37,12 +39,14 @@ export class FormPayloadTooLargeError extends Error {
   }
 }
 
-export const formSchema = z.object({
+const baseFormSchema = z.object({
   sessionId: requiredLabelField("sessionId"),
   generationId: requiredLabelField("generationId"),
   jobDescription: requiredLargeField("jobDescription"),
-  originalCV: requiredLargeField("originalCV"),
-  extensiveCV: requiredLargeField("extensiveCV"),
+  originalCV: optionalLimitedField(LARGE_TEXT_LIMIT),
+  extensiveCV: optionalLimitedField(LARGE_TEXT_LIMIT),
+  resumeJson: optionalLimitedField(LARGE_TEXT_LIMIT),
+  cvTemplate: z.enum(RESUME_TEMPLATE_IDS).or(z.literal("")).optional().default(""),
   cvStrategy: requiredLargeField("cvStrategy"),
   companyName: requiredLabelField("companyName"),
   jobTitle: requiredLabelField("jobTitle"),
@@ -58,8 +62,45 @@ export const formSchema = z.object({
   jobSourceUrl: optionalLimitedField(URL_TEXT_LIMIT),
   emailAddresses: optionalLimitedField(EMAIL_LIST_LIMIT),
   mode: z.enum(["standard", "cold_outreach"]).default("standard"),
+  cvProfileId: optionalLimitedField(SMALL_TEXT_LIMIT),
 });
 
+/**
+ * A JSON Resume can stand in for the LaTeX CV and the extensive context: the
+ * untailored render becomes `originalCV` so research, ATS scoring, and change
+ * summaries keep working against a LaTeX baseline.
+ */
+export const formSchema = baseFormSchema
+  .superRefine((form, ctx) => {
+    if (form.resumeJson.trim()) {
+      const result = parseResumeJson(form.resumeJson);
+      if (!result.ok) {
+        ctx.addIssue({ code: "custom", path: ["resumeJson"], message: `resumeJson is invalid: ${result.errors.join("; ")}` });
+      }
+      return;
+    }
+    if (!form.originalCV.trim()) {
+      ctx.addIssue({ code: "custom", path: ["originalCV"], message: "originalCV is required" });
+    }
+    if (!form.extensiveCV.trim()) {
+      ctx.addIssue({ code: "custom", path: ["extensiveCV"], message: "extensiveCV is required" });
+    }
+  })
+  .transform((form) => {
+    if (!form.resumeJson.trim()) {
+      return form;
+    }
+    const result = parseResumeJson(form.resumeJson);
+    if (!result.ok) {
+      return form;
+    }
+    return {
+      ...form,
+      originalCV: form.originalCV.trim() ? form.originalCV : renderResumeLatex(result.resume),
+      extensiveCV: form.extensiveCV.trim() ? form.extensiveCV : JSON.stringify(result.resume, null, 2),
+    };
+  });
+
 export type ParsedForm = z.infer<typeof formSchema>;
 
 export function normalizeFormData(formData: FormData): Record<string, string> {
@@ -1,3 +1,7 @@
+import type { AtsComparison } from "@/lib/ats/keyword-score";
+import type { GroundingReport } from "@/lib/grounding/claims";
+import { FOLLOW_UP_METADATA_KEY, FOLLOW_UP_NEXT_DUE_KEY, nextFollowUpDueAt, type FollowUpSequence } from "@/lib/follow-ups";
+import { INTERVIEW_PREP_METADATA_KEY, type InterviewPrepPack } from "@/lib/interview-prep";
 import { sessionRepository } from "@/lib/session";
 import { sanitizeFirestoreMap } from "./object-utils";
 import type { ParsedForm } from "./form";
@@ -10,7 +14,7 @@ async function persistSessionSuccess(
   parsedEmails: string[],
   cvPreview?: string | null,
   cvFullLatex?: string | null,
-  coverLetter?: { content?: string; subject?: string; body?: string; toAddress?: string },
+  coverLetter?: { content?: string; subject?: string; body?: string; toAddress?: string; grounding?: GroundingReport },
   coldEmail?: { content?: string; subject?: string; body?: string; toAddress?: string },
   cvPageCount?: number | null,
   cvChangeSummary?: string | null,
@@ -19,6 +23,11 @@ async function persistSessionSuccess(
   cvErrorLog?: string | null,
   cvErrorLineNumbers?: number[] | null,
   cvErrors?: Array<{ message: string; lineNumbers?: number[] }> | null,
+  cvAts?: AtsComparison | null,
+  followUps?: FollowUpSequence | null,
+  interviewPrep?: InterviewPrepPack | null,
+  promptVersions?: Record<string, string> | null,
+  cvGrounding?: GroundingReport | null,
 ) {
   const now = new Date().toISOString();
   const maxGenerations = 6;
@@ -68,6 +77,7 @@ async function persistSessionSuccess(
         lastGeneratedAt: new Date().toISOString(),
         lastGenerationId: parsed.generationId,
         mode: parsed.mode,
+        cvProfileId: parsed.cvProfileId || undefined,
         cvPageCount,
         cvFullLatex: cvFullLatex ?? undefined,
         cvGenerations: upsertGeneration(existingCvGenerations, {
@@ -79,6 +89,9 @@ async function persistSessionSuccess(
           errorLog: cvErrorLog ?? undefined,
           errorLineNumbers: cvErrorLineNumbers ?? undefined,
           errors: cvErrors ?? undefined,
+          ats: cvAts ?? undefined,
+          promptVersions: promptVersions ?? undefined,
+          grounding: cvGrounding ?? undefined,
           createdAt: now,
         }),
         coverLetterGenerations: coverLetter?.content
@@ -86,6 +99,7 @@ async function persistSessionSuccess(
               generationId: parsed.generationId,
               content: coverLetter.content,
               status: "success",
+              grounding: coverLetter.grounding ?? undefined,
               createdAt: now,
             })
           : existingCoverLetterGenerations,
@@ -93,9 +107,18 @@ async function persistSessionSuccess(
         coldEmailSubject: coldEmail?.subject,
         coldEmailBody: coldEmail?.body,
         coldEmailTo: coldEmail?.toAddress,
+        // A fresh sequence replaces the previous one; generations without one keep it.
+        ...(followUps
+          ? { [FOLLOW_UP_METADATA_KEY]: followUps, [FOLLOW_UP_NEXT_DUE_KEY]: nextFollowUpDueAt(followUps) }
+          : {}),
+        ...(interviewPrep
+          ? { [INTERVIEW_PREP_METADATA_KEY]: { generationId: parsed.generationId, createdAt: now, pack: interviewPrep } }
+          : {}),
         cvChangeSummary: cvChangeSummary || undefined,
         activeHoldKey: null,
         processingHoldStartedAt: null,
+        activeGenerationId: null,
+        resumableGenerationId: null,
       }),
     },
     userId,
@@ -105,6 +128,8 @@ async function persistSessionSuccess(
 type FailureMetadata = {
   generationId?: string;
   message?: string;
+  /** The run saved checkpoints, so it can be resumed from the failed step. */
+  resumable?: boolean;
 };
 
 async function persistSessionFailure(sessionId: string, userId: string, failure?: FailureMetadata) {
@@ -135,6 +160,8 @@ async function persistSessionFailure(sessionId: string, userId: string, failure?
           ...existingMetadata,
           activeHoldKey: null,
           processingHoldStartedAt: null,
+          activeGenerationId: null,
+          resumableGenerationId: failure?.resumable ? failure.generationId ?? null : null,
           lastGenerationId: failure?.generationId ?? existingMetadata.lastGenerationId,
           cvGenerations:
             failure?.generationId
@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+
+import { env } from "@/env";
+import { scheduleChatLog } from "@/lib/logging/audit";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { getJobQueue } from "@/lib/jobs/types";
+import { runWithRequestIdContext } from "@/lib/logging/request-id-context";
+import { quotaService, QuotaExceededError } from "@/lib/security/quota-service";
+import { sessionRepository } from "@/lib/session";
+import { estimateGenerationHold } from "@/lib/token-usage-store";
+import { appendGenerationLog, startGenerationLog } from "@/lib/logging/generation-logs";
+
+import type { ParsedForm } from "./form";
+import { createImmediateStream, createStreamController, type StreamResult } from "./stream";
+import { followQueuedGeneration, kickGenerationWorker } from "./worker";
+import { PROCESSING_TIMEOUT_MS } from "./constants";
+import { persistence } from "./persistence";
+import { isModelOverloadedError } from "./errors";
+import { sanitizeFirestoreMap } from "./object-utils";
+
+const sessionLogger = createDebugLogger('generate-session');
+const requestLogger = createDebugLogger('generate-request');
+
+type StartOptions = {
+  requestId?: string;
+};
+
+/**
+ * Places the quota hold, marks the session as processing, and queues the
+ * generation job for a worker. The returned stream follows the job while a
+ * worker on this instance runs it. Shared by fresh generations and resumes.
+ */
+export async function startGeneration(parsed: ParsedForm, options: StartOptions): Promise<{ stream: StreamResult }> {
+  const { requestId } = options;
+  const holdIdentifier = requestId ?? randomUUID();
+  const holdKey = `${parsed.sessionId}:${holdIdentifier}`;
+
+  return runWithRequestIdContext(requestId, async () => {
+    let userId = "";
+    let holdPlaced = false;
+    let holdReleased = false;
+    try {
+      const tokens = await requireServerAuthTokens();
+      const decodedToken = tokens.decodedToken as Record<string, unknown> & { uid?: string; name?: string; displayName?: string };
+      userId = decodedToken.uid ?? "";
+      if (!userId) {
+        throw new Error("Authenticated user is missing uid");
+      }
+      const userDisplayName =
+        (typeof decodedToken.name === "string" && decodedToken.name.trim().length ? decodedToken.name : null) ??
+        (typeof decodedToken.displayName === "string" && decodedToken.displayName.trim().length ? decodedToken.displayName : null);
+      const processingStartedAt = new Date();
+      const processingDeadline = new Date(processingStartedAt.getTime() + PROCESSING_TIMEOUT_MS);
+      try {
+        sessionLogger.step("Placing quota hold", { userId, sessionId: parsed.sessionId, holdKey });
+        await quotaService.placeHold({
+          uid: userId,
+          sessionId: holdKey,
+          amount: await estimateGenerationHold(userId),
+          minAmount: 1,
+        });
+        holdPlaced = true;
+        await sessionRepository.updateSession(
+          parsed.sessionId,
+          {
+            status: 'processing',
+            processingStartedAt,
+            processingDeadline,
+            metadata: sanitizeFirestoreMap({
+              activeHoldKey: holdKey,
+              processingHoldStartedAt: processingStartedAt.toISOString(),
+              activeGenerationId: parsed.generationId,
+              resumableGenerationId: null,
+            }),
+          },
+          userId,
+        );
+      } catch (error) {
+        sessionLogger.warn("Failed to place quota hold or update session", {
+          error: error instanceof Error ? error.message : String(error),
+          holdPlaced,
+        });
+        if (holdPlaced) {
+          await quotaService
+            .releaseHold({ uid: userId, sessionId: holdKey, refund: true })
+            .catch((releaseError) =>
+              sessionLogger.warn('Failed to release hold after session update error', {
+                holdKey,
+                error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+              }),
+            );
+          holdReleased = true;
+        }
+        if (error instanceof QuotaExceededError) {
+          return {
+            stream: createImmediateStream(
+              `Token limit reached. Email ${env.CONTACT_EMAIL} to request more allocation.`,
+            ),
+          };
+        }
+        throw error;
+      }
+
+      await startGenerationLog(parsed.sessionId, userId, parsed.generationId);
+      await getJobQueue().enqueue({
+        id: parsed.generationId,
+        userId,
+        sessionId: parsed.sessionId,
+        payload: JSON.stringify(parsed),
+        userDisplayName,
+        requestId: requestId ?? null,
+        holdKey,
+        maxAttempts: env.JOB_MAX_ATTEMPTS,
+      });
+      void appendGenerationLog(parsed.sessionId, userId, parsed.generationId, {
+        content: 'Queued generation request. Waiting for a worker.',
+        level: 'info',
+      });
+      sessionLogger.step("Generation job queued", { sessionId: parsed.sessionId, generationId: parsed.generationId });
+
+      const { readable, emit, ...publisher } = createStreamController(parsed.generationId, {
+        userId,
+        sessionId: parsed.sessionId,
+      });
+      await emit('Queued generation request. Waiting for a worker...');
+      followQueuedGeneration(parsed.generationId, { emit, ...publisher });
+      kickGenerationWorker();
+
+      return { stream: readable };
+    } catch (error) {
+      const internalMessage = error instanceof Error ? error.message : String(error);
+      requestLogger.error("Generation start failed", {
+        requestId: requestId ?? null,
+        sessionId: parsed.sessionId,
+        error: internalMessage,
+      });
+
+      if (holdPlaced && !holdReleased && userId) {
+        await quotaService.releaseHold({ uid: userId, sessionId: holdKey, refund: true }).catch((releaseError) => {
+          sessionLogger.warn('Failed to release hold after start failure', {
+            sessionId: parsed.sessionId,
+            holdKey,
+            error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+          });
+        });
+      }
+
+      if (userId) {
+        await persistence.persistSessionFailure(parsed.sessionId, userId, {
+          generationId: parsed.generationId,
+          message: internalMessage,
+        });
+        scheduleChatLog({
+          sessionId: parsed.sessionId,
+          userId,
+          level: 'error',
+          message: `Generation failed: ${internalMessage}`,
+          payload: { generationId: parsed.generationId },
+        });
+      }
+
+      const userMessage = isModelOverloadedError(error)
+        ? 'Our AI provider is temporarily overloaded. Please try again in a few minutes.'
+        : internalMessage || 'Unable to start generation. Please try again.';
+
+      return { stream: createImmediateStream(userMessage) };
+    }
+  });
+}
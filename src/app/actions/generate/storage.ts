@@ -1,12 +1,19 @@
 import { env } from "@/env";
 import { aiService } from "@/lib/ai/service";
+import type { AtsComparison } from "@/lib/ats/keyword-score";
+import type { GroundingReport } from "@/lib/grounding/claims";
 import type { DocumentService } from "@/lib/document-service";
+import type { DocxBlock } from "@/lib/docx/document-blocks";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { fitLatexToPageCount } from "@/lib/page-fit";
+import { buildProxiedDownloadUrl } from "@/lib/storage/path-builder";
 import { getStorageProvider } from "@/lib/storage/types";
 
 import type { ParsedForm } from "./form";
 
 // Note: storage is still required for non-CV artifacts, but CV no longer uploads PDFs.
 const storageProvider = getStorageProvider();
+const logger = createDebugLogger("cv-storage");
 let _documentService: DocumentService | null = null;
 
 async function getDocumentService() {
@@ -21,6 +28,7 @@ export type StoredArtifact = {
   payload: {
     content: string;
     downloadUrl: string;
+    docxDownloadUrl?: string;
     storageKey: string;
     mimeType: string;
     metadata?: Record<string, unknown>;
@@ -41,7 +49,11 @@ export type StoredArtifact = {
       errorLog?: string;
       errorLineNumbers?: number[];
       errors?: Array<{ message: string; lineNumbers?: number[] }>;
+      ats?: AtsComparison;
+      grounding?: GroundingReport;
     }>;
+    /** Fact check of the latest text; stored versions carry their own. */
+    grounding?: GroundingReport;
   };
   generatedFile: {
     key: string;
@@ -55,7 +67,7 @@ export async function persistCvArtifact(
   cv: string,
   parsed: ParsedForm,
   _userDisplayName?: string,
-): Promise<{ cv: string; result: { pageCount: number | null } }> {
+): Promise<{ cv: string; result: { pageCount: number | null; text?: string } }> {
   void _userDisplayName;
   const svc = await getDocumentService();
   const targetPageCount = env.TARGET_PAGE_COUNT;
@@ -63,10 +75,34 @@ export async function persistCvArtifact(
   // First pass: render without uploading to validate page count.
   const initial = await svc.renderLatexEphemeral(cv);
   if (initial.pageCount === targetPageCount) {
-    return { cv, result: { pageCount: initial.pageCount } };
+    return { cv, result: { pageCount: initial.pageCount, text: initial.text } };
   }
 
-  // Attempt to fix page count if off-target.
+  // Layout-only adjustments first: they keep the wording and cost only local compiles.
+  const fitted = await fitLatexToPageCount({
+    latex: cv,
+    pageCount: initial.pageCount,
+    targetPageCount,
+    jobDescription: parsed.jobDescription,
+    render: (source) => svc.renderLatexEphemeral(source),
+    maxCompiles: env.PAGE_FIT_MAX_COMPILES,
+  }).catch((error) => {
+    logger.warn("Page fit compile failed; falling back to AI", { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  });
+  if (fitted) {
+    logger.info("CV fitted to page count by layout", {
+      sessionId: parsed.sessionId,
+      from: initial.pageCount,
+      layoutStep: fitted.layoutStep,
+      bulletsRemoved: fitted.bulletsRemoved,
+      compiles: fitted.compiles,
+    });
+    return { cv: fitted.latex, result: { pageCount: fitted.pageCount, text: fitted.text } };
+  }
+  logger.step("Layout fit could not reach target; asking AI to rewrite", { sessionId: parsed.sessionId, from: initial.pageCount });
+
+  // Rewrite the content when layout alone cannot reach the target.
   const fixedCv = await aiService.fixCVPageCount({
     failedCV: cv,
     actualPageCount: initial.pageCount ?? undefined,
@@ -78,7 +114,14 @@ export async function persistCvArtifact(
     throw new Error("Failed to produce a two-page CV PDF");
   }
 
-  return { cv: fixedCv, result: { pageCount: retry.pageCount } };
+  return { cv: fixedCv, result: { pageCount: retry.pageCount, text: retry.text } };
+}
+
+/** Compiles LaTeX only to read back its text layer; used to score CVs that were never persisted. */
+export async function renderCvPlainText(latex: string): Promise<string> {
+  const svc = await getDocumentService();
+  const { text } = await svc.renderLatexEphemeral(latex);
+  return text;
 }
 
 export async function saveTextArtifact(
@@ -119,3 +162,34 @@ export async function saveTextArtifact(
     },
   };
 }
+
+export async function saveDocxArtifact(
+  blocks: DocxBlock[],
+  parsed: ParsedForm,
+  userId: string,
+  artifactName: string,
+  artifactCategory: string,
+  label: string,
+): Promise<StoredArtifact["generatedFile"]> {
+  const svc = await getDocumentService();
+  const { DOCX_MIME_TYPE } = await import("@/lib/document-service");
+  const upload = await svc.saveDocxArtifact({
+    blocks,
+    storage: {
+      scope: "user",
+      userId,
+      requestId: parsed.sessionId,
+      artifactName,
+      artifactCategory,
+    },
+    metadata: { sessionId: parsed.sessionId, companyName: parsed.companyName },
+  });
+
+  // Signed URLs expire, so cards link through the authenticated download proxy instead.
+  return {
+    key: upload.key,
+    url: `${buildProxiedDownloadUrl(upload.key)}&disposition=attachment`,
+    label,
+    mimeType: DOCX_MIME_TYPE,
+  };
+}
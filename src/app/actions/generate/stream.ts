@@ -1,48 +1,44 @@
-const encoder = new TextEncoder();
+import {
+  createFailedEventStream,
+  createGenerationEventStream,
+  openGenerationChannel,
+} from "@/lib/generation-event-hub";
+import type { GenerationEvent } from "@/lib/generation-events";
 
 export type StreamResult = ReadableStream<Uint8Array>;
 
 export function createImmediateStream(message: string): StreamResult {
-  return new ReadableStream<Uint8Array>({
-    start(controller) {
-      controller.enqueue(encoder.encode(`${message}\n`));
-      controller.close();
-    },
-  });
+  return createFailedEventStream(message);
 }
 
-export function createStreamController() {
-  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-  const writer = writable.getWriter();
-  let closed = false;
-  // Client navigation can close the WritableStream before we finish emitting server events; quietly ignore that case.
-  const isClosedError = (error: unknown) =>
-    error instanceof TypeError && typeof error.message === 'string' && error.message.includes('WritableStream is closed');
+/**
+ * Publishing side of a generation's event channel, used by the worker that
+ * runs it. `emit` publishes a step line; `send` publishes any typed event.
+ * The workflow keeps publishing after the client disconnects so it can
+ * reconnect through `/api/generate/events`.
+ */
+export function attachStreamPublisher(generationId: string, owner: { userId: string; sessionId: string }) {
+  const channel = openGenerationChannel(generationId, owner);
   const emit = async (message: string) => {
-    if (closed) {
-      return;
-    }
-    try {
-      await writer.write(encoder.encode(`${message}\n`));
-    } catch (error) {
-      if (!isClosedError(error)) {
-        throw error;
-      }
-      closed = true;
-    }
+    channel.publish({ type: "step", message });
+  };
+  const send = (event: GenerationEvent) => {
+    channel.publish(event);
   };
   const close = async () => {
-    if (closed) {
-      return;
-    }
-    closed = true;
-    try {
-      await writer.close();
-    } catch (error) {
-      if (!isClosedError(error)) {
-        throw error;
-      }
-    }
+    channel.close();
   };
-  return { readable, emit, close };
+  return { emit, send, close, detach: channel.detach };
+}
+
+export type StreamPublisher = ReturnType<typeof attachStreamPublisher>;
+
+/** Opens the event channel for a queued generation and returns the SSE stream for the initiating request. */
+export function createStreamController(generationId: string, owner: { userId: string; sessionId: string }) {
+  const publisher = attachStreamPublisher(generationId, owner);
+  const readable = createGenerationEventStream(generationId, owner.userId);
+  if (!readable) {
+    throw new Error(`Generation channel ${generationId} could not be opened`);
+  }
+  return { readable, ...publisher };
 }
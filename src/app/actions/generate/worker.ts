@@ -0,0 +1,480 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+
+import { env } from "@/env";
+import { scheduleChatLog, scheduleUsageLog } from "@/lib/logging/audit";
+import { createPromptUsageScope } from "@/lib/ai/prompt-usage";
+import { createTokenUsageScope } from "@/lib/ai/token-scope";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { clearGenerationCheckpoints, loadGenerationCheckpoints } from "@/lib/generation-checkpoints";
+import { scopeTokenAttempt, type GenerationEvent } from "@/lib/generation-events";
+import { canRetry, hasExhaustedAttempts, type GenerationJob } from "@/lib/jobs/policy";
+import { getJobQueue } from "@/lib/jobs/types";
+import { runWithRequestIdContext } from "@/lib/logging/request-id-context";
+import { recordPromptRun } from "@/lib/prompt-run-store";
+import { quotaService, QuotaExceededError } from "@/lib/security/quota-service";
+import { sessionRepository } from "@/lib/session";
+import { estimateGenerationHold, recordTokenUsage } from "@/lib/token-usage-store";
+import { quotaUnitsForTokens } from "@/lib/token-usage";
+import { appendGenerationLog, finalizeGenerationLog, startGenerationLog } from "@/lib/logging/generation-logs";
+
+import type { ParsedForm } from "./form";
+import { attachStreamPublisher, type StreamPublisher } from "./stream";
+import { runGenerationWorkflow } from "./workflow";
+import { createWorkflowCheckpoints } from "./workflow/checkpoints";
+import type { WorkflowResult } from "./workflow/types";
+import { PROCESSING_TIMEOUT_MS } from "./constants";
+import { persistence } from "./persistence";
+import { isModelOverloadedError } from "./errors";
+import { sanitizeFirestoreMap } from "./object-utils";
+
+/**
+ * Runs queued generation jobs inside the server process. Every instance
+ * started with JOB_WORKER_ENABLED polls the queue, claims jobs under a lease,
+ * and renews the lease while the workflow runs; a job whose instance dies is
+ * claimed again by another worker once the lease lapses. Failed attempts are
+ * retried with backoff, reusing the checkpoints of the steps that finished,
+ * and a job that runs out of attempts is dead-lettered.
+ */
+
+const LEASE_MS = 2 * 60_000;
+const LEASE_RENEW_MS = 30_000;
+const POLL_INTERVAL_MS = 15_000;
+const REMOTE_CLAIM_CHECK_MS = 30_000;
+
+type AbortReason = "cancelled" | "timeout" | "lease-lost";
+
+type WorkerState = {
+  workerId: string;
+  running: Map<string, AbortController>;
+  polling: boolean;
+};
+
+declare global {
+  // The worker is started from instrumentation while requests enqueue from route bundles;
+  // both reach the same worker through this process-wide handle.
+  var __generationWorker__: WorkerState | undefined;
+}
+
+const logger = createDebugLogger("generation-worker");
+
+const USER_MESSAGES = {
+  cancelled: "Generation cancelled.",
+  timeout: "Generation timed out after 45 minutes. Resume it to try again.",
+  overloaded: "Our AI provider is temporarily overloaded. Please try again in a few minutes.",
+  abandoned: "Generation stopped responding on every attempt. Resume it to try again.",
+  quota: () => `Token limit reached. Email ${env.CONTACT_EMAIL} to request more allocation.`,
+  internal: () => `Generation failed due to an internal error. Email ${env.CONTACT_EMAIL} if it keeps happening.`,
+};
+
+export function startGenerationWorker(): void {
+  if (globalThis.__generationWorker__) {
+    return;
+  }
+  const state: WorkerState = {
+    workerId: `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`,
+    running: new Map(),
+    polling: false,
+  };
+  globalThis.__generationWorker__ = state;
+  const timer = setInterval(() => void poll(state), POLL_INTERVAL_MS);
+  timer.unref?.();
+  logger.info("Generation worker started", {
+    workerId: state.workerId,
+    provider: env.JOB_QUEUE_PROVIDER,
+    concurrency: env.JOB_WORKER_CONCURRENCY,
+  });
+  void poll(state);
+}
+
+/** Polls right away instead of waiting for the next interval; a no-op where no worker runs. */
+export function kickGenerationWorker(): void {
+  const state = globalThis.__generationWorker__;
+  if (state) {
+    void poll(state);
+  }
+}
+
+/** Aborts a job running on this instance. Returns false when it runs elsewhere or not at all. */
+export function abortLocalGeneration(jobId: string): boolean {
+  const controller = globalThis.__generationWorker__?.running.get(jobId);
+  if (!controller) {
+    return false;
+  }
+  controller.abort("cancelled" satisfies AbortReason);
+  return true;
+}
+
+/**
+ * Keeps the stream of a queued generation open while the job waits for this
+ * instance's worker. When another instance claims or settles it, the stream is
+ * detached and the client follows the session and generation logs instead.
+ */
+export function followQueuedGeneration(jobId: string, publisher: StreamPublisher): void {
+  const check = async () => {
+    const state = globalThis.__generationWorker__;
+    if (state?.running.has(jobId)) {
+      return;
+    }
+    const job = await getJobQueue()
+      .get(jobId)
+      .catch((error) => {
+        logger.warn("Failed to check queued job", { jobId, error: error instanceof Error ? error.message : String(error) });
+        return undefined;
+      });
+    if (job === undefined || job?.status === "queued") {
+      schedule();
+      return;
+    }
+    if (job?.status === "running" && job.leaseOwner === state?.workerId) {
+      return;
+    }
+    publisher.send({ type: "warning", message: "Generation continues on another worker. Progress will appear in the logs." });
+    publisher.detach();
+  };
+  const schedule = () => {
+    const timer = setTimeout(() => void check(), REMOTE_CLAIM_CHECK_MS);
+    timer.unref?.();
+  };
+  schedule();
+}
+
+/**
+ * Marks the generation failed, refunds its quota hold, and closes its stream.
+ * Shared by the worker and by cancellations of jobs that never started.
+ */
+export async function settleFailedGeneration(
+  job: GenerationJob,
+  failure: { userMessage: string; internalMessage: string; level: "warning" | "error" },
+  publisher?: StreamPublisher,
+): Promise<void> {
+  const { sessionId, userId, id: generationId } = job;
+  void appendGenerationLog(sessionId, userId, generationId, {
+    content: failure.level === "warning" ? failure.userMessage : `Generation failed: ${failure.internalMessage}`,
+    level: failure.level,
+  }).catch((logError) => logger.warn("Failed to append failure log", { error: String(logError) }));
+
+  try {
+    await finalizeGenerationLog(sessionId, userId, generationId, "failed", failure.internalMessage);
+  } catch (logError) {
+    logger.warn("Failed to finalize generation log", { sessionId, error: String(logError) });
+  }
+
+  publisher?.send({ type: "error", message: failure.userMessage });
+  await persistence.persistSessionFailure(sessionId, userId, {
+    generationId,
+    message: failure.internalMessage,
+    resumable: true,
+  });
+  await quotaService.releaseHold({ uid: userId, sessionId: job.holdKey, refund: true }).catch((releaseError) => {
+    logger.warn("Failed to release quota hold", {
+      sessionId,
+      holdKey: job.holdKey,
+      error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+    });
+  });
+  scheduleChatLog({
+    sessionId,
+    userId,
+    level: failure.level === "warning" ? "info" : "error",
+    message: `Generation failed: ${failure.userMessage}`,
+    payload: { generationId },
+  });
+  publisher?.send({ type: "final", status: "failed", message: failure.userMessage });
+  await publisher?.close();
+}
+
+async function poll(state: WorkerState): Promise<void> {
+  if (state.polling) {
+    return;
+  }
+  state.polling = true;
+  try {
+    const queue = getJobQueue();
+    while (state.running.size < env.JOB_WORKER_CONCURRENCY) {
+      const job = await queue.claim(state.workerId, LEASE_MS);
+      if (!job) {
+        break;
+      }
+      void processJob(state, job).finally(() => void poll(state));
+    }
+  } catch (error) {
+    logger.warn("Failed to poll generation queue", { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    state.polling = false;
+  }
+}
+
+async function processJob(state: WorkerState, job: GenerationJob): Promise<void> {
+  const controller = new AbortController();
+  state.running.set(job.id, controller);
+  const queue = getJobQueue();
+  const publisher = attachStreamPublisher(job.id, { userId: job.userId, sessionId: job.sessionId });
+
+  const run = async () => {
+    if (hasExhaustedAttempts(job)) {
+      logger.warn("Dead-lettering job whose final attempt stopped responding", { jobId: job.id, attempts: job.attempts });
+      await settleFailedGeneration(
+        job,
+        { userMessage: USER_MESSAGES.abandoned, internalMessage: job.lastError ?? "Worker lease lapsed", level: "error" },
+        publisher,
+      );
+      await queue.finish(job.id, state.workerId, "dead", "Worker lease lapsed on the final attempt.");
+      return;
+    }
+
+    const renewTimer = setInterval(() => {
+      void queue
+        .renewLease(job.id, state.workerId, LEASE_MS)
+        .then((current) => {
+          if (!current) {
+            controller.abort("lease-lost" satisfies AbortReason);
+          } else if (current.cancelRequested) {
+            controller.abort("cancelled" satisfies AbortReason);
+          }
+        })
+        .catch((error) => logger.warn("Failed to renew job lease", { jobId: job.id, error: String(error) }));
+    }, LEASE_RENEW_MS);
+    const timeoutId = setTimeout(() => controller.abort("timeout" satisfies AbortReason), PROCESSING_TIMEOUT_MS);
+
+    try {
+      await runAttempt(job, publisher, controller.signal);
+      await queue.finish(job.id, state.workerId, "succeeded", null);
+    } catch (error) {
+      const reason = controller.signal.aborted ? (controller.signal.reason as AbortReason) : null;
+      await handleFailedAttempt(state, job, error, reason, publisher);
+    } finally {
+      clearInterval(renewTimer);
+      clearTimeout(timeoutId);
+    }
+  };
+
+  try {
+    await runWithRequestIdContext(job.requestId, run);
+  } catch (error) {
+    logger.error("Generation job crashed", { jobId: job.id, error: error instanceof Error ? error.message : String(error) });
+    await publisher.close();
+  } finally {
+    state.running.delete(job.id);
+  }
+}
+
+async function runAttempt(job: GenerationJob, publisher: StreamPublisher, signal: AbortSignal): Promise<void> {
+  const parsed = JSON.parse(job.payload) as ParsedForm;
+  const { userId } = job;
+  const { emit } = publisher;
+  const send = (event: GenerationEvent) => publisher.send(scopeTokenAttempt(event, job.attempts));
+
+  // The hold placed at enqueue time lapses after holdTimeoutMinutes, which a job
+  // that waits, retries and backs off easily outlives; an expired hold would be
+  // refunded and the final commit would charge nothing. placeHold refreshes an
+  // active hold's expiry, or places it again once it has lapsed.
+  await quotaService.placeHold({
+    uid: userId,
+    sessionId: job.holdKey,
+    amount: await estimateGenerationHold(userId),
+    minAmount: 1,
+  });
+
+  const processingStartedAt = new Date();
+
+  // Retries and recovered jobs restart the processing clock the session's timeout checks use.
+  await sessionRepository.updateSession(
+    parsed.sessionId,
+    {
+      status: "processing",
+      processingStartedAt,
+      processingDeadline: new Date(processingStartedAt.getTime() + PROCESSING_TIMEOUT_MS),
+      metadata: sanitizeFirestoreMap({
+        processingHoldStartedAt: processingStartedAt.toISOString(),
+        activeGenerationId: parsed.generationId,
+      }),
+    },
+    userId,
+  );
+
+  logger.step("Starting generation workflow", { sessionId: parsed.sessionId, jobId: job.id, attempt: job.attempts });
+  await startGenerationLog(parsed.sessionId, userId, parsed.generationId);
+  const saved = await loadGenerationCheckpoints(parsed.sessionId, parsed.generationId);
+  const savedSteps = Object.keys(saved).length;
+  void appendGenerationLog(parsed.sessionId, userId, parsed.generationId, {
+    content:
+      job.attempts > 1
+        ? `Retrying generation (attempt ${job.attempts} of ${job.maxAttempts}) with ${savedSteps} saved step(s).`
+        : savedSteps
+          ? `Resuming generation with ${savedSteps} saved step(s).`
+          : "Worker picked up the generation request. Preparing context.",
+    level: "info",
+  });
+  const checkpoints = createWorkflowCheckpoints({ parsed, saved, emit, logger });
+  const prompts = createPromptUsageScope({ userId, generationId: parsed.generationId });
+  const tokens = createTokenUsageScope();
+  let result: WorkflowResult;
+  try {
+    result = await prompts.run(() =>
+      tokens.run(() =>
+        runGenerationWorkflow({
+          parsed,
+          userId,
+          userDisplayName: job.userDisplayName,
+          emit,
+          send,
+          checkpoints,
+          signal,
+          log: ({ content, level }) => {
+            void appendGenerationLog(parsed.sessionId, userId, parsed.generationId, { content, level });
+          },
+        }),
+      ),
+    );
+  } finally {
+    // Failed attempts spent tokens too; they are recorded but never charged.
+    void recordTokenUsage({ generationId: parsed.generationId, userId, sessionId: parsed.sessionId, usage: tokens.usage() }).catch(
+      (recordError) =>
+        logger.warn("Failed to record token usage", {
+          sessionId: parsed.sessionId,
+          error: recordError instanceof Error ? recordError.message : String(recordError),
+        }),
+    );
+  }
+  const promptUsage = prompts.usage();
+  const tokenUsage = tokens.usage();
+  void appendGenerationLog(parsed.sessionId, userId, parsed.generationId, {
+    content: "Artifacts saved. Finalizing session metadata...",
+    level: "info",
+  });
+  const latestVersion = result.cvArtifact.payload.versions?.[0];
+  await persistence.persistSessionSuccess(
+    parsed,
+    userId,
+    result.generatedFiles,
+    result.parsedEmails,
+    result.cvArtifact.payload.content ?? null,
+    result.cvArtifact.payload.content ?? null,
+    result.coverLetterArtifact?.payload,
+    result.coldEmailArtifact?.payload,
+    result.cvArtifact.payload.pageCount,
+    result.cvArtifact.payload.changeSummary ?? null,
+    latestVersion?.status === "failed" ? "failed" : "success",
+    latestVersion?.message ?? null,
+    latestVersion?.errorLog ?? null,
+    latestVersion?.errorLineNumbers ?? null,
+    latestVersion?.errors ?? null,
+    latestVersion?.ats ?? null,
+    result.followUps,
+    result.interviewPrep,
+    Object.fromEntries(Object.entries(promptUsage).map(([key, { version }]) => [key, version])),
+    latestVersion?.grounding ?? null,
+  );
+  send({ type: "final", status: "completed", artifacts: result.artifactsPayload });
+  void recordPromptRun({
+    generationId: parsed.generationId,
+    userId,
+    sessionId: parsed.sessionId,
+    prompts: promptUsage,
+    cvStatus: latestVersion?.status === "failed" ? "failed" : latestVersion ? "success" : null,
+  }).catch((recordError) =>
+    logger.warn("Failed to record prompt run", {
+      sessionId: parsed.sessionId,
+      error: recordError instanceof Error ? recordError.message : String(recordError),
+    }),
+  );
+  void clearGenerationCheckpoints(parsed.sessionId, parsed.generationId).catch((clearError) =>
+    logger.warn("Failed to clear generation checkpoints", {
+      sessionId: parsed.sessionId,
+      error: clearError instanceof Error ? clearError.message : String(clearError),
+    }),
+  );
+
+  scheduleChatLog({
+    sessionId: parsed.sessionId,
+    userId,
+    level: "success",
+    message: "Generation completed successfully",
+    payload: { companyName: parsed.companyName, jobTitle: parsed.jobTitle, generationId: parsed.generationId },
+  });
+  await appendGenerationLog(parsed.sessionId, userId, parsed.generationId, {
+    content: "Generation sequence completed successfully. Finalizing artifacts.",
+    level: "success",
+  });
+  await finalizeGenerationLog(parsed.sessionId, userId, parsed.generationId, "completed", "Generation completed successfully");
+
+  scheduleUsageLog({
+    sessionId: parsed.sessionId,
+    userId,
+    metadata: {
+      artifacts: Object.keys(result.generatedFiles),
+      companyName: parsed.companyName,
+      jobTitle: parsed.jobTitle,
+      storageKeys: Object.values(result.generatedFiles).map((file) => file.key),
+      tokenUsage: { totalTokens: tokenUsage.totalTokens, costUsd: tokenUsage.costUsd },
+    },
+  });
+  const consumedUnits = quotaUnitsForTokens(tokenUsage.totalTokens, env.QUOTA_TOKENS_PER_UNIT);
+  await quotaService.commitHold(userId, job.holdKey, consumedUnits).catch((commitError) => {
+    logger.warn("Failed to commit quota hold", {
+      sessionId: parsed.sessionId,
+      holdKey: job.holdKey,
+      error: commitError instanceof Error ? commitError.message : String(commitError),
+    });
+  });
+  logger.info("Generation workflow completed successfully", { sessionId: parsed.sessionId, jobId: job.id });
+}
+
+async function handleFailedAttempt(
+  state: WorkerState,
+  job: GenerationJob,
+  error: unknown,
+  reason: AbortReason | null,
+  publisher: StreamPublisher,
+): Promise<void> {
+  const queue = getJobQueue();
+  const internalMessage = error instanceof Error ? error.message : String(error);
+  const overloaded = isModelOverloadedError(error);
+  logger[reason === "cancelled" ? "info" : "error"]("Generation attempt failed", {
+    jobId: job.id,
+    sessionId: job.sessionId,
+    attempt: job.attempts,
+    reason,
+    error: internalMessage,
+    errorName: error instanceof Error ? error.name : typeof error,
+  });
+
+  if (reason === "lease-lost") {
+    // Another worker has taken the job over; it owns the session from here.
+    publisher.detach();
+    return;
+  }
+
+  const quotaExceeded = error instanceof QuotaExceededError;
+  if (!reason && !quotaExceeded && canRetry(job)) {
+    const retried = await queue.retry(job.id, state.workerId, internalMessage);
+    if (retried) {
+      const seconds = Math.round((Date.parse(retried.runAfter) - Date.now()) / 1000);
+      const message = `${overloaded ? "AI provider overloaded" : `Attempt ${job.attempts} failed`}. Retrying in ${seconds}s (attempt ${job.attempts + 1} of ${job.maxAttempts}).`;
+      void appendGenerationLog(job.sessionId, job.userId, job.id, { content: message, level: "warning" }).catch((logError) =>
+        logger.warn("Failed to append retry log", { error: String(logError) }),
+      );
+      publisher.send({ type: "warning", message });
+      followQueuedGeneration(job.id, publisher);
+      return;
+    }
+  }
+
+  const userMessage =
+    reason === "cancelled"
+      ? USER_MESSAGES.cancelled
+      : reason === "timeout"
+        ? USER_MESSAGES.timeout
+        : quotaExceeded
+          ? USER_MESSAGES.quota()
+          : overloaded
+            ? USER_MESSAGES.overloaded
+            : USER_MESSAGES.internal();
+  await settleFailedGeneration(
+    job,
+    { userMessage, internalMessage, level: reason === "cancelled" ? "warning" : "error" },
+    publisher,
+  );
+  await queue.finish(job.id, state.workerId, reason === "cancelled" ? "cancelled" : "dead", internalMessage);
+}
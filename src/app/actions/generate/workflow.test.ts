@@ -0,0 +1,149 @@
+import { rmSync } from "node:fs";
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const storageDir = vi.hoisted(() => {
+  const dir = `${process.cwd()}/tmp/workflow-replay-storage`;
+  Object.assign(process.env, {
+    FIXTURE_MODE: "replay",
+    FIXTURE_DIR: `${process.cwd()}/fixtures/workflow-replay`,
+    AI_PROVIDER: "gemini",
+    GEMINI_API_KEY: "",
+    APOLLO_API_KEY: "",
+    STORAGE_PROVIDER: "local",
+    LOCAL_STORAGE_DIR: dir,
+    TARGET_PAGE_COUNT: "2",
+    LOG_LEVEL: "error",
+    FIREBASE_PROJECT_ID: "replay-test",
+    FIREBASE_CLIENT_EMAIL: "replay@example.com",
+    FIREBASE_PRIVATE_KEY: "unused",
+    FIREBASE_API_KEY: "unused",
+    FIREBASE_AUTH_COOKIE_SIGNATURE_KEYS: "replay-test-cookie-signature-key-0001",
+    ACCESS_CONTROL_INTERNAL_TOKEN: "replay-test-internal-token-000000001",
+    CONTACT_EMAIL: "owner@example.com",
+    NEXT_PUBLIC_FIREBASE_API_KEY: "unused",
+    NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: "replay-test.firebaseapp.com",
+    NEXT_PUBLIC_FIREBASE_PROJECT_ID: "replay-test",
+    NEXT_PUBLIC_CONTACT_EMAIL: "owner@example.com",
+    NEXT_PUBLIC_REPO_URL: "https://example.com/repo",
+  });
+  return dir;
+});
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/firebase-admin", () => {
+  const offline = () => {
+    throw new Error("Firestore is not available in the replay test");
+  };
+  return { getDb: offline, getStorageBucket: offline, getAuthClient: offline };
+});
+
+// No pdflatex here: every compile "succeeds" and the PDF always reads as two pages.
+vi.mock("@/lib/latex/compile-pool", () => {
+  const pool = {
+    engine: "pdflatex",
+    timeoutMs: 60000,
+    compile: async () => ({ ok: true, pdf: Buffer.from("%PDF-1.4 replay") }),
+    engineVersion: async () => "pdflatex:replay-test",
+    metrics: () => ({}),
+  };
+  return { getLatexCompilePool: () => pool };
+});
+
+vi.mock("pdf-parse", () => ({
+  default: async () => ({ numpages: 2, text: "Jordan Rivers Platform Engineer Northwind Kubernetes Terraform AWS" }),
+}));
+
+import type { GenerationEvent } from "@/lib/generation-events";
+import { formSchema } from "./form";
+import { runGenerationWorkflow } from "./workflow";
+import type { WorkflowCheckpoints } from "./workflow/checkpoints";
+
+const fetchMock = vi.fn(async () => {
+  throw new Error("Network access is disabled in the replay test");
+});
+
+const ORIGINAL_CV = [
+  "\\documentclass[11pt]{article}",
+  "\\begin{document}",
+  "\\section*{Jordan Rivers}",
+  "\\begin{itemize}",
+  "  \\item Ran Kubernetes clusters for 40 services",
+  "  \\item Wrote Terraform modules for three AWS accounts",
+  "\\end{itemize}",
+  "\\end{document}",
+].join("\n");
+
+function inMemoryCheckpoints(): WorkflowCheckpoints {
+  const saved = new Map<string, unknown>();
+  return {
+    async run(step, _label, execute, shouldSave) {
+      const value = await execute();
+      if (!shouldSave || shouldSave(value)) {
+        saved.set(step, value);
+      }
+      return value;
+    },
+    async save(step, value) {
+      saved.set(step, value);
+    },
+    has: (step) => saved.has(step),
+  };
+}
+
+beforeAll(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  // The cover letter prompt carries today's date, which is part of the fixture key.
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-02T12:00:00Z"));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe("runGenerationWorkflow under FIXTURE_MODE=replay", () => {
+  it("produces every standard-mode artifact from recorded responses alone", async () => {
+    const parsed = formSchema.parse({
+      sessionId: "session-replay",
+      generationId: "generation-replay",
+      jobDescription: "Platform Engineer at Northwind. Own Kubernetes and Terraform for a growing AWS estate.",
+      originalCV: ORIGINAL_CV,
+      extensiveCV: "Jordan Rivers. Eight years running Kubernetes and Terraform on AWS.",
+      cvStrategy: "Lead with infrastructure automation.",
+      coverLetterStrategy: "Keep it short and concrete.",
+      companyName: "Northwind",
+      jobTitle: "Platform Engineer",
+    });
+    const events: GenerationEvent[] = [];
+    const messages: string[] = [];
+
+    const result = await runGenerationWorkflow({
+      parsed,
+      userId: "user-replay",
+      emit: async (message) => {
+        messages.push(message);
+      },
+      send: (event) => {
+        events.push(event);
+      },
+      checkpoints: inMemoryCheckpoints(),
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.researchBrief?.keywords).toContain("Kubernetes");
+    expect(result.artifactsPayload.cv).toMatchObject({ mimeType: "application/pdf", pageCount: 2 });
+    expect(result.artifactsPayload.cv?.content).toContain("Northwind");
+    expect(result.artifactsPayload.cv?.changeSummary).toContain("Kubernetes");
+    expect(result.artifactsPayload.coverLetter?.content).toContain("Dear Northwind hiring team");
+    expect(result.interviewPrep?.questions).toHaveLength(1);
+    expect(events.some((event) => event.type === "token" && event.artifact === "cv")).toBe(true);
+    expect(events.filter((event) => event.type === "artifact").map((event) => event.artifact)).toEqual(
+      expect.arrayContaining(["cv", "coverLetter", "interviewPrep"]),
+    );
+    expect(messages).toContain("CV PDF compiled successfully.");
+  });
+});
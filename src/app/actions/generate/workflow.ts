@@ -1,21 +1,39 @@
 import { createDebugLogger } from "@/lib/debug-logger";
 import { getActiveRequestId } from "@/lib/logging/request-id-context";
 
-import { maybeGenerateColdEmailArtifact } from "./workflow/cold-email";
+import { maybeDraftFollowUps, maybeGenerateColdEmailArtifact } from "./workflow/cold-email";
 import { maybeGenerateCoverLetterArtifact } from "./workflow/cover-letter";
+import { maybeGenerateInterviewPrep } from "./workflow/interview-prep";
+import { scoreCvKeywords } from "./workflow/ats";
 import { generateCvAndSummary } from "./workflow/cv";
+import { checkArtifactGrounding } from "./workflow/grounding";
+import { exportDocxArtifacts } from "./workflow/docx";
 import { enrichContactData, includePrimaryContactEmail, maybeBuildContactIntelSummary } from "./workflow/contact-intel";
 import { assertNotAborted } from "./workflow/errors";
 import { buildArtifactsPayload } from "./workflow/payloads";
 import { synthesizeResearchBrief } from "./workflow/research";
 import type { WorkflowParams, WorkflowResult, ModelRetryNotifier } from "./workflow/types";
 import type { StoredArtifact } from "./storage";
+import type { FollowUpSequence } from "@/lib/follow-ups";
+import type { GenerationArtifactName } from "@/lib/generation-events";
 
 export { RequestAbortedError } from "./workflow/errors";
 
 const actionLogger = createDebugLogger("generate-action");
 
-export async function runGenerationWorkflow({ parsed, userId, userDisplayName, emit, signal, log }: WorkflowParams): Promise<WorkflowResult> {
+/** Coarse stages reported as `progress` events: research, CV, contacts, letter/email, interview prep, artifacts. */
+const PROGRESS_STAGE_COUNT = 6;
+
+export async function runGenerationWorkflow({
+  parsed,
+  userId,
+  userDisplayName,
+  emit,
+  send,
+  checkpoints,
+  signal,
+  log,
+}: WorkflowParams): Promise<WorkflowResult> {
   const parsedEmails = parsed.emailAddresses
     .split(",")
     .map((email) => email.trim())
@@ -29,7 +47,12 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
       return;
     }
     overloadRetryNotified = true;
-    void emit(`Model is overloaded. Retrying in ${Math.round(info.delayMs / 1000)}s...`);
+    send({ type: "warning", message: `Model is overloaded. Retrying in ${Math.round(info.delayMs / 1000)}s...` });
+  };
+  let completedStages = 0;
+  const startStage = (label: string) => {
+    send({ type: "progress", completed: completedStages, total: PROGRESS_STAGE_COUNT, label });
+    completedStages += 1;
   };
   const activeRequestId = getActiveRequestId();
   if (activeRequestId) {
@@ -63,6 +86,9 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
   });
 
   assertNotAborted(signal);
+  if (!checkpoints.has("input")) {
+    await checkpoints.save("input", parsed);
+  }
   await emit(`Context confirmed → ${parsed.companyName} • ${parsed.jobTitle}`);
   void log?.({ content: "Context confirmed", level: "info" });
   if (parsed.companyWebsite) {
@@ -90,9 +116,13 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
   await emit("Synthesizing research brief...");
   await emit("Generating tailored CV...");
   void log?.({ content: "Started research and CV generation", level: "info" });
-  const researchBrief = await synthesizeResearchBrief({ parsed, emit, signal, logger: actionLogger });
+  startStage("Researching the role");
+  const researchBrief = await checkpoints.run("research", "the research brief", () =>
+    synthesizeResearchBrief({ parsed, emit, signal, logger: actionLogger }),
+  );
   void log?.({ content: "Research brief ready", level: "info" });
 
+  startStage("Writing the tailored CV");
   const {
     cvPersistence,
     changeSummary,
@@ -101,71 +131,175 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
     errorLog: cvErrorLog,
     errorLineNumbers: cvErrorLineNumbers,
     errors: cvErrors,
-  } = await generateCvAndSummary({
-    parsed,
-    userDisplayName,
-    researchBrief,
-    emit,
-    signal,
-    modelRetryNotifier,
-    logger: actionLogger,
-  });
+  } = await checkpoints.run(
+    "cv",
+    "the compiled CV",
+    () =>
+      generateCvAndSummary({
+        parsed,
+        userDisplayName,
+        researchBrief,
+        emit,
+        send,
+        signal,
+        modelRetryNotifier,
+        logger: actionLogger,
+      }),
+    (result) => result.status === "success",
+  );
+  // Steps built on a CV that failed to compile are not checkpointed, so a resume redoes them with the new CV.
+  const keepsCvDependents = () => cvStatus === "success";
   const cvLogContent = cvStatus === "success"
     ? "CV generated"
     : cvMessage ?? "CV LaTeX PDF compilation error";
   void log?.({ content: cvLogContent, level: cvStatus === "success" ? "success" : "warning" });
 
-  assertNotAborted(signal);
-  await enrichContactData(parsed, emit);
-  void log?.({ content: "Enriched contact data", level: "info" });
-  includePrimaryContactEmail(parsed, parsedEmails);
-  const contactIntelSummary = await maybeBuildContactIntelSummary({
+  startStage("Scoring keywords and enriching contacts");
+  const cvAts = await checkpoints.run(
+    "ats",
+    "the ATS keyword score",
+    () =>
+      scoreCvKeywords({
+        parsed,
+        researchBrief,
+        cvPersistence,
+        cvStatus,
+        emit,
+        signal,
+        logger: actionLogger,
+      }),
+    keepsCvDependents,
+  );
+  const cvGrounding = await checkArtifactGrounding({
     parsed,
+    document: cvPersistence.cv,
+    artifact: "cv",
     emit,
-    signal,
     logger: actionLogger,
-    shouldGenerateColdEmail,
   });
 
-  let coverLetterArtifact: StoredArtifact | null = null;
-  if (shouldGenerateCoverLetter) {
-    void log?.({ content: "Generating cover letter", level: "info" });
-    coverLetterArtifact = await maybeGenerateCoverLetterArtifact({
+  const contacts = await checkpoints.run("contacts", "the enriched contact details", async () => {
+    assertNotAborted(signal);
+    await enrichContactData(parsed, emit);
+    void log?.({ content: "Enriched contact data", level: "info" });
+    includePrimaryContactEmail(parsed, parsedEmails);
+    const summary = await maybeBuildContactIntelSummary({
       parsed,
-      userId,
-      researchBrief,
-      cvPersistence,
       emit,
       signal,
-      modelRetryNotifier,
+      logger: actionLogger,
+      shouldGenerateColdEmail,
     });
+    return {
+      contactName: parsed.contactName,
+      contactTitle: parsed.contactTitle,
+      contactEmail: parsed.contactEmail,
+      parsedEmails: [...parsedEmails],
+      contactIntelSummary: summary,
+    };
+  });
+  parsed.contactName = contacts.contactName;
+  parsed.contactTitle = contacts.contactTitle;
+  parsed.contactEmail = contacts.contactEmail;
+  parsedEmails.splice(0, parsedEmails.length, ...contacts.parsedEmails);
+  const { contactIntelSummary } = contacts;
+
+  startStage(shouldGenerateColdEmail ? "Writing the cold email" : "Writing the cover letter");
+  let coverLetterArtifact: StoredArtifact | null = null;
+  if (shouldGenerateCoverLetter) {
+    void log?.({ content: "Generating cover letter", level: "info" });
+    coverLetterArtifact = await checkpoints.run(
+      "coverLetter",
+      "the cover letter",
+      () =>
+        maybeGenerateCoverLetterArtifact({
+          parsed,
+          userId,
+          researchBrief,
+          cvPersistence,
+          emit,
+          send,
+          signal,
+          modelRetryNotifier,
+        }),
+      keepsCvDependents,
+    );
     void log?.({ content: "Cover letter generated", level: "success" });
+    if (coverLetterArtifact) {
+      const coverLetterGrounding = await checkArtifactGrounding({
+        parsed,
+        document: coverLetterArtifact.payload.content,
+        artifact: "coverLetter",
+        emit,
+        logger: actionLogger,
+      });
+      coverLetterArtifact.payload.grounding = coverLetterGrounding ?? undefined;
+    }
   } else {
     await emit("Skipping cover letter for cold outreach mode.");
     void log?.({ content: "Cover letter skipped", level: "info" });
   }
 
   let coldEmailArtifact: StoredArtifact | null = null;
+  let followUps: FollowUpSequence | null = null;
   if (shouldGenerateColdEmail) {
     void log?.({ content: "Generating cold email", level: "info" });
-    coldEmailArtifact = await maybeGenerateColdEmailArtifact({
-      parsed,
-      userId,
-      researchBrief,
-      contactIntelSummary,
-      cvPersistence,
-      parsedEmails,
-      emit,
-      signal,
-      modelRetryNotifier,
-    });
+    coldEmailArtifact = await checkpoints.run(
+      "coldEmail",
+      "the cold email",
+      () =>
+        maybeGenerateColdEmailArtifact({
+          parsed,
+          userId,
+          researchBrief,
+          contactIntelSummary,
+          cvPersistence,
+          parsedEmails,
+          emit,
+          signal,
+          modelRetryNotifier,
+        }),
+      keepsCvDependents,
+    );
     void log?.({ content: "Cold email generated", level: "success" });
+    if (coldEmailArtifact) {
+      const sentArtifact = coldEmailArtifact;
+      followUps = await checkpoints.run(
+        "followUps",
+        "the follow-up drafts",
+        () =>
+          maybeDraftFollowUps({
+            parsed,
+            coldEmailArtifact: sentArtifact,
+            contactIntelSummary,
+            emit,
+            signal,
+            modelRetryNotifier,
+            logger: actionLogger,
+          }),
+        keepsCvDependents,
+      );
+    }
   } else {
     await emit("Skipping cold email for standard mode.");
     void log?.({ content: "Cold email skipped", level: "info" });
   }
 
+  startStage("Preparing interview notes");
+  const interviewPrep = await checkpoints.run("interviewPrep", "the interview prep pack", () =>
+    maybeGenerateInterviewPrep({
+      parsed,
+      researchBrief,
+      emit,
+      signal,
+      modelRetryNotifier,
+      logger: actionLogger,
+    }),
+  );
+  void log?.({ content: interviewPrep ? "Interview prep generated" : "Interview prep skipped", level: "info" });
+
   assertNotAborted(signal);
+  startStage("Saving artifacts");
   await emit("Saving artifacts to secure storage...");
   void log?.({ content: "Building artifacts payload", level: "info" });
   const { artifactsPayload, generatedFiles, cvArtifact } = buildArtifactsPayload({
@@ -174,16 +308,43 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
     changeSummary,
     coverLetterArtifact,
     coldEmailArtifact,
+    interviewPrep,
     userDisplayName,
     cvStatus,
     cvMessage,
     cvErrorLog,
     cvErrorLineNumbers,
     cvErrors,
+    cvAts,
+    cvGrounding,
   });
 
+  const docxExports = await exportDocxArtifacts({
+    parsed,
+    userId,
+    cvPersistence,
+    cvStatus,
+    coverLetterArtifact,
+    emit,
+    signal,
+    logger: actionLogger,
+  });
+  if (docxExports.cvDocx && artifactsPayload.cv) {
+    generatedFiles.cvDocx = docxExports.cvDocx;
+    artifactsPayload.cv.docxDownloadUrl = docxExports.cvDocx.url;
+  }
+  if (docxExports.coverLetterDocx && artifactsPayload.coverLetter) {
+    generatedFiles.coverLetterDocx = docxExports.coverLetterDocx;
+    artifactsPayload.coverLetter.docxDownloadUrl = docxExports.coverLetterDocx.url;
+  }
+
   assertNotAborted(signal);
-  await emit(JSON.stringify(artifactsPayload));
+  for (const [artifact, payload] of Object.entries(artifactsPayload)) {
+    if (payload) {
+      send({ type: "artifact", artifact: artifact as GenerationArtifactName, payload });
+    }
+  }
+  send({ type: "progress", completed: PROGRESS_STAGE_COUNT, total: PROGRESS_STAGE_COUNT, label: "Artifacts ready" });
   void log?.({ content: "Artifacts stored and generation completed", level: "success" });
   return {
     artifactsPayload,
@@ -191,6 +352,8 @@ export async function runGenerationWorkflow({ parsed, userId, userDisplayName, e
     cvArtifact,
     coverLetterArtifact,
     coldEmailArtifact,
+    followUps,
+    interviewPrep,
     parsedEmails,
     researchBrief,
   };
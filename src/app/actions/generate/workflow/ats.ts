@@ -0,0 +1,91 @@
+import type { ResearchBrief } from "@/lib/ai/llama/context-engine";
+import {
+  diffAtsScores,
+  extractJobKeywords,
+  latexToPlainText,
+  scoreKeywordCoverage,
+  type AtsComparison,
+  type AtsKeywordScore,
+} from "@/lib/ats/keyword-score";
+
+import type { ParsedForm } from "../form";
+import { renderCvPlainText } from "../storage";
+import { assertNotAborted, describeError } from "./errors";
+import type { CvPersistence } from "./cv";
+import type { ActionLogger, EmitFn } from "./types";
+
+type AtsScoreParams = {
+  parsed: ParsedForm;
+  researchBrief: ResearchBrief | null;
+  cvPersistence: CvPersistence;
+  cvStatus: "success" | "failed";
+  emit: EmitFn;
+  signal?: AbortSignal;
+  logger: ActionLogger;
+};
+
+async function scoreOriginalCv(latex: string, keywords: string[], logger: ActionLogger): Promise<AtsKeywordScore | null> {
+  if (!latex.trim()) {
+    return null;
+  }
+  try {
+    const text = await renderCvPlainText(latex);
+    return scoreKeywordCoverage(text, keywords, { source: "pdf" });
+  } catch (error) {
+    logger.warn("Original CV did not compile for ATS scoring; scoring LaTeX source", {
+      error: describeError(error).message,
+    });
+    return scoreKeywordCoverage(latexToPlainText(latex), keywords, { source: "latex" });
+  }
+}
+
+/**
+ * Scores the original and tailored CVs against the research brief keywords,
+ * falling back to job description term frequency when the brief is missing.
+ * Scoring is advisory, so failures are logged and never fail the generation.
+ */
+export async function scoreCvKeywords({
+  parsed,
+  researchBrief,
+  cvPersistence,
+  cvStatus,
+  emit,
+  signal,
+  logger,
+}: AtsScoreParams): Promise<AtsComparison | null> {
+  assertNotAborted(signal);
+  const briefKeywords = researchBrief?.keywords ?? [];
+  const keywords = briefKeywords.length ? briefKeywords : extractJobKeywords(parsed.jobDescription);
+  if (!keywords.length) {
+    logger.warn("No keywords available for ATS scoring", { sessionId: parsed.sessionId });
+    return null;
+  }
+
+  const tailoredText = cvPersistence.result.text;
+  const tailored =
+    cvStatus === "success" && tailoredText
+      ? scoreKeywordCoverage(tailoredText, keywords, { source: "pdf" })
+      : scoreKeywordCoverage(latexToPlainText(cvPersistence.cv), keywords, { source: "latex" });
+  const original = await scoreOriginalCv(parsed.originalCV, keywords, logger);
+
+  const diff = diffAtsScores(original, tailored);
+  logger.data("ats-keyword-score", {
+    sessionId: parsed.sessionId,
+    keywordCount: keywords.length,
+    original: original?.score ?? null,
+    tailored: tailored.score,
+    missing: tailored.missing,
+  });
+  await emit(
+    diff
+      ? `ATS keyword match: ${tailored.score}% (original CV ${original?.score ?? 0}%, ${diff.delta >= 0 ? "+" : ""}${diff.delta} pts).`
+      : `ATS keyword match: ${tailored.score}%.`,
+  );
+
+  return {
+    keywords,
+    keywordSource: briefKeywords.length ? "research" : "job-description",
+    original,
+    tailored,
+  };
+}
@@ -0,0 +1,54 @@
+import { saveGenerationCheckpoint, type CheckpointStep, type SavedCheckpoints } from "@/lib/generation-checkpoints";
+
+import type { ParsedForm } from "../form";
+import { describeError } from "./errors";
+import type { ActionLogger, EmitFn } from "./types";
+
+export type WorkflowCheckpoints = {
+  /**
+   * Returns the saved output of `step` when resuming, otherwise runs it and
+   * checkpoints the result. `shouldSave` lets a step skip outputs that are
+   * worth retrying, such as a CV that failed to compile.
+   */
+  run<T>(step: CheckpointStep, label: string, execute: () => Promise<T>, shouldSave?: (value: T) => boolean): Promise<T>;
+  save(step: CheckpointStep, value: unknown): Promise<void>;
+  has(step: CheckpointStep): boolean;
+};
+
+type CheckpointParams = {
+  parsed: ParsedForm;
+  saved: SavedCheckpoints;
+  emit: EmitFn;
+  logger: ActionLogger;
+};
+
+export function createWorkflowCheckpoints({ parsed, saved, emit, logger }: CheckpointParams): WorkflowCheckpoints {
+  const save = async (step: CheckpointStep, value: unknown) => {
+    try {
+      await saveGenerationCheckpoint(parsed.sessionId, parsed.generationId, step, value);
+    } catch (error) {
+      // A lost checkpoint only costs a rerun of the step on resume.
+      logger.warn("Failed to save generation checkpoint", {
+        sessionId: parsed.sessionId,
+        step,
+        error: describeError(error).message,
+      });
+    }
+  };
+
+  return {
+    async run<T>(step: CheckpointStep, label: string, execute: () => Promise<T>, shouldSave?: (value: T) => boolean) {
+      if (step in saved) {
+        await emit(`Reusing ${label} from the previous attempt.`);
+        return saved[step] as T;
+      }
+      const value = await execute();
+      if (!shouldSave || shouldSave(value)) {
+        await save(step, value);
+      }
+      return value;
+    },
+    save,
+    has: (step) => step in saved,
+  };
+}
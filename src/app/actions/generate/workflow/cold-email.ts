@@ -1,12 +1,14 @@
+import { aiService } from "@/lib/ai/service";
 import type { ResearchBrief } from "@/lib/ai/llama/context-engine";
+import { createFollowUpSequence, DEFAULT_FOLLOW_UP_DELAYS, type FollowUpSequence } from "@/lib/follow-ups";
 
 import type { ParsedForm } from "../form";
 import { buildColdEmail, parseColdEmailStructure } from "../cold-email";
 import type { StoredArtifact } from "../storage";
 import { saveTextArtifact } from "../storage";
-import { assertNotAborted } from "./errors";
+import { assertNotAborted, describeError } from "./errors";
 import type { CvPersistence } from "./cv";
-import type { EmitFn, ModelRetryNotifier } from "./types";
+import type { ActionLogger, EmitFn, ModelRetryNotifier } from "./types";
 
 type ColdEmailParams = {
   parsed: ParsedForm;
@@ -56,4 +58,54 @@ export async function maybeGenerateColdEmailArtifact({
   coldEmailArtifact.payload.toAddress = emailTarget;
   await emit(`Cold email ready for ${emailTarget}.`);
   return coldEmailArtifact;
-}
\ No newline at end of file
+}
+
+type FollowUpParams = {
+  parsed: ParsedForm;
+  coldEmailArtifact: StoredArtifact;
+  contactIntelSummary: string | null;
+  emit: EmitFn;
+  signal?: AbortSignal;
+  modelRetryNotifier: ModelRetryNotifier;
+  logger: ActionLogger;
+};
+
+/** Drafts the follow-up sequence for a cold email. Best-effort: failures never fail the generation. */
+export async function maybeDraftFollowUps({
+  parsed,
+  coldEmailArtifact,
+  contactIntelSummary,
+  emit,
+  signal,
+  modelRetryNotifier,
+  logger,
+}: FollowUpParams): Promise<FollowUpSequence | null> {
+  assertNotAborted(signal);
+  await emit("Drafting follow-up emails...");
+  try {
+    const drafts = await aiService.generateFollowUpEmails(
+      {
+        companyName: parsed.companyName,
+        contactName: parsed.contactName || "the hiring team",
+        originalSubject: coldEmailArtifact.payload.subject ?? "",
+        originalBody: coldEmailArtifact.payload.body ?? coldEmailArtifact.payload.content,
+        coldEmailStrategy: parsed.coldEmailStrategy,
+        delays: DEFAULT_FOLLOW_UP_DELAYS,
+        contactIntelSummary: contactIntelSummary || undefined,
+      },
+      { onRetry: modelRetryNotifier },
+    );
+    if (!drafts?.length) {
+      await emit("Follow-up drafts were not usable; skipping the sequence.");
+      return null;
+    }
+    const sequence = createFollowUpSequence(drafts, DEFAULT_FOLLOW_UP_DELAYS, new Date().toISOString());
+    await emit(`Drafted ${sequence.steps.length} follow-ups (${sequence.steps.map((step) => `+${step.delayDays}d`).join(", ")}).`);
+    return sequence;
+  } catch (error) {
+    assertNotAborted(signal);
+    logger.warn("Follow-up drafting failed", { sessionId: parsed.sessionId, error: describeError(error).message });
+    await emit("Follow-up drafting failed; the cold email is unaffected.");
+    return null;
+  }
+}
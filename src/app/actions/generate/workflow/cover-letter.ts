@@ -5,7 +5,7 @@ import type { ParsedForm } from "../form";
 import { saveTextArtifact } from "../storage";
 import { assertNotAborted } from "./errors";
 import type { CvPersistence } from "./cv";
-import type { EmitFn, ModelRetryNotifier } from "./types";
+import type { EmitFn, ModelRetryNotifier, SendEventFn } from "./types";
 
 type CoverLetterParams = {
   parsed: ParsedForm;
@@ -13,11 +13,12 @@ type CoverLetterParams = {
   researchBrief: ResearchBrief | null;
   cvPersistence: CvPersistence;
   emit: EmitFn;
+  send: SendEventFn;
   signal?: AbortSignal;
   modelRetryNotifier: ModelRetryNotifier;
 };
 
-export async function maybeGenerateCoverLetterArtifact({ parsed, userId, researchBrief, cvPersistence, emit, signal, modelRetryNotifier }: CoverLetterParams) {
+export async function maybeGenerateCoverLetterArtifact({ parsed, userId, researchBrief, cvPersistence, emit, send, signal, modelRetryNotifier }: CoverLetterParams) {
   assertNotAborted(signal);
   await emit("Drafting cover letter...");
   const coverLetterResponse = await aiService.generateCoverLetterAdvanced({
@@ -28,7 +29,10 @@ export async function maybeGenerateCoverLetterArtifact({ parsed, userId, researc
     extensiveCV: parsed.extensiveCV,
     coverLetterStrategy: parsed.coverLetterStrategy,
     researchBrief: researchBrief ?? undefined,
-  }, { onRetry: modelRetryNotifier });
+  }, {
+    onRetry: modelRetryNotifier,
+    onToken: ({ delta, attempt }) => send({ type: "token", artifact: "coverLetter", delta, attempt }),
+  });
 
   const coverLetterArtifact = await saveTextArtifact(
     coverLetterResponse,
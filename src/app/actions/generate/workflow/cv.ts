@@ -2,11 +2,14 @@ import { aiService } from "@/lib/ai/service";
 import { normalizeLatexSource } from "@/lib/latex-normalizer";
 import type { ResearchBrief } from "@/lib/ai/llama/context-engine";
 import { LatexCompileError, type LatexLogError } from "@/lib/document-service";
+import { RESUME_TEMPLATE_LABELS, renderResumeLatex } from "@/lib/resume/latex-templates";
+import { parseResumeJson, resolveResumeTemplate } from "@/lib/resume/schema";
+import { applyResumeTailoring, buildResumePromptView } from "@/lib/resume/tailoring";
 
 import type { ParsedForm } from "../form";
 import { persistCvArtifact } from "../storage";
 import { assertNotAborted, describeCvCompilationError } from "./errors";
-import type { ActionLogger, EmitFn, ModelRetryNotifier } from "./types";
+import type { ActionLogger, EmitFn, ModelRetryNotifier, SendEventFn } from "./types";
 
 export type CvPersistence = Awaited<ReturnType<typeof persistCvArtifact>>;
 
@@ -15,16 +18,86 @@ type CvGenerationParams = {
   userDisplayName?: string | null;
   researchBrief: ResearchBrief | null;
   emit: EmitFn;
+  send: SendEventFn;
   signal?: AbortSignal;
   modelRetryNotifier: ModelRetryNotifier;
   logger: ActionLogger;
 };
 
+/**
+ * With a JSON Resume on file the model only selects and rewrites entries and
+ * the LaTeX comes from a template; otherwise the model rewrites the LaTeX CV,
+ * which is moved into the user's default template when one is set.
+ */
+async function generateTailoredLatex({
+  parsed,
+  userDisplayName,
+  researchBrief,
+  emit,
+  send,
+  modelRetryNotifier,
+  logger,
+}: Omit<CvGenerationParams, "signal">): Promise<string> {
+  const resumeResult = parsed.resumeJson.trim() ? parseResumeJson(parsed.resumeJson) : null;
+  if (!resumeResult?.ok) {
+    const latex = await aiService.generateCVAdvanced({
+      jobDescription: parsed.jobDescription,
+      originalCV: parsed.originalCV,
+      extensiveCV: parsed.extensiveCV,
+      cvStrategy: parsed.cvStrategy,
+      companyName: parsed.companyName,
+      jobTitle: parsed.jobTitle,
+      researchBrief: researchBrief ?? undefined,
+      userDisplayName: userDisplayName ?? undefined,
+    }, {
+      onRetry: modelRetryNotifier,
+      onToken: ({ delta, attempt }) => send({ type: "token", artifact: "cv", delta, attempt }),
+    });
+    if (!parsed.cvTemplate) {
+      return latex;
+    }
+    await emit(`Rendering the tailored CV in the ${RESUME_TEMPLATE_LABELS[parsed.cvTemplate]} template...`);
+    const extracted = await aiService.extractResumeFromLatex(latex, { onRetry: modelRetryNotifier });
+    if (!extracted) {
+      logger.warn("Resume extraction returned invalid JSON; keeping master CV layout", { sessionId: parsed.sessionId });
+      await emit("Could not restructure the CV for your default template, so it keeps your master CV layout.");
+      return latex;
+    }
+    return renderResumeLatex(extracted, parsed.cvTemplate);
+  }
+
+  const { resume } = resumeResult;
+  const template = resolveResumeTemplate(resume, parsed.cvTemplate || undefined);
+  await emit("Selecting resume entries for this role...");
+  const tailoring = await aiService.tailorResumeJson({
+    jobDescription: parsed.jobDescription,
+    resumeJson: buildResumePromptView(resume),
+    cvStrategy: parsed.cvStrategy,
+    companyName: parsed.companyName,
+    jobTitle: parsed.jobTitle,
+    researchBrief: researchBrief ?? undefined,
+  }, { onRetry: modelRetryNotifier });
+  if (!tailoring) {
+    logger.warn("Resume tailoring returned invalid JSON; rendering source resume", { sessionId: parsed.sessionId });
+    await emit("Tailoring response was not valid JSON, so your resume was rendered as-is.");
+    return renderResumeLatex(resume, template);
+  }
+  const tailored = applyResumeTailoring(resume, tailoring);
+  logger.data("resume-tailoring-applied", {
+    sessionId: parsed.sessionId,
+    work: `${tailored.work.length}/${resume.work.length}`,
+    projects: `${tailored.projects.length}/${resume.projects.length}`,
+    skills: `${tailored.skills.length}/${resume.skills.length}`,
+  });
+  return renderResumeLatex(tailored, template);
+}
+
 export async function generateCvAndSummary({
   parsed,
   userDisplayName,
   researchBrief,
   emit,
+  send,
   signal,
   modelRetryNotifier,
   logger,
@@ -38,16 +111,15 @@ export async function generateCvAndSummary({
   errors?: LatexLogError[];
 }> {
   assertNotAborted(signal);
-  const cvResponse = await aiService.generateCVAdvanced({
-    jobDescription: parsed.jobDescription,
-    originalCV: parsed.originalCV,
-    extensiveCV: parsed.extensiveCV,
-    cvStrategy: parsed.cvStrategy,
-    companyName: parsed.companyName,
-    jobTitle: parsed.jobTitle,
-    researchBrief: researchBrief ?? undefined,
-    userDisplayName: userDisplayName ?? undefined,
-  }, { onRetry: modelRetryNotifier });
+  const cvResponse = await generateTailoredLatex({
+    parsed,
+    userDisplayName,
+    researchBrief,
+    emit,
+    send,
+    modelRetryNotifier,
+    logger,
+  });
 
   const { output: normalizedCv, changes: latexNormalizationChanges } = normalizeLatexSource(cvResponse);
   if (latexNormalizationChanges.length) {
@@ -0,0 +1,78 @@
+import { latexToDocxBlocks, plainTextToDocxBlocks } from "@/lib/docx/document-blocks";
+
+import type { ParsedForm } from "../form";
+import { saveDocxArtifact, type StoredArtifact } from "../storage";
+import { assertNotAborted, describeError } from "./errors";
+import type { CvPersistence } from "./cv";
+import type { ActionLogger, EmitFn } from "./types";
+
+type DocxExportParams = {
+  parsed: ParsedForm;
+  userId: string;
+  cvPersistence: CvPersistence;
+  cvStatus: "success" | "failed";
+  coverLetterArtifact: StoredArtifact | null;
+  emit: EmitFn;
+  signal?: AbortSignal;
+  logger: ActionLogger;
+};
+
+export type DocxExports = {
+  cvDocx?: StoredArtifact["generatedFile"];
+  coverLetterDocx?: StoredArtifact["generatedFile"];
+};
+
+/**
+ * Word exports are a convenience for ATS portals that reject PDFs, so a
+ * failure here is reported in the stream but never fails the generation.
+ */
+export async function exportDocxArtifacts({
+  parsed,
+  userId,
+  cvPersistence,
+  cvStatus,
+  coverLetterArtifact,
+  emit,
+  signal,
+  logger,
+}: DocxExportParams): Promise<DocxExports> {
+  const exports: DocxExports = {};
+
+  if (cvStatus === "success") {
+    assertNotAborted(signal);
+    try {
+      exports.cvDocx = await saveDocxArtifact(
+        latexToDocxBlocks(cvPersistence.cv),
+        parsed,
+        userId,
+        "cv.docx",
+        "cv",
+        "Tailored CV (DOCX)",
+      );
+    } catch (error) {
+      logger.warn("CV DOCX export failed", { sessionId: parsed.sessionId, error: describeError(error).message });
+    }
+  }
+
+  if (coverLetterArtifact?.payload.content) {
+    assertNotAborted(signal);
+    try {
+      exports.coverLetterDocx = await saveDocxArtifact(
+        plainTextToDocxBlocks(coverLetterArtifact.payload.content),
+        parsed,
+        userId,
+        "cover-letter.docx",
+        "cover-letter",
+        "Cover Letter (DOCX)",
+      );
+    } catch (error) {
+      logger.warn("Cover letter DOCX export failed", { sessionId: parsed.sessionId, error: describeError(error).message });
+    }
+  }
+
+  const exported = [exports.cvDocx && "CV", exports.coverLetterDocx && "cover letter"].filter(Boolean);
+  if (exported.length) {
+    await emit(`Word exports ready: ${exported.join(" and ")}.`);
+  }
+  return exports;
+}
@@ -0,0 +1,61 @@
+import { checkGrounding, type GroundingReport } from "@/lib/grounding/claims";
+
+import type { ParsedForm } from "../form";
+import { describeError } from "./errors";
+import type { ActionLogger, EmitFn } from "./types";
+
+type GroundingParams = {
+  parsed: ParsedForm;
+  document: string;
+  artifact: "cv" | "coverLetter";
+  emit: EmitFn;
+  logger: ActionLogger;
+};
+
+const ARTIFACT_LABELS = { cv: "CV", coverLetter: "cover letter" } as const;
+const MAX_LISTED_LINES = 5;
+
+/**
+ * Looks up every claim in a generated document in the user's own CVs. The
+ * cover letter may also cite the job ad and company profile; the CV may not,
+ * since a skill copied from the ad into the CV is exactly what to catch.
+ * Like ATS scoring this is advisory and never fails the generation.
+ */
+export async function checkArtifactGrounding({ parsed, document, artifact, emit, logger }: GroundingParams): Promise<GroundingReport | null> {
+  if (!document.trim()) {
+    return null;
+  }
+  const sources = [parsed.originalCV, parsed.extensiveCV, parsed.companyName, parsed.jobTitle];
+  if (artifact === "coverLetter") {
+    sources.push(parsed.jobDescription, parsed.companyProfile, parsed.contactName);
+  }
+  try {
+    const report = checkGrounding(document, sources, { format: artifact === "cv" ? "latex" : "text" });
+    logger.data("fact-grounding", {
+      sessionId: parsed.sessionId,
+      artifact,
+      checkedClaims: report.checkedClaims,
+      unsupported: report.unsupported.map((claim) => ({ claim: claim.claim, line: claim.line })),
+    });
+    const label = ARTIFACT_LABELS[artifact];
+    if (report.unsupported.length) {
+      const lines = [...new Set(report.unsupported.map((claim) => claim.line))];
+      const listed = lines.slice(0, MAX_LISTED_LINES).join(", ");
+      await emit(
+        `Fact check: ${report.unsupported.length} claim(s) in the ${label} are not in your CV (line${lines.length > 1 ? "s" : ""} ${listed}${
+          lines.length > MAX_LISTED_LINES ? ", ..." : ""
+        }). Review them before sending.`,
+      );
+    } else {
+      await emit(`Fact check: all ${report.checkedClaims} claim(s) in the ${label} trace back to your CV.`);
+    }
+    return report;
+  } catch (error) {
+    logger.warn("Fact grounding check failed", {
+      sessionId: parsed.sessionId,
+      artifact,
+      error: describeError(error).message,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,59 @@
+import { aiService } from "@/lib/ai/service";
+import type { ResearchBrief } from "@/lib/ai/llama/context-engine";
+import type { InterviewPrepPack } from "@/lib/interview-prep";
+
+import type { ParsedForm } from "../form";
+import { assertNotAborted, describeError } from "./errors";
+import type { ActionLogger, EmitFn, ModelRetryNotifier } from "./types";
+
+type InterviewPrepParams = {
+  parsed: ParsedForm;
+  researchBrief: ResearchBrief | null;
+  emit: EmitFn;
+  signal?: AbortSignal;
+  modelRetryNotifier: ModelRetryNotifier;
+  logger: ActionLogger;
+};
+
+/**
+ * Turns the research brief into an interview prep pack. The pack is a bonus
+ * artifact, so a missing brief or a failed model call never fails the generation.
+ */
+export async function maybeGenerateInterviewPrep({
+  parsed,
+  researchBrief,
+  emit,
+  signal,
+  modelRetryNotifier,
+  logger,
+}: InterviewPrepParams): Promise<InterviewPrepPack | null> {
+  assertNotAborted(signal);
+  if (!researchBrief) {
+    await emit("Skipping interview prep: research brief unavailable.");
+    return null;
+  }
+  await emit("Preparing interview pack...");
+  try {
+    const pack = await aiService.generateInterviewPrep(
+      {
+        jobDescription: parsed.jobDescription,
+        companyName: parsed.companyName,
+        jobTitle: parsed.jobTitle,
+        extensiveCV: parsed.extensiveCV,
+        researchBrief,
+      },
+      { onRetry: modelRetryNotifier },
+    );
+    if (!pack) {
+      await emit("Interview prep pack was not usable; skipping it.");
+      return null;
+    }
+    await emit(`Interview prep ready: ${pack.questions.length} likely questions with STAR answers.`);
+    return pack;
+  } catch (error) {
+    assertNotAborted(signal);
+    logger.warn("Interview prep generation failed", { sessionId: parsed.sessionId, error: describeError(error).message });
+    await emit("Interview prep generation failed; other artifacts are unaffected.");
+    return null;
+  }
+}
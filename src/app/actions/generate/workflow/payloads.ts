@@ -1,4 +1,7 @@
 import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
+import type { AtsComparison } from "@/lib/ats/keyword-score";
+import type { GroundingReport } from "@/lib/grounding/claims";
+import { formatInterviewPrepText, type InterviewPrepPack } from "@/lib/interview-prep";
 
 import type { ParsedForm } from "../form";
 import type { StoredArtifact } from "../storage";
@@ -10,12 +13,15 @@ type BuildPayloadParams = {
   changeSummary: string | null;
   coverLetterArtifact: StoredArtifact | null;
   coldEmailArtifact: StoredArtifact | null;
+  interviewPrep?: InterviewPrepPack | null;
   userDisplayName?: string | null;
   cvStatus?: "success" | "failed";
   cvMessage?: string;
   cvErrorLog?: string;
   cvErrorLineNumbers?: number[];
   cvErrors?: Array<{ message: string; lineNumbers?: number[] }>;
+  cvAts?: AtsComparison | null;
+  cvGrounding?: GroundingReport | null;
 };
 
 export function buildArtifactsPayload({
@@ -24,12 +30,15 @@ export function buildArtifactsPayload({
   changeSummary,
   coverLetterArtifact,
   coldEmailArtifact,
+  interviewPrep,
   userDisplayName,
   cvStatus = "success",
   cvMessage,
   cvErrorLog,
   cvErrorLineNumbers,
   cvErrors,
+  cvAts,
+  cvGrounding,
 }: BuildPayloadParams): {
   artifactsPayload: GenerationArtifacts;
   generatedFiles: Record<string, StoredArtifact["generatedFile"]>;
@@ -63,6 +72,8 @@ export function buildArtifactsPayload({
         errorLog: cvErrorLog,
         errorLineNumbers: cvErrorLineNumbers,
         errors: cvErrors,
+        ats: cvAts ?? undefined,
+        grounding: cvGrounding ?? undefined,
       },
     ],
   } as StoredArtifact["payload"];
@@ -100,5 +111,18 @@ export function buildArtifactsPayload({
     generatedFiles.coldEmail = coldEmailArtifact.generatedFile;
   }
 
+  if (interviewPrep) {
+    // Rendered on demand from the pack saved in session metadata, like the CV.
+    const prepUrl = `/api/render-pdf?sessionId=${encodeURIComponent(parsed.sessionId)}&artifact=interview-prep&disposition=attachment`;
+    artifactsPayload.interviewPrep = {
+      content: formatInterviewPrepText(interviewPrep),
+      downloadUrl: prepUrl,
+      storageKey: "inline-render",
+      mimeType: "application/pdf",
+      prepPack: interviewPrep,
+      generationId: parsed.generationId,
+    };
+  }
+
   return { artifactsPayload, generatedFiles, cvArtifact };
 }
\ No newline at end of file
@@ -24,13 +24,15 @@ export async function synthesizeResearchBrief({ parsed, emit, signal, logger }:
       jobTitle: parsed.jobTitle,
     });
 
-    if (researchBrief) {
-      logger.data("research-brief-metadata", {
-        roleInsightsLength: researchBrief.roleInsights?.length ?? 0,
-        candidateInsightsLength: researchBrief.candidateInsights?.length ?? 0,
-      });
+    if (!researchBrief) {
+      await emit("Research brief skipped: LlamaIndex research needs a Gemini API key.");
+      return null;
     }
 
+    logger.data("research-brief-metadata", {
+      roleInsightsLength: researchBrief.roleInsights?.length ?? 0,
+      candidateInsightsLength: researchBrief.candidateInsights?.length ?? 0,
+    });
     await emit("Research brief ready — weaving insights into documents.");
     return researchBrief;
   } catch (researchError) {
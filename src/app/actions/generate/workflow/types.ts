@@ -2,11 +2,18 @@ import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
 import type { RetryHandler } from "@/lib/ai/model-client";
 import type { ResearchBrief } from "@/lib/ai/llama/context-engine";
 import type { createDebugLogger } from "@/lib/debug-logger";
+import type { FollowUpSequence } from "@/lib/follow-ups";
+import type { GenerationEvent } from "@/lib/generation-events";
+import type { InterviewPrepPack } from "@/lib/interview-prep";
 import type { ParsedForm } from "../form";
 import type { StoredArtifact } from "../storage";
+import type { WorkflowCheckpoints } from "./checkpoints";
 
 export type EmitFn = (message: string) => Promise<void>;
 
+/** Publishes a typed event to the generation's SSE channel. */
+export type SendEventFn = (event: GenerationEvent) => void;
+
 export type ModelRetryNotifier = RetryHandler;
 
 export type ActionLogger = ReturnType<typeof createDebugLogger>;
@@ -17,6 +24,8 @@ export type WorkflowResult = {
   cvArtifact: StoredArtifact;
   coverLetterArtifact: StoredArtifact | null;
   coldEmailArtifact: StoredArtifact | null;
+  followUps: FollowUpSequence | null;
+  interviewPrep: InterviewPrepPack | null;
   parsedEmails: string[];
   researchBrief: ResearchBrief | null;
 };
@@ -26,6 +35,8 @@ export type WorkflowParams = {
   userId: string;
   userDisplayName?: string | null;
   emit: EmitFn;
+  send: SendEventFn;
+  checkpoints: WorkflowCheckpoints;
   signal?: AbortSignal;
   log?: (entry: { content: string; level?: "info" | "success" | "warning" | "error" }) => void;
 };
\ No newline at end of file
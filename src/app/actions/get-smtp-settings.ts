@@ -0,0 +1,11 @@
+"use server";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { getSmtpSettings, toSmtpSettingsView } from "@/lib/smtp-settings";
+import type { SmtpSettingsView } from "@/lib/smtp-settings-shared";
+
+export async function getSmtpSettingsAction(): Promise<SmtpSettingsView | null> {
+  const tokens = await requireServerAuthTokens();
+  const settings = await getSmtpSettings(tokens.decodedToken.uid);
+  return settings ? toSmtpSettingsView(settings) : null;
+}
@@ -0,0 +1,27 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { getSourceDocumentRevision } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("get-source-revision-action");
+
+const payloadSchema = z.object({
+  docType: z.enum(["original_cv", "extensive_cv", "resume_json"] as const),
+  revisionId: z.string().min(1).max(128),
+  profileId: z.string().min(1).max(64).optional(),
+});
+
+/** Returns the full content of one revision for diffing. */
+export async function getSourceRevisionAction(input: z.infer<typeof payloadSchema>): Promise<{ content: string }> {
+  const { docType, revisionId, profileId } = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Loading source document revision", { userId, docType, revisionId });
+  const revision = await getSourceDocumentRevision(userId, docType, revisionId, profileId);
+  if (!revision) {
+    throw new Error("Revision not found");
+  }
+  return { content: revision.content };
+}
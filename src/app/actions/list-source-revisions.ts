@@ -0,0 +1,34 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { listSourceDocumentRevisions, type SourceDocumentRevisionSource } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("list-source-revisions-action");
+
+const payloadSchema = z.object({
+  docType: z.enum(["original_cv", "extensive_cv", "resume_json"] as const),
+  profileId: z.string().min(1).max(64).optional(),
+});
+
+export type SourceRevisionSummary = {
+  id: string;
+  size: number;
+  source: SourceDocumentRevisionSource;
+  createdAt: string;
+};
+
+export async function listSourceRevisionsAction(input: z.infer<typeof payloadSchema>): Promise<SourceRevisionSummary[]> {
+  const { docType, profileId } = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Listing source document revisions", { userId, docType, profileId: profileId ?? null });
+  const revisions = await listSourceDocumentRevisions(userId, docType, profileId);
+  return revisions.map((revision) => ({
+    id: revision.id,
+    size: revision.size,
+    source: revision.source,
+    createdAt: revision.createdAt.toISOString(),
+  }));
+}
@@ -0,0 +1,31 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { listCvProfiles, toCvProfileSummary, touchCvProfile } from "@/lib/cv-profiles";
+import { getSourceDocumentsForUser } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("load-cv-profile-action");
+
+const payloadSchema = z.object({
+  profileId: z.string().min(1).max(64),
+});
+
+/** Switches the active profile and returns its source documents. */
+export async function loadCvProfileAction(input: z.infer<typeof payloadSchema>) {
+  const { profileId } = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Loading CV profile", { userId, profileId });
+  await touchCvProfile(userId, profileId);
+  const [profiles, sourceDocuments] = await Promise.all([
+    listCvProfiles(userId),
+    getSourceDocumentsForUser(userId, profileId),
+  ]);
+  return {
+    profileId,
+    profiles: profiles.map(toCvProfileSummary),
+    sourceDocuments,
+  };
+}
@@ -0,0 +1,49 @@
+"use server";
+
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { ratePromptRun } from "@/lib/prompt-run-store";
+import { GENERATION_RATINGS_KEY, MAX_RATING, MIN_RATING } from "@/lib/prompt-runs";
+import { serializeSession } from "@/lib/serializers/session";
+import { sessionRepository } from "@/lib/session";
+import type { SerializableSession } from "@/types/session";
+
+const logger = createDebugLogger("rate-generation-action");
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  generationId: z.string().min(1),
+  rating: z.coerce.number().int().min(MIN_RATING).max(MAX_RATING),
+});
+
+export type RateGenerationInput = z.input<typeof payloadSchema>;
+
+export async function rateGenerationAction(input: RateGenerationInput): Promise<SerializableSession> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Rating generation", { sessionId: parsed.sessionId, generationId: parsed.generationId, userId });
+
+  const session = await sessionRepository.getSession(parsed.sessionId);
+  if (!session || session.userId !== userId) {
+    throw new Error("Session not found");
+  }
+
+  const existing = session.metadata?.[GENERATION_RATINGS_KEY];
+  const ratings = existing && typeof existing === "object" ? (existing as Record<string, number>) : {};
+  const updated = await sessionRepository.updateSession(
+    parsed.sessionId,
+    { metadata: { [GENERATION_RATINGS_KEY]: { ...ratings, [parsed.generationId]: parsed.rating } } },
+    userId,
+  );
+
+  const recorded = await ratePromptRun(parsed.generationId, userId, parsed.rating);
+  if (!recorded) {
+    logger.warn("No prompt run found for rated generation", { generationId: parsed.generationId });
+  }
+
+  logger.info("Generation rated", { sessionId: parsed.sessionId, generationId: parsed.generationId, rating: parsed.rating });
+  return serializeSession(updated);
+}
@@ -6,8 +6,11 @@ import { requireServerAuthTokens } from "@/lib/auth";
 import { env } from "@/env";
 import { sessionRepository } from "@/lib/session";
 import { getStorageProvider } from "@/lib/storage/types";
-import { DocumentService, LatexCompileError, type LatexLogError } from "@/lib/document-service";
+import { DOCX_MIME_TYPE, DocumentService, LatexCompileError, type LatexLogError } from "@/lib/document-service";
+import { latexToDocxBlocks } from "@/lib/docx/document-blocks";
+import { buildProxiedDownloadUrl } from "@/lib/storage/path-builder";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { readAtsComparison, scoreKeywordCoverage } from "@/lib/ats/keyword-score";
 import { sanitizeFirestoreMap } from "./generate/object-utils";
 import { serializeSession } from "@/lib/serializers/session";
 
@@ -35,6 +38,7 @@ type CvGeneration = {
   status?: string;
   message?: string;
   createdAt?: string;
+  ats?: unknown;
 };
 
 type RecompileCvSuccess = {
@@ -93,16 +97,35 @@ export async function recompileCvAction(rawInput: unknown): Promise<RecompileCvR
     };
   }
   const updatedFiles = { ...session.generatedFiles };
-
-  const existingPreviews =
-    (session.metadata?.artifactPreviews as Record<string, unknown> | undefined) ?? {};
-  const cvPreview = latex.length > 1000 ? `${latex.slice(0, 1000)}...` : latex;
-
+  const latestGenerationId = session.metadata?.lastGenerationId as string | undefined;
   const existingCvGenerations = Array.isArray(session.metadata?.cvGenerations)
     ? (session.metadata.cvGenerations as Array<Record<string, unknown>>)
         .filter((entry) => Boolean(entry && typeof entry === "object" && typeof (entry as Record<string, unknown>).generationId === "string"))
         .map((entry) => entry as CvGeneration)
     : undefined;
+  // A generationId the session has not seen yet (a refinement) becomes the newest version.
+  const isNewVersion = Boolean(generationId && !existingCvGenerations?.some((entry) => entry.generationId === generationId));
+  if (!generationId || generationId === latestGenerationId || isNewVersion) {
+    try {
+      const upload = await service.saveDocxArtifact({
+        blocks: latexToDocxBlocks(latex),
+        storage: { scope: "user", userId, requestId: sessionId, artifactName: "cv.docx", artifactCategory: "cv" },
+        metadata: { sessionId },
+      });
+      updatedFiles.cvDocx = {
+        key: upload.key,
+        url: `${buildProxiedDownloadUrl(upload.key)}&disposition=attachment`,
+        label: "Tailored CV (DOCX)",
+        mimeType: DOCX_MIME_TYPE,
+      };
+    } catch (error) {
+      logger.warn("CV DOCX refresh failed", { sessionId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const existingPreviews =
+    (session.metadata?.artifactPreviews as Record<string, unknown> | undefined) ?? {};
+  const cvPreview = latex.length > 1000 ? `${latex.slice(0, 1000)}...` : latex;
 
     const upsertGeneration = <T extends { generationId: string }>(
       existing: Array<T> | undefined,
@@ -118,8 +141,14 @@ export async function recompileCvAction(rawInput: unknown): Promise<RecompileCvR
       return list;
     };
 
-  const resolvedGenerationId = generationId || (session.metadata?.lastGenerationId as string | undefined) || "latest";
+  const resolvedGenerationId = generationId || latestGenerationId || "latest";
   const now = new Date().toISOString();
+  const previousAts = readAtsComparison(
+    existingCvGenerations?.find((entry) => entry.generationId === resolvedGenerationId)?.ats,
+  );
+  const ats = previousAts
+    ? { ...previousAts, tailored: scoreKeywordCoverage(compile.text, previousAts.keywords, { source: "pdf" }) }
+    : undefined;
 
   const metadataUpdate = sanitizeFirestoreMap({
     cvPageCount: compile.pageCount,
@@ -134,6 +163,7 @@ export async function recompileCvAction(rawInput: unknown): Promise<RecompileCvR
       pageCount: compile.pageCount ?? undefined,
       status: "success",
       createdAt: now,
+      ...(ats ? { ats } : {}),
     }),
   });
 
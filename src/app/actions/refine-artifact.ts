@@ -0,0 +1,172 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+
+import { z } from "zod";
+
+import { env } from "@/env";
+import { aiService } from "@/lib/ai/service";
+import { createTokenUsageScope } from "@/lib/ai/token-scope";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { normalizeLatexSource } from "@/lib/latex-normalizer";
+import { quotaService, QuotaExceededError } from "@/lib/security/quota-service";
+import { serializeSession } from "@/lib/serializers/session";
+import { sessionRepository, type ChatLogEntry } from "@/lib/session";
+import { recordTokenUsage } from "@/lib/token-usage-store";
+import { quotaUnitsForTokens } from "@/lib/token-usage";
+import type { SerializableSession } from "@/types/session";
+import { sanitizeFirestoreMap } from "./generate/object-utils";
+import { recompileCvAction } from "./recompile-cv";
+
+const logger = createDebugLogger("refine-artifact-action");
+
+/** Earlier turns of the same artifact's refine thread sent to the model. */
+const HISTORY_TURNS = 10;
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  artifact: z.enum(["cv", "coverLetter"]),
+  instruction: z.string().trim().min(1).max(2000),
+  content: z.string().min(1).max(env.MAX_CONTENT_LENGTH),
+  generationId: z.string().min(1).optional(),
+});
+
+export type RefineArtifactInput = z.input<typeof payloadSchema>;
+
+export type RefineArtifactResponse =
+  | { ok: true; session: SerializableSession; generationId: string }
+  | { ok: false; errorMessage: string };
+
+function stripCodeFence(value: string): string {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1].trim() : trimmed;
+}
+
+function refineThread(history: ChatLogEntry[], artifact: string) {
+  return history
+    .filter((entry) => entry.payload?.kind === "refine" && entry.payload?.artifact === artifact)
+    .slice(-HISTORY_TURNS)
+    .map((entry) => ({ role: entry.payload?.role === "user" ? "user" : "assistant", content: entry.message }));
+}
+
+/**
+ * Applies one chat instruction to a CV or cover letter and stores the result
+ * as a new version. CVs go through `recompileCvAction`, so a refinement that
+ * no longer compiles is reported instead of saved. Each refinement holds one
+ * quota unit and is charged only once its version is saved.
+ */
+export async function refineArtifactAction(input: RefineArtifactInput): Promise<RefineArtifactResponse> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Refining artifact", { sessionId: parsed.sessionId, artifact: parsed.artifact, userId });
+
+  const session = await sessionRepository.getSession(parsed.sessionId);
+  if (!session || session.userId !== userId) {
+    throw new Error("Session not found");
+  }
+
+  const generationId = `refine-${randomUUID()}`;
+  const holdKey = `${parsed.sessionId}:${generationId}`;
+  try {
+    await quotaService.placeHold({ uid: userId, sessionId: holdKey, amount: 1 });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return { ok: false, errorMessage: `Token limit reached. Email ${env.CONTACT_EMAIL} to request more allocation.` };
+    }
+    throw error;
+  }
+
+  const tokenUsage = createTokenUsageScope();
+  let holdCommitted = false;
+  try {
+    let raw: string;
+    try {
+      raw = await tokenUsage.run(() =>
+        aiService.refineContentAdvanced({
+          content: parsed.content,
+          feedback: parsed.instruction,
+          chatHistory: refineThread(session.chatHistory ?? [], parsed.artifact),
+        }),
+      );
+    } finally {
+      // Recorded against the new version's id, whether or not it ends up saved.
+      void recordTokenUsage({ generationId, userId, sessionId: parsed.sessionId, usage: tokenUsage.usage() }).catch(
+        (recordError) =>
+          logger.warn("Failed to record token usage", {
+            sessionId: parsed.sessionId,
+            error: recordError instanceof Error ? recordError.message : String(recordError),
+          }),
+      );
+    }
+    const refined = stripCodeFence(raw);
+    if (!refined) {
+      return { ok: false, errorMessage: "The model returned an empty document. Try rephrasing the request." };
+    }
+
+    const label = parsed.artifact === "cv" ? "CV" : "cover letter";
+    if (parsed.artifact === "cv") {
+      const compile = await recompileCvAction({
+        sessionId: parsed.sessionId,
+        latex: normalizeLatexSource(refined).output,
+        generationId,
+      });
+      if (!compile.ok) {
+        logger.warn("Refined CV failed to compile", { sessionId: parsed.sessionId, error: compile.errorMessage });
+        return { ok: false, errorMessage: `The refined CV did not compile: ${compile.errorMessage}` };
+      }
+    } else {
+      // Re-read inside the transaction: generations or refinements that finished
+      // during the model call must not be dropped from the list.
+      await sessionRepository.updateSessionMetadataInTransaction(parsed.sessionId, userId, (current) => {
+        const existing = Array.isArray(current.metadata?.coverLetterGenerations)
+          ? (current.metadata.coverLetterGenerations as Array<Record<string, unknown>>)
+          : [];
+        return sanitizeFirestoreMap({
+          coverLetterGenerations: [
+            ...existing,
+            { generationId, content: refined, status: "success", createdAt: new Date().toISOString(), refinedFrom: parsed.generationId ?? null },
+          ],
+        });
+      });
+    }
+
+    const thread = { kind: "refine", artifact: parsed.artifact, generationId };
+    await sessionRepository.appendChatLog(
+      parsed.sessionId,
+      { level: "info", message: parsed.instruction, payload: { ...thread, role: "user" } },
+      userId,
+    );
+    const updated = await sessionRepository.appendChatLog(
+      parsed.sessionId,
+      { level: "success", message: `Updated the ${label} and saved it as a new version.`, payload: { ...thread, role: "assistant" } },
+      userId,
+    );
+
+    const consumedUnits = quotaUnitsForTokens(tokenUsage.usage().totalTokens, env.QUOTA_TOKENS_PER_UNIT);
+    await quotaService.commitHold(userId, holdKey, consumedUnits).catch((commitError) => {
+      logger.warn("Failed to commit quota hold", {
+        sessionId: parsed.sessionId,
+        holdKey,
+        error: commitError instanceof Error ? commitError.message : String(commitError),
+      });
+    });
+    holdCommitted = true;
+
+    logger.info("Artifact refined", { sessionId: parsed.sessionId, artifact: parsed.artifact, generationId });
+    return { ok: true, session: serializeSession(updated), generationId };
+  } finally {
+    // Refinements that fail or are not saved are never charged.
+    if (!holdCommitted) {
+      await quotaService.releaseHold({ uid: userId, sessionId: holdKey, refund: true }).catch((releaseError) =>
+        logger.warn("Failed to release quota hold", {
+          sessionId: parsed.sessionId,
+          holdKey,
+          error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,24 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { listCvProfiles, renameCvProfile, toCvProfileSummary } from "@/lib/cv-profiles";
+import { MAX_CV_PROFILE_NAME_LENGTH } from "@/lib/cv-profiles-shared";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("rename-cv-profile-action");
+
+const payloadSchema = z.object({
+  profileId: z.string().min(1).max(64),
+  name: z.string().trim().min(1, "Profile name is required").max(MAX_CV_PROFILE_NAME_LENGTH),
+});
+
+export async function renameCvProfileAction(input: z.infer<typeof payloadSchema>) {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  await renameCvProfile(userId, parsed.profileId, parsed.name);
+  logger.info("CV profile renamed", { userId, profileId: parsed.profileId });
+  const profiles = await listCvProfiles(userId);
+  return { profiles: profiles.map(toCvProfileSummary) };
+}
@@ -0,0 +1,187 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+
+import { z } from "zod";
+
+import { env } from "@/env";
+import { aiService } from "@/lib/ai/service";
+import { createTokenUsageScope } from "@/lib/ai/token-scope";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { RESUME_TEMPLATE_LABELS, renderResumeLatex } from "@/lib/resume/latex-templates";
+import { parseResumeJson, RESUME_TEMPLATE_IDS, type Resume } from "@/lib/resume/schema";
+import { quotaService, QuotaExceededError } from "@/lib/security/quota-service";
+import { serializeSession } from "@/lib/serializers/session";
+import { sessionRepository } from "@/lib/session";
+import { recordTokenUsage } from "@/lib/token-usage-store";
+import { quotaUnitsForTokens } from "@/lib/token-usage";
+import type { SerializableSession } from "@/types/session";
+import { sanitizeFirestoreMap } from "./generate/object-utils";
+import { recompileCvAction } from "./recompile-cv";
+
+const logger = createDebugLogger("render-cv-template-action");
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  template: z.enum(RESUME_TEMPLATE_IDS),
+  generationId: z.string().min(1).optional(),
+});
+
+export type RenderCvTemplateInput = z.input<typeof payloadSchema>;
+
+export type RenderCvTemplateResponse =
+  | { ok: true; session: SerializableSession; generationId: string }
+  | { ok: false; errorMessage: string };
+
+type CvGenerationEntry = { generationId: string; content?: string; resumeJson?: string; createdAt?: string };
+
+function readCvGenerations(metadata: Record<string, unknown> | undefined): CvGenerationEntry[] {
+  return Array.isArray(metadata?.cvGenerations)
+    ? (metadata.cvGenerations as Array<Record<string, unknown>>).filter(
+        (entry): entry is CvGenerationEntry => Boolean(entry && typeof entry.generationId === "string"),
+      )
+    : [];
+}
+
+function latestGeneration(entries: CvGenerationEntry[]): CvGenerationEntry | undefined {
+  return [...entries].sort((a, b) => (a.createdAt ?? "").localeCompare(b.createdAt ?? "")).at(-1);
+}
+
+type ExtractionResult = { ok: true; resume: Resume } | { ok: false; errorMessage: string };
+
+/**
+ * Reads the structured resume out of a version's LaTeX with the model, under
+ * a one-unit quota hold that is settled against the tokens the call used.
+ */
+async function extractResume(params: {
+  userId: string;
+  sessionId: string;
+  generationId: string;
+  latex: string;
+}): Promise<ExtractionResult> {
+  const { userId, sessionId, generationId, latex } = params;
+  const holdKey = `${sessionId}:${generationId}`;
+  try {
+    await quotaService.placeHold({ uid: userId, sessionId: holdKey, amount: 1 });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return { ok: false, errorMessage: `Token limit reached. Email ${env.CONTACT_EMAIL} to request more allocation.` };
+    }
+    throw error;
+  }
+
+  const tokenUsage = createTokenUsageScope();
+  let holdCommitted = false;
+  try {
+    let resume: Resume | null;
+    try {
+      resume = await tokenUsage.run(() => aiService.extractResumeFromLatex(latex));
+    } finally {
+      void recordTokenUsage({ generationId, userId, sessionId, usage: tokenUsage.usage() }).catch((recordError) =>
+        logger.warn("Failed to record token usage", {
+          sessionId,
+          generationId,
+          error: recordError instanceof Error ? recordError.message : String(recordError),
+        }),
+      );
+    }
+    if (!resume) {
+      logger.warn("Resume extraction returned invalid JSON", { sessionId, generationId });
+      return { ok: false, errorMessage: "Could not read the CV's structure. Try again, or pick another version." };
+    }
+
+    const consumedUnits = quotaUnitsForTokens(tokenUsage.usage().totalTokens, env.QUOTA_TOKENS_PER_UNIT);
+    await quotaService.commitHold(userId, holdKey, consumedUnits).catch((commitError) => {
+      logger.warn("Failed to commit quota hold", {
+        sessionId,
+        holdKey,
+        error: commitError instanceof Error ? commitError.message : String(commitError),
+      });
+    });
+    holdCommitted = true;
+    return { ok: true, resume };
+  } finally {
+    if (!holdCommitted) {
+      await quotaService.releaseHold({ uid: userId, sessionId: holdKey, refund: true }).catch((releaseError) =>
+        logger.warn("Failed to release quota hold", {
+          sessionId,
+          holdKey,
+          error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+        }),
+      );
+    }
+  }
+}
+
+/**
+ * Renders the content of one CV version into a gallery template and stores it
+ * as a new version. Versions rendered from a template keep their structured
+ * resume, so switching again skips the extraction call.
+ */
+export async function renderCvTemplateAction(input: RenderCvTemplateInput): Promise<RenderCvTemplateResponse> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  logger.step("Rendering CV into template", { sessionId: parsed.sessionId, template: parsed.template, userId });
+
+  const session = await sessionRepository.getSession(parsed.sessionId);
+  if (!session || session.userId !== userId) {
+    throw new Error("Session not found");
+  }
+
+  const generations = readCvGenerations(session.metadata);
+  const source = parsed.generationId
+    ? generations.find((entry) => entry.generationId === parsed.generationId)
+    : latestGeneration(generations);
+  if (!source?.content?.trim()) {
+    return { ok: false, errorMessage: "This CV version has no LaTeX to render." };
+  }
+
+  const generationId = `template-${randomUUID()}`;
+  const stored = source.resumeJson ? parseResumeJson(source.resumeJson) : null;
+  let resume: Resume;
+  if (stored?.ok) {
+    resume = stored.resume;
+  } else {
+    const extraction = await extractResume({
+      userId,
+      sessionId: parsed.sessionId,
+      generationId,
+      latex: source.content,
+    });
+    if (!extraction.ok) {
+      return extraction;
+    }
+    resume = extraction.resume;
+  }
+
+  const compile = await recompileCvAction({
+    sessionId: parsed.sessionId,
+    latex: renderResumeLatex(resume, parsed.template),
+    generationId,
+  });
+  if (!compile.ok) {
+    logger.warn("Template render failed to compile", { sessionId: parsed.sessionId, template: parsed.template, error: compile.errorMessage });
+    return { ok: false, errorMessage: `The ${RESUME_TEMPLATE_LABELS[parsed.template]} template did not compile: ${compile.errorMessage}` };
+  }
+
+  const compiled = await sessionRepository.getSession(parsed.sessionId);
+  const resumeJson = JSON.stringify(resume);
+  const updated = await sessionRepository.updateSession(
+    parsed.sessionId,
+    {
+      metadata: sanitizeFirestoreMap({
+        cvGenerations: readCvGenerations(compiled?.metadata).map((entry) =>
+          entry.generationId === generationId
+            ? { ...entry, template: parsed.template, resumeJson, renderedFrom: source.generationId }
+            : entry,
+        ),
+      }),
+    },
+    userId,
+  );
+
+  logger.info("CV rendered into template", { sessionId: parsed.sessionId, template: parsed.template, generationId });
+  return { ok: true, session: serializeSession(updated), generationId };
+}
@@ -0,0 +1,31 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { getSourceDocumentRevision, saveSourceDocument } from "@/lib/source-documents";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("restore-source-revision-action");
+
+const payloadSchema = z.object({
+  docType: z.enum(["original_cv", "extensive_cv", "resume_json"] as const),
+  revisionId: z.string().min(1).max(128),
+  profileId: z.string().min(1).max(64).optional(),
+});
+
+/**
+ * Makes an old revision current again. The restore is itself recorded as a
+ * new revision, so it can be undone from the same history.
+ */
+export async function restoreSourceRevisionAction(input: z.infer<typeof payloadSchema>): Promise<{ content: string }> {
+  const { docType, revisionId, profileId } = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  const revision = await getSourceDocumentRevision(userId, docType, revisionId, profileId);
+  if (!revision) {
+    throw new Error("Revision not found");
+  }
+  await saveSourceDocument(userId, docType, revision.content, profileId, "restore");
+  logger.info("Source document restored from revision", { userId, docType, revisionId, profileId: profileId ?? null });
+  return { content: revision.content };
+}
@@ -0,0 +1,77 @@
+"use server";
+
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { loadGenerationCheckpoints } from "@/lib/generation-checkpoints";
+import { readResumableGenerationId } from "@/lib/generation-resume";
+import { quotaService } from "@/lib/security/quota-service";
+import { sessionRepository } from "@/lib/session";
+
+import type { ParsedForm } from "./generate/form";
+import { startGeneration } from "./generate/start";
+import { createImmediateStream, type StreamResult } from "./generate/stream";
+
+const logger = createDebugLogger("resume-generation-action");
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  generationId: z.string().min(1),
+});
+
+export type ResumeGenerationInput = z.infer<typeof payloadSchema>;
+
+function isCheckpointedForm(value: unknown, input: ResumeGenerationInput): value is ParsedForm {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const form = value as Record<string, unknown>;
+  return form.sessionId === input.sessionId && form.generationId === input.generationId && typeof form.jobDescription === "string";
+}
+
+/**
+ * Re-queues a failed or abandoned generation under the same generationId. The
+ * worker reuses the steps that were checkpointed before the failure.
+ */
+export async function resumeGenerationAction(
+  input: ResumeGenerationInput,
+  options?: { requestId?: string },
+): Promise<{ stream: StreamResult }> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+
+  const session = await sessionRepository.getSession(parsed.sessionId);
+  if (!session || session.userId !== userId) {
+    return { stream: createImmediateStream("Session not found.") };
+  }
+  if (readResumableGenerationId(session) !== parsed.generationId) {
+    return { stream: createImmediateStream("This generation can no longer be resumed. Start a new one instead.") };
+  }
+
+  const checkpoints = await loadGenerationCheckpoints(parsed.sessionId, parsed.generationId);
+  const { input: form, ...steps } = checkpoints;
+  if (!isCheckpointedForm(form, parsed)) {
+    logger.warn("Resume requested without a saved input checkpoint", parsed);
+    return { stream: createImmediateStream("The original request for this generation was not saved, so it cannot be resumed.") };
+  }
+
+  // An abandoned run still holds its quota; refund it before the resume places a fresh hold.
+  const staleHoldKey = session.status === "processing" ? session.metadata?.activeHoldKey : null;
+  if (typeof staleHoldKey === "string") {
+    await quotaService.releaseHold({ uid: userId, sessionId: staleHoldKey, refund: true }).catch((error) =>
+      logger.warn("Failed to release abandoned quota hold", {
+        sessionId: parsed.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    );
+  }
+
+  logger.step("Resuming generation", {
+    sessionId: parsed.sessionId,
+    generationId: parsed.generationId,
+    savedSteps: Object.keys(steps),
+  });
+  return startGeneration(form, { requestId: options?.requestId });
+}
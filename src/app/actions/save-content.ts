@@ -2,8 +2,11 @@
 
 import { z } from "zod";
 import { requireServerAuthTokens } from "@/lib/auth";
+import { getCvProfile } from "@/lib/cv-profiles";
+import { CV_PROFILE_ID_PATTERN } from "@/lib/cv-profiles-shared";
 import { saveSourceDocument } from "@/lib/source-documents";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { parseResumeJson, RESUME_TEMPLATE_IDS } from "@/lib/resume/schema";
 
 const logger = createDebugLogger("save-content-action");
 
@@ -11,6 +14,8 @@ const payloadSchema = z.object({
   docType: z.enum([
     "original_cv",
     "extensive_cv",
+    "resume_json",
+    "cv_template",
     "cover_letter",
     "cv_strategy",
     "cover_letter_strategy",
@@ -18,6 +23,7 @@ const payloadSchema = z.object({
     "recon_strategy",
   ] as const),
   content: z.string().max(200_000, "Document content exceeds safe size limit"),
+  profileId: z.string().regex(CV_PROFILE_ID_PATTERN, "Invalid CV profile id").optional(),
 });
 
 export type SaveContentInput = z.infer<typeof payloadSchema>;
@@ -25,8 +31,24 @@ export type SaveContentInput = z.infer<typeof payloadSchema>;
 export async function saveContentAction(input: SaveContentInput): Promise<{ success: true }>{
   logger.step("saveContentAction invoked", { docType: input.docType, contentLength: input.content.length });
   const parsed = payloadSchema.parse(input);
+  if (parsed.docType === "resume_json" && parsed.content.trim()) {
+    const resume = parseResumeJson(parsed.content);
+    if (!resume.ok) {
+      throw new Error(`Resume JSON is invalid: ${resume.errors.join("; ")}`);
+    }
+  }
+  if (parsed.docType === "cv_template" && parsed.content && !(RESUME_TEMPLATE_IDS as readonly string[]).includes(parsed.content)) {
+    throw new Error(`Unknown CV template: ${parsed.content}`);
+  }
   const tokens = await requireServerAuthTokens();
-  await saveSourceDocument(tokens.decodedToken.uid, parsed.docType, parsed.content);
-  logger.info("Source document saved successfully", { docType: parsed.docType, userId: tokens.decodedToken.uid });
+  if (parsed.profileId && !(await getCvProfile(tokens.decodedToken.uid, parsed.profileId))) {
+    throw new Error("Profile not found");
+  }
+  await saveSourceDocument(tokens.decodedToken.uid, parsed.docType, parsed.content, parsed.profileId);
+  logger.info("Source document saved successfully", {
+    docType: parsed.docType,
+    userId: tokens.decodedToken.uid,
+    profileId: parsed.profileId ?? null,
+  });
   return { success: true };
 }
@@ -0,0 +1,41 @@
+"use server";
+
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { deleteSmtpSettings, saveSmtpSettings, toSmtpSettingsView } from "@/lib/smtp-settings";
+import type { SmtpSettingsView } from "@/lib/smtp-settings-shared";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+const logger = createDebugLogger("save-smtp-settings-action");
+
+const payloadSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("save"),
+    host: z.string().trim().min(1, "SMTP host is required").max(255),
+    port: z.coerce.number().int().min(1).max(65535),
+    security: z.enum(["ssl", "starttls", "none"]),
+    username: z.string().max(255).default(""),
+    password: z.string().max(1024).optional(),
+    fromName: z.string().max(120).default(""),
+    fromAddress: z.string().trim().email("Provide a valid sender address"),
+  }),
+  z.object({ action: z.literal("delete") }),
+]);
+
+export type SaveSmtpSettingsInput = z.input<typeof payloadSchema>;
+
+export async function saveSmtpSettingsAction(input: SaveSmtpSettingsInput): Promise<SmtpSettingsView | null> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  if (parsed.action === "delete") {
+    await deleteSmtpSettings(userId);
+    logger.info("SMTP settings removed", { userId });
+    return null;
+  }
+  const { action: _action, ...update } = parsed;
+  void _action;
+  const saved = await saveSmtpSettings(userId, update);
+  logger.info("SMTP settings updated", { userId, host: saved.host, port: saved.port });
+  return toSmtpSettingsView(saved);
+}
@@ -0,0 +1,128 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { buildCvFilename, selectCvLatex } from "@/lib/cv-pdf";
+import { DocumentService } from "@/lib/document-service";
+import type { EmailSendRecord } from "@/lib/email-sends";
+import { anchorFollowUpsOnSend, completeFollowUp, readFollowUps } from "@/lib/follow-ups";
+import { sessionRepository, type SessionRecord } from "@/lib/session";
+import { serializeSession } from "@/lib/serializers/session";
+import { sendSmtpMail, type MailAttachment } from "@/lib/smtp-mailer";
+import { getSmtpSettings } from "@/lib/smtp-settings";
+import { getStorageProvider } from "@/lib/storage/types";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { SerializableSession } from "@/types/session";
+
+const logger = createDebugLogger("send-cold-email-action");
+const storageProvider = getStorageProvider();
+let documentService: DocumentService | null = null;
+
+function getDocumentService(): DocumentService {
+  if (!documentService) {
+    documentService = new DocumentService(storageProvider);
+  }
+  return documentService;
+}
+
+const payloadSchema = z.object({
+  sessionId: z.string().min(1),
+  to: z.string().trim().email("Provide a valid recipient address"),
+  subject: z.string().trim().min(1, "Subject is required").max(500),
+  body: z.string().min(1, "Body is required").max(50_000),
+  attachCv: z.boolean().default(true),
+  generationId: z.string().optional(),
+  /** Set when sending a step of the follow-up sequence instead of the original email. */
+  followUpId: z.string().optional(),
+});
+
+export type SendColdEmailInput = z.input<typeof payloadSchema>;
+
+export type SendColdEmailResult = {
+  session: SerializableSession;
+  send: EmailSendRecord;
+};
+
+async function loadCvAttachment(
+  session: SessionRecord,
+  generationId: string | undefined,
+  displayName: unknown,
+): Promise<MailAttachment> {
+  const filename = buildCvFilename({
+    companyName: session.metadata?.companyName,
+    jobTitle: session.metadata?.jobTitle,
+    userDisplayName: displayName,
+  });
+  const stored = session.generatedFiles?.cv;
+  // Older sessions uploaded the PDF; newer ones keep LaTeX and render on demand.
+  if (!generationId && stored?.key && stored.key !== "inline-render") {
+    return { filename, content: await storageProvider.download(stored.key), contentType: "application/pdf" };
+  }
+  const selected = selectCvLatex(session, generationId);
+  if (!selected) {
+    throw new Error("No tailored CV is available to attach");
+  }
+  const { buffer } = await getDocumentService().renderLatexEphemeral(selected.latex);
+  return { filename, content: buffer, contentType: "application/pdf" };
+}
+
+/**
+ * Sends the cold email through the user's SMTP account with the tailored CV
+ * attached. Every attempt is recorded on the session, including failures.
+ */
+export async function sendColdEmailAction(input: SendColdEmailInput): Promise<SendColdEmailResult> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+
+  const session = await sessionRepository.getSession(parsed.sessionId);
+  if (!session || session.userId !== userId) {
+    throw new Error("Session not found");
+  }
+  const settings = await getSmtpSettings(userId);
+  if (!settings) {
+    throw new Error("Add an SMTP account in Settings before sending email");
+  }
+
+  logger.step("Sending cold email", { sessionId: parsed.sessionId, userId, attachCv: parsed.attachCv });
+  const record: EmailSendRecord = {
+    id: randomUUID(),
+    messageId: null,
+    to: parsed.to,
+    subject: parsed.subject,
+    sentAt: new Date().toISOString(),
+    status: "sent",
+    attachment: null,
+  };
+  try {
+    // Loading the CV can fail too (missing file, render error); that counts as a failed send.
+    const attachment = parsed.attachCv
+      ? await loadCvAttachment(session, parsed.generationId, tokens.decodedToken.name)
+      : null;
+    record.attachment = attachment?.filename ?? null;
+    const sent = await sendSmtpMail(settings, {
+      to: parsed.to,
+      subject: parsed.subject,
+      text: parsed.body,
+      attachments: attachment ? [attachment] : undefined,
+    });
+    record.messageId = sent.messageId;
+  } catch (error) {
+    record.status = "failed";
+    record.error = error instanceof Error ? error.message : String(error);
+    logger.warn("Cold email send failed", { sessionId: parsed.sessionId, error: record.error });
+  }
+
+  let updated = await sessionRepository.recordEmailSend(parsed.sessionId, userId, record);
+  if (record.status === "sent" && readFollowUps(updated.metadata)) {
+    updated = await sessionRepository.updateFollowUps(parsed.sessionId, userId, (sequence) =>
+      parsed.followUpId
+        ? completeFollowUp(sequence, parsed.followUpId, "sent", record.sentAt)
+        : anchorFollowUpsOnSend(sequence, record.sentAt),
+    );
+  }
+  logger.info("Cold email send recorded", { sessionId: parsed.sessionId, status: record.status, messageId: record.messageId });
+  return { session: serializeSession(updated), send: record };
+}
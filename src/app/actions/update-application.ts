@@ -0,0 +1,84 @@
+"use server";
+
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import {
+  APPLICATION_STAGES,
+  addApplicationNote,
+  addApplicationReminder,
+  completeApplicationReminder,
+  removeApplicationReminder,
+  transitionApplication,
+} from "@/lib/application-tracker";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { serializeSession } from "@/lib/serializers/session";
+import { sessionRepository } from "@/lib/session";
+import type { SerializableSession } from "@/types/session";
+
+const logger = createDebugLogger("update-application-action");
+
+const isoDateSchema = z
+  .string()
+  .trim()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Provide a valid date")
+  .transform((value) => new Date(value).toISOString());
+
+const payloadSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("transition"),
+    sessionId: z.string().min(1),
+    stage: z.enum(APPLICATION_STAGES),
+    at: isoDateSchema.optional(),
+    note: z.string().max(2000).optional(),
+  }),
+  z.object({
+    action: z.literal("add-note"),
+    sessionId: z.string().min(1),
+    body: z.string().trim().min(1, "Note cannot be empty").max(4000),
+  }),
+  z.object({
+    action: z.literal("add-reminder"),
+    sessionId: z.string().min(1),
+    label: z.string().trim().min(1, "Reminder needs a label").max(200),
+    dueAt: isoDateSchema,
+  }),
+  z.object({
+    action: z.literal("complete-reminder"),
+    sessionId: z.string().min(1),
+    reminderId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal("remove-reminder"),
+    sessionId: z.string().min(1),
+    reminderId: z.string().min(1),
+  }),
+]);
+
+export type UpdateApplicationInput = z.input<typeof payloadSchema>;
+
+export async function updateApplicationAction(input: UpdateApplicationInput): Promise<SerializableSession> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  const now = new Date().toISOString();
+  logger.step("Updating application tracker", { sessionId: parsed.sessionId, action: parsed.action, userId });
+
+  const updated = await sessionRepository.updateApplicationTracker(parsed.sessionId, userId, (tracker) => {
+    switch (parsed.action) {
+      case "transition":
+        return transitionApplication(tracker, parsed.stage, { at: parsed.at ?? now, note: parsed.note });
+      case "add-note":
+        return addApplicationNote(tracker, parsed.body, now);
+      case "add-reminder":
+        return addApplicationReminder(tracker, { label: parsed.label, dueAt: parsed.dueAt }, now);
+      case "complete-reminder":
+        return completeApplicationReminder(tracker, parsed.reminderId, now);
+      case "remove-reminder":
+        return removeApplicationReminder(tracker, parsed.reminderId, now);
+    }
+  });
+
+  logger.info("Application tracker updated", { sessionId: parsed.sessionId, action: parsed.action });
+  return serializeSession(updated);
+}
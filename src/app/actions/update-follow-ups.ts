@@ -0,0 +1,61 @@
+"use server";
+
+import { z } from "zod";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { completeFollowUp, markReplyReceived, MAX_FOLLOW_UP_DELAY_DAYS, setFollowUpDelay } from "@/lib/follow-ups";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { serializeSession } from "@/lib/serializers/session";
+import { sessionRepository } from "@/lib/session";
+import type { SerializableSession } from "@/types/session";
+
+const logger = createDebugLogger("update-follow-ups-action");
+
+const payloadSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("set-delay"),
+    sessionId: z.string().min(1),
+    stepId: z.string().min(1),
+    delayDays: z.coerce.number().int().min(1).max(MAX_FOLLOW_UP_DELAY_DAYS),
+  }),
+  z.object({
+    action: z.literal("mark-sent"),
+    sessionId: z.string().min(1),
+    stepId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal("skip"),
+    sessionId: z.string().min(1),
+    stepId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal("mark-reply"),
+    sessionId: z.string().min(1),
+  }),
+]);
+
+export type UpdateFollowUpsInput = z.input<typeof payloadSchema>;
+
+export async function updateFollowUpsAction(input: UpdateFollowUpsInput): Promise<SerializableSession> {
+  const parsed = payloadSchema.parse(input);
+  const tokens = await requireServerAuthTokens();
+  const userId = tokens.decodedToken.uid;
+  const now = new Date().toISOString();
+  logger.step("Updating follow-ups", { sessionId: parsed.sessionId, action: parsed.action, userId });
+
+  const updated = await sessionRepository.updateFollowUps(parsed.sessionId, userId, (sequence) => {
+    switch (parsed.action) {
+      case "set-delay":
+        return setFollowUpDelay(sequence, parsed.stepId, parsed.delayDays);
+      case "mark-sent":
+        return completeFollowUp(sequence, parsed.stepId, "sent", now);
+      case "skip":
+        return completeFollowUp(sequence, parsed.stepId, "skipped", now);
+      case "mark-reply":
+        return markReplyReceived(sequence, now);
+    }
+  });
+
+  logger.info("Follow-ups updated", { sessionId: parsed.sessionId, action: parsed.action });
+  return serializeSession(updated);
+}
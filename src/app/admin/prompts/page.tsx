@@ -0,0 +1,94 @@
+import { notFound, redirect } from "next/navigation";
+
+import { listPromptCatalogVersions } from "@/lib/ai/prompts";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { LOGIN_PAGE_PATH } from "@/lib/auth-config";
+import { listRecentPromptRuns } from "@/lib/prompt-run-store";
+import { summarizePromptRuns, type PromptVersionStats } from "@/lib/prompt-runs";
+import { isAdminEmail } from "@/lib/security/allowed-users";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_RUN_LIMIT = 500;
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatNumber(value: number | null, digits = 2): string {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+export default async function PromptExperimentsPage() {
+  const tokens = await requireServerAuthTokens().catch(() => null);
+  if (!tokens) {
+    redirect(`${LOGIN_PAGE_PATH}?next=/admin/prompts`);
+  }
+  if (!isAdminEmail(tokens.decodedToken.email)) {
+    notFound();
+  }
+
+  const stats = summarizePromptRuns(await listRecentPromptRuns(RECENT_RUN_LIMIT));
+  const statsByKey = new Map<string, PromptVersionStats[]>();
+  for (const entry of stats) {
+    statsByKey.set(entry.key, [...(statsByKey.get(entry.key) ?? []), entry]);
+  }
+  const catalog = listPromptCatalogVersions().filter(
+    (entry) => entry.versions.length > 1 || statsByKey.has(entry.key),
+  );
+
+  return (
+    <main className="mx-auto max-w-5xl px-6 py-10 text-zinc-900 dark:text-zinc-100">
+      <h1 className="text-2xl font-semibold">Prompt versions</h1>
+      <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+        Outcomes of the last {RECENT_RUN_LIMIT} generations, grouped by the prompt version each one used.
+      </p>
+      <div className="mt-8 space-y-8">
+        {catalog.map((entry) => {
+          const rows = statsByKey.get(entry.key) ?? [];
+          return (
+            <section key={entry.key} className="rounded-xl border border-zinc-200 dark:border-zinc-800">
+              <header className="flex flex-wrap items-baseline justify-between gap-2 border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+                <h2 className="font-mono text-sm font-semibold">{entry.key}</h2>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {entry.experiment
+                    ? `${entry.experiment.assignment} split · ${Object.entries(entry.experiment.weights)
+                        .map(([version, weight]) => `${version} ${weight}`)
+                        .join(" / ")}`
+                    : "No experiment"}
+                </span>
+              </header>
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Version</th>
+                    <th className="px-4 py-2 font-medium">Runs</th>
+                    <th className="px-4 py-2 font-medium">Compile success</th>
+                    <th className="px-4 py-2 font-medium">Page-fix attempts</th>
+                    <th className="px-4 py-2 font-medium">Rating</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.versions.map((version) => {
+                    const row = rows.find((item) => item.version === version);
+                    return (
+                      <tr key={version} className="border-t border-zinc-100 dark:border-zinc-800/60">
+                        <td className="px-4 py-2 font-mono">{version}</td>
+                        <td className="px-4 py-2">{row?.runs ?? 0}</td>
+                        <td className="px-4 py-2">{formatPercent(row?.compileSuccessRate ?? null)}</td>
+                        <td className="px-4 py-2">{formatNumber(row?.avgPageFixAttempts ?? null)}</td>
+                        <td className="px-4 py-2">
+                          {row?.avgRating != null ? `${formatNumber(row.avgRating, 1)} (${row.ratedRuns})` : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
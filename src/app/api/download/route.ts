@@ -20,7 +20,7 @@ function isKeyAuthorized(key: string, userId: string): boolean {
   const normalizedKey = key.replace(/^\/+/u, "");
   const segments = normalizedKey.split("/").filter(Boolean);
 
-  if (segments.length < 2) {
+  if (segments.length < 2 || segments.some((segment) => segment === "." || segment === "..")) {
     return false;
   }
 
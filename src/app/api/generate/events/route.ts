@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireServerAuthTokens } from "@/lib/auth";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { createGenerationEventStream } from "@/lib/generation-event-hub";
+
+const logger = createDebugLogger("api-generate-events");
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+const schema = z.object({
+  generationId: z.string().min(1),
+  lastEventId: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Reconnects to a running (or recently finished) generation. Events after the
+ * `Last-Event-ID` header are replayed before live events continue.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const parsed = schema.safeParse({
+    generationId: searchParams.get("generationId"),
+    lastEventId: request.headers.get("last-event-id") ?? searchParams.get("lastEventId") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid parameters" }, { status: 400 });
+  }
+
+  const tokens = await requireServerAuthTokens();
+  const { generationId, lastEventId } = parsed.data;
+  const stream = createGenerationEventStream(generationId, tokens.decodedToken.uid, lastEventId);
+  if (!stream) {
+    logger.warn("Generation event channel not found", { generationId });
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  logger.step("Resuming generation event stream", { generationId, lastEventId });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeGenerationAction } from "@/app/actions/resume-generation";
+import { createDebugLogger, REQUEST_ID_HEADER } from "@/lib/debug-logger";
+import { runWithRequestIdContext } from "@/lib/logging/request-id-context";
+
+const logger = createDebugLogger("api-generate-resume");
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get(REQUEST_ID_HEADER);
+  return runWithRequestIdContext(requestId, async () => {
+    try {
+      const body = (await request.json()) as { sessionId?: string; generationId?: string };
+      const { stream } = await resumeGenerationAction(
+        { sessionId: body.sessionId ?? "", generationId: body.generationId ?? "" },
+        { requestId: requestId ?? undefined },
+      );
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-store",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    } catch (error) {
+      logger.error("Resume route failed", { requestId: requestId ?? null, error });
+      const message = error instanceof Error ? error.message : "Unable to resume generation.";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  });
+}
@@ -27,8 +27,9 @@ export async function POST(request: NextRequest) {
 
       return new Response(stream, {
         headers: {
-          "Content-Type": "text/plain; charset=utf-8",
+          "Content-Type": "text/event-stream; charset=utf-8",
           "Cache-Control": "no-store",
+          "X-Accel-Buffering": "no",
         },
       });
     } catch (error) {
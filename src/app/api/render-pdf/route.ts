@@ -5,40 +5,18 @@ import { sessionRepository } from "@/lib/session";
 import { DocumentService } from "@/lib/document-service";
 import { getStorageProvider } from "@/lib/storage/types";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { buildCvFilename, buildDocumentFilename, selectCvLatex } from "@/lib/cv-pdf";
+import { readInterviewPrep } from "@/lib/interview-prep";
+import { buildInterviewPrepLatex } from "@/lib/interview-prep-latex";
+import { CompileQueueFullError } from "@/lib/latex/compile-queue";
 
 const storageProvider = getStorageProvider();
 const logger = createDebugLogger("render-pdf-route");
 const documentService = new DocumentService(storageProvider);
 
-type CvFilenameParts = {
-  companyName?: unknown;
-  jobTitle?: unknown;
-  userDisplayName?: unknown;
-};
-
-function slugifyForFilename(value: unknown, fallback: string): string {
-  if (typeof value !== "string") {
-    return fallback;
-  }
-  const trimmed = value.trim().toLowerCase();
-  if (!trimmed) {
-    return fallback;
-  }
-  const sanitized = trimmed.replace(/[^a-z0-9]+/g, "-").replace(/(^-|-$)/g, "");
-  return sanitized || fallback;
-}
-
-function buildCvFilename(parts: CvFilenameParts): string {
-  const company = slugifyForFilename(parts.companyName, "company");
-  const role = slugifyForFilename(parts.jobTitle, "role");
-  const candidate = slugifyForFilename(parts.userDisplayName, "");
-  const namePrefix = candidate ? `${candidate}-` : "";
-  return `${namePrefix}${company}-${role}-cv.pdf`;
-}
-
 const schema = z.object({
   sessionId: z.string().min(1),
-  artifact: z.literal("cv"),
+  artifact: z.enum(["cv", "interview-prep"]),
   generationId: z.string().optional(),
   disposition: z.enum(["inline", "attachment"]).default("inline"),
   candidate: z.string().optional(),
@@ -73,32 +51,39 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  if (artifact !== "cv") {
-    return NextResponse.json({ error: "Only CV PDF rendering is supported" }, { status: 400 });
-  }
-
-  const cvGenerations = Array.isArray(session.metadata?.cvGenerations)
-    ? (session.metadata?.cvGenerations as Array<Record<string, unknown>>)
-    : [];
-  const selected = generationId
-    ? cvGenerations.find((entry) => entry.generationId === generationId)
-    : cvGenerations[cvGenerations.length - 1];
-
-  const latex = (selected?.content as string) || (session.metadata?.cvFullLatex as string) || null;
-  if (!latex || isRedacted(latex)) {
-    return NextResponse.json({ error: "No CV LaTeX available" }, { status: 404 });
-  }
-
-  const filename = buildCvFilename({
+  const filenameParts = {
     companyName: session.metadata?.companyName,
     jobTitle: session.metadata?.jobTitle,
     userDisplayName: candidate || tokenDisplayName,
-  });
+  };
+  let latex: string;
+  let filename: string;
+  let renderedGenerationId: string | null;
+  if (artifact === "interview-prep") {
+    const prep = readInterviewPrep(session.metadata);
+    if (!prep) {
+      return NextResponse.json({ error: "No interview prep pack available" }, { status: 404 });
+    }
+    latex = buildInterviewPrepLatex(prep.pack, {
+      companyName: typeof session.metadata?.companyName === "string" ? session.metadata.companyName : undefined,
+      jobTitle: typeof session.metadata?.jobTitle === "string" ? session.metadata.jobTitle : undefined,
+    });
+    filename = buildDocumentFilename(filenameParts, "interview-prep");
+    renderedGenerationId = prep.generationId;
+  } else {
+    const selected = selectCvLatex(session, generationId);
+    if (!selected) {
+      return NextResponse.json({ error: "No CV LaTeX available" }, { status: 404 });
+    }
+    latex = selected.latex;
+    filename = buildCvFilename(filenameParts);
+    renderedGenerationId = generationId ?? selected.generationId;
+  }
 
   try {
     const { buffer, pageCount } = await documentService.renderLatexEphemeral(latex);
     const arrayBuffer = Uint8Array.from(buffer).buffer;
-    logger.step("Rendered CV PDF", { sessionId, generationId: generationId ?? selected?.generationId, pageCount });
+    logger.step("Rendered PDF", { sessionId, artifact, generationId: renderedGenerationId, pageCount });
     return new NextResponse(arrayBuffer, {
       status: 200,
       headers: {
@@ -109,12 +94,11 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof CompileQueueFullError) {
+      logger.warn("Render rejected: compile queue full", { sessionId, maxQueued: error.maxQueued });
+      return NextResponse.json({ error: error.message }, { status: 503, headers: { "Retry-After": "10" } });
+    }
     logger.error("Render failed", { sessionId, error: error instanceof Error ? error.message : String(error) });
     return NextResponse.json({ error: "Failed to render PDF" }, { status: 500 });
   }
 }
-
-function isRedacted(value: string): boolean {
-  const trimmed = value.trim();
-  return trimmed.startsWith("[REDACTED") || trimmed.includes("reason=latex");
-}
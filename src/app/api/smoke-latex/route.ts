@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { DocumentService } from "@/lib/document-service";
+import { getLatexCompilePool } from "@/lib/latex/compile-pool";
 import { buildSmokeTestStorageKey } from "@/lib/storage/path-builder";
 import { getStorageProvider } from "@/lib/storage/types";
 import { createDebugLogger } from "@/lib/debug-logger";
@@ -93,6 +94,8 @@ export async function POST() {
       pageCount: result.pageCount,
       url: result.file.url,
       storageKey: result.file.key,
+      compilePool: getLatexCompilePool().metrics(),
+      compileCache: documentService.compileCacheMetrics(),
     });
   } catch (error) {
     logger.error("Smoke test failed", error);
@@ -6,6 +6,7 @@ import { serializeSessions } from "@/lib/serializers/session";
 import { sessionRepository } from "@/lib/session";
 import { requireServerAuthTokens } from "@/lib/auth";
 import { getSourceDocumentsForUser } from "@/lib/source-documents";
+import { listCvProfiles, resolveActiveCvProfileId, toCvProfileSummary } from "@/lib/cv-profiles";
 import { LOGIN_PAGE_PATH } from "@/lib/auth-config";
 import { ensureUserProfile } from "@/lib/security/user-profile";
 
@@ -33,10 +34,12 @@ export default async function Home({ searchParams }: { searchParams: Promise<{ s
     photoURL: tokens.decodedToken.picture ?? null,
   };
 
+  const cvProfiles = await listCvProfiles(userId);
+  const activeCvProfileId = resolveActiveCvProfileId(cvProfiles);
   const [sessionRecords, storedDocuments, cvStrategy, coverLetterStrategy, coldEmailStrategy, reconStrategy, usageProfile] =
     await Promise.all([
       sessionRepository.listSessions(userId),
-      getSourceDocumentsForUser(userId),
+      getSourceDocumentsForUser(userId, activeCvProfileId),
       readSeedFile("cv_strat.txt"),
       readSeedFile("cover_letter.txt"),
       readSeedFile("cold_mail.txt"),
@@ -58,9 +61,13 @@ export default async function Home({ searchParams }: { searchParams: Promise<{ s
     sessions: serializedSessions,
     currentSessionId: targetSession?.id ?? null,
     chatHistory: targetSession?.chatHistory ?? [],
+    cvProfiles: cvProfiles.map(toCvProfileSummary),
+    activeCvProfileId,
     sourceDocuments: {
       originalCV: storedDocuments.originalCV,
       extensiveCV: storedDocuments.extensiveCV,
+      resumeJson: storedDocuments.resumeJson,
+      cvTemplate: storedDocuments.cvTemplate,
       coverLetter: storedDocuments.coverLetter,
       cvStrategy: storedDocuments.cvStrategy || cvStrategy || "Maintain ATS compliance and quantified impact per bullet.",
       coverLetterStrategy:
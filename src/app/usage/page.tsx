@@ -0,0 +1,105 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { requireServerAuthTokens } from "@/lib/auth";
+import { LOGIN_PAGE_PATH } from "@/lib/auth-config";
+import { quotaService } from "@/lib/security/quota-service";
+import { listUserTokenUsage } from "@/lib/token-usage-store";
+import { summarizeUserUsage, type TokenUsageTotals } from "@/lib/token-usage";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_GENERATION_LIMIT = 200;
+
+function formatTokens(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function UsageRow({ label, totals }: { label: string; totals: TokenUsageTotals }) {
+  return (
+    <tr className="border-t border-zinc-100 dark:border-zinc-800/60">
+      <td className="px-4 py-2 font-mono">{label}</td>
+      <td className="px-4 py-2">{totals.calls}</td>
+      <td className="px-4 py-2">{formatTokens(totals.promptTokens)}</td>
+      <td className="px-4 py-2">{formatTokens(totals.completionTokens)}</td>
+      <td className="px-4 py-2">{formatTokens(totals.totalTokens)}</td>
+      <td className="px-4 py-2">{formatCost(totals.costUsd)}</td>
+    </tr>
+  );
+}
+
+function UsageTable({ title, firstColumn, rows }: { title: string; firstColumn: string; rows: Array<{ label: string; totals: TokenUsageTotals }> }) {
+  return (
+    <section className="rounded-xl border border-zinc-200 dark:border-zinc-800">
+      <header className="border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+        <h2 className="text-sm font-semibold">{title}</h2>
+      </header>
+      {rows.length ? (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            <tr>
+              <th className="px-4 py-2 font-medium">{firstColumn}</th>
+              <th className="px-4 py-2 font-medium">Calls</th>
+              <th className="px-4 py-2 font-medium">Prompt</th>
+              <th className="px-4 py-2 font-medium">Completion</th>
+              <th className="px-4 py-2 font-medium">Total</th>
+              <th className="px-4 py-2 font-medium">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <UsageRow key={row.label} label={row.label} totals={row.totals} />
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="px-4 py-6 text-sm text-zinc-500 dark:text-zinc-400">No generations recorded yet.</p>
+      )}
+    </section>
+  );
+}
+
+export default async function UsagePage() {
+  const tokens = await requireServerAuthTokens().catch(() => null);
+  if (!tokens) {
+    redirect(`${LOGIN_PAGE_PATH}?next=/usage`);
+  }
+  const uid = tokens.decodedToken.uid;
+  const [records, quota] = await Promise.all([listUserTokenUsage(uid, RECENT_GENERATION_LIMIT), quotaService.getQuota(uid)]);
+  const summary = summarizeUserUsage(records);
+
+  const cards = [
+    { label: "Generations", value: String(summary.generations) },
+    { label: "Tokens", value: formatTokens(summary.totals.totalTokens) },
+    { label: "Estimated cost", value: formatCost(summary.totals.costUsd) },
+    { label: "Quota remaining", value: quota ? `${quota.quota.remaining} / ${quota.quota.totalAllocated}` : "—" },
+  ];
+
+  return (
+    <main className="mx-auto max-w-5xl px-6 py-10 text-zinc-900 dark:text-zinc-100">
+      <Link href="/" className="text-xs text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100">
+        ← Back to workspace
+      </Link>
+      <h1 className="mt-3 text-2xl font-semibold">Usage</h1>
+      <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+        Model tokens and estimated cost of your last {RECENT_GENERATION_LIMIT} generations. Costs use list prices and are approximate.
+      </p>
+      <div className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-xl border border-zinc-200 px-4 py-3 dark:border-zinc-800">
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">{card.label}</p>
+            <p className="mt-1 text-lg font-semibold">{card.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="mt-8 space-y-8">
+        <UsageTable title="By day" firstColumn="Day" rows={summary.byDay.map(({ day, ...totals }) => ({ label: day, totals }))} />
+        <UsageTable title="By task" firstColumn="Task" rows={summary.byTask.map(({ task, ...totals }) => ({ label: task, totals }))} />
+      </div>
+    </main>
+  );
+}
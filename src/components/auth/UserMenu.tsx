@@ -1,6 +1,7 @@
 'use client';
 
 import Image from "next/image";
+import Link from "next/link";
 import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { LOGOUT_PATH, LOGIN_PAGE_PATH } from "@/lib/auth-shared";
@@ -111,6 +112,9 @@ export function UserMenu({ profile, onOpenSettings }: UserMenuProps) {
               <p className="font-semibold text-zinc-900 dark:text-zinc-100">Usage</p>
               <p>Remaining: {quota.remaining} / {quota.totalAllocated}</p>
               <p>On hold: {quota.onHold}</p>
+              <Link href="/usage" className="mt-1 inline-block font-semibold text-zinc-700 underline-offset-2 hover:underline dark:text-zinc-300">
+                Token usage &amp; cost
+              </Link>
               <p className="mt-1 text-[11px] text-zinc-500 dark:text-zinc-400">Need more? Email {contactEmail}</p>
             </div>
           ) : null}
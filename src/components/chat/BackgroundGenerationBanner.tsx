@@ -0,0 +1,26 @@
+"use client";
+
+type BackgroundGenerationBannerProps = {
+  onCancel: () => void;
+  isCancelling: boolean;
+};
+
+/** Shown while a queued or running generation has no live stream in this tab. */
+export function BackgroundGenerationBanner({ onCancel, isCancelling }: BackgroundGenerationBannerProps) {
+  return (
+    <section className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/60 px-5 py-4">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 animate-pulse">Generation is running in the background.</p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">Progress appears in the logs; the documents load here when it finishes.</p>
+      </div>
+      <button
+        type="button"
+        disabled={isCancelling}
+        onClick={onCancel}
+        className="rounded-full border border-zinc-200 dark:border-zinc-700 px-4 py-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 transition hover:border-zinc-300 dark:hover:border-zinc-600 disabled:opacity-60"
+      >
+        {isCancelling ? "Cancelling..." : "Cancel"}
+      </button>
+    </section>
+  );
+}
@@ -3,9 +3,11 @@
 import { useEffect, useRef, useState } from "react";
 import { useChat, type ChatInput, type ChatResult } from "@/hooks/useChat";
 import { ChatView } from "@/components/chat/ChatView";
+import { BatchGenerationPanel } from "@/components/chat/batch/BatchGenerationPanel";
+import { CvProfilePicker } from "@/components/chat/CvProfilePicker";
 import { useSessionStore, type ClientSession } from "@/store/session-store";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faFire, faSnowflake } from "@fortawesome/free-solid-svg-icons";
+import { faFire, faLayerGroup, faSnowflake } from "@fortawesome/free-solid-svg-icons";
 
 export function ChatInterface() {
   const { sendMessage, isGenerating } = useChat();
@@ -25,6 +27,7 @@ export function ChatInterface() {
   const [isRetrying, setIsRetrying] = useState(false);
   const [isFormDirty, setIsFormDirty] = useState(false);
   const [hasGeneratedInSession, setHasGeneratedInSession] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
   const lastPayloadRef = useRef<ChatInput | null>(null);
   const lastSessionIdRef = useRef<string | null>(null);
   const preserveFormRef = useRef(false);
@@ -274,144 +277,162 @@ export function ChatInterface() {
   return (
     <div className="flex h-full flex-col gap-4">
       <ChatView />
-      <form onSubmit={handleSubmit} className="rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-6 shadow-sm">
-        <div className="flex flex-col gap-4 border-b border-zinc-100 dark:border-zinc-800 pb-4 sm:flex-row sm:items-center sm:justify-between">
-          <div>
-            <p className="text-xs uppercase tracking-widest text-zinc-400">Mode</p>
-            <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
-              {mode === "standard" ? "Standard Application" : "Cold Outreach"}
-            </p>
+      {isBatchOpen && !isColdOutreach ? (
+        <BatchGenerationPanel onClose={() => setIsBatchOpen(false)} />
+      ) : (
+        <form onSubmit={handleSubmit} className="rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-6 shadow-sm">
+          <div className="flex flex-col gap-4 border-b border-zinc-100 dark:border-zinc-800 pb-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <p className="text-xs uppercase tracking-widest text-zinc-400">Mode</p>
+              <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
+                {mode === "standard" ? "Standard Application" : "Cold Outreach"}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <CvProfilePicker disabled={isGenerating} />
+              {!isColdOutreach ? (
+                <button
+                  type="button"
+                  onClick={() => setIsBatchOpen(true)}
+                  disabled={isGenerating}
+                  className="inline-flex items-center gap-2 rounded-full border border-zinc-200 dark:border-zinc-700 px-4 py-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 transition hover:border-zinc-300 dark:hover:border-zinc-600 disabled:opacity-50"
+                >
+                  <FontAwesomeIcon icon={faLayerGroup} />
+                  Batch
+                </button>
+              ) : null}
+              <ModeToggle mode={mode} onToggle={toggleMode} />
+            </div>
           </div>
-          <ModeToggle mode={mode} onToggle={toggleMode} />
-        </div>
-        <div className="mt-4 grid gap-4 md:grid-cols-2">
-          <label className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
-            Company Name
-            <input
-              type="text"
-              value={companyName}
-              onChange={(event) => {
-                markDirty();
-                setCompanyName(event.target.value);
-              }}
-              className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-              placeholder="Google"
-              required
-            />
-          </label>
-          <label className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
-            Role / Job Title
-            <input
-              type="text"
-              value={jobTitle}
-              onChange={(event) => {
-                markDirty();
-                setJobTitle(event.target.value);
-              }}
-              className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-              placeholder="Software Developer"
-              required
-            />
-          </label>
-        </div>
-        {isColdOutreach ? (
           <div className="mt-4 grid gap-4 md:grid-cols-2">
-            <label className="text-sm font-semibold text-zinc-700">
-              Company Website
-              <input
-                type="text"
-                value={companyWebsite}
-                onChange={(event) => {
-                  markDirty();
-                  setCompanyWebsite(event.target.value);
-                }}
-                className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-                placeholder="https://google.com/careers"
-                required={isColdOutreach}
-              />
-            </label>
-            <label className="text-sm font-semibold text-zinc-700">
-              Contact Name
+            <label className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+              Company Name
               <input
                 type="text"
-                value={contactName}
+                value={companyName}
                 onChange={(event) => {
                   markDirty();
-                  setContactName(event.target.value);
+                  setCompanyName(event.target.value);
                 }}
                 className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-                placeholder="Sundar Pichai"
+                placeholder="Google"
+                required
               />
             </label>
-            <label className="text-sm font-semibold text-zinc-700">
-              Contact Title
+            <label className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+              Role / Job Title
               <input
                 type="text"
-                value={contactTitle}
-                onChange={(event) => {
-                  markDirty();
-                  setContactTitle(event.target.value);
-                }}
-                className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-                placeholder="CEO"
-              />
-            </label>
-            <label className="text-sm font-semibold text-zinc-700">
-              Contact Email
-              <input
-                type="email"
-                value={contactEmail}
+                value={jobTitle}
                 onChange={(event) => {
                   markDirty();
-                  setContactEmail(event.target.value);
+                  setJobTitle(event.target.value);
                 }}
                 className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-                placeholder="sundar@google.com"
+                placeholder="Software Developer"
+                required
               />
             </label>
           </div>
-        ) : null}
-        <label className="mt-4 block text-sm font-semibold text-zinc-700">
-          Job Description or URL
-          <textarea
-            value={jobDescription}
-            onChange={(event) => {
-              markDirty();
-              setJobDescription(event.target.value);
-            }}
-            placeholder={placeholder}
-            rows={6}
-            required={jobDescriptionRequired}
-            className="mt-2 w-full resize-none rounded-3xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-3 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
-          />
-        </label>
-        <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-500 dark:text-zinc-400">
-          <p>
-            {isColdOutreach 
-              ? "Tip: Paste a URL in cold mode to trigger reconnaissance and contact targeting logic."
-              : "Tip: Provide a job description to generate a tailored CV and cover letter."}
-          </p>
-          <div className="flex gap-2">
-            {retryAvailable ? (
+          {isColdOutreach ? (
+            <div className="mt-4 grid gap-4 md:grid-cols-2">
+              <label className="text-sm font-semibold text-zinc-700">
+                Company Website
+                <input
+                  type="text"
+                  value={companyWebsite}
+                  onChange={(event) => {
+                    markDirty();
+                    setCompanyWebsite(event.target.value);
+                  }}
+                  className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+                  placeholder="https://google.com/careers"
+                  required={isColdOutreach}
+                />
+              </label>
+              <label className="text-sm font-semibold text-zinc-700">
+                Contact Name
+                <input
+                  type="text"
+                  value={contactName}
+                  onChange={(event) => {
+                    markDirty();
+                    setContactName(event.target.value);
+                  }}
+                  className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+                  placeholder="Sundar Pichai"
+                />
+              </label>
+              <label className="text-sm font-semibold text-zinc-700">
+                Contact Title
+                <input
+                  type="text"
+                  value={contactTitle}
+                  onChange={(event) => {
+                    markDirty();
+                    setContactTitle(event.target.value);
+                  }}
+                  className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+                  placeholder="CEO"
+                />
+              </label>
+              <label className="text-sm font-semibold text-zinc-700">
+                Contact Email
+                <input
+                  type="email"
+                  value={contactEmail}
+                  onChange={(event) => {
+                    markDirty();
+                    setContactEmail(event.target.value);
+                  }}
+                  className="mt-1 w-full rounded-2xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-2.5 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+                  placeholder="sundar@google.com"
+                />
+              </label>
+            </div>
+          ) : null}
+          <label className="mt-4 block text-sm font-semibold text-zinc-700">
+            Job Description or URL
+            <textarea
+              value={jobDescription}
+              onChange={(event) => {
+                markDirty();
+                setJobDescription(event.target.value);
+              }}
+              placeholder={placeholder}
+              rows={6}
+              required={jobDescriptionRequired}
+              className="mt-2 w-full resize-none rounded-3xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-3 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+            />
+          </label>
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-500 dark:text-zinc-400">
+            <p>
+              {isColdOutreach 
+                ? "Tip: Paste a URL in cold mode to trigger reconnaissance and contact targeting logic."
+                : "Tip: Provide a job description to generate a tailored CV and cover letter."}
+            </p>
+            <div className="flex gap-2">
+              {retryAvailable ? (
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  disabled={isGenerating || isRetrying}
+                  className="rounded-full border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-900/20 px-4 py-2 text-sm font-semibold text-orange-700 dark:text-orange-300 transition hover:border-orange-300 dark:hover:border-orange-700 hover:bg-orange-100 dark:hover:bg-orange-900/30 disabled:cursor-not-allowed disabled:opacity-70"
+                >
+                  {isRetrying ? "Retrying…" : "Retry last request"}
+                </button>
+              ) : null}
               <button
-                type="button"
-                onClick={handleRetry}
+                type="submit"
                 disabled={isGenerating || isRetrying}
-                className="rounded-full border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-900/20 px-4 py-2 text-sm font-semibold text-orange-700 dark:text-orange-300 transition hover:border-orange-300 dark:hover:border-orange-700 hover:bg-orange-100 dark:hover:bg-orange-900/30 disabled:cursor-not-allowed disabled:opacity-70"
+                className="rounded-full bg-zinc-950 dark:bg-zinc-100 px-6 py-2 text-sm font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:cursor-not-allowed disabled:bg-zinc-400 dark:disabled:bg-zinc-600"
               >
-                {isRetrying ? "Retrying…" : "Retry last request"}
+                {isGenerating ? "Generating…" : hasGeneratedInSession ? "Regenerate" : "Generate Documents"}
               </button>
-            ) : null}
-            <button
-              type="submit"
-              disabled={isGenerating || isRetrying}
-              className="rounded-full bg-zinc-950 dark:bg-zinc-100 px-6 py-2 text-sm font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:cursor-not-allowed disabled:bg-zinc-400 dark:disabled:bg-zinc-600"
-            >
-              {isGenerating ? "Generating…" : hasGeneratedInSession ? "Regenerate" : "Generate Documents"}
-            </button>
+            </div>
           </div>
-        </div>
-      </form>
+        </form>
+      )}
     </div>
   );
 }
@@ -7,17 +7,30 @@ import { toast } from "sonner";
 
 import { deleteGenerationAction } from "@/app/actions/delete-generation";
 import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
+import { useCancelGeneration } from "@/hooks/useCancelGeneration";
+import { readActiveGenerationId, readResumableGenerationId } from "@/lib/generation-resume";
 import { useSessionStore } from "@/store/session-store";
 import { ArtifactsPanel } from "./artifacts/ArtifactsPanel";
+import { ApplicationTrackerCard } from "./tracker/ApplicationTrackerCard";
 import { useGenerationLogs } from "@/hooks/useGenerationLogs";
 import { GenerationLogsPanel, type GenerationRun } from "./generation";
+import { BackgroundGenerationBanner } from "./BackgroundGenerationBanner";
+import { LiveGenerationPanel } from "./LiveGenerationPanel";
+import { ResumeGenerationBanner } from "./ResumeGenerationBanner";
 import { WelcomePanel } from "./WelcomePanel";
 
 export function ChatView() {
   const generatedDocuments: GenerationArtifacts | null = useSessionStore((state) => state.generatedDocuments);
   const isGenerating = useSessionStore((state) => state.isGenerating);
   const currentSessionId = useSessionStore((state) => state.currentSessionId);
+  const liveGeneration = useSessionStore((state) =>
+    state.currentSessionId ? state.liveGenerations[state.currentSessionId] ?? null : null,
+  );
+  const currentSession = useSessionStore((state) =>
+    state.currentSessionId ? state.sessions.find((session) => session.id === state.currentSessionId) ?? null : null,
+  );
   const { upsertSession } = useSessionStore((state) => state.actions);
+  const { cancelGeneration, cancellingId } = useCancelGeneration();
   const { runs: generations, isLoading: generationLogsLoading } = useGenerationLogs(currentSessionId);
   const safeGenerations = Array.isArray(generations) ? generations : [];
   const containerRef = useRef<HTMLDivElement>(null);
@@ -164,7 +177,13 @@ export function ChatView() {
     [currentSessionId, deletingGenerationId, expandedGenerationId, setExpandedManual, upsertSession],
   );
 
-  const showWelcome = safeGenerations.length === 0 && !generatedDocuments;
+  const showLive = isGenerating && liveGeneration !== null;
+  const resumableGenerationId = currentSession && !isGenerating ? readResumableGenerationId(currentSession) : null;
+  const activeGenerationId = currentSession ? readActiveGenerationId(currentSession) : null;
+  const handleCancelGeneration =
+    currentSession && activeGenerationId ? () => void cancelGeneration(currentSession.id, activeGenerationId) : undefined;
+  const isCancelling = activeGenerationId !== null && cancellingId === activeGenerationId;
+  const showWelcome = safeGenerations.length === 0 && !generatedDocuments && !showLive;
 
   return (
     <div className="flex flex-1 flex-col gap-6 lg:flex-row">
@@ -184,11 +203,21 @@ export function ChatView() {
           </button>
         </div>
         <div ref={containerRef} className="flex-1 space-y-6 overflow-y-auto px-6 py-6">
+          {currentSession ? <ApplicationTrackerCard key={currentSession.id} session={currentSession} /> : null}
+          {currentSession && resumableGenerationId ? (
+            <ResumeGenerationBanner session={currentSession} generationId={resumableGenerationId} />
+          ) : null}
+          {handleCancelGeneration && !isGenerating && !resumableGenerationId ? (
+            <BackgroundGenerationBanner onCancel={handleCancelGeneration} isCancelling={isCancelling} />
+          ) : null}
+          {showLive ? (
+            <LiveGenerationPanel live={liveGeneration} onCancel={handleCancelGeneration} isCancelling={isCancelling} />
+          ) : null}
           {showWelcome ? (
             <WelcomePanel />
           ) : generatedDocuments ? (
             <ArtifactsPanel artifacts={generatedDocuments} />
-          ) : isGenerating ? (
+          ) : isGenerating && !showLive ? (
             <div className="flex h-full flex-col items-center justify-center gap-4">
               <div className="h-8 w-8 animate-spin rounded-full border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100" />
               <p className="text-sm font-semibold text-zinc-500 dark:text-zinc-400 animate-pulse">Generating documents...</p>
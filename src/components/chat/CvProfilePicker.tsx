@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faIdCard } from "@fortawesome/free-solid-svg-icons";
+
+import { useCvProfiles } from "@/hooks/useCvProfiles";
+import { useSessionStore } from "@/store/session-store";
+
+type CvProfilePickerProps = {
+  disabled?: boolean;
+};
+
+/**
+ * Selects the CV profile used for the next generation. Opening a session that
+ * was generated with another profile switches to it, so regenerations reuse
+ * the same source documents.
+ */
+export function CvProfilePicker({ disabled }: CvProfilePickerProps) {
+  const { profiles, activeProfileId, isPending, switchProfile } = useCvProfiles();
+  const currentSessionId = useSessionStore((state) => state.currentSessionId);
+  const sessionProfileId = useSessionStore((state) => {
+    const session = state.sessions.find((item) => item.id === state.currentSessionId);
+    const value = session?.metadata?.cvProfileId;
+    return typeof value === "string" ? value : null;
+  });
+  const syncedSessionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!currentSessionId || syncedSessionRef.current === currentSessionId) {
+      return;
+    }
+    syncedSessionRef.current = currentSessionId;
+    if (sessionProfileId && sessionProfileId !== activeProfileId && profiles.some((profile) => profile.id === sessionProfileId)) {
+      void switchProfile(sessionProfileId);
+    }
+  }, [activeProfileId, currentSessionId, profiles, sessionProfileId, switchProfile]);
+
+  if (profiles.length < 2) {
+    return null;
+  }
+
+  return (
+    <label className="inline-flex items-center gap-2 rounded-full border border-zinc-200 dark:border-zinc-700 px-3 py-1.5 text-sm text-zinc-700 dark:text-zinc-300">
+      <FontAwesomeIcon icon={faIdCard} className="text-zinc-400" />
+      <span className="sr-only">CV profile</span>
+      <select
+        value={activeProfileId}
+        onChange={(event) => void switchProfile(event.target.value)}
+        disabled={disabled || isPending}
+        className="bg-transparent text-sm font-semibold focus:outline-none disabled:opacity-50"
+        title={sessionProfileId && sessionProfileId === activeProfileId ? "Profile used by this session" : "CV profile for the next generation"}
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import type { LiveGenerationState, StreamedArtifactName } from "@/lib/generation-events";
+
+const DRAFT_LABELS: Record<StreamedArtifactName, string> = {
+  cv: "CV draft",
+  coverLetter: "Cover letter draft",
+};
+
+function DraftPreview({ label, text }: { label: string; text: string }) {
+  const ref = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    if (ref.current) {
+      ref.current.scrollTop = ref.current.scrollHeight;
+    }
+  }, [text]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{label}</p>
+      <pre
+        ref={ref}
+        className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded-2xl bg-zinc-50 dark:bg-zinc-800 p-4 font-mono text-xs text-zinc-700 dark:text-zinc-300"
+      >
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+type LiveGenerationPanelProps = {
+  live: LiveGenerationState;
+  onCancel?: () => void;
+  isCancelling?: boolean;
+};
+
+/** Progress and token-by-token drafts of the generation that is still running. */
+export function LiveGenerationPanel({ live, onCancel, isCancelling = false }: LiveGenerationPanelProps) {
+  const { progress, drafts } = live;
+  const percent = progress && progress.total ? Math.round((progress.completed / progress.total) * 100) : 0;
+  const entries = (Object.keys(DRAFT_LABELS) as StreamedArtifactName[]).flatMap((name) => {
+    const draft = drafts[name];
+    return draft?.text ? [{ name, text: draft.text }] : [];
+  });
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-5 shadow-sm">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <p className="font-semibold text-zinc-900 dark:text-zinc-100 animate-pulse">
+            {progress?.label ?? "Generating documents..."}
+          </p>
+          <div className="flex items-center gap-3">
+            {progress ? (
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {progress.completed}/{progress.total}
+              </span>
+            ) : null}
+            {onCancel ? (
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isCancelling}
+                className="rounded-full border border-zinc-200 dark:border-zinc-700 px-3 py-1 text-xs font-semibold text-zinc-600 dark:text-zinc-300 transition hover:border-zinc-300 dark:hover:border-zinc-600 disabled:opacity-60"
+              >
+                {isCancelling ? "Cancelling..." : "Cancel"}
+              </button>
+            ) : null}
+          </div>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+          <div className="h-full rounded-full bg-zinc-900 dark:bg-zinc-100 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      {entries.map((entry) => (
+        <DraftPreview key={entry.name} label={DRAFT_LABELS[entry.name]} text={entry.text} />
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useResumeGeneration } from "@/hooks/useResumeGeneration";
+import type { SerializableSession } from "@/types/session";
+
+type ResumeGenerationBannerProps = {
+  session: SerializableSession;
+  generationId: string;
+};
+
+/** Offers to pick a stopped generation back up from its last checkpoint. */
+export function ResumeGenerationBanner({ session, generationId }: ResumeGenerationBannerProps) {
+  const { resumeGeneration, resumingId } = useResumeGeneration();
+  const isResuming = resumingId === generationId;
+  const reason = session.status === "processing" ? "stopped responding" : "failed";
+
+  return (
+    <section className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/40 px-5 py-4">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-amber-900 dark:text-amber-200">The last generation {reason} before finishing.</p>
+        <p className="text-xs text-amber-800 dark:text-amber-300">Resuming reuses every step that already completed.</p>
+      </div>
+      <button
+        type="button"
+        disabled={isResuming}
+        onClick={() => void resumeGeneration(session.id, generationId)}
+        className="rounded-full bg-zinc-900 dark:bg-zinc-100 px-4 py-2 text-sm font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-700 dark:hover:bg-zinc-300 disabled:opacity-60"
+      >
+        {isResuming ? "Resuming..." : "Resume"}
+      </button>
+    </section>
+  );
+}
@@ -11,12 +11,19 @@ import {
   faPlus,
   faXmark,
   faTrash,
+  faList,
+  faTableColumns,
 } from "@fortawesome/free-solid-svg-icons";
 import { useMemo, useState, useRef, type TouchEvent } from "react";
 import { useSessionStore } from "@/store/session-store";
 import { IconDefinition } from "@fortawesome/fontawesome-svg-core";
 import { deleteSessionAction } from "@/app/actions/delete-session";
 import { toast } from "sonner";
+import { ApplicationBoard } from "@/components/chat/tracker/ApplicationBoard";
+import { describeApplicationStage, readApplicationTracker } from "@/lib/application-tracker";
+import { countDueFollowUps } from "@/lib/follow-ups";
+
+type SidebarView = "list" | "board";
 
 type SessionSidebarProps = {
   collapsed: boolean;
@@ -40,6 +47,7 @@ export function SessionSidebar({ collapsed, onToggleCollapsed, onSessionSelected
   const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null);
   const [swipeSessionId, setSwipeSessionId] = useState<string | null>(null);
   const [hoverDeleteSessionId, setHoverDeleteSessionId] = useState<string | null>(null);
+  const [view, setView] = useState<SidebarView>("list");
   const touchStartRef = useRef<Record<string, number>>({});
 
   const sortedSessions = useMemo(() => {
@@ -120,7 +128,7 @@ export function SessionSidebar({ collapsed, onToggleCollapsed, onSessionSelected
       <aside
         className={`fixed inset-y-0 left-0 z-50 flex flex-col border-r border-zinc-200 dark:border-zinc-800 bg-white/95 dark:bg-zinc-900/95 backdrop-blur transition-transform duration-300 ease-in-out md:relative md:translate-x-0 ${
           mobileOpen ? "translate-x-0 w-80" : "-translate-x-full md:translate-x-0"
-        } ${collapsed ? "md:w-16" : "md:w-80"}`}
+        } ${collapsed ? "md:w-16" : view === "board" ? "md:w-[44rem]" : "md:w-80"}`}
         aria-label="Session history sidebar"
       >
         {/* Mobile Close Button */}
@@ -216,8 +224,33 @@ export function SessionSidebar({ collapsed, onToggleCollapsed, onSessionSelected
           <>
             <div className="flex items-center justify-between px-5 py-4 mt-8 md:mt-0">
               <div>
-                <p className="text-xs uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Conversations</p>
-                <p className="text-base font-semibold text-zinc-950 dark:text-zinc-100">Session History</p>
+                <p className="text-xs uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                  {view === "board" ? "Applications" : "Conversations"}
+                </p>
+                <p className="text-base font-semibold text-zinc-950 dark:text-zinc-100">
+                  {view === "board" ? "Pipeline" : "Session History"}
+                </p>
+              </div>
+              <div className="ml-auto mr-3 flex rounded-full border border-zinc-200 dark:border-zinc-700 p-1">
+                {([
+                  { value: "list", icon: faList, label: "List view" },
+                  { value: "board", icon: faTableColumns, label: "Board view" },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setView(option.value)}
+                    aria-label={option.label}
+                    aria-pressed={view === option.value}
+                    className={`flex h-8 w-8 items-center justify-center rounded-full text-sm transition ${
+                      view === option.value
+                        ? "bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900"
+                        : "text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+                    }`}
+                  >
+                    <FontAwesomeIcon icon={option.icon} />
+                  </button>
+                ))}
               </div>
               <button
                 type="button"
@@ -229,56 +262,91 @@ export function SessionSidebar({ collapsed, onToggleCollapsed, onSessionSelected
                 <span className="sr-only">Start new chat</span>
               </button>
             </div>
-            <div className="flex-1 overflow-y-auto px-2 pb-6">
-              {sortedSessions.length === 0 ? (
-                <p className="rounded-lg border border-dashed border-zinc-200 dark:border-zinc-700 px-4 py-6 text-sm text-zinc-500 dark:text-zinc-400">
-                  No conversations yet. Start by pasting a job description.
-                </p>
-              ) : (
-                <ul className="space-y-2">
-                  {sortedSessions.map((session) => {
-                    const isActive = session.id === currentSessionId;
-                    const timestampIso = getSessionTimestampIso(session);
-                    const formattedTimestamp = formatSessionTimestamp(timestampIso);
-                    return (
-                      <li
-                        key={session.id}
-                        className="relative overflow-hidden group"
-                        onTouchStart={(event) => handleTouchStart(session.id, event)}
-                        onTouchMove={(event) => handleTouchMove(session.id, event)}
-                        onTouchEnd={() => handleTouchEnd(session.id)}
-                      >
-                        <button
-                          type="button"
-                          onClick={() => handleSessionClick(session.id)}
-                          className={`relative w-full rounded-xl border px-4 py-3 pr-20 text-left transition-colors duration-200 transform ${
-                            isActive
-                              ? "border-zinc-900 dark:border-zinc-100 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900"
-                              : "border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:border-zinc-300 dark:hover:border-zinc-600"
-                          } ${swipeSessionId === session.id ? "-translate-x-16" : "translate-x-0"}`}
+            {view === "board" ? (
+              <div className="flex-1 overflow-hidden">
+                <ApplicationBoard
+                  sessions={sortedSessions}
+                  currentSessionId={currentSessionId}
+                  onSelectSession={handleSessionClick}
+                />
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto px-2 pb-6">
+                {sortedSessions.length === 0 ? (
+                  <p className="rounded-lg border border-dashed border-zinc-200 dark:border-zinc-700 px-4 py-6 text-sm text-zinc-500 dark:text-zinc-400">
+                    No conversations yet. Start by pasting a job description.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {sortedSessions.map((session) => {
+                      const isActive = session.id === currentSessionId;
+                      const timestampIso = getSessionTimestampIso(session);
+                      const formattedTimestamp = formatSessionTimestamp(timestampIso);
+                      const dueFollowUps = countDueFollowUps(session.metadata);
+                      return (
+                        <li
+                          key={session.id}
+                          className="relative overflow-hidden group"
+                          onTouchStart={(event) => handleTouchStart(session.id, event)}
+                          onTouchMove={(event) => handleTouchMove(session.id, event)}
+                          onTouchEnd={() => handleTouchEnd(session.id)}
                         >
-                          <div className="text-sm font-semibold">
-                            <span className="block truncate">{session.title}</span>
+                          <button
+                            type="button"
+                            onClick={() => handleSessionClick(session.id)}
+                            className={`relative w-full rounded-xl border px-4 py-3 pr-20 text-left transition-colors duration-200 transform ${
+                              isActive
+                                ? "border-zinc-900 dark:border-zinc-100 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900"
+                                : "border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:border-zinc-300 dark:hover:border-zinc-600"
+                            } ${swipeSessionId === session.id ? "-translate-x-16" : "translate-x-0"}`}
+                          >
+                            <div className="text-sm font-semibold">
+                              <span className="block truncate">{session.title}</span>
+                            </div>
+                            <p className={`mt-1 text-xs ${isActive ? "text-zinc-200 dark:text-zinc-700" : "text-zinc-500 dark:text-zinc-400"}`}>
+                              {formattedTimestamp} · {describeApplicationStage(readApplicationTracker(session.metadata, session.createdAt))}
+                              {dueFollowUps > 0 ? (
+                                <span className="ml-1 font-semibold text-amber-500">
+                                  · {dueFollowUps} follow-up{dueFollowUps === 1 ? "" : "s"} due
+                                </span>
+                              ) : null}
+                            </p>
+                          </button>
+                          <div
+                            className="absolute right-4 top-1/2 -translate-y-1/2"
+                            onMouseEnter={() => setHoverDeleteSessionId(session.id)}
+                            onMouseLeave={() => setHoverDeleteSessionId((prev) => (prev === session.id ? null : prev))}
+                            onFocus={() => setHoverDeleteSessionId(session.id)}
+                            onBlur={() => setHoverDeleteSessionId((prev) => (prev === session.id ? null : prev))}
+                          >
+                            {hoverDeleteSessionId === session.id ? (
+                              <button
+                                type="button"
+                                aria-label={`Delete session ${session.title}`}
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  void handleDeleteSession(session.id, session.title);
+                                }}
+                                disabled={deletingSessionId === session.id}
+                                className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-red-200 bg-white text-red-600 transition hover:bg-red-50 disabled:opacity-60 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300"
+                              >
+                                {deletingSessionId === session.id ? (
+                                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                                ) : (
+                                  <FontAwesomeIcon icon={faTrash} />
+                                )}
+                              </button>
+                            ) : (
+                              <SessionStatusBadge status={session.status} />
+                            )}
                           </div>
-                          <p className={`mt-1 text-xs ${isActive ? "text-zinc-200 dark:text-zinc-700" : "text-zinc-500 dark:text-zinc-400"}`}>{formattedTimestamp}</p>
-                        </button>
-                        <div
-                          className="absolute right-4 top-1/2 -translate-y-1/2"
-                          onMouseEnter={() => setHoverDeleteSessionId(session.id)}
-                          onMouseLeave={() => setHoverDeleteSessionId((prev) => (prev === session.id ? null : prev))}
-                          onFocus={() => setHoverDeleteSessionId(session.id)}
-                          onBlur={() => setHoverDeleteSessionId((prev) => (prev === session.id ? null : prev))}
-                        >
-                          {hoverDeleteSessionId === session.id ? (
+                          {swipeSessionId === session.id && hoverDeleteSessionId !== session.id ? (
                             <button
                               type="button"
                               aria-label={`Delete session ${session.title}`}
-                              onClick={(event) => {
-                                event.stopPropagation();
-                                void handleDeleteSession(session.id, session.title);
-                              }}
+                              onClick={() => void handleDeleteSession(session.id, session.title)}
                               disabled={deletingSessionId === session.id}
-                              className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-red-200 bg-white text-red-600 transition hover:bg-red-50 disabled:opacity-60 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300"
+                              className="absolute right-3 top-1/2 -translate-y-1/2 inline-flex h-9 w-9 items-center justify-center rounded-full border border-red-200 bg-white text-red-600 transition hover:bg-red-50 disabled:opacity-60 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300"
                             >
                               {deletingSessionId === session.id ? (
                                 <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
@@ -286,31 +354,14 @@ export function SessionSidebar({ collapsed, onToggleCollapsed, onSessionSelected
                                 <FontAwesomeIcon icon={faTrash} />
                               )}
                             </button>
-                          ) : (
-                            <SessionStatusBadge status={session.status} />
-                          )}
-                        </div>
-                        {swipeSessionId === session.id && hoverDeleteSessionId !== session.id ? (
-                          <button
-                            type="button"
-                            aria-label={`Delete session ${session.title}`}
-                            onClick={() => void handleDeleteSession(session.id, session.title)}
-                            disabled={deletingSessionId === session.id}
-                            className="absolute right-3 top-1/2 -translate-y-1/2 inline-flex h-9 w-9 items-center justify-center rounded-full border border-red-200 bg-white text-red-600 transition hover:bg-red-50 disabled:opacity-60 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300"
-                          >
-                            {deletingSessionId === session.id ? (
-                              <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                            ) : (
-                              <FontAwesomeIcon icon={faTrash} />
-                            )}
-                          </button>
-                        ) : null}
-                      </li>
-                    );
-                  })}
-                </ul>
-              )}
-            </div>
+                          ) : null}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
           </>
         )}
       </aside>
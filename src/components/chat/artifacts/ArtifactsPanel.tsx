@@ -1,12 +1,14 @@
 'use client';
 
 import { useMemo } from "react";
-import { faEnvelope, faFileLines, faFilePdf } from "@fortawesome/free-solid-svg-icons";
+import { faComments, faEnvelope, faFileLines, faFilePdf } from "@fortawesome/free-solid-svg-icons";
 import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
 import { useSessionStore } from "@/store/session-store";
 import { CVArtifactCard } from "./CVArtifactCard";
 import { TextArtifactCard } from "./TextArtifactCard";
 import { ColdEmailCard } from "./ColdEmailCard";
+import { FollowUpsCard } from "./FollowUpsCard";
+import { InterviewPrepCard } from "./InterviewPrepCard";
 
 export type ArtifactsPanelProps = {
   artifacts: GenerationArtifacts | null;
@@ -25,6 +27,7 @@ export function ArtifactsPanel({ artifacts }: ArtifactsPanelProps) {
       { label: "CV", value: artifacts.cv, icon: faFilePdf },
       { label: "Cover Letter", value: artifacts.coverLetter, icon: faFileLines },
       { label: "Cold Email", value: artifacts.coldEmail, icon: faEnvelope },
+      { label: "Interview Prep", value: artifacts.interviewPrep, icon: faComments },
     ].filter((entry) => Boolean(entry.value));
   }, [artifacts]);
 
@@ -59,7 +62,15 @@ export function ArtifactsPanel({ artifacts }: ArtifactsPanelProps) {
           );
         }
         if (entry.label === "Cold Email" && entry.value) {
-          return <ColdEmailCard key={entry.label} icon={entry.icon} payload={entry.value} />;
+          return (
+            <div key={entry.label} className="space-y-4">
+              <ColdEmailCard icon={entry.icon} payload={entry.value} />
+              <FollowUpsCard defaultTo={entry.value.toAddress || entry.value.emailAddresses?.[0] || ""} />
+            </div>
+          );
+        }
+        if (entry.label === "Interview Prep" && entry.value) {
+          return <InterviewPrepCard key={entry.label} icon={entry.icon} payload={entry.value} />;
         }
         return null;
       })}
@@ -0,0 +1,102 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBullseye } from "@fortawesome/free-solid-svg-icons";
+
+import { diffAtsScores, type AtsComparison } from "@/lib/ats/keyword-score";
+
+type AtsScorePanelProps = {
+  ats: AtsComparison;
+  previous?: AtsComparison | null;
+};
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta} pts`;
+}
+
+function deltaClass(delta: number): string {
+  if (delta > 0) return "text-emerald-600 dark:text-emerald-400";
+  if (delta < 0) return "text-red-600 dark:text-red-400";
+  return "text-zinc-500 dark:text-zinc-400";
+}
+
+function KeywordChips({ items, tone }: { items: string[]; tone: "good" | "bad" | "warn" }) {
+  const toneClass =
+    tone === "good"
+      ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300"
+      : tone === "bad"
+        ? "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+        : "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300";
+  return (
+    <span className="flex flex-wrap gap-1">
+      {items.map((item) => (
+        <span key={item} className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${toneClass}`}>
+          {item}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function AtsScorePanel({ ats, previous }: AtsScorePanelProps) {
+  const tailored = ats.tailored;
+  if (!tailored) {
+    return null;
+  }
+  const vsOriginal = diffAtsScores(ats.original, tailored);
+  const vsPrevious = diffAtsScores(previous?.tailored, tailored);
+
+  return (
+    <div className="mt-4 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50/60 dark:bg-zinc-900/40 p-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+          <FontAwesomeIcon icon={faBullseye} /> ATS keyword match
+        </p>
+        <div className="flex items-baseline gap-3">
+          <span className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">{tailored.score}%</span>
+          {ats.original ? (
+            <span className="text-zinc-500 dark:text-zinc-400">
+              original {ats.original.score}% ·{" "}
+              <span className={deltaClass(vsOriginal?.delta ?? 0)}>{formatDelta(vsOriginal?.delta ?? 0)}</span>
+            </span>
+          ) : null}
+          {vsPrevious ? (
+            <span className="text-zinc-500 dark:text-zinc-400">
+              vs previous version <span className={deltaClass(vsPrevious.delta)}>{formatDelta(vsPrevious.delta)}</span>
+            </span>
+          ) : null}
+        </div>
+      </div>
+      <div className="mt-2 space-y-1.5">
+        {vsOriginal?.gained.length ? (
+          <p className="flex flex-wrap items-center gap-2 text-zinc-600 dark:text-zinc-300">
+            <span className="font-semibold">Added:</span>
+            <KeywordChips items={vsOriginal.gained} tone="good" />
+          </p>
+        ) : null}
+        {vsOriginal?.lost.length ? (
+          <p className="flex flex-wrap items-center gap-2 text-zinc-600 dark:text-zinc-300">
+            <span className="font-semibold">Dropped:</span>
+            <KeywordChips items={vsOriginal.lost} tone="bad" />
+          </p>
+        ) : null}
+        {tailored.missing.length ? (
+          <p className="flex flex-wrap items-center gap-2 text-zinc-600 dark:text-zinc-300">
+            <span className="font-semibold">Missing:</span>
+            <KeywordChips items={tailored.missing} tone="bad" />
+          </p>
+        ) : null}
+        {tailored.overused.length ? (
+          <p className="flex flex-wrap items-center gap-2 text-zinc-600 dark:text-zinc-300">
+            <span className="font-semibold">Overused:</span>
+            <KeywordChips items={tailored.overused.map((hit) => `${hit.keyword} ×${hit.count}`)} tone="warn" />
+          </p>
+        ) : null}
+      </div>
+      <p className="mt-2 text-[11px] text-zinc-400">
+        {ats.keywords.length} keywords from {ats.keywordSource === "research" ? "the research brief" : "job description term frequency"}
+        {tailored.source === "latex" ? " · scored from LaTeX source because the PDF did not compile" : ""}
+      </p>
+    </div>
+  );
+}
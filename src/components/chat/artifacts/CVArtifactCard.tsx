@@ -2,7 +2,7 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faCopy, faDownload } from "@fortawesome/free-solid-svg-icons";
+import { faCopy, faDownload, faFileWord } from "@fortawesome/free-solid-svg-icons";
 import { toast } from "sonner";
 import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
 import { useSessionStore } from "@/store/session-store";
@@ -12,6 +12,11 @@ import { autoFixCvAction } from "@/app/actions/auto-fix-cv";
 import { saveContentAction } from "@/app/actions/save-content";
 import { useAutosave } from "@/hooks/useAutosave";
 import promptCatalog from "@/prompts.json";
+import { AtsScorePanel } from "./AtsScorePanel";
+import { CvTemplatePicker } from "./CvTemplatePicker";
+import { GenerationRating } from "./GenerationRating";
+import { GroundingPanel } from "./GroundingPanel";
+import { RefineChat } from "./RefineChat";
 
 export type CVArtifactCardProps = {
   label: string;
@@ -68,6 +73,7 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
   );
   const sessionId = useSessionStore((state) => state.currentSessionId);
   const { upsertSession, updateSourceDocument } = useSessionStore((state) => state.actions);
+  const activeCvProfileId = useSessionStore((state) => state.activeCvProfileId);
   const [versionIndex, setVersionIndex] = useState<number>(virtualVersions.length ? virtualVersions.length - 1 : 0);
   const selectedVersionIdRef = useRef<string | null>(virtualVersions[versionIndex]?.generationId ?? null);
   const activeVersion = virtualVersions[versionIndex] ?? null;
@@ -82,12 +88,15 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
     : null;
   const previewUrl = renderBase ? `${renderBase}&disposition=inline` : null;
   const downloadUrl = renderBase ? `${renderBase}&disposition=attachment` : null;
+  // The Word export is produced once per generation, so it only matches the newest version.
+  const docxUrl = !isPendingVersion && versionIndex >= normalizedVersions.length - 1 ? payload.docxDownloadUrl ?? null : null;
   const [previewVersion, setPreviewVersion] = useState<number>(0);
   const previewUrlWithBust = previewUrl ? `${previewUrl}${previewUrl.includes("?") ? "&" : "?"}v=${previewVersion}` : null;
   const [previewLoading, setPreviewLoading] = useState<boolean>(Boolean(previewUrl));
   const [latexDraft, setLatexDraft] = useState<string>(effectiveContent);
   const [isCompiling, setIsCompiling] = useState(false);
   const [isAutoFixing, setIsAutoFixing] = useState(false);
+  const [refinedVersionId, setRefinedVersionId] = useState<string | null>(null);
   const {
     saveState: latexSaveState,
     setSaveState: setLatexSaveState,
@@ -95,7 +104,7 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
     flushSave: flushLatexSave,
   } = useAutosave<string>({
     onSave: async (value) => {
-      await saveContentAction({ docType: "original_cv", content: value });
+      await saveContentAction({ docType: "original_cv", content: value, profileId: activeCvProfileId });
       updateSourceDocument("originalCV", value);
     },
     onError: (error) => toast.error(error instanceof Error ? error.message : "Unable to save LaTeX source"),
@@ -157,6 +166,16 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
     }
   }, [virtualVersions, payload.storageKey, versionIndex]);
 
+  // A refinement adds a version at the end; show it once the session update has arrived.
+  useEffect(() => {
+    if (!refinedVersionId) return;
+    const nextIndex = virtualVersions.findIndex((entry) => entry.generationId === refinedVersionId);
+    if (nextIndex >= 0) {
+      setVersionIndex(nextIndex);
+      setRefinedVersionId(null);
+    }
+  }, [refinedVersionId, virtualVersions]);
+
   useEffect(() => {
     setLatexDraft(effectiveContent);
     setLatexSaveState("idle");
@@ -402,6 +421,16 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
                 <span className="hidden sm:inline">Download</span>
               </a>
             ) : null}
+            {docxUrl ? (
+              <a
+                href={docxUrl}
+                className="text-xs font-semibold text-sky-600 dark:text-sky-400 transition hover:text-sky-800 dark:hover:text-sky-300 flex items-center gap-1"
+                title="Download as Word document"
+              >
+                <FontAwesomeIcon icon={faFileWord} />
+                <span className="hidden sm:inline">DOCX</span>
+              </a>
+            ) : null}
             {canCopy ? (
               <button
                 type="button"
@@ -582,6 +611,30 @@ export function CVArtifactCard({ label, icon, payload, isSessionGenerating }: CV
           </div>
         </div>
       )}
+      {!isPendingVersion && activeVersion?.ats ? (
+        <AtsScorePanel ats={activeVersion.ats} previous={versionIndex > 0 ? virtualVersions[versionIndex - 1]?.ats : null} />
+      ) : null}
+      {!isPendingVersion && activeVersion?.grounding ? <GroundingPanel report={activeVersion.grounding} /> : null}
+      {!isPendingVersion && !isFailedVersion && effectiveGenerationId ? (
+        <GenerationRating generationId={effectiveGenerationId} />
+      ) : null}
+      {!isPendingVersion && !isFailedVersion ? (
+        <CvTemplatePicker
+          generationId={effectiveGenerationId}
+          template={activeVersion?.template}
+          disabled={isCompiling || isAutoFixing || isSessionGenerating}
+          onRendered={setRefinedVersionId}
+        />
+      ) : null}
+      {!isPendingVersion ? (
+        <RefineChat
+          artifact="cv"
+          content={latexDraft}
+          generationId={effectiveGenerationId}
+          disabled={isCompiling || isAutoFixing || isSessionGenerating}
+          onRefined={setRefinedVersionId}
+        />
+      ) : null}
       {virtualVersions.length > 0 ? (
         <div className="mt-3 flex justify-end">
           <div className="flex items-center gap-2 text-xs font-semibold text-zinc-500 dark:text-zinc-400">
@@ -1,9 +1,13 @@
 'use client';
 
+import { useState, type FormEvent } from "react";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faDownload, faEnvelope } from "@fortawesome/free-solid-svg-icons";
+import { faDownload, faEnvelope, faPaperPlane } from "@fortawesome/free-solid-svg-icons";
 import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
+import { useEmailSender } from "@/hooks/useEmailSender";
 import type { ArtifactPayload } from "@/hooks/useStreamableValue";
+import { readEmailSends } from "@/lib/email-sends";
+import { useSessionStore } from "@/store/session-store";
 
 export type ColdEmailCardProps = {
   icon: IconDefinition;
@@ -16,6 +20,7 @@ export function ColdEmailCard({ icon, payload }: ColdEmailCardProps) {
   const body = payload.body || payload.content;
   const mailto = buildMailtoLink(toAddress, subject, body);
   const downloadUrl = buildSecureDownloadUrl(payload, { disposition: "attachment" });
+  const [composerOpen, setComposerOpen] = useState(false);
 
   return (
     <div className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4 shadow-sm">
@@ -25,6 +30,14 @@ export function ColdEmailCard({ icon, payload }: ColdEmailCardProps) {
           Cold Email
         </div>
         <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setComposerOpen((open) => !open)}
+            className="rounded-full bg-zinc-900 dark:bg-zinc-100 px-4 py-1.5 text-xs font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-700 dark:hover:bg-zinc-300 flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faPaperPlane} />
+            <span className="hidden sm:inline">Send</span>
+          </button>
           <a
             href={mailto}
             className="rounded-full bg-emerald-600 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-500 flex items-center gap-2"
@@ -44,11 +57,111 @@ export function ColdEmailCard({ icon, payload }: ColdEmailCardProps) {
           ) : null}
         </div>
       </div>
+      {composerOpen ? (
+        <SendComposer
+          key={`${toAddress}|${subject}|${body}`}
+          defaultTo={payload.toAddress || payload.emailAddresses?.[0] || ""}
+          defaultSubject={subject}
+          defaultBody={body}
+          onSent={() => setComposerOpen(false)}
+        />
+      ) : null}
       <div className="mt-4 space-y-3">
         <CopyField label="To" value={toAddress} />
         <CopyField label="Subject" value={subject} />
         <CopyField label="Body" value={body} multiline />
       </div>
+      <SendHistory />
+    </div>
+  );
+}
+
+const composerInputClassName =
+  "w-full rounded-xl border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-800 dark:text-zinc-200 focus:border-zinc-900 dark:focus:border-zinc-500 focus:outline-none";
+
+type SendComposerProps = {
+  defaultTo: string;
+  defaultSubject: string;
+  defaultBody: string;
+  onSent: () => void;
+};
+
+function SendComposer({ defaultTo, defaultSubject, defaultBody, onSent }: SendComposerProps) {
+  const sessionId = useSessionStore((state) => state.currentSessionId);
+  const { sendColdEmail, isSending } = useEmailSender();
+  const [to, setTo] = useState(defaultTo);
+  const [subject, setSubject] = useState(defaultSubject);
+  const [body, setBody] = useState(defaultBody);
+  const [attachCv, setAttachCv] = useState(true);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!sessionId) {
+      return;
+    }
+    if (await sendColdEmail({ sessionId, to, subject, body, attachCv })) {
+      onSent();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-2 rounded-2xl border border-zinc-200 dark:border-zinc-700 p-3">
+      <input
+        type="email"
+        value={to}
+        onChange={(event) => setTo(event.target.value)}
+        placeholder="recipient@company.com"
+        required
+        className={composerInputClassName}
+      />
+      <input value={subject} onChange={(event) => setSubject(event.target.value)} required className={composerInputClassName} />
+      <textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        rows={8}
+        required
+        className={composerInputClassName}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+          <input type="checkbox" checked={attachCv} onChange={(event) => setAttachCv(event.target.checked)} />
+          Attach tailored CV (PDF)
+        </label>
+        <button
+          type="submit"
+          disabled={isSending || !sessionId}
+          className="rounded-full bg-emerald-600 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-500 disabled:opacity-50"
+        >
+          {isSending ? "Sending…" : "Send via SMTP"}
+        </button>
+      </div>
+      <p className="text-xs text-zinc-400">Uses the SMTP account configured in Settings.</p>
+    </form>
+  );
+}
+
+function SendHistory() {
+  const metadata = useSessionStore((state) => state.sessions.find((item) => item.id === state.currentSessionId)?.metadata);
+  const records = readEmailSends(metadata);
+  if (!records.length) {
+    return null;
+  }
+  return (
+    <div className="mt-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 p-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Sent</p>
+      <ul className="mt-2 space-y-1.5">
+        {[...records].reverse().map((record) => (
+          <li key={record.id} className="text-xs text-zinc-600 dark:text-zinc-400">
+            <span className={record.status === "sent" ? "text-emerald-600" : "text-red-600"}>
+              {record.status === "sent" ? "Sent" : "Failed"}
+            </span>{" "}
+            to {record.to} · {new Date(record.sentAt).toLocaleString()}
+            {record.attachment ? ` · ${record.attachment}` : ""}
+            {record.messageId ? <span className="block truncate text-zinc-400">{record.messageId}</span> : null}
+            {record.error ? <span className="block text-red-600">{record.error}</span> : null}
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
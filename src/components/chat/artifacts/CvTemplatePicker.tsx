@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faChevronDown, faChevronUp, faSwatchbook } from "@fortawesome/free-solid-svg-icons";
+
+import { TemplateGallery } from "@/components/settings/TemplateGallery";
+import { useRenderCvTemplate } from "@/hooks/useRenderCvTemplate";
+import { RESUME_TEMPLATE_IDS, type ResumeTemplateId } from "@/lib/resume/schema";
+import { useSessionStore } from "@/store/session-store";
+
+type CvTemplatePickerProps = {
+  generationId?: string;
+  /** Template the shown version was rendered into, if any. */
+  template?: string;
+  disabled?: boolean;
+  onRendered: (generationId: string) => void;
+};
+
+function isTemplateId(value: string): value is ResumeTemplateId {
+  return (RESUME_TEMPLATE_IDS as readonly string[]).includes(value);
+}
+
+export function CvTemplatePicker({ generationId, template, disabled, onRendered }: CvTemplatePickerProps) {
+  const sessionId = useSessionStore((state) => state.currentSessionId);
+  const { renderCvTemplate, pendingTemplate } = useRenderCvTemplate();
+  const [open, setOpen] = useState(false);
+
+  if (!sessionId) {
+    return null;
+  }
+
+  const handleSelect = async (next: string) => {
+    if (!isTemplateId(next) || next === template) {
+      return;
+    }
+    const nextId = await renderCvTemplate({ sessionId, template: next, generationId });
+    if (nextId) {
+      onRendered(nextId);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-zinc-200 dark:border-zinc-800">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400"
+      >
+        <FontAwesomeIcon icon={faSwatchbook} />
+        Templates
+        {pendingTemplate ? <span className="normal-case tracking-normal">· Rendering...</span> : null}
+        <FontAwesomeIcon icon={open ? faChevronUp : faChevronDown} className="ml-auto" />
+      </button>
+      {open ? (
+        <div className="border-t border-zinc-200 px-3 py-3 dark:border-zinc-800">
+          <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+            Render this version&apos;s content into another layout. Each render is saved as a new version.
+          </p>
+          <TemplateGallery
+            value={template ?? null}
+            onSelect={(next) => void handleSelect(next)}
+            disabled={disabled || Boolean(pendingTemplate)}
+            pendingTemplate={pendingTemplate}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
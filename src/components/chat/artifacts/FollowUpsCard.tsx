@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, type FormEvent } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faClockRotateLeft, faReply } from "@fortawesome/free-solid-svg-icons";
+import { useEmailSender } from "@/hooks/useEmailSender";
+import { useFollowUps } from "@/hooks/useFollowUps";
+import { isOpenFollowUp, MAX_FOLLOW_UP_DELAY_DAYS, readFollowUps, type FollowUpStatus, type FollowUpStep } from "@/lib/follow-ups";
+import { useSessionStore } from "@/store/session-store";
+
+export type FollowUpsCardProps = {
+  defaultTo: string;
+};
+
+const STATUS_LABELS: Record<FollowUpStatus, string> = {
+  scheduled: "Scheduled",
+  due: "Due",
+  sent: "Sent",
+  skipped: "Skipped",
+  cancelled: "Cancelled",
+};
+
+const STATUS_CLASSES: Record<FollowUpStatus, string> = {
+  scheduled: "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300",
+  due: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  sent: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+  skipped: "bg-zinc-100 dark:bg-zinc-800 text-zinc-500",
+  cancelled: "bg-zinc-100 dark:bg-zinc-800 text-zinc-500",
+};
+
+const smallButtonClassName =
+  "rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50";
+
+/** Drafted follow-ups for the cold email, with their due dates and the reply switch that cancels them. */
+export function FollowUpsCard({ defaultTo }: FollowUpsCardProps) {
+  const session = useSessionStore((state) => state.sessions.find((item) => item.id === state.currentSessionId));
+  const { updateFollowUps, isUpdating } = useFollowUps();
+  const sequence = readFollowUps(session?.metadata);
+  if (!session || !sequence || sequence.steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-base font-semibold text-zinc-900 dark:text-zinc-100">
+          <FontAwesomeIcon icon={faClockRotateLeft} />
+          Follow-ups
+        </div>
+        {sequence.replyReceivedAt ? null : (
+          <button
+            type="button"
+            disabled={isUpdating}
+            onClick={() => void updateFollowUps({ action: "mark-reply", sessionId: session.id })}
+            className={`${smallButtonClassName} flex items-center gap-2`}
+          >
+            <FontAwesomeIcon icon={faReply} />
+            Reply received
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        {sequence.anchorSource === "sent"
+          ? `Counting from when the email was sent on ${new Date(sequence.anchorAt).toLocaleDateString()}.`
+          : "Counting from generation until the cold email is sent from here."}
+      </p>
+      {sequence.replyReceivedAt ? (
+        <p className="mt-3 rounded-xl bg-emerald-50 dark:bg-emerald-900/20 px-3 py-2 text-xs text-emerald-700 dark:text-emerald-300">
+          Reply received {new Date(sequence.replyReceivedAt).toLocaleDateString()} – remaining follow-ups were cancelled.
+        </p>
+      ) : null}
+      <ol className="mt-4 space-y-3">
+        {sequence.steps.map((step, index) => (
+          <FollowUpItem
+            key={step.id}
+            sessionId={session.id}
+            step={step}
+            index={index}
+            defaultTo={defaultTo}
+            isUpdating={isUpdating}
+            onUpdate={updateFollowUps}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+type FollowUpItemProps = {
+  sessionId: string;
+  step: FollowUpStep;
+  index: number;
+  defaultTo: string;
+  isUpdating: boolean;
+  onUpdate: ReturnType<typeof useFollowUps>["updateFollowUps"];
+};
+
+function FollowUpItem({ sessionId, step, index, defaultTo, isUpdating, onUpdate }: FollowUpItemProps) {
+  const { sendColdEmail, isSending } = useEmailSender();
+  const [delay, setDelay] = useState(String(step.delayDays));
+  const [to, setTo] = useState(defaultTo);
+  const open = isOpenFollowUp(step);
+
+  const handleDelay = async (event: FormEvent) => {
+    event.preventDefault();
+    const delayDays = Number(delay);
+    if (delayDays === step.delayDays) {
+      return;
+    }
+    if (!(await onUpdate({ action: "set-delay", sessionId, stepId: step.id, delayDays }))) {
+      setDelay(String(step.delayDays));
+    }
+  };
+
+  const handleCopy = () => {
+    if (typeof navigator !== "undefined" && navigator.clipboard) {
+      void navigator.clipboard.writeText(`${step.subject}\n\n${step.body}`);
+    }
+  };
+
+  return (
+    <li
+      className={`rounded-2xl border p-3 ${
+        step.status === "due" ? "border-amber-300 dark:border-amber-700" : "border-zinc-100 dark:border-zinc-800"
+      }`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+          Follow-up {index + 1}
+          <span className={`ml-2 rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATUS_CLASSES[step.status]}`}>
+            {STATUS_LABELS[step.status]}
+          </span>
+        </p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {open ? "Due" : "Was due"} {new Date(step.dueAt).toLocaleDateString()}
+          {step.completedAt ? ` · ${STATUS_LABELS[step.status].toLowerCase()} ${new Date(step.completedAt).toLocaleDateString()}` : ""}
+        </p>
+      </div>
+      <p className="mt-2 text-sm font-medium text-zinc-800 dark:text-zinc-200">{step.subject}</p>
+      <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-sm text-zinc-700 dark:text-zinc-300">{step.body}</pre>
+      {open ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <form onSubmit={handleDelay} className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+            +
+            <input
+              type="number"
+              min={1}
+              max={MAX_FOLLOW_UP_DELAY_DAYS}
+              value={delay}
+              onChange={(event) => setDelay(event.target.value)}
+              onBlur={handleDelay}
+              className="w-14 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-2 py-1 text-xs"
+            />
+            days
+          </form>
+          <input
+            type="email"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            placeholder="recipient@company.com"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-2 py-1 text-xs"
+          />
+          <button
+            type="button"
+            disabled={isSending || !to}
+            onClick={() =>
+              void sendColdEmail({ sessionId, to, subject: step.subject, body: step.body, attachCv: false, followUpId: step.id })
+            }
+            className="rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold text-white transition hover:bg-emerald-500 disabled:opacity-50"
+          >
+            {isSending ? "Sending…" : "Send"}
+          </button>
+          <button type="button" onClick={handleCopy} className={smallButtonClassName}>
+            Copy
+          </button>
+          <button
+            type="button"
+            disabled={isUpdating}
+            onClick={() => void onUpdate({ action: "mark-sent", sessionId, stepId: step.id })}
+            className={smallButtonClassName}
+          >
+            Mark sent
+          </button>
+          <button
+            type="button"
+            disabled={isUpdating}
+            onClick={() => void onUpdate({ action: "skip", sessionId, stepId: step.id })}
+            className={smallButtonClassName}
+          >
+            Skip
+          </button>
+        </div>
+      ) : null}
+    </li>
+  );
+}
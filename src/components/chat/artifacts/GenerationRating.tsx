@@ -0,0 +1,48 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faStar } from "@fortawesome/free-solid-svg-icons";
+
+import { useRateGeneration } from "@/hooks/useRateGeneration";
+import { MAX_RATING, MIN_RATING, readGenerationRating } from "@/lib/prompt-runs";
+import { useSessionStore } from "@/store/session-store";
+
+type GenerationRatingProps = {
+  generationId: string;
+};
+
+const STARS = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, index) => MIN_RATING + index);
+
+export function GenerationRating({ generationId }: GenerationRatingProps) {
+  const session = useSessionStore((state) => state.sessions.find((item) => item.id === state.currentSessionId));
+  const { rateGeneration, isRating } = useRateGeneration();
+  const rating = readGenerationRating(session?.metadata, generationId);
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+      <span>{rating ? "Your rating" : "Rate this CV"}</span>
+      <div className="flex items-center gap-0.5">
+        {STARS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            disabled={isRating}
+            onClick={() => void rateGeneration({ sessionId: session.id, generationId, rating: value })}
+            className={`p-0.5 transition-colors disabled:cursor-not-allowed ${
+              rating && value <= rating
+                ? "text-amber-500"
+                : "text-zinc-300 hover:text-amber-400 dark:text-zinc-600 dark:hover:text-amber-400"
+            }`}
+            title={`${value} / ${MAX_RATING}`}
+          >
+            <FontAwesomeIcon icon={faStar} className="h-3.5 w-3.5" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
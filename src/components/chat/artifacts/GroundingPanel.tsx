@@ -0,0 +1,72 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faCircleCheck, faTriangleExclamation } from "@fortawesome/free-solid-svg-icons";
+
+import type { DocumentClaim, GroundingReport } from "@/lib/grounding/claims";
+
+type GroundingPanelProps = {
+  report: GroundingReport;
+};
+
+const KIND_LABELS: Record<DocumentClaim["kind"], string> = {
+  number: "number",
+  date: "date",
+  term: "name",
+};
+
+function groupByLine(claims: DocumentClaim[]): Array<{ line: number; excerpt: string; claims: DocumentClaim[] }> {
+  const groups = new Map<number, { line: number; excerpt: string; claims: DocumentClaim[] }>();
+  claims.forEach((claim) => {
+    const group = groups.get(claim.line) ?? { line: claim.line, excerpt: claim.excerpt, claims: [] };
+    group.claims.push(claim);
+    groups.set(claim.line, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.line - b.line);
+}
+
+export function GroundingPanel({ report }: GroundingPanelProps) {
+  const groups = groupByLine(report.unsupported);
+
+  return (
+    <div className="mt-4 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50/60 dark:bg-zinc-900/40 p-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+          <FontAwesomeIcon
+            icon={groups.length ? faTriangleExclamation : faCircleCheck}
+            className={groups.length ? "text-amber-500" : "text-emerald-500"}
+          />{" "}
+          Fact check
+        </p>
+        <span className="text-zinc-500 dark:text-zinc-400">
+          {groups.length
+            ? `${report.unsupported.length} of ${report.checkedClaims} claims not found in your CV`
+            : `All ${report.checkedClaims} claims found in your CV`}
+        </span>
+      </div>
+      {groups.length ? (
+        <ul className="mt-2 space-y-1.5">
+          {groups.map((group) => (
+            <li key={group.line} className="text-zinc-600 dark:text-zinc-300">
+              <span className="font-semibold">Line {group.line}:</span>{" "}
+              {group.claims.map((claim) => (
+                <span
+                  key={claim.claim}
+                  className="mr-1 rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+                  title={KIND_LABELS[claim.kind]}
+                >
+                  {claim.claim}
+                </span>
+              ))}
+              <span className="block truncate text-[11px] text-zinc-400">{group.excerpt}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <p className="mt-2 text-[11px] text-zinc-400">
+        Numbers, dates, and names checked against your original and extensive CV
+        {report.format === "latex" ? " · line numbers refer to the LaTeX source" : ""}
+      </p>
+    </div>
+  );
+}
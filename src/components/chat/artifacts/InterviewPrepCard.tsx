@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faChevronDown, faChevronRight, faCopy, faFilePdf } from "@fortawesome/free-solid-svg-icons";
+import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
+import { toast } from "sonner";
+import type { ArtifactPayload } from "@/hooks/useStreamableValue";
+import type { InterviewPrepPack } from "@/lib/interview-prep";
+
+export type InterviewPrepCardProps = {
+  icon: IconDefinition;
+  payload: ArtifactPayload;
+};
+
+const STAR_LABELS = [
+  ["situation", "Situation"],
+  ["task", "Task"],
+  ["action", "Action"],
+  ["result", "Result"],
+] as const;
+
+export function InterviewPrepCard({ icon, payload }: InterviewPrepCardProps) {
+  const pack = payload.prepPack;
+
+  const handleCopy = () => {
+    if (typeof navigator !== "undefined" && navigator.clipboard) {
+      void navigator.clipboard.writeText(payload.content).then(() => toast.success("Interview prep copied"));
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-base font-semibold text-zinc-900 dark:text-zinc-100">
+          <FontAwesomeIcon icon={icon} />
+          Interview Prep
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-700 dark:text-zinc-300 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faCopy} />
+            <span className="hidden sm:inline">Copy</span>
+          </button>
+          {payload.downloadUrl ? (
+            <a
+              href={payload.downloadUrl}
+              className="rounded-full bg-zinc-900 dark:bg-zinc-100 px-4 py-1.5 text-xs font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-700 dark:hover:bg-zinc-300 flex items-center gap-2"
+            >
+              <FontAwesomeIcon icon={faFilePdf} />
+              <span className="hidden sm:inline">PDF</span>
+            </a>
+          ) : null}
+        </div>
+      </div>
+      {pack ? (
+        <PrepSections pack={pack} />
+      ) : (
+        <pre className="mt-4 max-h-96 overflow-y-auto whitespace-pre-wrap text-sm text-zinc-800 dark:text-zinc-200">{payload.content}</pre>
+      )}
+    </div>
+  );
+}
+
+function PrepSections({ pack }: { pack: InterviewPrepPack }) {
+  const [openIndex, setOpenIndex] = useState<number | null>(0);
+  return (
+    <div className="mt-4 space-y-4">
+      <section>
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Likely questions</p>
+        <ol className="mt-2 space-y-2">
+          {pack.questions.map((item, index) => {
+            const isOpen = openIndex === index;
+            return (
+              <li key={`${index}-${item.question}`} className="rounded-2xl border border-zinc-100 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50">
+                <button
+                  type="button"
+                  onClick={() => setOpenIndex(isOpen ? null : index)}
+                  className="flex w-full items-start gap-2 p-3 text-left"
+                  aria-expanded={isOpen}
+                >
+                  <FontAwesomeIcon icon={isOpen ? faChevronDown : faChevronRight} className="mt-1 text-xs text-zinc-400" />
+                  <span>
+                    <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">{item.question}</span>
+                    <span className="block text-xs text-amber-600 dark:text-amber-400">Pain point: {item.painPoint}</span>
+                  </span>
+                </button>
+                {isOpen ? (
+                  <dl className="space-y-2 px-3 pb-3 pl-8 text-sm text-zinc-700 dark:text-zinc-300">
+                    {STAR_LABELS.map(([key, label]) => (
+                      <div key={key}>
+                        <dt className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{label}</dt>
+                        <dd className="whitespace-pre-wrap">{item.answer[key]}</dd>
+                      </div>
+                    ))}
+                    {item.evidence ? <p className="text-xs text-zinc-400">Drawn from: {item.evidence}</p> : null}
+                  </dl>
+                ) : null}
+              </li>
+            );
+          })}
+        </ol>
+      </section>
+      <PrepList title="Questions to ask" items={pack.questionsToAsk} />
+      <PrepList title="Talking points" items={pack.talkingPoints} />
+    </div>
+  );
+}
+
+function PrepList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <section>
+      <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{title}</p>
+      <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-zinc-700 dark:text-zinc-300">
+        {items.map((item, index) => (
+          <li key={`${index}-${item}`}>{item}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faPaperPlane, faWandMagicSparkles } from "@fortawesome/free-solid-svg-icons";
+
+import { useRefineArtifact } from "@/hooks/useRefineArtifact";
+import { useSessionStore } from "@/store/session-store";
+
+type RefineChatProps = {
+  artifact: "cv" | "coverLetter";
+  /** The text shown on the card, including unsaved edits; the refinement starts from it. */
+  content: string;
+  generationId?: string;
+  disabled?: boolean;
+  onRefined: (generationId: string) => void;
+};
+
+const PLACEHOLDERS = {
+  cv: "e.g. Make the summary punchier, or drop the IoT project",
+  coverLetter: "e.g. Shorten the second paragraph, or sound less formal",
+};
+
+export function RefineChat({ artifact, content, generationId, disabled, onRefined }: RefineChatProps) {
+  const session = useSessionStore((state) => state.sessions.find((item) => item.id === state.currentSessionId));
+  const { refineArtifact, isRefining } = useRefineArtifact();
+  const [instruction, setInstruction] = useState("");
+  const thread = useMemo(
+    () =>
+      (session?.chatHistory ?? []).filter(
+        (message) => message.metadata?.kind === "refine" && message.metadata?.artifact === artifact,
+      ),
+    [session?.chatHistory, artifact],
+  );
+
+  if (!session) {
+    return null;
+  }
+
+  const canSend = Boolean(instruction.trim() && content.trim()) && !isRefining && !disabled;
+  const handleSend = async () => {
+    if (!canSend) {
+      return;
+    }
+    const nextId = await refineArtifact({
+      sessionId: session.id,
+      artifact,
+      instruction: instruction.trim(),
+      content,
+      generationId,
+    });
+    if (nextId) {
+      setInstruction("");
+      onRefined(nextId);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-zinc-200 dark:border-zinc-800">
+      <div className="flex items-center gap-2 border-b border-zinc-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+        <FontAwesomeIcon icon={faWandMagicSparkles} />
+        Refine with AI
+      </div>
+      {thread.length ? (
+        <ul className="max-h-48 space-y-2 overflow-y-auto px-3 py-2 text-sm">
+          {thread.map((message) => (
+            <li key={message.id} className={message.role === "user" ? "text-right" : "text-left"}>
+              <span
+                className={`inline-block max-w-[85%] rounded-xl px-3 py-1.5 ${
+                  message.role === "user"
+                    ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                    : "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                }`}
+              >
+                {message.content}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <form
+        className="flex items-center gap-2 px-3 py-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleSend();
+        }}
+      >
+        <input
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          placeholder={PLACEHOLDERS[artifact]}
+          maxLength={2000}
+          disabled={isRefining || disabled}
+          className="flex-1 rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-1.5 text-sm text-zinc-800 focus:border-zinc-400 focus:outline-none disabled:opacity-60 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+        />
+        <button
+          type="submit"
+          disabled={!canSend}
+          className="inline-flex items-center gap-1.5 rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {isRefining ? (
+            <span className="h-3 w-3 animate-spin rounded-full border-2 border-white/40 border-t-white dark:border-zinc-900/40 dark:border-t-zinc-900" />
+          ) : (
+            <FontAwesomeIcon icon={faPaperPlane} />
+          )}
+          {isRefining ? "Refining..." : "Send"}
+        </button>
+      </form>
+    </div>
+  );
+}
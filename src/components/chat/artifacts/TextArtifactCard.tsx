@@ -2,7 +2,7 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faCopy, faDownload } from "@fortawesome/free-solid-svg-icons";
+import { faCopy, faDownload, faFileWord } from "@fortawesome/free-solid-svg-icons";
 import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
 import ReactMarkdown from "react-markdown";
 import { toast } from "sonner";
@@ -10,6 +10,8 @@ import type { ArtifactPayload } from "@/hooks/useStreamableValue";
 import { saveContentAction } from "@/app/actions/save-content";
 import { useSessionStore } from "@/store/session-store";
 import { useAutosave } from "@/hooks/useAutosave";
+import { GroundingPanel } from "./GroundingPanel";
+import { RefineChat } from "./RefineChat";
 
 export type TextArtifactCardProps = {
   label: string;
@@ -65,7 +67,9 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
   const isCoverLetter = label === "Cover Letter";
   const isEditableCoverLetter = isCoverLetter;
   const { updateSourceDocument } = useSessionStore((state) => state.actions);
+  const activeCvProfileId = useSessionStore((state) => state.activeCvProfileId);
   const [draftContent, setDraftContent] = useState<string>(effectiveContent);
+  const [refinedVersionId, setRefinedVersionId] = useState<string | null>(null);
   const {
     saveState: coverSaveState,
     setSaveState: setCoverSaveState,
@@ -73,7 +77,7 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
     flushSave: flushCoverSave,
   } = useAutosave<string>({
     onSave: async (value) => {
-      await saveContentAction({ docType: "cover_letter", content: value });
+      await saveContentAction({ docType: "cover_letter", content: value, profileId: activeCvProfileId });
       updateSourceDocument("coverLetter", value);
     },
     onError: (error) => toast.error(error instanceof Error ? error.message : "Unable to save cover letter"),
@@ -84,6 +88,7 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
   const downloadName = payload.mimeType === "application/msword" ? "cover-letter.doc" : undefined;
   const previewUrl = isPendingVersion ? null : buildSecureDownloadUrl(payload, { disposition: "inline" });
   const downloadUrl = isPendingVersion ? null : buildSecureDownloadUrl(payload, { disposition: "attachment" }) ?? previewUrl;
+  const docxUrl = !isPendingVersion && versionIndex >= normalizedVersions.length - 1 ? payload.docxDownloadUrl ?? null : null;
   const [previewVersion, setPreviewVersion] = useState<number>(0);
   const previewUrlWithBust = previewUrl ? `${previewUrl}${previewUrl.includes("?") ? "&" : "?"}v=${previewVersion}` : null;
   const [previewLoading, setPreviewLoading] = useState<boolean>(Boolean(previewUrl && isPdf));
@@ -94,6 +99,7 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
     payload.emailAddresses?.length ? `Emails: ${payload.emailAddresses.join(", ")}` : null,
   ].filter(Boolean);
   const changeSummary = payload.changeSummary?.trim() ?? "";
+  const grounding = isPendingVersion ? null : activeVersion?.grounding ?? (normalizedVersions.length ? null : payload.grounding ?? null);
 
   useEffect(() => {
     const currentId = virtualVersions[versionIndex]?.generationId ?? null;
@@ -118,6 +124,16 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
     }
   }, [virtualVersions, payload.storageKey, hasPendingVersion, versionIndex]);
 
+  // A refinement adds a version at the end; show it once the session update has arrived.
+  useEffect(() => {
+    if (!refinedVersionId) return;
+    const nextIndex = virtualVersions.findIndex((entry) => entry.generationId === refinedVersionId);
+    if (nextIndex >= 0) {
+      setVersionIndex(nextIndex);
+      setRefinedVersionId(null);
+    }
+  }, [refinedVersionId, virtualVersions]);
+
   useEffect(() => {
     setPreviewVersion((value) => value + 1);
     setPreviewLoading(Boolean(previewUrl && isPdf));
@@ -172,6 +188,16 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
                 <span className="hidden sm:inline">Download</span>
               </a>
             ) : null}
+            {docxUrl ? (
+              <a
+                href={docxUrl}
+                className="text-xs font-semibold text-sky-600 dark:text-sky-400 transition hover:text-sky-800 dark:hover:text-sky-300 flex items-center gap-1"
+                title="Download as Word document"
+              >
+                <FontAwesomeIcon icon={faFileWord} />
+                <span className="hidden sm:inline">DOCX</span>
+              </a>
+            ) : null}
             {canCopy ? (
               <button
                 type="button"
@@ -257,6 +283,14 @@ export function TextArtifactCard({ label, icon, payload, isSessionGenerating }:
             {coverSaveState === "error" && "Save failed"}
             {coverSaveState === "idle" && "Idle"}
           </div>
+          {grounding ? <GroundingPanel report={grounding} /> : null}
+          <RefineChat
+            artifact="coverLetter"
+            content={draftContent}
+            generationId={activeVersion?.generationId ?? payload.generationId}
+            disabled={isSessionGenerating}
+            onRefined={setRefinedVersionId}
+          />
         </div>
       ) : isPdf && previewUrl ? (
         <div className="mt-3 space-y-3">
@@ -0,0 +1,194 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faFileCsv, faLayerGroup, faStop, faXmark } from "@fortawesome/free-solid-svg-icons";
+import { useMemo, useState, type ChangeEvent } from "react";
+
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  isBatchJobFinished,
+  useBatchGeneration,
+  type BatchJobStatus,
+} from "@/hooks/useBatchGeneration";
+import { MAX_BATCH_JOBS, parseBatchInput } from "@/lib/batch-input";
+import { useSessionStore } from "@/store/session-store";
+
+type BatchGenerationPanelProps = {
+  onClose: () => void;
+};
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: "Queued",
+  preparing: "Fetching posting",
+  generating: "Generating",
+  succeeded: "Done",
+  needs_latex_fix: "Needs LaTeX fix",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300",
+  preparing: "bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300",
+  generating: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300",
+  succeeded: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+  needs_latex_fix: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  cancelled: "bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400",
+};
+
+export function BatchGenerationPanel({ onClose }: BatchGenerationPanelProps) {
+  const { jobs, summary, isRunning, start, cancel, clear } = useBatchGeneration();
+  const quota = useSessionStore((state) => state.quota);
+  const selectSession = useSessionStore((state) => state.actions.selectSession);
+  const [rawInput, setRawInput] = useState("");
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const parsed = useMemo(() => parseBatchInput(rawInput), [rawInput]);
+  const finishedCount = jobs.filter(isBatchJobFinished).length;
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    setRawInput((prev) => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+  };
+
+  return (
+    <section className="rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-6 shadow-sm">
+      <div className="flex items-center justify-between gap-3 border-b border-zinc-100 dark:border-zinc-800 pb-4">
+        <div>
+          <p className="text-xs uppercase tracking-widest text-zinc-400">Batch</p>
+          <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">Generate for multiple jobs</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isRunning}
+          aria-label="Close batch generation"
+          className="flex h-9 w-9 items-center justify-center rounded-full border border-zinc-200 dark:border-zinc-700 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50"
+        >
+          <FontAwesomeIcon icon={faXmark} />
+        </button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <>
+          <label className="mt-4 block text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+            Job URLs or CSV
+            <textarea
+              value={rawInput}
+              onChange={(event) => setRawInput(event.target.value)}
+              rows={8}
+              placeholder={"https://careers.example.com/jobs/123\nhttps://boards.example.org/acme/456\n\nor CSV: company,title,url"}
+              className="mt-2 w-full resize-none rounded-3xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-4 py-3 font-mono text-xs text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-900 focus:outline-none"
+            />
+          </label>
+          {parsed.errors.length ? (
+            <ul className="mt-2 space-y-1 text-xs text-red-500">
+              {parsed.errors.slice(0, 5).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+              {parsed.errors.length > 5 ? <li>…and {parsed.errors.length - 5} more</li> : null}
+            </ul>
+          ) : null}
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-500 dark:text-zinc-400">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-zinc-200 dark:border-zinc-700 px-3 py-1.5 font-semibold text-zinc-700 dark:text-zinc-300 hover:border-zinc-300">
+                <FontAwesomeIcon icon={faFileCsv} />
+                Upload CSV
+                <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="sr-only" />
+              </label>
+              <label className="inline-flex items-center gap-2">
+                Parallel
+                <select
+                  value={concurrency}
+                  onChange={(event) => setConcurrency(Number(event.target.value))}
+                  className="rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-2 py-1 text-zinc-900 dark:text-zinc-100"
+                >
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span>
+                {parsed.entries.length}/{MAX_BATCH_JOBS} jobs
+                {quota ? ` · ${quota.remaining} tokens left` : ""}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={() => void start(parsed.entries, concurrency)}
+              disabled={!parsed.entries.length}
+              className="inline-flex items-center gap-2 rounded-full bg-zinc-950 dark:bg-zinc-100 px-6 py-2 text-sm font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:cursor-not-allowed disabled:bg-zinc-400 dark:disabled:bg-zinc-600"
+            >
+              <FontAwesomeIcon icon={faLayerGroup} />
+              Generate {parsed.entries.length || ""} {parsed.entries.length === 1 ? "job" : "jobs"}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+            <p className="text-zinc-700 dark:text-zinc-300">
+              {finishedCount}/{summary.total} finished · {summary.succeeded} succeeded · {summary.needs_latex_fix} need LaTeX
+              fix · {summary.failed} failed
+              {summary.cancelled ? ` · ${summary.cancelled} cancelled` : ""}
+            </p>
+            {isRunning ? (
+              <button
+                type="button"
+                onClick={cancel}
+                className="inline-flex items-center gap-2 rounded-full border border-red-200 dark:border-red-900/40 px-4 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30"
+              >
+                <FontAwesomeIcon icon={faStop} /> Cancel remaining
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={clear}
+                className="rounded-full border border-zinc-200 dark:border-zinc-700 px-4 py-1.5 text-xs font-semibold text-zinc-700 dark:text-zinc-300 hover:border-zinc-300"
+              >
+                New batch
+              </button>
+            )}
+          </div>
+          <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+            <div
+              className="h-full bg-zinc-900 dark:bg-zinc-100 transition-all"
+              style={{ width: `${summary.total ? (finishedCount / summary.total) * 100 : 0}%` }}
+            />
+          </div>
+          <ul className="mt-4 max-h-80 space-y-2 overflow-y-auto">
+            {jobs.map((job) => (
+              <li key={job.id}>
+                <button
+                  type="button"
+                  disabled={!job.sessionId}
+                  onClick={() => job.sessionId && selectSession(job.sessionId)}
+                  className="w-full rounded-xl border border-zinc-200 dark:border-zinc-700 px-3 py-2 text-left text-sm transition hover:border-zinc-300 dark:hover:border-zinc-600 disabled:cursor-default"
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="min-w-0 truncate font-semibold text-zinc-900 dark:text-zinc-100">{job.label}</span>
+                    <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[job.status]}`}>
+                      {STATUS_LABELS[job.status]}
+                    </span>
+                  </span>
+                  <span className="mt-0.5 block truncate text-xs text-zinc-500 dark:text-zinc-400">
+                    {job.error ?? job.lastLine ?? job.jobUrl}
+                    {job.status === "generating" && job.progressLines ? ` · ${job.progressLines} steps` : ""}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBell } from "@fortawesome/free-solid-svg-icons";
+import { useMemo, useState, type DragEvent } from "react";
+
+import { useApplicationTracker } from "@/hooks/useApplicationTracker";
+import {
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_LABELS,
+  describeApplicationStage,
+  getNextApplicationReminder,
+  readApplicationTracker,
+  type ApplicationStage,
+  type ApplicationTracker,
+} from "@/lib/application-tracker";
+import type { ClientSession } from "@/store/session-store";
+import { STAGE_STYLES, formatTrackerDate, isOverdue } from "./stage-styles";
+
+type ApplicationBoardProps = {
+  sessions: ClientSession[];
+  currentSessionId: string | null;
+  onSelectSession: (sessionId: string) => void;
+};
+
+type BoardEntry = {
+  session: ClientSession;
+  tracker: ApplicationTracker;
+};
+
+const DRAG_MIME = "application/x-session-id";
+
+export function ApplicationBoard({ sessions, currentSessionId, onSelectSession }: ApplicationBoardProps) {
+  const { updateApplication, pendingSessionId } = useApplicationTracker();
+  const [dropTarget, setDropTarget] = useState<ApplicationStage | null>(null);
+
+  const columns = useMemo(() => {
+    const grouped = Object.fromEntries(APPLICATION_STAGES.map((stage) => [stage, [] as BoardEntry[]])) as Record<
+      ApplicationStage,
+      BoardEntry[]
+    >;
+    sessions.forEach((session) => {
+      const tracker = readApplicationTracker(session.metadata, session.createdAt);
+      grouped[tracker.stage].push({ session, tracker });
+    });
+    APPLICATION_STAGES.forEach((stage) => {
+      grouped[stage].sort((a, b) => Date.parse(b.tracker.updatedAt) - Date.parse(a.tracker.updatedAt));
+    });
+    return grouped;
+  }, [sessions]);
+
+  const handleDrop = (stage: ApplicationStage, event: DragEvent) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const sessionId = event.dataTransfer.getData(DRAG_MIME);
+    if (!sessionId) {
+      return;
+    }
+    const entry = APPLICATION_STAGES.flatMap((key) => columns[key]).find((item) => item.session.id === sessionId);
+    if (!entry || (entry.tracker.stage === stage && stage !== "interview")) {
+      return;
+    }
+    void updateApplication({ action: "transition", sessionId, stage });
+  };
+
+  return (
+    <div className="flex h-full gap-3 overflow-x-auto px-3 pb-6">
+      {APPLICATION_STAGES.map((stage) => {
+        const entries = columns[stage];
+        const isDropTarget = dropTarget === stage;
+        return (
+          <section
+            key={stage}
+            aria-label={`${APPLICATION_STAGE_LABELS[stage]} applications`}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setDropTarget(stage);
+            }}
+            onDragLeave={() => setDropTarget((prev) => (prev === stage ? null : prev))}
+            onDrop={(event) => handleDrop(stage, event)}
+            className={`flex w-56 shrink-0 flex-col rounded-2xl border p-2 transition-colors ${
+              isDropTarget
+                ? "border-zinc-900 dark:border-zinc-100 bg-zinc-100 dark:bg-zinc-800"
+                : "border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900"
+            }`}
+          >
+            <header className="flex items-center justify-between px-2 py-1.5">
+              <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-zinc-600 dark:text-zinc-300">
+                <span className={`h-2 w-2 rounded-full ${STAGE_STYLES[stage].dot}`} />
+                {APPLICATION_STAGE_LABELS[stage]}
+              </span>
+              <span className="text-xs text-zinc-400">{entries.length}</span>
+            </header>
+            <ul className="mt-1 flex-1 space-y-2 overflow-y-auto">
+              {entries.map(({ session, tracker }) => {
+                const isActive = session.id === currentSessionId;
+                const nextReminder = getNextApplicationReminder(tracker);
+                return (
+                  <li key={session.id}>
+                    <button
+                      type="button"
+                      draggable
+                      onDragStart={(event) => {
+                        event.dataTransfer.setData(DRAG_MIME, session.id);
+                        event.dataTransfer.effectAllowed = "move";
+                      }}
+                      onClick={() => onSelectSession(session.id)}
+                      className={`w-full rounded-xl border px-3 py-2 text-left text-sm transition ${
+                        isActive
+                          ? "border-zinc-900 dark:border-zinc-100 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900"
+                          : "border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:border-zinc-300 dark:hover:border-zinc-600"
+                      } ${pendingSessionId === session.id ? "opacity-60" : ""}`}
+                    >
+                      <span className="block truncate font-semibold">{session.title}</span>
+                      <span className={`mt-0.5 block text-xs ${isActive ? "text-zinc-300 dark:text-zinc-600" : "text-zinc-500 dark:text-zinc-400"}`}>
+                        {stage === "interview" ? `${describeApplicationStage(tracker)} · ` : ""}
+                        {formatTrackerDate(tracker.updatedAt)}
+                      </span>
+                      {nextReminder ? (
+                        <span
+                          className={`mt-1 flex items-center gap-1 text-xs ${
+                            isOverdue(nextReminder.dueAt) ? "text-red-500" : isActive ? "text-zinc-300 dark:text-zinc-600" : "text-zinc-500 dark:text-zinc-400"
+                          }`}
+                        >
+                          <FontAwesomeIcon icon={faBell} className="text-[10px]" />
+                          <span className="truncate">
+                            {nextReminder.label} · {formatTrackerDate(nextReminder.dueAt)}
+                          </span>
+                        </span>
+                      ) : null}
+                    </button>
+                  </li>
+                );
+              })}
+              {entries.length === 0 ? (
+                <li className="rounded-xl border border-dashed border-zinc-200 dark:border-zinc-700 px-3 py-4 text-center text-xs text-zinc-400">
+                  Drop here
+                </li>
+              ) : null}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
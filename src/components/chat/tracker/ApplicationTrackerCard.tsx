@@ -0,0 +1,258 @@
+'use client';
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBell, faBriefcase, faCheck, faNoteSticky, faTrash } from "@fortawesome/free-solid-svg-icons";
+import { useMemo, useState, type FormEvent } from "react";
+
+import { useApplicationTracker } from "@/hooks/useApplicationTracker";
+import {
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_LABELS,
+  describeApplicationStage,
+  readApplicationTracker,
+  type ApplicationStage,
+} from "@/lib/application-tracker";
+import type { ClientSession } from "@/store/session-store";
+import { STAGE_STYLES, formatTrackerDate, isOverdue } from "./stage-styles";
+
+type ApplicationTrackerCardProps = {
+  session: ClientSession;
+};
+
+const inputClasses =
+  "rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-400 focus:outline-none";
+const buttonClasses =
+  "inline-flex items-center justify-center gap-2 rounded-full bg-zinc-900 dark:bg-zinc-100 px-4 py-2 text-sm font-semibold text-white dark:text-zinc-900 transition hover:bg-zinc-700 dark:hover:bg-zinc-300 disabled:opacity-50";
+
+function toDateInputValue(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function ApplicationTrackerCard({ session }: ApplicationTrackerCardProps) {
+  const { updateApplication, pendingSessionId } = useApplicationTracker();
+  const tracker = useMemo(() => readApplicationTracker(session.metadata, session.createdAt), [session.metadata, session.createdAt]);
+  const [nextStage, setNextStage] = useState<ApplicationStage>(tracker.stage);
+  const [transitionDate, setTransitionDate] = useState(() => toDateInputValue(new Date()));
+  const [transitionNote, setTransitionNote] = useState("");
+  const [noteDraft, setNoteDraft] = useState("");
+  const [reminderLabel, setReminderLabel] = useState("");
+  const [reminderDate, setReminderDate] = useState("");
+  const isPending = pendingSessionId === session.id;
+
+  const openReminders = tracker.reminders
+    .filter((reminder) => !reminder.completedAt)
+    .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+  const timeline = [...tracker.transitions].reverse();
+  const notes = [...tracker.notes].reverse();
+
+  const handleTransition = async (event: FormEvent) => {
+    event.preventDefault();
+    const ok = await updateApplication({
+      action: "transition",
+      sessionId: session.id,
+      stage: nextStage,
+      at: transitionDate || undefined,
+      note: transitionNote || undefined,
+    });
+    if (ok) {
+      setTransitionNote("");
+    }
+  };
+
+  const handleAddNote = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!noteDraft.trim()) {
+      return;
+    }
+    const ok = await updateApplication({ action: "add-note", sessionId: session.id, body: noteDraft });
+    if (ok) {
+      setNoteDraft("");
+    }
+  };
+
+  const handleAddReminder = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!reminderLabel.trim() || !reminderDate) {
+      return;
+    }
+    const ok = await updateApplication({
+      action: "add-reminder",
+      sessionId: session.id,
+      label: reminderLabel,
+      dueAt: reminderDate,
+    });
+    if (ok) {
+      setReminderLabel("");
+      setReminderDate("");
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <span className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300">
+            <FontAwesomeIcon icon={faBriefcase} />
+          </span>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Application</p>
+            <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">Tracker</p>
+          </div>
+        </div>
+        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${STAGE_STYLES[tracker.stage].badge}`}>
+          {describeApplicationStage(tracker)}
+        </span>
+      </div>
+
+      <form onSubmit={handleTransition} className="mt-4 grid gap-2 sm:grid-cols-[1fr_auto_auto]">
+        <select
+          value={nextStage}
+          onChange={(event) => setNextStage(event.target.value as ApplicationStage)}
+          className={inputClasses}
+          aria-label="Application stage"
+        >
+          {APPLICATION_STAGES.map((stage) => (
+            <option key={stage} value={stage}>
+              {stage === "interview" && tracker.stage === "interview"
+                ? `Interview round ${tracker.interviewRounds + 1}`
+                : APPLICATION_STAGE_LABELS[stage]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={transitionDate}
+          onChange={(event) => setTransitionDate(event.target.value)}
+          className={inputClasses}
+          aria-label="Transition date"
+        />
+        <button
+          type="submit"
+          disabled={isPending || (nextStage === tracker.stage && nextStage !== "interview")}
+          className={buttonClasses}
+        >
+          Move
+        </button>
+        <input
+          type="text"
+          value={transitionNote}
+          onChange={(event) => setTransitionNote(event.target.value)}
+          placeholder="Optional note for this move"
+          className={`${inputClasses} sm:col-span-3`}
+        />
+      </form>
+
+      <div className="mt-5 grid gap-5 md:grid-cols-2">
+        <div>
+          <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            <FontAwesomeIcon icon={faBell} /> Next actions
+          </p>
+          <ul className="mt-2 space-y-2">
+            {openReminders.length === 0 ? (
+              <li className="text-sm text-zinc-400">No reminders scheduled.</li>
+            ) : (
+              openReminders.map((reminder) => (
+                <li
+                  key={reminder.id}
+                  className="flex items-center justify-between gap-2 rounded-lg border border-zinc-100 dark:border-zinc-800 px-3 py-2 text-sm"
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate text-zinc-900 dark:text-zinc-100">{reminder.label}</span>
+                    <span className={`text-xs ${isOverdue(reminder.dueAt) ? "text-red-500" : "text-zinc-500 dark:text-zinc-400"}`}>
+                      Due {formatTrackerDate(reminder.dueAt)}
+                    </span>
+                  </span>
+                  <span className="flex shrink-0 gap-1">
+                    <button
+                      type="button"
+                      aria-label={`Mark ${reminder.label} done`}
+                      disabled={isPending}
+                      onClick={() => void updateApplication({ action: "complete-reminder", sessionId: session.id, reminderId: reminder.id })}
+                      className="flex h-8 w-8 items-center justify-center rounded-full border border-emerald-200 text-emerald-600 hover:bg-emerald-50 dark:border-emerald-900/40 dark:hover:bg-emerald-950/30"
+                    >
+                      <FontAwesomeIcon icon={faCheck} />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${reminder.label}`}
+                      disabled={isPending}
+                      onClick={() => void updateApplication({ action: "remove-reminder", sessionId: session.id, reminderId: reminder.id })}
+                      className="flex h-8 w-8 items-center justify-center rounded-full border border-red-200 text-red-600 hover:bg-red-50 dark:border-red-900/40 dark:hover:bg-red-950/30"
+                    >
+                      <FontAwesomeIcon icon={faTrash} />
+                    </button>
+                  </span>
+                </li>
+              ))
+            )}
+          </ul>
+          <form onSubmit={handleAddReminder} className="mt-2 flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={reminderLabel}
+              onChange={(event) => setReminderLabel(event.target.value)}
+              placeholder="e.g. Follow up with recruiter"
+              className={`${inputClasses} min-w-0 flex-1`}
+            />
+            <input
+              type="date"
+              value={reminderDate}
+              onChange={(event) => setReminderDate(event.target.value)}
+              className={inputClasses}
+              aria-label="Reminder due date"
+            />
+            <button type="submit" disabled={isPending || !reminderLabel.trim() || !reminderDate} className={buttonClasses}>
+              Add
+            </button>
+          </form>
+        </div>
+
+        <div>
+          <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            <FontAwesomeIcon icon={faNoteSticky} /> Notes
+          </p>
+          <form onSubmit={handleAddNote} className="mt-2 flex gap-2">
+            <input
+              type="text"
+              value={noteDraft}
+              onChange={(event) => setNoteDraft(event.target.value)}
+              placeholder="Add a note"
+              className={`${inputClasses} min-w-0 flex-1`}
+            />
+            <button type="submit" disabled={isPending || !noteDraft.trim()} className={buttonClasses}>
+              Save
+            </button>
+          </form>
+          <ul className="mt-2 max-h-48 space-y-2 overflow-y-auto">
+            {notes.map((note) => (
+              <li key={note.id} className="rounded-lg bg-zinc-50 dark:bg-zinc-800/60 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300">
+                <p className="whitespace-pre-wrap">{note.body}</p>
+                <p className="mt-1 text-xs text-zinc-400">{formatTrackerDate(note.createdAt, true)}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {timeline.length ? (
+        <div className="mt-5">
+          <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">History</p>
+          <ol className="mt-2 space-y-2 border-l border-zinc-200 dark:border-zinc-800 pl-4">
+            {timeline.map((transition) => (
+              <li key={transition.id} className="relative text-sm">
+                <span className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${STAGE_STYLES[transition.to].dot}`} />
+                <span className="font-semibold text-zinc-900 dark:text-zinc-100">
+                  {transition.to === "interview" && transition.round
+                    ? `Interview round ${transition.round}`
+                    : APPLICATION_STAGE_LABELS[transition.to]}
+                </span>
+                <span className="ml-2 text-xs text-zinc-500 dark:text-zinc-400">{formatTrackerDate(transition.at)}</span>
+                {transition.note ? <p className="text-zinc-600 dark:text-zinc-400">{transition.note}</p> : null}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import type { ApplicationStage } from "@/lib/application-tracker";
+
+export const STAGE_STYLES: Record<ApplicationStage, { dot: string; badge: string }> = {
+  saved: { dot: "bg-zinc-400", badge: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300" },
+  applied: { dot: "bg-sky-500", badge: "bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-300" },
+  recruiter_screen: { dot: "bg-indigo-500", badge: "bg-indigo-100 text-indigo-700 dark:bg-indigo-950/40 dark:text-indigo-300" },
+  interview: { dot: "bg-amber-500", badge: "bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-300" },
+  offer: { dot: "bg-emerald-500", badge: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300" },
+  rejected: { dot: "bg-red-500", badge: "bg-red-100 text-red-700 dark:bg-red-950/40 dark:text-red-300" },
+  ghosted: { dot: "bg-zinc-500", badge: "bg-zinc-200 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400" },
+};
+
+export function formatTrackerDate(iso: string, withTime = false): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return "Unknown";
+  }
+  return new Intl.DateTimeFormat("en", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    ...(withTime ? { hour: "2-digit", minute: "2-digit" } : {}),
+  }).format(date);
+}
+
+export function isOverdue(iso: string): boolean {
+  const due = Date.parse(iso);
+  return !Number.isNaN(due) && due < Date.now();
+}
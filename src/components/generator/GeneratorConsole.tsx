@@ -1,10 +1,9 @@
 'use client';
 
 import { useMemo, useState } from 'react';
+import { readGenerationStream } from '@/hooks/useStreamableValue';
 import { DEMO_GENERATION_PAYLOAD } from '@/lib/demo-request';
 
-const decoder = new TextDecoder();
-
 export function GeneratorConsole() {
   const [logs, setLogs] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(false);
@@ -68,24 +67,11 @@ export function GeneratorConsole() {
         throw new Error('Streaming response missing body');
       }
 
-      const reader = response.body.getReader();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
-        }
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk
-          .split('\n')
-          .map((line) => line.trim())
-          .filter(Boolean);
-
-        if (lines.length) {
-          setLogs((prev) => [...prev, ...lines]);
-        }
-      }
+      await readGenerationStream(response.body, {
+        onLine(line) {
+          setLogs((prev) => [...prev, line]);
+        },
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, type FormEvent } from "react";
+
+import { useCvProfiles } from "@/hooks/useCvProfiles";
+import { DEFAULT_CV_PROFILE_ID, MAX_CV_PROFILE_NAME_LENGTH, MAX_CV_PROFILES } from "@/lib/cv-profiles-shared";
+
+type CvProfileManagerProps = {
+  onBeforeSwitch?: () => void;
+};
+
+const buttonClassName =
+  "rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50";
+const inputClassName =
+  "rounded-full border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-3 py-1.5 text-xs text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:outline-none";
+
+export function CvProfileManager({ onBeforeSwitch }: CvProfileManagerProps) {
+  const { profiles, activeProfileId, activeProfile, isPending, switchProfile, createProfile, renameProfile, deleteProfile } =
+    useCvProfiles();
+  const [draftName, setDraftName] = useState("");
+  const [copyCurrent, setCopyCurrent] = useState(true);
+  const [renameDraft, setRenameDraft] = useState<string | null>(null);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!draftName.trim()) {
+      return;
+    }
+    onBeforeSwitch?.();
+    if (await createProfile(draftName, copyCurrent)) {
+      setDraftName("");
+    }
+  };
+
+  const handleRename = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!renameDraft?.trim()) {
+      return;
+    }
+    if (await renameProfile(activeProfileId, renameDraft)) {
+      setRenameDraft(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    const name = activeProfile?.name ?? "this profile";
+    const confirmed =
+      typeof window === "undefined" ? true : window.confirm(`Delete profile "${name}" and its documents? This cannot be undone.`);
+    if (confirmed) {
+      await deleteProfile(activeProfileId);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50/60 dark:bg-zinc-900/40 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs uppercase tracking-widest text-zinc-400">CV profile</span>
+        {renameDraft === null ? (
+          <>
+            <select
+              value={activeProfileId}
+              onChange={(event) => {
+                onBeforeSwitch?.();
+                void switchProfile(event.target.value);
+              }}
+              disabled={isPending}
+              className={inputClassName}
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            <button type="button" className={buttonClassName} disabled={isPending} onClick={() => setRenameDraft(activeProfile?.name ?? "")}>
+              Rename
+            </button>
+            {activeProfileId !== DEFAULT_CV_PROFILE_ID ? (
+              <button type="button" className={buttonClassName} disabled={isPending} onClick={handleDelete}>
+                Delete
+              </button>
+            ) : null}
+          </>
+        ) : (
+          <form onSubmit={handleRename} className="flex items-center gap-2">
+            <input
+              value={renameDraft}
+              onChange={(event) => setRenameDraft(event.target.value)}
+              maxLength={MAX_CV_PROFILE_NAME_LENGTH}
+              className={inputClassName}
+              autoFocus
+            />
+            <button type="submit" className={buttonClassName} disabled={isPending || !renameDraft.trim()}>
+              Save
+            </button>
+            <button type="button" className={buttonClassName} onClick={() => setRenameDraft(null)}>
+              Cancel
+            </button>
+          </form>
+        )}
+      </div>
+      {profiles.length < MAX_CV_PROFILES ? (
+        <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2">
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            maxLength={MAX_CV_PROFILE_NAME_LENGTH}
+            placeholder="New profile, e.g. ML roles"
+            className={inputClassName}
+          />
+          <label className="flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+            <input type="checkbox" checked={copyCurrent} onChange={(event) => setCopyCurrent(event.target.checked)} />
+            Copy current documents
+          </label>
+          <button type="submit" className={buttonClassName} disabled={isPending || !draftName.trim()}>
+            Create
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
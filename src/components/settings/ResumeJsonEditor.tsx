@@ -0,0 +1,113 @@
+'use client';
+
+import { useMemo, useRef, type ChangeEvent } from "react";
+import { toast } from "sonner";
+
+import { RESUME_TEMPLATE_LABELS } from "@/lib/resume/latex-templates";
+import { parseResumeJson, RESUME_TEMPLATE_IDS, resolveResumeTemplate, type ResumeTemplateId } from "@/lib/resume/schema";
+
+const MAX_IMPORT_BYTES = 200_000;
+
+type ResumeJsonEditorProps = {
+  value: string;
+  statusLabel: string;
+  statusClassName: string;
+  onChange: (next: string) => void;
+  onBlur?: () => void;
+  onShowHistory?: () => void;
+};
+
+export function ResumeJsonEditor({ value, statusLabel, statusClassName, onChange, onBlur, onShowHistory }: ResumeJsonEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const parsed = useMemo(() => (value.trim() ? parseResumeJson(value) : null), [value]);
+  const resume = parsed?.ok ? parsed.resume : null;
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      toast.error("Resume file is too large to import.");
+      return;
+    }
+    onChange(await file.text());
+  };
+
+  const handleTemplateChange = (template: ResumeTemplateId) => {
+    if (!parsed?.ok) {
+      return;
+    }
+    const raw = JSON.parse(value) as Record<string, unknown>;
+    const meta = typeof raw.meta === "object" && raw.meta ? (raw.meta as Record<string, unknown>) : {};
+    onChange(JSON.stringify({ ...raw, meta: { ...meta, template } }, null, 2));
+  };
+
+  return (
+    <div className="flex h-full flex-col rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-5 shadow-sm lg:col-span-2">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">JSON Resume</p>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Optional. When present, the AI selects and rewrites entries and the LaTeX is rendered from a template, so the
+            LaTeX CV fields above are not required.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {resume ? (
+            <select
+              value={resolveResumeTemplate(resume)}
+              onChange={(event) => handleTemplateChange(event.target.value as ResumeTemplateId)}
+              className="rounded-full border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-1.5 text-xs text-zinc-700 dark:text-zinc-300"
+            >
+              {RESUME_TEMPLATE_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {RESUME_TEMPLATE_LABELS[id]}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            Import .json
+          </button>
+          {onShowHistory ? (
+            <button
+              type="button"
+              onClick={onShowHistory}
+              className="rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100"
+            >
+              History
+            </button>
+          ) : null}
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+      <textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onBlur={onBlur}
+        spellCheck={false}
+        className="mt-4 min-h-[240px] flex-1 rounded-3xl border border-zinc-100 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 px-4 py-3 font-mono text-xs text-zinc-800 dark:text-zinc-200 focus:border-zinc-900 dark:focus:border-zinc-500 focus:bg-white dark:focus:bg-zinc-800 focus:outline-none"
+        placeholder='{ "basics": { "name": "Ada Lovelace" }, "work": [ ... ] }'
+      />
+      {parsed && !parsed.ok ? (
+        <ul className="mt-2 space-y-0.5 text-xs text-red-600 dark:text-red-400">
+          {parsed.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : null}
+      <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+        Status: <span className={statusClassName}>{statusLabel}</span>
+        {resume
+          ? ` · ${resume.work.length} roles, ${resume.projects.length} projects, ${resume.skills.length} skill groups, ${resume.education.length} education entries`
+          : null}
+      </p>
+    </div>
+  );
+}
@@ -4,7 +4,13 @@ import { useState, useTransition } from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { toast } from "sonner";
 import { saveContentAction } from "@/app/actions/save-content";
+import { parseResumeJson } from "@/lib/resume/schema";
 import { useSessionStore, type SessionStoreState } from "@/store/session-store";
+import { CvProfileManager } from "./CvProfileManager";
+import { ResumeJsonEditor } from "./ResumeJsonEditor";
+import { SmtpSettingsForm } from "./SmtpSettingsForm";
+import { SourceHistoryDrawer, type HistoryDocType } from "./SourceHistoryDrawer";
+import { TemplateGallery } from "./TemplateGallery";
 
 const TEXT_DOCS: Record<DocKey, { label: string; helper: string; placeholder: string }> = {
   original_cv: {
@@ -44,19 +50,21 @@ const STRATEGY_DOCS: Record<StrategyKey, { label: string; helper: string; readOn
 
 type DocKey = "original_cv" | "extensive_cv";
 type StrategyKey = "cv_strategy" | "cover_letter_strategy" | "cold_email_strategy" | "recon_strategy";
-type SourceDocKey = DocKey | StrategyKey;
+type SourceDocKey = DocKey | "resume_json" | "cv_template" | StrategyKey;
 type StoreDocKey = keyof SessionStoreState["sourceDocuments"];
 
 const STORE_KEY_MAP: Record<SourceDocKey, StoreDocKey> = {
   original_cv: "originalCV",
   extensive_cv: "extensiveCV",
+  resume_json: "resumeJson",
+  cv_template: "cvTemplate",
   cv_strategy: "cvStrategy",
   cover_letter_strategy: "coverLetterStrategy",
   cold_email_strategy: "coldEmailStrategy",
   recon_strategy: "reconStrategy",
 };
 
-type SaveState = "idle" | "saving" | "saved" | "error" | "global";
+type SaveState = "idle" | "saving" | "saved" | "error" | "invalid" | "global";
 
 type SettingsPanelProps = {
   onClose?: () => void;
@@ -64,21 +72,25 @@ type SettingsPanelProps = {
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const sourceDocuments = useSessionStore((state) => state.sourceDocuments);
+  const activeCvProfileId = useSessionStore((state) => state.activeCvProfileId);
   const { updateSourceDocument } = useSessionStore((state) => state.actions);
   const [saveState, setSaveState] = useState<Record<SourceDocKey, SaveState>>({
     original_cv: "idle",
     extensive_cv: "idle",
+    resume_json: "idle",
+    cv_template: "idle",
     cv_strategy: "global",
     cover_letter_strategy: "global",
     cold_email_strategy: "global",
     recon_strategy: "global",
   });
+  const [historyDoc, setHistoryDoc] = useState<HistoryDocType | null>(null);
   const [, startTransition] = useTransition();
 
-  const debouncedSave = useDebouncedCallback((docType: SourceDocKey, value: string) => {
+  const debouncedSave = useDebouncedCallback((docType: SourceDocKey, value: string, profileId: string) => {
     startTransition(() => {
       setSaveState((prev) => ({ ...prev, [docType]: "saving" }));
-      saveContentAction({ docType, content: value })
+      saveContentAction({ docType, content: value, profileId })
         .then(() => {
           setSaveState((prev) => ({ ...prev, [docType]: "saved" }));
         })
@@ -92,8 +104,24 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const handleChange = (docType: SourceDocKey, value: string) => {
     const storeKey = STORE_KEY_MAP[docType];
     updateSourceDocument(storeKey, value);
+    if (docType === "resume_json" && value.trim() && !parseResumeJson(value).ok) {
+      debouncedSave.cancel();
+      setSaveState((prev) => ({ ...prev, [docType]: "invalid" }));
+      return;
+    }
     setSaveState((prev) => ({ ...prev, [docType]: "saving" }));
-    debouncedSave(docType, value);
+    debouncedSave(docType, value, activeCvProfileId);
+  };
+
+  const openHistory = (docType: HistoryDocType) => {
+    debouncedSave.flush?.();
+    setHistoryDoc(docType);
+  };
+
+  const handleRestore = (docType: HistoryDocType, content: string) => {
+    debouncedSave.cancel();
+    updateSourceDocument(STORE_KEY_MAP[docType], content);
+    setSaveState((prev) => ({ ...prev, [docType]: "saved" }));
   };
 
   return (
@@ -105,6 +133,9 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
             Updates auto-save every few keystrokes. Paste your CV content and supporting context below.
           </p>
+          <div className="mt-4">
+            <CvProfileManager onBeforeSwitch={() => debouncedSave.flush?.()} />
+          </div>
         </div>
         {onClose ? (
           <button
@@ -135,10 +166,53 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             status={saveState[docType]}
             onChange={(value) => handleChange(docType, value)}
             onBlur={() => debouncedSave.flush?.()}
+            onShowHistory={() => openHistory(docType)}
             placeholder={TEXT_DOCS[docType].placeholder}
           />
         ))}
+        <ResumeJsonEditor
+          value={sourceDocuments.resumeJson}
+          statusLabel={statusLabel(saveState.resume_json)}
+          statusClassName={statusClassName(saveState.resume_json)}
+          onChange={(value) => handleChange("resume_json", value)}
+          onBlur={() => debouncedSave.flush?.()}
+          onShowHistory={() => openHistory("resume_json")}
+        />
       </div>
+      <section className="rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">Default CV template</p>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              New CVs are rendered into this template. A template set in the JSON Resume&apos;s meta takes precedence.
+            </p>
+          </div>
+          <span className={`text-xs ${statusClassName(saveState.cv_template)}`}>{statusLabel(saveState.cv_template)}</span>
+        </div>
+        <TemplateGallery
+          value={sourceDocuments.cvTemplate}
+          onSelect={(template) => {
+            // Flush any pending document edit first so the shared debounce does not drop it.
+            debouncedSave.flush?.();
+            handleChange("cv_template", template);
+            debouncedSave.flush?.();
+          }}
+          includeSourceLayout
+        />
+      </section>
+      {historyDoc ? (
+        <SourceHistoryDrawer
+          key={`${historyDoc}-${activeCvProfileId}`}
+          docType={historyDoc}
+          label={historyDoc === "resume_json" ? "JSON Resume" : TEXT_DOCS[historyDoc].label}
+          profileId={activeCvProfileId}
+          currentContent={sourceDocuments[STORE_KEY_MAP[historyDoc]]}
+          onRestore={(content) => handleRestore(historyDoc, content)}
+          onClose={() => setHistoryDoc(null)}
+        />
+      ) : null}
+
+      <SmtpSettingsForm />
 
       <section className="mt-6 space-y-4">
         <header>
@@ -192,11 +266,12 @@ type DocumentEditorProps = {
   status: SaveState;
   onChange: (next: string) => void;
   onBlur?: () => void;
+  onShowHistory?: () => void;
   placeholder: string;
 };
 
 function DocumentEditor(props: DocumentEditorProps) {
-  const { label, helper, value, status, onChange, onBlur, placeholder } = props;
+  const { label, helper, value, status, onChange, onBlur, onShowHistory, placeholder } = props;
   return (
     <div className="flex h-full flex-col rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-5 shadow-sm">
       <div className="flex items-center justify-between">
@@ -204,6 +279,15 @@ function DocumentEditor(props: DocumentEditorProps) {
           <p className="text-base font-semibold text-zinc-900 dark:text-zinc-100">{label}</p>
           <p className="text-xs text-zinc-500 dark:text-zinc-400">{helper}</p>
         </div>
+        {onShowHistory ? (
+          <button
+            type="button"
+            onClick={onShowHistory}
+            className="rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            History
+          </button>
+        ) : null}
       </div>
       <textarea
         value={value}
@@ -219,6 +303,7 @@ function DocumentEditor(props: DocumentEditorProps) {
           {status === "saving" && "Saving..."}
           {status === "saved" && "Saved"}
           {status === "error" && "Error saving"}
+          {status === "invalid" && "Invalid – not saved"}
           {status === "global" && "Global template"}
         </span>
       </p>
@@ -231,6 +316,7 @@ function statusClassName(status: SaveState) {
     case "saved":
       return "text-emerald-600";
     case "error":
+    case "invalid":
       return "text-red-600";
     case "saving":
       return "text-orange-500";
@@ -285,6 +371,8 @@ function statusLabel(status: SaveState): string {
       return "Saving...";
     case "error":
       return "Error";
+    case "invalid":
+      return "Invalid – not saved";
     default:
       return "Idle";
   }
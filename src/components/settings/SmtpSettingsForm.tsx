@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from "react";
+import { toast } from "sonner";
+
+import { getSmtpSettingsAction } from "@/app/actions/get-smtp-settings";
+import { saveSmtpSettingsAction } from "@/app/actions/save-smtp-settings";
+import type { SmtpSecurity, SmtpSettingsView } from "@/lib/smtp-settings-shared";
+
+type Draft = {
+  host: string;
+  port: string;
+  security: SmtpSecurity;
+  username: string;
+  password: string;
+  fromName: string;
+  fromAddress: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  host: "",
+  port: "587",
+  security: "starttls",
+  username: "",
+  password: "",
+  fromName: "",
+  fromAddress: "",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-900 dark:focus:border-zinc-500 focus:outline-none";
+const buttonClassName =
+  "rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50";
+
+function toDraft(view: SmtpSettingsView): Draft {
+  return {
+    host: view.host,
+    port: String(view.port),
+    security: view.security,
+    username: view.username,
+    password: "",
+    fromName: view.fromName,
+    fromAddress: view.fromAddress,
+  };
+}
+
+/** SMTP account used by the cold email "Send" button. */
+export function SmtpSettingsForm() {
+  const [saved, setSaved] = useState<SmtpSettingsView | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSmtpSettingsAction()
+      .then((view) => {
+        if (cancelled) return;
+        setSaved(view);
+        setDraft(view ? toDraft(view) : EMPTY_DRAFT);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(error instanceof Error ? error.message : "Unable to load SMTP settings");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = (field: keyof Draft) => (value: string) => setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const view = await saveSmtpSettingsAction({
+        action: "save",
+        host: draft.host,
+        port: draft.port,
+        security: draft.security,
+        username: draft.username,
+        // A blank password field keeps the stored one.
+        password: draft.password ? draft.password : undefined,
+        fromName: draft.fromName,
+        fromAddress: draft.fromAddress,
+      });
+      setSaved(view);
+      if (view) setDraft(toDraft(view));
+      toast.success("SMTP settings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unable to save SMTP settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsSaving(true);
+    try {
+      await saveSmtpSettingsAction({ action: "delete" });
+      setSaved(null);
+      setDraft(EMPTY_DRAFT);
+      toast.success("SMTP settings removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unable to remove SMTP settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-5 shadow-sm">
+      <header>
+        <p className="text-xs uppercase tracking-widest text-zinc-400">Outgoing email</p>
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">SMTP account</h3>
+        <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+          Cold emails are sent from this account with your tailored CV attached. For local testing point it at MailHog
+          (host <code>localhost</code>, port <code>1025</code>, no encryption, no username).
+        </p>
+      </header>
+      {isLoading ? (
+        <p className="mt-4 text-xs text-zinc-500">Loading…</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="mt-4 grid gap-3 md:grid-cols-2">
+          <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+            Host
+            <input value={draft.host} onChange={(event) => update("host")(event.target.value)} required className={inputClassName} placeholder="smtp.gmail.com" />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Port
+              <input
+                type="number"
+                min={1}
+                max={65535}
+                value={draft.port}
+                onChange={(event) => update("port")(event.target.value)}
+                required
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Encryption
+              <select value={draft.security} onChange={(event) => update("security")(event.target.value)} className={inputClassName}>
+                <option value="starttls">STARTTLS</option>
+                <option value="ssl">SSL/TLS</option>
+                <option value="none">None</option>
+              </select>
+            </label>
+          </div>
+          <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+            Username
+            <input value={draft.username} onChange={(event) => update("username")(event.target.value)} autoComplete="off" className={inputClassName} />
+          </label>
+          <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+            Password
+            <input
+              type="password"
+              value={draft.password}
+              onChange={(event) => update("password")(event.target.value)}
+              autoComplete="new-password"
+              placeholder={saved?.hasPassword ? "Stored – leave blank to keep" : ""}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+            From name
+            <input value={draft.fromName} onChange={(event) => update("fromName")(event.target.value)} className={inputClassName} />
+          </label>
+          <label className="space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+            From address
+            <input
+              type="email"
+              value={draft.fromAddress}
+              onChange={(event) => update("fromAddress")(event.target.value)}
+              required
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-center gap-2 md:col-span-2">
+            <button type="submit" className={buttonClassName} disabled={isSaving}>
+              {isSaving ? "Saving…" : "Save SMTP settings"}
+            </button>
+            {saved ? (
+              <button type="button" className={buttonClassName} disabled={isSaving} onClick={handleRemove}>
+                Remove
+              </button>
+            ) : null}
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
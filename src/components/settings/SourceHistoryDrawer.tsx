@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+
+import { getSourceRevisionAction } from "@/app/actions/get-source-revision";
+import { listSourceRevisionsAction, type SourceRevisionSummary } from "@/app/actions/list-source-revisions";
+import { restoreSourceRevisionAction } from "@/app/actions/restore-source-revision";
+import { diffLines, summarizeDiff, type SideBySideRow } from "@/lib/text-diff";
+
+export type HistoryDocType = "original_cv" | "extensive_cv" | "resume_json";
+
+type SourceHistoryDrawerProps = {
+  docType: HistoryDocType;
+  label: string;
+  profileId: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+  onClose: () => void;
+};
+
+const CURRENT = "current";
+
+const buttonClassName =
+  "rounded-full border border-zinc-300 dark:border-zinc-600 px-3 py-1.5 text-xs font-semibold text-zinc-600 dark:text-zinc-400 transition hover:border-zinc-400 dark:hover:border-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50";
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Lists saved revisions of one source document and diffs the selected
+ * revision against the current text or another revision.
+ */
+export function SourceHistoryDrawer({ docType, label, profileId, currentContent, onRestore, onClose }: SourceHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<SourceRevisionSummary[] | null>(null);
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSourceRevisionsAction({ docType, profileId })
+      .then((items) => {
+        if (cancelled) return;
+        setRevisions(items);
+        setSelectedId(items[0]?.id ?? null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setRevisions([]);
+        toast.error(error instanceof Error ? error.message : "Unable to load history");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [docType, profileId]);
+
+  useEffect(() => {
+    const missing = [selectedId, compareTo].filter(
+      (id): id is string => Boolean(id) && id !== CURRENT && contents[id as string] === undefined,
+    );
+    if (!missing.length) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all(missing.map((revisionId) => getSourceRevisionAction({ docType, revisionId, profileId })))
+      .then((results) => {
+        if (cancelled) return;
+        setContents((prev) => {
+          const next = { ...prev };
+          results.forEach((result, index) => {
+            next[missing[index]] = result.content;
+          });
+          return next;
+        });
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(error instanceof Error ? error.message : "Unable to load revision");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [compareTo, contents, docType, profileId, selectedId]);
+
+  const selectedContent = selectedId ? contents[selectedId] : undefined;
+  const compareContent = compareTo === CURRENT ? currentContent : contents[compareTo];
+  const rows = useMemo<SideBySideRow[] | null>(
+    () => (selectedContent === undefined || compareContent === undefined ? null : diffLines(selectedContent, compareContent)),
+    [compareContent, selectedContent],
+  );
+  const summary = rows ? summarizeDiff(rows) : null;
+
+  const handleRestore = async () => {
+    if (!selectedId) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      const { content } = await restoreSourceRevisionAction({ docType, revisionId: selectedId, profileId });
+      onRestore(content);
+      toast.success(`${label} restored`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unable to restore revision");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 flex h-full w-full max-w-5xl flex-col border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-5 py-6 shadow-2xl">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-widest text-zinc-400">History</p>
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">{label}</h3>
+          </div>
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+        <div className="mt-4 flex min-h-0 flex-1 gap-4">
+          <ul className="w-56 flex-shrink-0 space-y-1 overflow-y-auto">
+            {revisions === null ? <li className="text-xs text-zinc-500">Loading…</li> : null}
+            {revisions?.length === 0 ? <li className="text-xs text-zinc-500">No revisions saved yet.</li> : null}
+            {revisions?.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full rounded-2xl px-3 py-2 text-left text-xs transition ${
+                    revision.id === selectedId
+                      ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                      : "text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  <span className="block font-semibold">{new Date(revision.createdAt).toLocaleString()}</span>
+                  <span className="block opacity-70">
+                    {formatSize(revision.size)}
+                    {revision.source === "restore" ? " · restored" : ""}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex min-w-0 flex-1 flex-col">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+              <span>Compare with</span>
+              <select
+                value={compareTo}
+                onChange={(event) => setCompareTo(event.target.value)}
+                className="rounded-full border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-1.5 text-xs text-zinc-700 dark:text-zinc-300"
+              >
+                <option value={CURRENT}>Current text</option>
+                {revisions
+                  ?.filter((revision) => revision.id !== selectedId)
+                  .map((revision) => (
+                    <option key={revision.id} value={revision.id}>
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </option>
+                  ))}
+              </select>
+              {summary ? (
+                <span>
+                  <span className="text-emerald-600">+{summary.added}</span>{" "}
+                  <span className="text-red-600">−{summary.removed}</span>{" "}
+                  <span className="text-orange-500">~{summary.changed}</span>
+                </span>
+              ) : null}
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={!selectedId || isRestoring}
+                className={`${buttonClassName} ml-auto`}
+              >
+                {isRestoring ? "Restoring…" : "Restore this revision"}
+              </button>
+            </div>
+            <div className="mt-3 min-h-0 flex-1 overflow-auto rounded-2xl border border-zinc-100 dark:border-zinc-800 font-mono text-xs">
+              {rows ? <DiffTable rows={rows} /> : selectedId ? <p className="p-4 text-zinc-500">Loading revision…</p> : null}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+const rowTone: Record<SideBySideRow["kind"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  added: { left: "bg-zinc-50 dark:bg-zinc-800/40", right: "bg-emerald-50 dark:bg-emerald-900/30" },
+  removed: { left: "bg-red-50 dark:bg-red-900/30", right: "bg-zinc-50 dark:bg-zinc-800/40" },
+  changed: { left: "bg-red-50 dark:bg-red-900/30", right: "bg-emerald-50 dark:bg-emerald-900/30" },
+};
+
+function DiffTable({ rows }: { rows: SideBySideRow[] }) {
+  if (!rows.length) {
+    return <p className="p-4 text-zinc-500">Both versions are empty.</p>;
+  }
+  return (
+    <table className="w-full table-fixed border-collapse">
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={index} className="align-top">
+            <td className="w-10 select-none px-2 text-right text-zinc-400">{row.left?.lineNumber ?? ""}</td>
+            <td className={`whitespace-pre-wrap break-words px-2 text-zinc-800 dark:text-zinc-200 ${rowTone[row.kind].left}`}>
+              {row.left?.text ?? ""}
+            </td>
+            <td className="w-10 select-none border-l border-zinc-100 dark:border-zinc-800 px-2 text-right text-zinc-400">
+              {row.right?.lineNumber ?? ""}
+            </td>
+            <td className={`whitespace-pre-wrap break-words px-2 text-zinc-800 dark:text-zinc-200 ${rowTone[row.kind].right}`}>
+              {row.right?.text ?? ""}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import Image from "next/image";
+
+import { RESUME_TEMPLATE_GALLERY } from "@/lib/resume/latex-templates";
+
+type TemplateGalleryProps = {
+  /** Highlighted template id; an empty string selects the master CV layout tile. */
+  value: string | null;
+  onSelect: (template: string) => void;
+  disabled?: boolean;
+  pendingTemplate?: string | null;
+  /** Adds a tile that keeps whatever layout the master CV uses. */
+  includeSourceLayout?: boolean;
+};
+
+const TILE_CLASS =
+  "flex flex-col gap-2 rounded-2xl border p-2 text-left transition disabled:cursor-not-allowed disabled:opacity-50";
+
+function tileState(selected: boolean) {
+  return selected
+    ? "border-zinc-900 bg-zinc-50 dark:border-zinc-300 dark:bg-zinc-800"
+    : "border-zinc-200 hover:border-zinc-400 dark:border-zinc-700 dark:hover:border-zinc-500";
+}
+
+export function TemplateGallery({ value, onSelect, disabled, pendingTemplate, includeSourceLayout }: TemplateGalleryProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+      {includeSourceLayout ? (
+        <button
+          type="button"
+          onClick={() => onSelect("")}
+          disabled={disabled}
+          className={`${TILE_CLASS} ${tileState(value === "")}`}
+        >
+          <div className="flex aspect-[12/17] items-center justify-center rounded-lg border border-dashed border-zinc-300 text-center text-[11px] text-zinc-500 dark:border-zinc-600 dark:text-zinc-400">
+            Your LaTeX
+          </div>
+          <span className="text-xs font-semibold text-zinc-800 dark:text-zinc-200">Master CV layout</span>
+          <span className="text-[11px] leading-4 text-zinc-500 dark:text-zinc-400">Keep the layout of the CV you pasted.</span>
+        </button>
+      ) : null}
+      {RESUME_TEMPLATE_GALLERY.map((template) => (
+        <button
+          key={template.id}
+          type="button"
+          onClick={() => onSelect(template.id)}
+          disabled={disabled}
+          title={template.description}
+          className={`${TILE_CLASS} ${tileState(value === template.id)}`}
+        >
+          <Image
+            src={template.thumbnail}
+            alt={`${template.label} preview`}
+            width={120}
+            height={170}
+            unoptimized
+            className={`h-auto w-full rounded-lg ${pendingTemplate === template.id ? "animate-pulse" : ""}`}
+          />
+          <span className="text-xs font-semibold text-zinc-800 dark:text-zinc-200">{template.label}</span>
+          <span className="text-[11px] leading-4 text-zinc-500 dark:text-zinc-400">{template.description}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
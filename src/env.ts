@@ -2,30 +2,31 @@ import { z } from "zod";
 
 const BASE64_REGEX = /^[A-Za-z0-9+/=]+$/;
 
-const aesGcmKeySchema = z.preprocess((value) => {
-  if (typeof value !== "string") {
-    return value;
-  }
-  const trimmed = value.trim();
-  return trimmed.length ? trimmed : undefined;
-},
-z
-  .string()
-  .superRefine((value, ctx) => {
-    if (!BASE64_REGEX.test(value)) {
-      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "NEXT_SERVER_ACTIONS_ENCRYPTION_KEY must be base64-encoded" });
-      return;
+const aesGcmKeySchema = (name: string) =>
+  z.preprocess((value) => {
+    if (typeof value !== "string") {
+      return value;
     }
-    try {
-      const bytes = Buffer.from(value, "base64");
-      if (bytes.byteLength !== 32) {
-        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "NEXT_SERVER_ACTIONS_ENCRYPTION_KEY must decode to exactly 32 bytes" });
+    const trimmed = value.trim();
+    return trimmed.length ? trimmed : undefined;
+  },
+  z
+    .string()
+    .superRefine((value, ctx) => {
+      if (!BASE64_REGEX.test(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} must be base64-encoded` });
+        return;
       }
-    } catch {
-      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "NEXT_SERVER_ACTIONS_ENCRYPTION_KEY is not valid base64" });
-    }
-  })
-  .optional());
+      try {
+        const bytes = Buffer.from(value, "base64");
+        if (bytes.byteLength !== 32) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} must decode to exactly 32 bytes` });
+        }
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} is not valid base64` });
+      }
+    })
+    .optional());
 
 const booleanFromEnv = (defaultValue: boolean) =>
   z.preprocess((value) => {
@@ -73,7 +74,8 @@ const serverSchema = z.object({
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("debug"),
   LOG_REQUEST_DEBUG: booleanFromEnv(true),
   PORT: z.coerce.number().int().positive().default(3000),
-  GEMINI_API_KEY: z.string().min(1, "GEMINI_API_KEY is required"),
+  AI_PROVIDER: z.enum(["gemini", "openai", "ollama"]).default("gemini"),
+  GEMINI_API_KEY: z.string().default(""),
   APOLLO_API_KEY: z
     .string()
     .optional()
@@ -83,9 +85,23 @@ const serverSchema = z.object({
   GEMINI_PRO_FALLBACK_MODEL: z.string().default("gemini-2.5-pro"),
   GEMINI_FLASH_MODEL: z.string().default("gemini-2.5-flash"),
   GEMINI_EMBED_MODEL: z.string().default("text-embedding-004"),
+  OPENAI_BASE_URL: z.string().url().default("https://api.openai.com/v1"),
+  OPENAI_API_KEY: z.string().default(""),
+  OPENAI_PRO_MODEL: z.string().default("gpt-4.1"),
+  OPENAI_PRO_FALLBACK_MODEL: z.string().default(""),
+  OPENAI_FLASH_MODEL: z.string().default("gpt-4.1-mini"),
+  OPENAI_THINKING_MODEL: z.string().default(""),
+  OLLAMA_BASE_URL: z.string().url().default("http://localhost:11434"),
+  OLLAMA_PRO_MODEL: z.string().default("llama3.1:8b"),
+  OLLAMA_FLASH_MODEL: z.string().default("llama3.1:8b"),
+  OLLAMA_THINKING_MODEL: z.string().default(""),
+  AI_REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(180000),
   AI_MAX_RETRIES: z.coerce.number().int().min(1).default(5),
   AI_INITIAL_RETRY_DELAY: z.coerce.number().int().min(1000).default(10000),
+  AI_MODEL_PRICING: z.string().default(""),
+  QUOTA_TOKENS_PER_UNIT: z.coerce.number().int().min(0).default(0),
   TARGET_PAGE_COUNT: z.coerce.number().int().min(1).default(2),
+  PAGE_FIT_MAX_COMPILES: z.coerce.number().int().min(0).default(8),
   MAX_CONTENT_LENGTH: z.coerce.number().int().min(1).default(50000),
   SCRAPING_TIMEOUT: z.coerce.number().int().min(1000).default(30000),
   LLAMAINDEX_ENABLE_PERSISTENCE: booleanFromEnv(true),
@@ -95,6 +111,16 @@ const serverSchema = z.object({
   LLAMAINDEX_TRACING_ENABLED: booleanFromEnv(false),
   USER_NAME: z.string().default("ebenezer-isaac"),
   PDFLATEX_COMMAND: z.string().default("pdflatex"),
+  LATEX_ENGINE: z.enum(["pdflatex", "tectonic"]).default("pdflatex"),
+  TECTONIC_COMMAND: z.string().default("tectonic"),
+  LATEX_COMPILE_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  LATEX_COMPILE_QUEUE_LIMIT: z.coerce.number().int().min(0).default(20),
+  LATEX_COMPILE_TIMEOUT_MS: z.coerce.number().int().min(1000).default(60000),
+  LATEX_CPU_SECONDS: z.coerce.number().int().min(1).default(30),
+  LATEX_MEMORY_MB: z.coerce.number().int().min(128).default(1024),
+  LATEX_ISOLATE_NETWORK: booleanFromEnv(true),
+  LATEX_REQUIRE_SANDBOX: booleanFromEnv(process.env.NODE_ENV === "production"),
+  LATEX_CACHE_MAX_MB: z.coerce.number().int().min(0).default(64),
   SMOKE_TEST_ALLOWED_EMAILS: z.string().default(""),
   FIREBASE_PROJECT_ID: z.preprocess(
     stripInvisibleBoundary,
@@ -104,7 +130,21 @@ const serverSchema = z.object({
   FIREBASE_PRIVATE_KEY: z.string().min(1, "FIREBASE_PRIVATE_KEY is required"),
   FIREBASE_API_KEY: z.string().min(1, "FIREBASE_API_KEY is required"),
   FIREBASE_AUTH_DEBUG: booleanFromEnv(false),
-  FIREBASE_STORAGE_BUCKET: z.string().min(1, "FIREBASE_STORAGE_BUCKET is required"),
+  FIREBASE_STORAGE_BUCKET: z.string().default(""),
+  STORAGE_PROVIDER: z.enum(["firebase", "local", "s3"]).default("firebase"),
+  LOCAL_STORAGE_DIR: z.string().default(".storage"),
+  S3_BUCKET: z.string().default(""),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_ENDPOINT: z.string().default(""),
+  S3_ACCESS_KEY_ID: z.string().default(""),
+  S3_SECRET_ACCESS_KEY: z.string().default(""),
+  S3_FORCE_PATH_STYLE: booleanFromEnv(false),
+  JOB_QUEUE_PROVIDER: z.enum(["firestore", "local"]).default("firestore"),
+  JOB_WORKER_ENABLED: booleanFromEnv(true),
+  JOB_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  JOB_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+  FIXTURE_MODE: z.enum(["off", "record", "replay"]).default("off"),
+  FIXTURE_DIR: z.string().default("fixtures/recordings"),
   FIREBASE_AUTH_COOKIE_NAME: z.string().min(1).default("cv-customiser-auth"),
   FIREBASE_AUTH_COOKIE_SIGNATURE_KEYS: signatureKeysSchema,
   FIREBASE_AUTH_COOKIE_MAX_AGE_SECONDS: z
@@ -117,7 +157,9 @@ const serverSchema = z.object({
   FIREBASE_AUTH_COOKIE_SAME_SITE: z.enum(["lax", "strict", "none"]).default("lax"),
   FIREBASE_AUTH_COOKIE_DOMAIN: z.string().optional(),
   ACCESS_CONTROL_INTERNAL_TOKEN: z.string().min(32, "ACCESS_CONTROL_INTERNAL_TOKEN must be at least 32 characters"),
-  NEXT_SERVER_ACTIONS_ENCRYPTION_KEY: aesGcmKeySchema,
+  NEXT_SERVER_ACTIONS_ENCRYPTION_KEY: aesGcmKeySchema("NEXT_SERVER_ACTIONS_ENCRYPTION_KEY"),
+  SMTP_ENCRYPTION_KEY: aesGcmKeySchema("SMTP_ENCRYPTION_KEY"),
+  SMTP_ALLOW_PRIVATE_HOSTS: booleanFromEnv(process.env.NODE_ENV !== "production"),
   CONTACT_EMAIL: z.string().email("CONTACT_EMAIL must be a valid email address"),
   ADMIN_EMAIL: z.string().email().optional(),
 });
@@ -154,6 +196,15 @@ export function validateEnv(): Env {
     if (serverEnv.NODE_ENV === "production" && !serverEnv.NEXT_SERVER_ACTIONS_ENCRYPTION_KEY) {
       throw new Error("NEXT_SERVER_ACTIONS_ENCRYPTION_KEY is required in production to keep Server Action encryption keys stable across instances.");
     }
+    if (serverEnv.AI_PROVIDER === "gemini" && !serverEnv.GEMINI_API_KEY && serverEnv.FIXTURE_MODE !== "replay") {
+      throw new Error("GEMINI_API_KEY is required when AI_PROVIDER=gemini.");
+    }
+    if (serverEnv.STORAGE_PROVIDER === "firebase" && !serverEnv.FIREBASE_STORAGE_BUCKET) {
+      throw new Error("FIREBASE_STORAGE_BUCKET is required when STORAGE_PROVIDER=firebase.");
+    }
+    if (serverEnv.STORAGE_PROVIDER === "s3" && !serverEnv.S3_BUCKET) {
+      throw new Error("S3_BUCKET is required when STORAGE_PROVIDER=s3.");
+    }
     cachedEnv = {
       ...serverEnv,
       ...clientSchema.parse(process.env),
@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { updateApplicationAction, type UpdateApplicationInput } from "@/app/actions/update-application";
+import { useSessionStore } from "@/store/session-store";
+
+export function useApplicationTracker() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+
+  const updateApplication = useCallback(
+    async (input: UpdateApplicationInput): Promise<boolean> => {
+      setPendingSessionId(input.sessionId);
+      try {
+        const updated = await updateApplicationAction(input);
+        upsertSession(updated);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to update application: ${message}`);
+        return false;
+      } finally {
+        setPendingSessionId((prev) => (prev === input.sessionId ? null : prev));
+      }
+    },
+    [upsertSession],
+  );
+
+  return { updateApplication, pendingSessionId };
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { appendLogAction } from "@/app/actions/append-log";
+import { createSessionAction } from "@/app/actions/create-session";
+import { processJobInputAction } from "@/app/actions/process-job-input";
+import { readGenerationStream, type GenerationArtifacts } from "@/hooks/useStreamableValue";
+import type { BatchJobEntry } from "@/lib/batch-input";
+import { REQUEST_ID_HEADER } from "@/lib/debug-logger";
+import { buildGenerationFormData, createClientRequestId, createGenerationId, hasCvSource } from "@/lib/generation-request";
+import { useSessionStore } from "@/store/session-store";
+import type { ChatMessageKind } from "@/types/session";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+export type BatchJobStatus =
+  | "queued"
+  | "preparing"
+  | "generating"
+  | "succeeded"
+  | "needs_latex_fix"
+  | "failed"
+  | "cancelled";
+
+export type BatchJob = BatchJobEntry & {
+  id: string;
+  status: BatchJobStatus;
+  sessionId: string | null;
+  label: string;
+  progressLines: number;
+  lastLine: string | null;
+  error: string | null;
+};
+
+export type BatchSummary = Record<BatchJobStatus, number> & { total: number };
+
+const FINISHED_STATUSES = new Set<BatchJobStatus>(["succeeded", "needs_latex_fix", "failed", "cancelled"]);
+
+export function isBatchJobFinished(job: BatchJob): boolean {
+  return FINISHED_STATUSES.has(job.status);
+}
+
+function summarizeBatch(jobs: BatchJob[]): BatchSummary {
+  const summary: BatchSummary = {
+    total: jobs.length,
+    queued: 0,
+    preparing: 0,
+    generating: 0,
+    succeeded: 0,
+    needs_latex_fix: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  jobs.forEach((job) => {
+    summary[job.status] += 1;
+  });
+  return summary;
+}
+
+function resolveOutcome(artifacts: GenerationArtifacts | null): BatchJobStatus {
+  if (!artifacts?.cv) {
+    return "failed";
+  }
+  const latest = artifacts.cv.versions?.[0];
+  return latest?.status === "failed" ? "needs_latex_fix" : "succeeded";
+}
+
+function createMessageId(sessionId: string, role: string): string {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return `${sessionId}-${role}-${Date.now()}-${suffix}`;
+}
+
+/**
+ * Runs standard-mode generations for a list of job URLs with a bounded number
+ * in flight. Every job gets its own session, and `/api/generate` places a
+ * separate quota hold per request, so one failure never blocks the rest.
+ */
+export function useBatchGeneration() {
+  const sourceDocuments = useSessionStore((state) => state.sourceDocuments);
+  const activeCvProfileId = useSessionStore((state) => state.activeCvProfileId);
+  const quota = useSessionStore((state) => state.quota);
+  const actions = useSessionStore((state) => state.actions);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateJob = useCallback((id: string, patch: Partial<BatchJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+  }, []);
+
+  const runJob = useCallback(
+    async (job: BatchJob) => {
+      const controller = new AbortController();
+      controllersRef.current.set(job.id, controller);
+      const generationId = createGenerationId();
+      let sessionId: string | null = null;
+      let artifacts: GenerationArtifacts | null = null;
+
+      try {
+        updateJob(job.id, { status: "preparing" });
+        const normalized = await processJobInputAction({ jobInput: job.jobUrl });
+        const companyName = job.companyName?.trim() || normalized.companyName || "Unknown company";
+        const jobTitle = job.jobTitle?.trim() || normalized.jobTitle || "Untitled role";
+        const contactEmail = normalized.emailAddresses[0] ?? "";
+
+        if (cancelledRef.current) {
+          updateJob(job.id, { status: "cancelled" });
+          return;
+        }
+
+        const session = await createSessionAction({
+          companyName,
+          jobTitle,
+          mode: "standard",
+          companyWebsite: "",
+          contactName: "",
+          contactTitle: "",
+          contactEmail,
+          cvProfileId: activeCvProfileId,
+        });
+        sessionId = session.id;
+        actions.upsertSession(session);
+        updateJob(job.id, { sessionId, label: `${companyName} · ${jobTitle}`, status: "generating" });
+
+        const timestamp = new Date().toISOString();
+        const promptId = createMessageId(sessionId, "user");
+        actions.appendChatMessage(sessionId, {
+          id: promptId,
+          role: "user",
+          content: normalized.jobDescription,
+          timestamp,
+          isMarkdown: false,
+          metadata: { kind: "prompt" as ChatMessageKind, rawJobInput: job.jobUrl, generationId, clientTimestamp: timestamp },
+        });
+        await appendLogAction({
+          sessionId,
+          id: promptId,
+          message: normalized.jobDescription,
+          level: "info",
+          kind: "prompt",
+          payload: { generationId, rawJobInput: job.jobUrl, batch: true },
+          clientTimestamp: timestamp,
+        });
+        actions.setSessionStatus(sessionId, "processing");
+
+        const formData = buildGenerationFormData({
+          sessionId,
+          generationId,
+          mode: "standard",
+          jobDescription: normalized.jobDescription,
+          companyName,
+          jobTitle,
+          companyWebsite: "",
+          contactName: "",
+          contactTitle: "",
+          contactEmail,
+          companyProfile: normalized.companyProfile ?? "",
+          genericEmail: contactEmail || "hello@example.com",
+          jobSourceUrl: normalized.jobUrl ?? job.jobUrl,
+          emailAddresses: normalized.emailAddresses,
+          sourceDocuments,
+          cvProfileId: activeCvProfileId,
+        });
+
+        const response = await fetch("/api/generate", {
+          method: "POST",
+          body: formData,
+          headers: { [REQUEST_ID_HEADER]: createClientRequestId() },
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          const errorText = await response.text().catch(() => "");
+          throw new Error(errorText || "Unable to start generation.");
+        }
+
+        let progressLines = 0;
+        let failureMessage: string | null = null;
+        const activeSessionId = sessionId;
+        const streamOutcome = await readGenerationStream(response.body, {
+          generationId,
+          signal: controller.signal,
+          onLine(line, level) {
+            progressLines += 1;
+            updateJob(job.id, { progressLines, lastLine: line });
+            actions.appendChatMessage(activeSessionId, {
+              id: createMessageId(activeSessionId, "assistant"),
+              role: "assistant",
+              content: line,
+              timestamp: new Date().toISOString(),
+              level,
+              metadata: { kind: "log" as ChatMessageKind, generationId },
+              mergeDisabled: true,
+            });
+          },
+          onArtifacts(parsed) {
+            artifacts = parsed;
+            actions.setGeneratedDocuments(activeSessionId, parsed);
+          },
+          onFailed(message) {
+            failureMessage = message;
+          },
+        });
+        if (streamOutcome === "disconnected") {
+          throw new Error("Lost connection to the generation before it finished.");
+        }
+
+        const outcome = failureMessage ? "failed" : resolveOutcome(artifacts);
+        actions.setSessionStatus(sessionId, outcome === "failed" ? "failed" : "completed");
+        updateJob(job.id, {
+          status: outcome,
+          error: outcome === "failed" ? failureMessage ?? "Generation finished without a CV artifact." : null,
+        });
+      } catch (error) {
+        const aborted = controller.signal.aborted;
+        const message = error instanceof Error ? error.message : String(error);
+        if (sessionId) {
+          actions.setSessionStatus(sessionId, "failed");
+        }
+        updateJob(job.id, { status: aborted ? "cancelled" : "failed", error: aborted ? null : message });
+      } finally {
+        controllersRef.current.delete(job.id);
+      }
+    },
+    [actions, activeCvProfileId, sourceDocuments, updateJob],
+  );
+
+  const start = useCallback(
+    async (entries: BatchJobEntry[], concurrency = DEFAULT_BATCH_CONCURRENCY) => {
+      if (!entries.length) {
+        toast.error("Add at least one job URL to start a batch.");
+        return;
+      }
+      if (!hasCvSource(sourceDocuments)) {
+        toast.error("Please add a JSON Resume, or both Original and Extensive CV content, inside Settings before generating.");
+        return;
+      }
+      if (quota && quota.remaining < entries.length) {
+        toast.warning(
+          `Only ${quota.remaining} token(s) remain for ${entries.length} jobs; jobs beyond your quota will fail.`,
+        );
+      }
+
+      const queue: BatchJob[] = entries.map((entry, index) => ({
+        ...entry,
+        id: `batch-${Date.now().toString(36)}-${index}`,
+        status: "queued",
+        sessionId: null,
+        label: entry.companyName && entry.jobTitle ? `${entry.companyName} · ${entry.jobTitle}` : entry.jobUrl,
+        progressLines: 0,
+        lastLine: null,
+        error: null,
+      }));
+      setJobs(queue);
+      setIsRunning(true);
+      cancelledRef.current = false;
+
+      let cursor = 0;
+      const limit = Math.min(Math.max(1, Math.floor(concurrency)), MAX_BATCH_CONCURRENCY);
+      const worker = async () => {
+        while (cursor < queue.length) {
+          const job = queue[cursor];
+          cursor += 1;
+          if (cancelledRef.current) {
+            updateJob(job.id, { status: "cancelled" });
+            continue;
+          }
+          await runJob(job);
+        }
+      };
+
+      try {
+        await Promise.all(Array.from({ length: Math.min(limit, queue.length) }, worker));
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [quota, runJob, sourceDocuments, updateJob],
+  );
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    controllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  const clear = useCallback(() => {
+    if (!isRunning) {
+      setJobs([]);
+    }
+  }, [isRunning]);
+
+  const summary = useMemo(() => summarizeBatch(jobs), [jobs]);
+
+  return { jobs, summary, isRunning, start, cancel, clear };
+}
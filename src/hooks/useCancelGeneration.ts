@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { cancelGenerationAction } from "@/app/actions/cancel-generation";
+
+export function useCancelGeneration() {
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const cancelGeneration = useCallback(async (sessionId: string, generationId: string): Promise<boolean> => {
+    setCancellingId(generationId);
+    try {
+      const { status } = await cancelGenerationAction({ sessionId, generationId });
+      if (status === "running") {
+        toast.info("Cancelling generation. It stops at the next step.");
+      } else if (status === "cancelled") {
+        toast.success("Generation cancelled");
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast.error(`Failed to cancel generation: ${message}`);
+      return false;
+    } finally {
+      setCancellingId(null);
+    }
+  }, []);
+
+  return { cancelGeneration, cancellingId };
+}
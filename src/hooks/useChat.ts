@@ -9,6 +9,7 @@ import { useSessionStore } from "@/store/session-store";
 import { useStreamableValue, type GenerationArtifacts } from "@/hooks/useStreamableValue";
 import { REQUEST_ID_HEADER, setClientRequestId } from "@/lib/debug-logger";
 import { clientEnv } from "@/lib/env-client";
+import { buildGenerationFormData, createClientRequestId, createGenerationId, hasCvSource } from "@/lib/generation-request";
 import type { ChatMessageKind } from "@/types/session";
 
 export type ChatInput = {
@@ -38,6 +39,7 @@ export function useChat() {
   const currentSessionId = useSessionStore((state) => state.currentSessionId);
   const mode = useSessionStore((state) => state.mode);
   const sourceDocuments = useSessionStore((state) => state.sourceDocuments);
+  const activeCvProfileId = useSessionStore((state) => state.activeCvProfileId);
   const quota = useSessionStore((state) => state.quota);
   const actions = useSessionStore((state) => state.actions);
   const isGenerating = useSessionStore((state) => state.isGenerating);
@@ -58,12 +60,13 @@ export function useChat() {
         contactName: metadata.contactName?.trim() ?? "",
         contactTitle: metadata.contactTitle?.trim() ?? "",
         contactEmail: metadata.contactEmail?.trim() ?? "",
+        cvProfileId: activeCvProfileId,
       });
 
       actions.setSessions([session, ...sessions]);
       return { sessionId: session.id, wasCreated: true };
     },
-    [actions, currentSessionId, mode, sessions],
+    [actions, activeCvProfileId, currentSessionId, mode, sessions],
   );
 
   const sendMessage = useCallback(async (input: ChatInput): Promise<ChatResult | null> => {
@@ -73,8 +76,8 @@ export function useChat() {
       toast.error("Please paste a job description or URL before generating.");
       return null;
     }
-    if (!sourceDocuments.originalCV || !sourceDocuments.extensiveCV) {
-      toast.error("Please add both Original and Extensive CV content inside Settings before generating.");
+    if (!hasCvSource(sourceDocuments)) {
+      toast.error("Please add a JSON Resume, or both Original and Extensive CV content, inside Settings before generating.");
       return null;
     }
     if (quota && quota.remaining <= 0) {
@@ -244,38 +247,26 @@ export function useChat() {
         clientTimestamp: summaryMessage.timestamp,
       });
 
-      const formData = new FormData();
-      formData.append("sessionId", sessionId);
-      formData.append("generationId", generationId);
-      formData.append("jobDescription", resolvedJobDescription);
-      formData.append("companyName", resolvedCompanyName);
-      formData.append("jobTitle", resolvedJobTitle);
-      formData.append("companyWebsite", resolvedCompanyWebsite);
-      formData.append("mode", mode);
-      formData.append("originalCV", sourceDocuments.originalCV);
-      formData.append("extensiveCV", sourceDocuments.extensiveCV);
-      formData.append(
-        "cvStrategy",
-        sourceDocuments.cvStrategy || "Emphasize quantified impact and LaTeX layout parity.",
-      );
-      formData.append(
-        "coverLetterStrategy",
-        sourceDocuments.coverLetterStrategy || "Concise one-page cover letter.",
-      );
-      formData.append("coldEmailStrategy", sourceDocuments.coldEmailStrategy || "Short email under 150 words.");
-      formData.append("validatedCVText", "");
-      formData.append("contactName", contactName);
-      formData.append("contactTitle", contactTitle);
-      formData.append("contactEmail", contactEmail);
-      formData.append("companyProfile", companyProfile);
-      formData.append("genericEmail", genericEmail);
-      formData.append("jobSourceUrl", jobSourceUrl);
-      formData.append("emailAddresses", normalizedEmails.join(","));
-
-      runRequestId =
-        typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
-          ? crypto.randomUUID()
-          : `req-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      const formData = buildGenerationFormData({
+        sessionId,
+        generationId,
+        mode,
+        jobDescription: resolvedJobDescription,
+        companyName: resolvedCompanyName,
+        jobTitle: resolvedJobTitle,
+        companyWebsite: resolvedCompanyWebsite,
+        contactName,
+        contactTitle,
+        contactEmail,
+        companyProfile,
+        genericEmail,
+        jobSourceUrl,
+        emailAddresses: normalizedEmails,
+        sourceDocuments,
+        cvProfileId: activeCvProfileId,
+      });
+
+      runRequestId = createClientRequestId();
       activeRequestIdRef.current = runRequestId;
       setClientRequestId(runRequestId);
 
@@ -303,8 +294,18 @@ export function useChat() {
         return null;
       }
 
+      let readyArtifacts: GenerationArtifacts = {};
+      if (sessionId) {
+        actions.clearLiveGeneration(sessionId);
+      }
       await consume(response.body, {
-        onLine(line) {
+        generationId,
+        onEvent(event) {
+          if (sessionId) {
+            actions.applyGenerationEvent(sessionId, event);
+          }
+        },
+        onLine(line, level) {
           if (!sessionId) {
             return;
           }
@@ -313,11 +314,18 @@ export function useChat() {
             role: "assistant",
             content: line,
             timestamp: new Date().toISOString(),
-            level: deriveLevel(line),
+            level: level === "info" ? deriveLevel(line) : level,
             metadata: { kind: "log" as ChatMessageKind, generationId },
             mergeDisabled: true,
           });
         },
+        onArtifactReady(artifact, payload) {
+          if (!sessionId) {
+            return;
+          }
+          readyArtifacts = { ...readyArtifacts, [artifact]: payload };
+          actions.setGeneratedDocuments(sessionId, readyArtifacts);
+        },
         onArtifacts(artifacts) {
           if (!sessionId) {
             return;
@@ -334,6 +342,13 @@ export function useChat() {
           });
           toast.success("Documents generated successfully");
         },
+        onFailed(message) {
+          if (!sessionId) {
+            return;
+          }
+          actions.setSessionStatus(sessionId, "failed");
+          toast.error(`Generation failed: ${message}`);
+        },
       });
 
       return {
@@ -369,8 +384,11 @@ export function useChat() {
         setClientRequestId(null);
       }
       actions.setIsGenerating(sessionId ?? null, false);
+      if (sessionId) {
+        actions.clearLiveGeneration(sessionId);
+      }
     }
-  }, [actions, consume, currentSessionId, ensureSession, mode, quota, reset, sourceDocuments]);
+  }, [actions, activeCvProfileId, consume, currentSessionId, ensureSession, mode, quota, reset, sourceDocuments]);
 
   return {
     sendMessage,
@@ -400,6 +418,8 @@ function formatArtifactLabel(key: string): string {
       return "Cover Letter";
     case "coldEmail":
       return "Cold Email";
+    case "interviewPrep":
+      return "Interview Prep";
     default:
       return key;
   }
@@ -420,13 +440,6 @@ function createMessageId(sessionId: string, role: string): string {
   return `${sessionId}-${role}-${Date.now()}-${suffix}`;
 }
 
-function createGenerationId(): string {
-  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
-    return crypto.randomUUID();
-  }
-  return `gen-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-}
-
 type UserRequestSummaryArgs = {
   companyName: string;
   jobTitle: string;
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { createCvProfileAction } from "@/app/actions/create-cv-profile";
+import { deleteCvProfileAction } from "@/app/actions/delete-cv-profile";
+import { loadCvProfileAction } from "@/app/actions/load-cv-profile";
+import { renameCvProfileAction } from "@/app/actions/rename-cv-profile";
+import { useSessionStore } from "@/store/session-store";
+
+export function useCvProfiles() {
+  const profiles = useSessionStore((state) => state.cvProfiles);
+  const activeProfileId = useSessionStore((state) => state.activeCvProfileId);
+  const { applyCvProfile, setCvProfiles } = useSessionStore((state) => state.actions);
+  const [isPending, setIsPending] = useState(false);
+
+  const run = useCallback(async <T,>(label: string, task: () => Promise<T>): Promise<T | null> => {
+    setIsPending(true);
+    try {
+      return await task();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast.error(`Failed to ${label}: ${message}`);
+      return null;
+    } finally {
+      setIsPending(false);
+    }
+  }, []);
+
+  const switchProfile = useCallback(
+    async (profileId: string): Promise<boolean> => {
+      if (profileId === activeProfileId) {
+        return true;
+      }
+      const result = await run("switch CV profile", () => loadCvProfileAction({ profileId }));
+      if (!result) {
+        return false;
+      }
+      applyCvProfile(result.profileId, result.sourceDocuments, result.profiles);
+      return true;
+    },
+    [activeProfileId, applyCvProfile, run],
+  );
+
+  const createProfile = useCallback(
+    async (name: string, copyCurrent: boolean): Promise<boolean> => {
+      const result = await run("create CV profile", () =>
+        createCvProfileAction({ name, copyFromProfileId: copyCurrent ? activeProfileId : undefined }),
+      );
+      if (!result) {
+        return false;
+      }
+      applyCvProfile(result.profileId, result.sourceDocuments, result.profiles);
+      toast.success(`Switched to profile "${name.trim()}"`);
+      return true;
+    },
+    [activeProfileId, applyCvProfile, run],
+  );
+
+  const renameProfile = useCallback(
+    async (profileId: string, name: string): Promise<boolean> => {
+      const result = await run("rename CV profile", () => renameCvProfileAction({ profileId, name }));
+      if (!result) {
+        return false;
+      }
+      setCvProfiles(result.profiles);
+      return true;
+    },
+    [run, setCvProfiles],
+  );
+
+  const deleteProfile = useCallback(
+    async (profileId: string): Promise<boolean> => {
+      const result = await run("delete CV profile", () => deleteCvProfileAction({ profileId }));
+      if (!result) {
+        return false;
+      }
+      if (profileId === activeProfileId) {
+        applyCvProfile(result.profileId, result.sourceDocuments, result.profiles);
+      } else {
+        setCvProfiles(result.profiles);
+      }
+      return true;
+    },
+    [activeProfileId, applyCvProfile, run, setCvProfiles],
+  );
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null;
+
+  return { profiles, activeProfileId, activeProfile, isPending, switchProfile, createProfile, renameProfile, deleteProfile };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { sendColdEmailAction, type SendColdEmailInput } from "@/app/actions/send-cold-email";
+import { useSessionStore } from "@/store/session-store";
+
+export function useEmailSender() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [isSending, setIsSending] = useState(false);
+
+  const sendColdEmail = useCallback(
+    async (input: SendColdEmailInput): Promise<boolean> => {
+      setIsSending(true);
+      try {
+        const { session, send } = await sendColdEmailAction(input);
+        upsertSession(session);
+        if (send.status === "failed") {
+          toast.error(`Email not sent: ${send.error ?? "unknown error"}`);
+          return false;
+        }
+        toast.success(`Email sent to ${send.to}`);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to send email: ${message}`);
+        return false;
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [upsertSession],
+  );
+
+  return { sendColdEmail, isSending };
+}
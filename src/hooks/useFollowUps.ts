@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { updateFollowUpsAction, type UpdateFollowUpsInput } from "@/app/actions/update-follow-ups";
+import { useSessionStore } from "@/store/session-store";
+
+export function useFollowUps() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const updateFollowUps = useCallback(
+    async (input: UpdateFollowUpsInput): Promise<boolean> => {
+      setIsUpdating(true);
+      try {
+        const updated = await updateFollowUpsAction(input);
+        upsertSession(updated);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to update follow-ups: ${message}`);
+        return false;
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [upsertSession],
+  );
+
+  return { updateFollowUps, isUpdating };
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { rateGenerationAction, type RateGenerationInput } from "@/app/actions/rate-generation";
+import { useSessionStore } from "@/store/session-store";
+
+export function useRateGeneration() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [isRating, setIsRating] = useState(false);
+
+  const rateGeneration = useCallback(
+    async (input: RateGenerationInput): Promise<boolean> => {
+      setIsRating(true);
+      try {
+        const updated = await rateGenerationAction(input);
+        upsertSession(updated);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to save rating: ${message}`);
+        return false;
+      } finally {
+        setIsRating(false);
+      }
+    },
+    [upsertSession],
+  );
+
+  return { rateGeneration, isRating };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { refineArtifactAction, type RefineArtifactInput } from "@/app/actions/refine-artifact";
+import { useSessionStore } from "@/store/session-store";
+
+/** Resolves to the new version's generationId, or null when nothing was saved. */
+export function useRefineArtifact() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [isRefining, setIsRefining] = useState(false);
+
+  const refineArtifact = useCallback(
+    async (input: RefineArtifactInput): Promise<string | null> => {
+      setIsRefining(true);
+      try {
+        const result = await refineArtifactAction(input);
+        if (!result.ok) {
+          toast.error(result.errorMessage);
+          return null;
+        }
+        upsertSession(result.session);
+        return result.generationId;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to refine: ${message}`);
+        return null;
+      } finally {
+        setIsRefining(false);
+      }
+    },
+    [upsertSession],
+  );
+
+  return { refineArtifact, isRefining };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { renderCvTemplateAction, type RenderCvTemplateInput } from "@/app/actions/render-cv-template";
+import { useSessionStore } from "@/store/session-store";
+
+/** Resolves to the new version's generationId, or null when nothing was saved. */
+export function useRenderCvTemplate() {
+  const { upsertSession } = useSessionStore((state) => state.actions);
+  const [pendingTemplate, setPendingTemplate] = useState<string | null>(null);
+
+  const renderCvTemplate = useCallback(
+    async (input: RenderCvTemplateInput): Promise<string | null> => {
+      setPendingTemplate(input.template);
+      try {
+        const result = await renderCvTemplateAction(input);
+        if (!result.ok) {
+          toast.error(result.errorMessage);
+          return null;
+        }
+        upsertSession(result.session);
+        return result.generationId;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(`Failed to apply template: ${message}`);
+        return null;
+      } finally {
+        setPendingTemplate(null);
+      }
+    },
+    [upsertSession],
+  );
+
+  return { renderCvTemplate, pendingTemplate };
+}
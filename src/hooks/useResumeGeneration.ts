@@ -0,0 +1,89 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+import { readGenerationStream, type GenerationArtifacts } from "@/hooks/useStreamableValue";
+import { REQUEST_ID_HEADER, setClientRequestId } from "@/lib/debug-logger";
+import { createClientRequestId } from "@/lib/generation-request";
+import { useSessionStore } from "@/store/session-store";
+import type { ChatMessageKind } from "@/types/session";
+
+/** Restarts a failed or abandoned generation, reusing the steps it already checkpointed. */
+export function useResumeGeneration() {
+  const actions = useSessionStore((state) => state.actions);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+
+  const resumeGeneration = useCallback(
+    async (sessionId: string, generationId: string) => {
+      setResumingId(generationId);
+      actions.setIsGenerating(sessionId, true);
+      actions.setSessionStatus(sessionId, "processing");
+      actions.clearLiveGeneration(sessionId);
+
+      const requestId = createClientRequestId();
+      setClientRequestId(requestId);
+      const fail = (message: string) => {
+        actions.setSessionStatus(sessionId, "failed");
+        toast.error(`Resume failed: ${message}`);
+      };
+
+      try {
+        const response = await fetch("/api/generate/resume", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", [REQUEST_ID_HEADER]: requestId },
+          body: JSON.stringify({ sessionId, generationId }),
+        });
+        if (!response.ok || !response.body) {
+          const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+          fail(payload?.error ?? "Unable to resume generation. Please try again.");
+          return;
+        }
+
+        let readyArtifacts: GenerationArtifacts = {};
+        await readGenerationStream(response.body, {
+          generationId,
+          onEvent(event) {
+            actions.applyGenerationEvent(sessionId, event);
+          },
+          onLine(line, level) {
+            actions.appendChatMessage(sessionId, {
+              id: createMessageId(sessionId, "assistant"),
+              role: "assistant",
+              content: line,
+              timestamp: new Date().toISOString(),
+              level,
+              metadata: { kind: "log" as ChatMessageKind, generationId },
+              mergeDisabled: true,
+            });
+          },
+          onArtifactReady(artifact, payload) {
+            readyArtifacts = { ...readyArtifacts, [artifact]: payload };
+            actions.setGeneratedDocuments(sessionId, readyArtifacts);
+          },
+          onArtifacts(artifacts) {
+            actions.setGeneratedDocuments(sessionId, artifacts);
+            actions.setSessionStatus(sessionId, "completed");
+            toast.success("Generation resumed and completed");
+          },
+          onFailed: fail,
+        });
+      } catch (error) {
+        fail(error instanceof Error ? error.message : String(error));
+      } finally {
+        setClientRequestId(null);
+        actions.setIsGenerating(sessionId, false);
+        actions.clearLiveGeneration(sessionId);
+        setResumingId(null);
+      }
+    },
+    [actions],
+  );
+
+  return { resumeGeneration, resumingId };
+}
+
+function createMessageId(sessionId: string, role: string): string {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return `${sessionId}-${role}-${Date.now()}-${suffix}`;
+}
@@ -304,8 +304,9 @@ function mapChatHistory(rawHistory: unknown[]): SerializableChatMessage[] {
     const rawJobInput = typeof payload["rawJobInput"] === "string" ? (payload["rawJobInput"] as string) : undefined;
     const generationId = typeof payload["generationId"] === "string" ? (payload["generationId"] as string) : undefined;
     const clientTimestamp = typeof payload["clientTimestamp"] === "string" ? (payload["clientTimestamp"] as string) : undefined;
+    const artifact = typeof payload["artifact"] === "string" ? (payload["artifact"] as string) : undefined;
     const resolvedTimestamp = clientTimestamp ?? timestampRaw;
-    const role: SerializableChatMessage["role"] = kind === "prompt" ? "user" : "assistant";
+    const role: SerializableChatMessage["role"] = kind === "prompt" || payload["role"] === "user" ? "user" : "assistant";
 
     return {
       id,
@@ -318,6 +319,7 @@ function mapChatHistory(rawHistory: unknown[]): SerializableChatMessage[] {
         rawJobInput,
         generationId,
         clientTimestamp,
+        artifact,
       },
     };
   });
@@ -2,9 +2,21 @@
 
 import { useCallback, useState } from "react";
 
+import type { AtsComparison } from "@/lib/ats/keyword-score";
+import type { GroundingReport } from "@/lib/grounding/claims";
+import {
+  createSseParser,
+  type GenerationArtifactName,
+  type GenerationEvent,
+  type GenerationLineLevel,
+  type SequencedGenerationEvent,
+} from "@/lib/generation-events";
+import type { InterviewPrepPack } from "@/lib/interview-prep";
+
 export type ArtifactPayload = {
   content: string;
   downloadUrl?: string;
+  docxDownloadUrl?: string;
   storageKey?: string;
   mimeType?: string;
   metadata?: Record<string, unknown>;
@@ -13,6 +25,7 @@ export type ArtifactPayload = {
   subject?: string;
   body?: string;
   toAddress?: string;
+  prepPack?: InterviewPrepPack;
   changeSummary?: string;
   generationId?: string;
   versions?: Array<{
@@ -25,20 +38,41 @@ export type ArtifactPayload = {
     errorLog?: string;
     errorLineNumbers?: number[];
     errors?: Array<{ message: string; lineNumbers?: number[] }>;
+    ats?: AtsComparison;
+    grounding?: GroundingReport;
+    /** Gallery template a CV version was rendered into. */
+    template?: string;
   }>;
+  /** Fact check of the latest text; stored versions carry their own. */
+  grounding?: GroundingReport;
 };
 
 export type GenerationArtifacts = {
   cv?: ArtifactPayload;
   coverLetter?: ArtifactPayload;
   coldEmail?: ArtifactPayload;
+  interviewPrep?: ArtifactPayload;
 };
 
-type ConsumeOptions = {
-  onLine?: (line: string) => void;
+export type GenerationStreamOutcome = "completed" | "failed" | "disconnected";
+
+export type ConsumeOptions = {
+  /** Lets the reader resume through `/api/generate/events` when the stream drops before the final event. */
+  generationId?: string;
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+  onLine?: (line: string, level: GenerationLineLevel) => void;
+  onToken?: (event: Extract<GenerationEvent, { type: "token" }>) => void;
+  onArtifactReady?: (artifact: GenerationArtifactName, payload: ArtifactPayload) => void;
   onArtifacts?: (artifacts: GenerationArtifacts) => void;
+  onFailed?: (message: string) => void;
 };
 
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const CONNECTION_LOST_MESSAGE =
+  "Lost connection to the generation. It keeps running on the server and this session will update when it finishes.";
+
 export function useStreamableValue() {
   const [lines, setLines] = useState<string[]>([]);
   const [artifacts, setArtifacts] = useState<GenerationArtifacts | null>(null);
@@ -50,52 +84,17 @@ export function useStreamableValue() {
 
   const consume = useCallback(
     async (stream: ReadableStream<Uint8Array>, options?: ConsumeOptions) => {
-      const reader = stream.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            break;
-          }
-
-          buffer += decoder.decode(value, { stream: true });
-          const segments = buffer.split("\n");
-          buffer = segments.pop() ?? "";
-
-          for (const rawLine of segments) {
-            const line = rawLine.trim();
-            if (!line) {
-              continue;
-            }
-
-            const parsed = tryParseJson(line);
-            if (parsed) {
-              setArtifacts(parsed);
-              options?.onArtifacts?.(parsed);
-            } else {
-              setLines((prev) => [...prev, line]);
-              options?.onLine?.(line);
-            }
-          }
-        }
-
-        const trailing = buffer.trim();
-        if (trailing) {
-          const parsed = tryParseJson(trailing);
-          if (parsed) {
-            setArtifacts(parsed);
-            options?.onArtifacts?.(parsed);
-          } else {
-            setLines((prev) => [...prev, trailing]);
-            options?.onLine?.(trailing);
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
+      return readGenerationStream(stream, {
+        ...options,
+        onLine(line, level) {
+          setLines((prev) => [...prev, line]);
+          options?.onLine?.(line, level);
+        },
+        onArtifacts(parsed) {
+          setArtifacts(parsed);
+          options?.onArtifacts?.(parsed);
+        },
+      });
     },
     [],
   );
@@ -108,15 +107,143 @@ export function useStreamableValue() {
   };
 }
 
-function tryParseJson(line: string): GenerationArtifacts | null {
-  const trimmed = line.trim();
-  if (!trimmed.startsWith("{") || !trimmed.endsWith("}")) {
-    return null;
+/**
+ * Reads the SSE generation stream outside of React state so callers that run
+ * several generations at once can share the parser. When the connection drops
+ * before the final event and a generationId is known, it reconnects with the
+ * last seen event id so nothing is replayed twice.
+ */
+export async function readGenerationStream(
+  stream: ReadableStream<Uint8Array>,
+  options?: ConsumeOptions,
+): Promise<GenerationStreamOutcome> {
+  let lastEventId = 0;
+  let outcome: GenerationStreamOutcome | null = null;
+
+  const handle = ({ id, event }: SequencedGenerationEvent) => {
+    if (id <= lastEventId) {
+      return;
+    }
+    lastEventId = id;
+    options?.onEvent?.(event);
+    switch (event.type) {
+      case "step":
+        options?.onLine?.(event.message, "info");
+        break;
+      case "warning":
+        options?.onLine?.(event.message, "warning");
+        break;
+      case "error":
+        options?.onLine?.(event.message, "error");
+        break;
+      case "token":
+        options?.onToken?.(event);
+        break;
+      case "artifact":
+        options?.onArtifactReady?.(event.artifact, event.payload);
+        break;
+      case "final":
+        outcome = event.status;
+        if (event.status === "completed") {
+          options?.onArtifacts?.(event.artifacts ?? {});
+        } else {
+          options?.onFailed?.(event.message ?? "Generation failed.");
+        }
+        break;
+    }
+  };
+
+  let current: ReadableStream<Uint8Array> | null = stream;
+  let failedAttempts = 0;
+  while (true) {
+    const seenBefore = lastEventId;
+    if (current) {
+      try {
+        await pumpEvents(current, handle);
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          throw error;
+        }
+      }
+    }
+    if (outcome) {
+      return outcome;
+    }
+    failedAttempts = lastEventId > seenBefore ? 1 : failedAttempts + 1;
+    if (!options?.generationId || failedAttempts > MAX_RECONNECT_ATTEMPTS) {
+      break;
+    }
+    await wait(RECONNECT_BASE_DELAY_MS * failedAttempts, options.signal);
+    const reopened = await reopenGenerationStream(options.generationId, lastEventId, options.signal);
+    if (reopened === "gone") {
+      break;
+    }
+    current = reopened;
   }
 
+  options?.onLine?.(CONNECTION_LOST_MESSAGE, "warning");
+  return "disconnected";
+}
+
+async function pumpEvents(
+  stream: ReadableStream<Uint8Array>,
+  handle: (entry: SequencedGenerationEvent) => void,
+) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSseParser();
   try {
-    return JSON.parse(trimmed) as GenerationArtifacts;
-  } catch {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      parser.push(decoder.decode(value, { stream: true })).forEach(handle);
+    }
+    parser.push(`${decoder.decode()}\n\n`).forEach(handle);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Returns null for a transient failure worth retrying and "gone" when the server no longer knows the generation. */
+async function reopenGenerationStream(
+  generationId: string,
+  lastEventId: number,
+  signal?: AbortSignal,
+): Promise<ReadableStream<Uint8Array> | "gone" | null> {
+  try {
+    const response = await fetch(`/api/generate/events?generationId=${encodeURIComponent(generationId)}`, {
+      headers: { "Last-Event-ID": String(lastEventId) },
+      cache: "no-store",
+      signal,
+    });
+    if (response.status === 404) {
+      return "gone";
+    }
+    return response.ok ? response.body : null;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     return null;
   }
 }
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
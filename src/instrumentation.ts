@@ -18,11 +18,16 @@ export async function register() {
   // Ensure server-side logging writer is initialized
   if (process.env.NEXT_RUNTIME === "nodejs") {
     await import("@/lib/logging/server-writer-bootstrap");
+    if (env.JOB_WORKER_ENABLED) {
+      const { startGenerationWorker } = await import("@/app/actions/generate/worker");
+      startGenerationWorker();
+    }
   }
 
   instrumentationLogger.info("Server Initialization complete", {
     nodeEnv: env.NODE_ENV,
     port: env.PORT,
+    aiProvider: env.AI_PROVIDER,
     models: {
       pro: env.GEMINI_PRO_MODEL,
       flash: env.GEMINI_FLASH_MODEL,
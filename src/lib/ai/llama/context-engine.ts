@@ -15,9 +15,9 @@ import {
 } from "@/lib/ai/llama/documents";
 import { queryDocuments } from "@/lib/ai/llama/document-query";
 import { parseStructuredResponse } from "@/lib/ai/llama/structured-output";
+import { getFixtureRecorder } from "@/lib/fixtures/recorder";
 
 const logger = createDebugLogger("llama-context");
-ensureLlamaRuntime();
 
 const RoleInsightsSchema = z.object({
   painPoints: z.array(z.string()).min(1).max(5),
@@ -85,9 +85,22 @@ export type ResearchBriefInput = {
 export type ResearchBrief = {
   roleInsights: string;
   candidateInsights: string;
+  keywords: string[];
 };
 
-export async function buildResearchBrief(input: ResearchBriefInput): Promise<ResearchBrief> {
+/**
+ * Recorded and replayed as a whole under FIXTURE_MODE, so replay needs neither
+ * the Gemini key nor the embedding calls behind the vector store.
+ */
+export async function buildResearchBrief(input: ResearchBriefInput): Promise<ResearchBrief | null> {
+  return getFixtureRecorder().run("llama-research", input, () => composeResearchBrief(input));
+}
+
+async function composeResearchBrief(input: ResearchBriefInput): Promise<ResearchBrief | null> {
+  if (!ensureLlamaRuntime()) {
+    logger.step("Research brief skipped: no Gemini API key");
+    return null;
+  }
   const reconDoc = await loadReconDocument();
   await ensureStaticDocuments([reconDoc]);
 
@@ -127,7 +140,7 @@ export async function buildResearchBrief(input: ResearchBriefInput): Promise<Res
   const roleInsights = roleStructured ? formatRoleInsights(roleStructured) : roleRaw;
   const candidateInsights = candidateStructured ? formatCandidateInsights(candidateStructured) : candidateRaw;
 
-  return { roleInsights, candidateInsights };
+  return { roleInsights, candidateInsights, keywords: roleStructured?.keywords ?? [] };
 }
 
 export type ContactIntelInput = {
@@ -162,10 +175,20 @@ async function fetchPublicProfileSnapshot(url?: string | null): Promise<string |
   }
 }
 
+/** Recorded like the research brief; the fixture also covers the public profile fetch. */
 export async function buildContactIntelSummary(input: ContactIntelInput): Promise<string | null> {
   if (!input.contactName) {
     return null;
   }
+  const contact = { ...input, contactName: input.contactName };
+  return getFixtureRecorder().run("llama-contact-intel", contact, () => composeContactIntelSummary(contact));
+}
+
+async function composeContactIntelSummary(input: ContactIntelInput & { contactName: string }): Promise<string | null> {
+  if (!ensureLlamaRuntime()) {
+    logger.step("Contact intel skipped: no Gemini API key");
+    return null;
+  }
 
   const baseProfile = [
     `Name: ${input.contactName}`,
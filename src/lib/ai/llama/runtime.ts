@@ -224,10 +224,18 @@ function wrapGeminiWithFallback(llmInstance: GeminiCustom, fallbackModel: GEMINI
   return llmInstance;
 }
 
-export function ensureLlamaRuntime() {
+/**
+ * Configures the Gemini LLM and embedding model on first use. Returns null when
+ * no Gemini key is set, which is allowed for the OpenAI and Ollama providers;
+ * callers skip their LlamaIndex step instead of failing.
+ */
+export function ensureLlamaRuntime(): { llm: Gemini; embedModel: GeminiEmbedding } | null {
   if (initialized && llm && embedModel) {
     return { llm, embedModel };
   }
+  if (!env.GEMINI_API_KEY) {
+    return null;
+  }
 
   const selectedGeminiModel = resolveEnumValue(
     env.GEMINI_PRO_MODEL,
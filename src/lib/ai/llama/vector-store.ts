@@ -107,7 +107,9 @@ const indexMutex = new AsyncMutex();
 let indexPromise: Promise<VectorStoreIndex> | null = null;
 
 async function buildPersistentIndex(): Promise<VectorStoreIndex> {
-  ensureLlamaRuntime();
+  if (!ensureLlamaRuntime()) {
+    throw new Error("The LlamaIndex vector store needs GEMINI_API_KEY for embeddings.");
+  }
   await ensurePersistDirectory();
   const storageContext = await storageContextFromDefaults({ persistDir });
   try {
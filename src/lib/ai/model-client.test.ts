@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/env", () => ({
+  env: {
+    AI_PROVIDER: "gemini",
+    AI_MAX_RETRIES: 5,
+    AI_INITIAL_RETRY_DELAY: 1,
+    AI_REQUEST_TIMEOUT_MS: 1000,
+    LOG_LEVEL: "error",
+  },
+}));
+
+import { AIFailureError } from "@/lib/errors/ai-failure-error";
+import { MODEL_TYPES, ModelClient } from "./model-client";
+import { StubModelProvider } from "./providers/stub-provider";
+
+const overloaded = () => new Error("Model request failed [503 Service Unavailable]");
+
+describe("ModelClient with a stub provider", () => {
+  it("returns provider text and forwards the resolved tier model", async () => {
+    const provider = new StubModelProvider(() => "hello");
+    const client = new ModelClient(provider);
+
+    await expect(client.generateWithRetry("prompt", MODEL_TYPES.FLASH)).resolves.toBe("hello");
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0]).toMatchObject({ modelName: "stub-flash", json: false });
+  });
+
+  it("parses JSON responses and asks the provider for JSON", async () => {
+    const provider = new StubModelProvider().enqueue('```json\n{"ok":true}\n```');
+    const client = new ModelClient(provider);
+
+    await expect(client.generateJsonWithRetry<{ ok: boolean }>("prompt")).resolves.toEqual({ ok: true });
+    expect(provider.requests[0].json).toBe(true);
+  });
+
+  it("retries transient failures and reports them through onRetry", async () => {
+    const provider = new StubModelProvider().enqueue(new Error("[429 Too Many Requests]"), "done");
+    const client = new ModelClient(provider);
+    const onRetry = vi.fn();
+
+    await expect(client.generateWithRetry("prompt", MODEL_TYPES.FLASH, undefined, onRetry)).resolves.toBe("done");
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, overload: false, modelType: "flash" }));
+  });
+
+  it("switches PRO to the fallback model after repeated 503s", async () => {
+    const provider = new StubModelProvider().enqueue(overloaded(), overloaded(), overloaded(), "recovered");
+    const client = new ModelClient(provider);
+
+    await expect(client.generateWithRetry("prompt", MODEL_TYPES.PRO)).resolves.toBe("recovered");
+    expect(provider.requests.map((request) => request.modelName)).toEqual([
+      "stub-pro",
+      "stub-pro",
+      "stub-pro",
+      "stub-pro-fallback",
+    ]);
+  });
+
+  it("wraps non-retryable failures in AIFailureError", async () => {
+    const provider = new StubModelProvider().enqueue(new Error("[400 Bad Request] invalid prompt"));
+    const client = new ModelClient(provider);
+
+    await expect(client.generateWithRetry("prompt")).rejects.toBeInstanceOf(AIFailureError);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("streams deltas tagged with the model call that produced them", async () => {
+    const provider = new StubModelProvider().enqueue(new Error("[429 Too Many Requests]"), "two words");
+    const client = new ModelClient(provider);
+    const onToken = vi.fn();
+
+    await expect(client.generateWithRetry("prompt", MODEL_TYPES.PRO, undefined, undefined, onToken)).resolves.toBe("two words");
+    expect(onToken.mock.calls.map(([chunk]) => chunk)).toEqual([
+      { delta: "two ", attempt: 2 },
+      { delta: "words", attempt: 2 },
+    ]);
+  });
+});
@@ -1,9 +1,11 @@
 import "server-only";
 
-import { GoogleGenerativeAI, type GenerationConfig, type GenerativeModel, type Tool } from "@google/generative-ai";
+import type { Tool } from "@google/generative-ai";
 
 import { env } from "@/env";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { createModelProvider, type ModelDeltaHandler, type ModelProvider, type ModelRequest } from "@/lib/ai/providers";
+import { recordModelUsage } from "@/lib/ai/token-scope";
 import { AIFailureError } from "@/lib/errors/ai-failure-error";
 
 export const MODEL_TYPES = {
@@ -25,13 +27,13 @@ export type RetryInfo = {
 
 export type RetryHandler = (info: RetryInfo) => void;
 
-type JsonGenerationConfig = GenerationConfig & { responseMimeType?: string };
+/**
+ * Receives streamed text while the model writes. `attempt` counts model calls,
+ * so a retry or fallback starts a fresh draft instead of appending to the old one.
+ */
+export type TokenHandler = (chunk: { delta: string; attempt: number }) => void;
 
 export class ModelClient {
-  private readonly genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY);
-  private readonly proModel = this.genAI.getGenerativeModel({ model: env.GEMINI_PRO_MODEL });
-  private readonly fallbackProModel = this.genAI.getGenerativeModel({ model: env.GEMINI_PRO_FALLBACK_MODEL });
-  private readonly flashModel = this.genAI.getGenerativeModel({ model: env.GEMINI_FLASH_MODEL });
   private readonly maxRetries = env.AI_MAX_RETRIES;
   private readonly initialRetryDelay = env.AI_INITIAL_RETRY_DELAY;
   private readonly logger = createDebugLogger("ai-model-client");
@@ -39,26 +41,7 @@ export class ModelClient {
 
   private readonly overloadFallbackThreshold = 3;
 
-  private getModel(modelType: ModelType, useFallbackPro = false): GenerativeModel {
-    switch (modelType) {
-      case MODEL_TYPES.FLASH:
-        return this.flashModel;
-      case MODEL_TYPES.THINKING:
-      case MODEL_TYPES.PRO:
-      default:
-        if (useFallbackPro && modelType === MODEL_TYPES.PRO) {
-          return this.fallbackProModel;
-        }
-        return this.proModel;
-    }
-  }
-
-  private createContents(prompt: string) {
-    return [{
-      role: "user" as const,
-      parts: [{ text: prompt }],
-    }];
-  }
+  constructor(private readonly provider: ModelProvider = createModelProvider()) {}
 
   private cleanJsonPayload(payload: string): string {
     const match = payload.match(/\{[\s\S]*\}/);
@@ -106,48 +89,57 @@ export class ModelClient {
   private async invokeModel(
     prompt: string,
     modelType: ModelType,
-    generationConfig?: GenerationConfig,
+    json: boolean,
     tools?: Tool[],
     useFallbackPro = false,
+    onDelta?: ModelDeltaHandler,
   ): Promise<string> {
-    const model = this.getModel(modelType, useFallbackPro);
     const transport = this.describeTransport(modelType, useFallbackPro);
-    const modelName = this.getModelName(modelType, useFallbackPro);
-    const contents = this.createContents(prompt);
-    
-    // Gemini 3 Best Practices:
-    // 1. Use default temperature (1.0) for reasoning models
-    const config = { ...generationConfig };
-    
-    // Explicitly set thinking level for THINKING tasks, though Gemini 3 defaults to high/dynamic
-    if (modelType === MODEL_TYPES.THINKING) {
-       // thinking_level removed as it causes 400 Bad Request with current API
-    }
+    const request: ModelRequest = {
+      prompt,
+      modelType,
+      modelName: this.provider.resolveModelName(modelType, useFallbackPro),
+      json,
+      tools,
+    };
 
-    await this.logPromptTokenEstimate(contents, model, modelType, transport, modelName);
+    await this.logPromptTokenEstimate(request, transport);
 
-    const result = await model.generateContent({
-      contents,
-      generationConfig: config,
-      tools,
+    const { text, usage } = await this.callProvider(request, onDelta);
+    this.logger.step("Model response received", {
+      modelType,
+      transport,
+      provider: this.provider.name,
+      modelName: request.modelName,
+      bytes: text.length,
+      ...(usage ?? {}),
     });
-    const response = await result.response;
-    const text = response.text();
-    this.logger.step("Model response received", { modelType, transport, bytes: text.length });
+    if (usage) {
+      recordModelUsage({ provider: this.provider.name, modelName: request.modelName, usage });
+    }
     return text;
   }
 
-  private async logPromptTokenEstimate(
-    contents: ReturnType<typeof this.createContents>,
-    model: GenerativeModel,
-    modelType: ModelType,
-    transport: string,
-    modelName: string | null,
-  ): Promise<void> {
+  private async callProvider(request: ModelRequest, onDelta?: ModelDeltaHandler) {
+    if (!onDelta) {
+      return this.provider.generate(request);
+    }
+    if (this.provider.generateStream) {
+      return this.provider.generateStream(request, onDelta);
+    }
+    const response = await this.provider.generate(request);
+    onDelta(response.text);
+    return response;
+  }
+
+  private async logPromptTokenEstimate(request: ModelRequest, transport: string): Promise<void> {
+    if (!this.provider.countTokens) {
+      return;
+    }
+    const { modelType, modelName } = request;
     try {
-      const tokenInfo = await model.countTokens({ contents });
-      const totalTokens = tokenInfo.totalTokens ?? 0;
-      const limit = modelName ? await this.getModelInputTokenLimit(modelName) : null;
+      const totalTokens = (await this.provider.countTokens(request)) ?? 0;
+      const limit = await this.getModelInputTokenLimit(modelName);
       this.logger.step("Prompt token estimate", {
         modelType,
         transport,
@@ -166,74 +158,24 @@ export class ModelClient {
     }
   }
 
-  private getModelName(modelType: ModelType, useFallbackPro: boolean): string | null {
-    if (modelType === MODEL_TYPES.FLASH) {
-      return env.GEMINI_FLASH_MODEL;
-    }
-    if (modelType === MODEL_TYPES.PRO) {
-      return useFallbackPro ? env.GEMINI_PRO_FALLBACK_MODEL : env.GEMINI_PRO_MODEL;
-    }
-    if (modelType === MODEL_TYPES.THINKING) {
-      return env.GEMINI_PRO_MODEL;
-    }
-    return null;
-  }
-
   private async getModelInputTokenLimit(modelName: string): Promise<number | null> {
-    if (!modelName) {
+    if (!modelName || !this.provider.getInputTokenLimit) {
       return null;
     }
     let cachedPromise = this.modelLimitCache.get(modelName);
     if (!cachedPromise) {
-      cachedPromise = this.fetchModelInputTokenLimit(modelName);
+      cachedPromise = this.provider.getInputTokenLimit(modelName);
       this.modelLimitCache.set(modelName, cachedPromise);
     }
     return cachedPromise;
   }
 
-  private async fetchModelInputTokenLimit(modelName: string): Promise<number | null> {
-    try {
-      const url = new URL(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(modelName)}`);
-      url.searchParams.set("key", env.GEMINI_API_KEY);
-      const response = await fetch(url);
-      if (!response.ok) {
-        this.logger.warn("Failed to fetch model metadata", {
-          modelName,
-          status: response.status,
-          statusText: response.statusText,
-        });
-        return null;
-      }
-      const metadata = (await response.json()) as Record<string, unknown>;
-      const rawLimit = metadata.inputTokenLimit ?? metadata.input_token_limit ?? null;
-      const limit = typeof rawLimit === "number" ? rawLimit : Number(rawLimit);
-      if (Number.isFinite(limit)) {
-        return limit;
-      }
-      this.logger.warn("Input token limit missing in model metadata", {
-        modelName,
-        metadata,
-      });
-      return null;
-    } catch (error) {
-      this.logger.warn("Model metadata request failed", {
-        modelName,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return null;
-    }
-  }
-
   async generateJsonWithRetry<T>(
     prompt: string,
     modelType: ModelType = MODEL_TYPES.PRO,
     tools?: Tool[],
     onRetry?: RetryHandler,
   ): Promise<T> {
-    const generationConfig: JsonGenerationConfig | undefined = tools?.length
-      ? undefined // Gemini rejects responseMimeType when tool calling is enabled
-      : { responseMimeType: "application/json" };
-
     let attempt = 1;
     let useFallbackPro = false;
     let overloadCount = 0;
@@ -242,7 +184,7 @@ export class ModelClient {
       try {
         const transport = this.describeTransport(modelType, useFallbackPro);
         this.logger.step("Sending JSON request", { modelType, attempt, transport });
-        const rawText = await this.invokeModel(prompt, modelType, generationConfig, tools, useFallbackPro);
+        const rawText = await this.invokeModel(prompt, modelType, true, tools, useFallbackPro);
         const cleaned = this.cleanJsonPayload(rawText);
         return JSON.parse(cleaned) as T;
       } catch (error) {
@@ -257,14 +199,14 @@ export class ModelClient {
         });
         if (!useFallbackPro && modelType === MODEL_TYPES.PRO && this.isServiceUnavailableError(error)) {
           overloadCount += 1;
-          this.logger.warn("Gemini 3 reported 503", {
+          this.logger.warn("Pro model reported 503", {
             attempt,
             overloadCount,
             threshold: this.overloadFallbackThreshold,
           });
           if (overloadCount >= this.overloadFallbackThreshold) {
             useFallbackPro = true;
-            this.logger.warn("Switching to Gemini 2.5 Pro fallback", {
+            this.logger.warn("Switching to pro fallback model", {
               attempt,
               promptBytes: prompt.length,
             });
@@ -302,16 +244,20 @@ export class ModelClient {
     modelType: ModelType = MODEL_TYPES.PRO,
     tools?: Tool[],
     onRetry?: RetryHandler,
+    onToken?: TokenHandler,
   ): Promise<string> {
     let attempt = 1;
     let useFallbackPro = false;
     let overloadCount = 0;
+    let calls = 0;
 
     while (attempt <= this.maxRetries) {
       try {
         const transport = this.describeTransport(modelType, useFallbackPro);
         this.logger.step("Sending text request", { modelType, attempt, transport });
-        return await this.invokeModel(prompt, modelType, undefined, tools, useFallbackPro);
+        const call = ++calls;
+        const onDelta = onToken ? (delta: string) => onToken({ delta, attempt: call }) : undefined;
+        return await this.invokeModel(prompt, modelType, false, tools, useFallbackPro, onDelta);
       } catch (error) {
         this.logger.error("Text generation failed", {
           attempt,
@@ -321,14 +267,14 @@ export class ModelClient {
         });
         if (!useFallbackPro && modelType === MODEL_TYPES.PRO && this.isServiceUnavailableError(error)) {
           overloadCount += 1;
-          this.logger.warn("Gemini 3 reported 503", {
+          this.logger.warn("Pro model reported 503", {
             attempt,
             overloadCount,
             threshold: this.overloadFallbackThreshold,
           });
           if (overloadCount >= this.overloadFallbackThreshold) {
             useFallbackPro = true;
-            this.logger.warn("Switching to Gemini 2.5 Pro fallback", {
+            this.logger.warn("Switching to pro fallback model", {
               attempt,
               promptBytes: prompt.length,
             });
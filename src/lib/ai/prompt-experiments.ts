@@ -0,0 +1,133 @@
+/**
+ * Named prompt versions and A/B assignment. An entry in `src/prompts.json`
+ * keeps its base `template` as the "default" version and may list extra
+ * `versions` (same variables, different wording) plus an `experiment` that
+ * splits traffic between them by weight. `assignment: "user"` keeps each user
+ * on one version across generations; `"percentage"` draws per generation.
+ */
+
+import { z } from "zod";
+
+export const DEFAULT_PROMPT_VERSION = "default";
+
+export type PromptExperiment = {
+  assignment: "user" | "percentage";
+  weights: Record<string, number>;
+};
+
+export type VersionedPromptDefinition = {
+  template: string;
+  versions?: Record<string, string>;
+  experiment?: PromptExperiment;
+};
+
+/** Version and render count of every prompt a generation used. */
+export type PromptUsage = Record<string, { version: string; renders: number }>;
+
+export type PromptAssignmentSubject = {
+  userId?: string | null;
+  generationId?: string | null;
+};
+
+/** FNV-1a; stable across processes so a user lands on the same version everywhere. */
+function hashBucket(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function listPromptVersions(definition: VersionedPromptDefinition): string[] {
+  return [DEFAULT_PROMPT_VERSION, ...Object.keys(definition.versions ?? {})];
+}
+
+function templateVariables(template: string, variables: string[]): string[] {
+  return variables.filter((variable) => template.includes(`{{${variable}}}`));
+}
+
+const promptDefinitionSchema = z
+  .object({
+    workflow: z.string(),
+    description: z.string(),
+    variables: z.array(z.string()),
+    template: z.string(),
+    versions: z.record(z.string(), z.string()).optional(),
+    experiment: z
+      .object({
+        assignment: z.enum(["user", "percentage"]),
+        weights: z.record(z.string(), z.number().min(0)),
+      })
+      .optional(),
+  })
+  .superRefine((definition, ctx) => {
+    const known = new Set(listPromptVersions(definition));
+    for (const version of Object.keys(definition.experiment?.weights ?? {})) {
+      if (!known.has(version)) {
+        ctx.addIssue({ code: "custom", path: ["experiment", "weights", version], message: `Experiment arm "${version}" is not a defined version` });
+      }
+    }
+    const expected = templateVariables(definition.template, definition.variables);
+    for (const [version, template] of Object.entries(definition.versions ?? {})) {
+      const missing = expected.filter((variable) => !template.includes(`{{${variable}}}`));
+      if (missing.length) {
+        ctx.addIssue({ code: "custom", path: ["versions", version], message: `Version is missing ${missing.map((name) => `{{${name}}}`).join(", ")}` });
+      }
+    }
+  });
+
+export type PromptCatalogEntry = z.infer<typeof promptDefinitionSchema>;
+
+/**
+ * Checks every entry of the prompt catalog: experiment arms must name a
+ * defined version and each version must use the base template's variables.
+ * Throws with all problems listed, so a bad edit fails at startup.
+ */
+export function parsePromptCatalog<K extends string>(catalog: Record<K, unknown>): Record<K, PromptCatalogEntry> {
+  const result = z.record(z.string(), promptDefinitionSchema).safeParse(catalog);
+  if (!result.success) {
+    throw new Error(`Prompt catalog is invalid:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+export function assignPromptVersion(
+  key: string,
+  definition: VersionedPromptDefinition,
+  subject: PromptAssignmentSubject,
+): string {
+  const experiment = definition.experiment;
+  if (!experiment) {
+    return DEFAULT_PROMPT_VERSION;
+  }
+  const seed = experiment.assignment === "user" ? subject.userId : subject.generationId;
+  if (!seed) {
+    return DEFAULT_PROMPT_VERSION;
+  }
+  const known = new Set(listPromptVersions(definition));
+  const arms = Object.entries(experiment.weights).filter(([version, weight]) => known.has(version) && weight > 0);
+  const total = arms.reduce((sum, [, weight]) => sum + weight, 0);
+  if (!total) {
+    return DEFAULT_PROMPT_VERSION;
+  }
+  let bucket = hashBucket(`${key}:${seed}`) % total;
+  for (const [version, weight] of arms) {
+    if (bucket < weight) {
+      return version;
+    }
+    bucket -= weight;
+  }
+  return DEFAULT_PROMPT_VERSION;
+}
+
+export function resolvePromptTemplate(definition: VersionedPromptDefinition, version: string): string {
+  if (version === DEFAULT_PROMPT_VERSION) {
+    return definition.template;
+  }
+  const template = definition.versions?.[version];
+  if (template === undefined) {
+    throw new Error(`Prompt version "${version}" is not defined.`);
+  }
+  return template;
+}
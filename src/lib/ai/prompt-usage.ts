@@ -0,0 +1,34 @@
+import "server-only";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { PromptAssignmentSubject, PromptUsage } from "@/lib/ai/prompt-experiments";
+
+type PromptScope = PromptAssignmentSubject & { usage: PromptUsage };
+
+const storage = new AsyncLocalStorage<PromptScope>();
+
+/**
+ * Scopes prompt rendering to one generation: `renderPrompt` assigns experiment
+ * versions from the scope's user and generation, and records what it rendered.
+ */
+export function createPromptUsageScope(subject: PromptAssignmentSubject) {
+  const scope: PromptScope = { ...subject, usage: {} };
+  return {
+    run: <T>(callback: () => T): T => storage.run(scope, callback),
+    usage: (): PromptUsage => ({ ...scope.usage }),
+  };
+}
+
+export function getPromptScope(): PromptAssignmentSubject | undefined {
+  return storage.getStore();
+}
+
+export function recordPromptRender(key: string, version: string): void {
+  const scope = storage.getStore();
+  if (!scope) {
+    return;
+  }
+  const previous = scope.usage[key];
+  scope.usage[key] = { version, renders: (previous?.renders ?? 0) + 1 };
+}
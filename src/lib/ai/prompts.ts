@@ -1,11 +1,21 @@
 import "server-only";
 
 import promptCatalog from "@/prompts.json";
+import {
+  assignPromptVersion,
+  listPromptVersions,
+  parsePromptCatalog,
+  resolvePromptTemplate,
+  type PromptExperiment,
+} from "@/lib/ai/prompt-experiments";
+import { getPromptScope, recordPromptRender } from "@/lib/ai/prompt-usage";
 
 type PromptFile = typeof promptCatalog;
 
 export type PromptKey = keyof PromptFile;
 
+const catalog = parsePromptCatalog<PromptKey>(promptCatalog);
+
 type PromptMeta = {
   workflow: string;
   description: string;
@@ -26,14 +36,26 @@ export function getPromptMetadata(key: PromptKey): PromptMeta {
   };
 }
 
+/** Every prompt's versions and running experiment, for the admin comparison view. */
+export function listPromptCatalogVersions(): Array<{ key: PromptKey; versions: string[]; experiment: PromptExperiment | null }> {
+  return (Object.keys(promptCatalog) as PromptKey[]).map((key) => {
+    const definition = catalog[key];
+    return { key, versions: listPromptVersions(definition), experiment: definition.experiment ?? null };
+  });
+}
+
 export function renderPrompt<K extends PromptKey>(key: K, data: PromptInput<K>): string {
   const definition = promptCatalog[key];
   if (!definition) {
     throw new Error(`Prompt key "${key}" is not defined.`);
   }
 
+  const versioned = catalog[key];
+  const version = assignPromptVersion(key, versioned, getPromptScope() ?? {});
+  recordPromptRender(key, version);
+
   const variables = definition.variables as ReadonlyArray<keyof PromptInput<K>>;
-  let rendered = definition.template;
+  let rendered = resolvePromptTemplate(versioned, version);
   for (const variable of variables) {
     const rawValue = data[variable];
     const safeValue = rawValue ?? "";
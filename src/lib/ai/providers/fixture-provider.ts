@@ -0,0 +1,64 @@
+import type { ModelType } from "@/lib/ai/model-client";
+import type { ModelDeltaHandler, ModelProvider, ModelProviderName, ModelRequest, ModelResponse } from "@/lib/ai/providers/types";
+import type { FixtureRecorder } from "@/lib/fixtures/recorder";
+
+/**
+ * Wraps the configured provider in record/replay (FIXTURE_MODE). Calls are
+ * keyed by prompt + resolved model name, so a replay only matches when the
+ * prompt template and tier models are unchanged since recording.
+ */
+export class FixtureModelProvider implements ModelProvider {
+  readonly name: ModelProviderName;
+
+  constructor(
+    private readonly inner: ModelProvider,
+    private readonly recorder: FixtureRecorder,
+  ) {
+    this.name = inner.name;
+  }
+
+  private fixtureRequest(request: ModelRequest): Record<string, unknown> {
+    return { prompt: request.prompt, modelName: request.modelName };
+  }
+
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string {
+    return this.inner.resolveModelName(modelType, useFallbackPro);
+  }
+
+  generate(request: ModelRequest): Promise<ModelResponse> {
+    return this.recorder.run("model", this.fixtureRequest(request), () => this.inner.generate(request));
+  }
+
+  /** A replayed stream is re-emitted word by word so token consumers still see several deltas. */
+  async generateStream(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse> {
+    if (this.recorder.mode === "replay") {
+      const response = await this.generate(request);
+      for (const delta of response.text.match(/\S+\s*|\s+/g) ?? []) {
+        onDelta(delta);
+      }
+      return response;
+    }
+    return this.recorder.run("model", this.fixtureRequest(request), async () => {
+      if (this.inner.generateStream) {
+        return this.inner.generateStream(request, onDelta);
+      }
+      const response = await this.inner.generate(request);
+      onDelta(response.text);
+      return response;
+    });
+  }
+
+  async countTokens(request: ModelRequest): Promise<number | null> {
+    if (this.recorder.mode === "replay" || !this.inner.countTokens) {
+      return null;
+    }
+    return this.inner.countTokens(request);
+  }
+
+  async getInputTokenLimit(modelName: string): Promise<number | null> {
+    if (this.recorder.mode === "replay" || !this.inner.getInputTokenLimit) {
+      return null;
+    }
+    return this.inner.getInputTokenLimit(modelName);
+  }
+}
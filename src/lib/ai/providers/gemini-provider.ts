@@ -0,0 +1,127 @@
+import "server-only";
+
+import { GoogleGenerativeAI, type GenerationConfig, type GenerativeModel, type UsageMetadata } from "@google/generative-ai";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { ModelType } from "@/lib/ai/model-client";
+import {
+  resolveTierModel,
+  toTokenUsage,
+  type ModelDeltaHandler,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelTierMap,
+} from "@/lib/ai/providers/types";
+
+type JsonGenerationConfig = GenerationConfig & { responseMimeType?: string };
+
+function readUsage(metadata?: UsageMetadata) {
+  return toTokenUsage(metadata?.promptTokenCount, metadata?.candidatesTokenCount, metadata?.totalTokenCount);
+}
+
+export class GeminiModelProvider implements ModelProvider {
+  readonly name = "gemini" as const;
+  private readonly genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY);
+  private readonly models = new Map<string, GenerativeModel>();
+  private readonly logger = createDebugLogger("ai-provider-gemini");
+  private readonly tiers: ModelTierMap = {
+    pro: env.GEMINI_PRO_MODEL,
+    proFallback: env.GEMINI_PRO_FALLBACK_MODEL,
+    flash: env.GEMINI_FLASH_MODEL,
+    thinking: env.GEMINI_PRO_MODEL,
+  };
+
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string {
+    return resolveTierModel(this.tiers, modelType, useFallbackPro);
+  }
+
+  private getModel(modelName: string): GenerativeModel {
+    let model = this.models.get(modelName);
+    if (!model) {
+      model = this.genAI.getGenerativeModel({ model: modelName });
+      this.models.set(modelName, model);
+    }
+    return model;
+  }
+
+  private createContents(prompt: string) {
+    return [{
+      role: "user" as const,
+      parts: [{ text: prompt }],
+    }];
+  }
+
+  private buildRequest(request: ModelRequest) {
+    // Gemini rejects responseMimeType when tool calling is enabled
+    const generationConfig: JsonGenerationConfig | undefined = request.json && !request.tools?.length
+      ? { responseMimeType: "application/json" }
+      : undefined;
+    return {
+      contents: this.createContents(request.prompt),
+      generationConfig,
+      tools: request.tools,
+    };
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const result = await this.getModel(request.modelName).generateContent(this.buildRequest(request));
+    const response = await result.response;
+    return { text: response.text(), usage: readUsage(response.usageMetadata) };
+  }
+
+  async generateStream(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse> {
+    const result = await this.getModel(request.modelName).generateContentStream(this.buildRequest(request));
+    let text = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+    const response = await result.response;
+    return { text, usage: readUsage(response.usageMetadata) };
+  }
+
+  async countTokens(request: ModelRequest): Promise<number | null> {
+    const tokenInfo = await this.getModel(request.modelName).countTokens({
+      contents: this.createContents(request.prompt),
+    });
+    return tokenInfo.totalTokens ?? null;
+  }
+
+  async getInputTokenLimit(modelName: string): Promise<number | null> {
+    try {
+      const url = new URL(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(modelName)}`);
+      url.searchParams.set("key", env.GEMINI_API_KEY);
+      const response = await fetch(url);
+      if (!response.ok) {
+        this.logger.warn("Failed to fetch model metadata", {
+          modelName,
+          status: response.status,
+          statusText: response.statusText,
+        });
+        return null;
+      }
+      const metadata = (await response.json()) as Record<string, unknown>;
+      const rawLimit = metadata.inputTokenLimit ?? metadata.input_token_limit ?? null;
+      const limit = typeof rawLimit === "number" ? rawLimit : Number(rawLimit);
+      if (Number.isFinite(limit)) {
+        return limit;
+      }
+      this.logger.warn("Input token limit missing in model metadata", {
+        modelName,
+        metadata,
+      });
+      return null;
+    } catch (error) {
+      this.logger.warn("Model metadata request failed", {
+        modelName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
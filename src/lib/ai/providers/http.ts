@@ -0,0 +1,86 @@
+import "server-only";
+
+import { env } from "@/env";
+
+/**
+ * POSTs JSON to an HTTP model backend. Non-2xx responses are rethrown with the
+ * status embedded in the message so ModelClient's retry classifier
+ * (503 / 429 / timeout) treats every provider the same way.
+ */
+async function postModelRequest(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    cache: "no-store",
+    signal: AbortSignal.timeout(env.AI_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(
+      `Model request to ${new URL(url).host} failed [${response.status} ${response.statusText}]${detail ? `: ${detail.slice(0, 500)}` : ""}`,
+    );
+  }
+  return response;
+}
+
+export async function postModelJson<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  const response = await postModelRequest(url, body, headers);
+  return (await response.json()) as T;
+}
+
+/**
+ * POSTs a streaming request and hands each non-empty response line to
+ * `onLine` (NDJSON and SSE backends both frame chunks by line).
+ */
+export async function postModelStream(
+  url: string,
+  body: unknown,
+  onLine: (line: string) => void,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const response = await postModelRequest(url, body, headers);
+  if (!response.body) {
+    throw new Error(`Model request to ${new URL(url).host} returned no body to stream`);
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) {
+          onLine(line.trim());
+        }
+      }
+    }
+    if (buffer.trim()) {
+      onLine(buffer.trim());
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function trimTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, "");
+}
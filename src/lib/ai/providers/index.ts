@@ -0,0 +1,29 @@
+import "server-only";
+
+import { env } from "@/env";
+import { FixtureModelProvider } from "@/lib/ai/providers/fixture-provider";
+import { GeminiModelProvider } from "@/lib/ai/providers/gemini-provider";
+import { OllamaModelProvider } from "@/lib/ai/providers/ollama-provider";
+import { OpenAICompatibleModelProvider } from "@/lib/ai/providers/openai-provider";
+import type { ModelProvider } from "@/lib/ai/providers/types";
+import { getFixtureRecorder } from "@/lib/fixtures/recorder";
+
+export type { ModelDeltaHandler, ModelProvider, ModelProviderName, ModelRequest, ModelResponse, ModelTokenUsage } from "@/lib/ai/providers/types";
+
+export function createModelProvider(): ModelProvider {
+  const provider = createConfiguredProvider();
+  const recorder = getFixtureRecorder();
+  return recorder.mode === "off" ? provider : new FixtureModelProvider(provider, recorder);
+}
+
+function createConfiguredProvider(): ModelProvider {
+  switch (env.AI_PROVIDER) {
+    case "openai":
+      return new OpenAICompatibleModelProvider();
+    case "ollama":
+      return new OllamaModelProvider();
+    case "gemini":
+    default:
+      return new GeminiModelProvider();
+  }
+}
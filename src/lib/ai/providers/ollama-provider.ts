@@ -0,0 +1,88 @@
+import "server-only";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { ModelType } from "@/lib/ai/model-client";
+import { postModelJson, postModelStream, trimTrailingSlash } from "@/lib/ai/providers/http";
+import {
+  resolveTierModel,
+  toTokenUsage,
+  type ModelDeltaHandler,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelTierMap,
+} from "@/lib/ai/providers/types";
+
+type OllamaChatResponse = {
+  message?: { content?: string };
+  error?: string;
+  /** Reported on the final (`done`) message only. */
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+export class OllamaModelProvider implements ModelProvider {
+  readonly name = "ollama" as const;
+  private readonly baseUrl = trimTrailingSlash(env.OLLAMA_BASE_URL);
+  private readonly logger = createDebugLogger("ai-provider-ollama");
+  private readonly tiers: ModelTierMap = {
+    pro: env.OLLAMA_PRO_MODEL,
+    proFallback: env.OLLAMA_PRO_MODEL,
+    flash: env.OLLAMA_FLASH_MODEL,
+    thinking: env.OLLAMA_THINKING_MODEL || env.OLLAMA_PRO_MODEL,
+  };
+
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string {
+    return resolveTierModel(this.tiers, modelType, useFallbackPro);
+  }
+
+  private buildBody(request: ModelRequest, stream: boolean) {
+    if (request.tools?.length) {
+      this.logger.warn("Tool calling is Gemini-specific; sending prompt without tools", {
+        modelName: request.modelName,
+      });
+    }
+    return {
+      model: request.modelName,
+      messages: [{ role: "user", content: request.prompt }],
+      stream,
+      ...(request.json ? { format: "json" } : {}),
+    };
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const payload = await postModelJson<OllamaChatResponse>(`${this.baseUrl}/api/chat`, this.buildBody(request, false));
+
+    if (payload.error) {
+      throw new Error(`Ollama request failed: ${payload.error}`);
+    }
+    const text = payload.message?.content ?? "";
+    if (!text) {
+      throw new Error("Ollama provider returned an empty completion");
+    }
+    return { text, usage: toTokenUsage(payload.prompt_eval_count, payload.eval_count) };
+  }
+
+  /** Ollama streams newline-delimited JSON chunks of the same shape as the non-streamed reply. */
+  async generateStream(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse> {
+    let text = "";
+    let usage: ModelResponse["usage"];
+    await postModelStream(`${this.baseUrl}/api/chat`, this.buildBody(request, true), (line) => {
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      if (chunk.error) {
+        throw new Error(`Ollama request failed: ${chunk.error}`);
+      }
+      usage = toTokenUsage(chunk.prompt_eval_count, chunk.eval_count) ?? usage;
+      const delta = chunk.message?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    });
+    if (!text) {
+      throw new Error("Ollama provider returned an empty completion");
+    }
+    return { text, usage };
+  }
+}
@@ -0,0 +1,121 @@
+import "server-only";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { ModelType } from "@/lib/ai/model-client";
+import { postModelJson, postModelStream, trimTrailingSlash } from "@/lib/ai/providers/http";
+import {
+  resolveTierModel,
+  toTokenUsage,
+  type ModelDeltaHandler,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelTierMap,
+} from "@/lib/ai/providers/types";
+
+type ChatCompletionUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+  usage?: ChatCompletionUsage | null;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{
+    delta?: { content?: string | null };
+  }>;
+  usage?: ChatCompletionUsage | null;
+};
+
+function readUsage(usage?: ChatCompletionUsage | null) {
+  return usage ? toTokenUsage(usage.prompt_tokens, usage.completion_tokens, usage.total_tokens) : undefined;
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` contract
+ * (OpenAI, Azure-compatible gateways, vLLM, LM Studio, llama.cpp server, ...).
+ */
+export class OpenAICompatibleModelProvider implements ModelProvider {
+  readonly name = "openai" as const;
+  private readonly baseUrl = trimTrailingSlash(env.OPENAI_BASE_URL);
+  private readonly logger = createDebugLogger("ai-provider-openai");
+  private readonly tiers: ModelTierMap = {
+    pro: env.OPENAI_PRO_MODEL,
+    proFallback: env.OPENAI_PRO_FALLBACK_MODEL || env.OPENAI_PRO_MODEL,
+    flash: env.OPENAI_FLASH_MODEL,
+    thinking: env.OPENAI_THINKING_MODEL || env.OPENAI_PRO_MODEL,
+  };
+
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string {
+    return resolveTierModel(this.tiers, modelType, useFallbackPro);
+  }
+
+  private buildRequest(request: ModelRequest) {
+    if (request.tools?.length) {
+      this.logger.warn("Tool calling is Gemini-specific; sending prompt without tools", {
+        modelName: request.modelName,
+      });
+    }
+
+    const headers: Record<string, string> = {};
+    if (env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${env.OPENAI_API_KEY}`;
+    }
+    const body = {
+      model: request.modelName,
+      messages: [{ role: "user", content: request.prompt }],
+      ...(request.json ? { response_format: { type: "json_object" } } : {}),
+    };
+    return { headers, body };
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const { headers, body } = this.buildRequest(request);
+    const payload = await postModelJson<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, body, headers);
+
+    const text = payload.choices?.[0]?.message?.content ?? "";
+    if (!text) {
+      throw new Error("OpenAI-compatible provider returned an empty completion");
+    }
+    return { text, usage: readUsage(payload.usage) };
+  }
+
+  async generateStream(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse> {
+    const { headers, body } = this.buildRequest(request);
+    let text = "";
+    let usage: ModelResponse["usage"];
+    // Usage arrives on a final chunk with no choices; servers without stream_options simply omit it.
+    await postModelStream(
+      `${this.baseUrl}/chat/completions`,
+      { ...body, stream: true, stream_options: { include_usage: true } },
+      (line) => {
+        if (!line.startsWith("data:")) {
+          return;
+        }
+        const data = line.slice(5).trim();
+        if (!data || data === "[DONE]") {
+          return;
+        }
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        usage = readUsage(chunk.usage) ?? usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      },
+      headers,
+    );
+    if (!text) {
+      throw new Error("OpenAI-compatible provider returned an empty completion");
+    }
+    return { text, usage };
+  }
+}
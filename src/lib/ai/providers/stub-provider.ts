@@ -0,0 +1,47 @@
+import type { ModelType } from "@/lib/ai/model-client";
+import type { ModelDeltaHandler, ModelProvider, ModelRequest, ModelResponse } from "@/lib/ai/providers/types";
+
+export type StubResponder = (request: ModelRequest) => string | Error | Promise<string | Error>;
+
+/**
+ * Offline provider for tests. Each call is answered by the responder (or the
+ * next queued reply); returning an Error rejects the call so retry and
+ * fallback paths can be exercised without a network.
+ */
+export class StubModelProvider implements ModelProvider {
+  readonly name = "stub" as const;
+  readonly requests: ModelRequest[] = [];
+  private readonly queue: Array<string | Error> = [];
+
+  constructor(private readonly responder?: StubResponder) {}
+
+  enqueue(...replies: Array<string | Error>): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string {
+    return useFallbackPro && modelType === "pro" ? "stub-pro-fallback" : `stub-${modelType}`;
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    this.requests.push(request);
+    const reply = this.queue.length ? this.queue.shift()! : await this.responder?.(request);
+    if (reply === undefined) {
+      throw new Error("StubModelProvider has no reply queued");
+    }
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return { text: reply };
+  }
+
+  /** Replays the reply word by word so streaming consumers see several deltas. */
+  async generateStream(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse> {
+    const response = await this.generate(request);
+    for (const delta of response.text.match(/\S+\s*|\s+/g) ?? []) {
+      onDelta(delta);
+    }
+    return response;
+  }
+}
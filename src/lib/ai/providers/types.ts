@@ -0,0 +1,74 @@
+import type { Tool } from "@google/generative-ai";
+
+import type { ModelType } from "@/lib/ai/model-client";
+
+export type ModelProviderName = "gemini" | "openai" | "ollama" | "stub";
+
+export type ModelRequest = {
+  prompt: string;
+  modelType: ModelType;
+  modelName: string;
+  /** True when the caller expects a JSON object back. */
+  json: boolean;
+  tools?: Tool[];
+};
+
+/** Token counts as reported by the backend for one call. */
+export type ModelTokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type ModelResponse = {
+  text: string;
+  /** Absent when the backend does not report usage (stub, older servers). */
+  usage?: ModelTokenUsage;
+};
+
+/** Receives text fragments in order while a streamed response is being written. */
+export type ModelDeltaHandler = (delta: string) => void;
+
+/**
+ * A backend capable of serving the PRO / FLASH / THINKING tiers.
+ * Providers surface transport failures as errors whose message carries the
+ * HTTP status (e.g. "[503 Service Unavailable]") so ModelClient can keep
+ * applying the same retry and overload-fallback rules to every backend.
+ */
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  resolveModelName(modelType: ModelType, useFallbackPro: boolean): string;
+  generate(request: ModelRequest): Promise<ModelResponse>;
+  /** Same contract as `generate`, reporting the text through `onDelta` as it arrives. */
+  generateStream?(request: ModelRequest, onDelta: ModelDeltaHandler): Promise<ModelResponse>;
+  countTokens?(request: ModelRequest): Promise<number | null>;
+  getInputTokenLimit?(modelName: string): Promise<number | null>;
+}
+
+export type ModelTierMap = {
+  pro: string;
+  proFallback: string;
+  flash: string;
+  thinking: string;
+};
+
+export function toTokenUsage(promptTokens?: number | null, completionTokens?: number | null, totalTokens?: number | null): ModelTokenUsage | undefined {
+  if (promptTokens == null && completionTokens == null && totalTokens == null) {
+    return undefined;
+  }
+  const prompt = promptTokens ?? 0;
+  const completion = completionTokens ?? 0;
+  return { promptTokens: prompt, completionTokens: completion, totalTokens: totalTokens ?? prompt + completion };
+}
+
+export function resolveTierModel(models: ModelTierMap, modelType: ModelType, useFallbackPro: boolean): string {
+  switch (modelType) {
+    case "flash":
+      return models.flash;
+    case "thinking":
+      return models.thinking;
+    case "pro":
+    default:
+      return useFallbackPro ? models.proFallback : models.pro;
+  }
+}
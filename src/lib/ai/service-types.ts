@@ -10,6 +10,15 @@ export type GenerateCVAdvancedInput = {
   researchBrief?: ResearchBriefContext;
 };
 
+export type TailorResumeInput = {
+  jobDescription: string;
+  resumeJson: string;
+  cvStrategy: string;
+  companyName: string;
+  jobTitle: string;
+  researchBrief?: ResearchBriefContext;
+};
+
 export type FixCVPageCountInput = {
   failedCV: string;
   actualPageCount: number;
@@ -34,6 +43,14 @@ export type GenerateCoverLetterInput = {
   researchBrief?: ResearchBriefContext;
 };
 
+export type InterviewPrepInput = {
+  jobDescription: string;
+  companyName: string;
+  jobTitle: string;
+  extensiveCV: string;
+  researchBrief?: ResearchBriefContext;
+};
+
 export type RefineContentInput = {
   content: string;
   feedback: string;
@@ -64,6 +81,16 @@ export type GenericColdEmailInput = {
   contactIntelSummary?: string;
 };
 
+export type FollowUpEmailsInput = {
+  companyName: string;
+  contactName: string;
+  originalSubject: string;
+  originalBody: string;
+  coldEmailStrategy: string;
+  delays: readonly number[];
+  contactIntelSummary?: string;
+};
+
 export type ResearchCompanyInput = {
   companyName: string;
   originalCV: string;
@@ -2,7 +2,8 @@ import "server-only";
 
 import { createDebugLogger } from "@/lib/debug-logger";
 
-import { ModelClient, type RetryHandler } from "./model-client";
+import { ModelClient, type RetryHandler, type TokenHandler } from "./model-client";
+import { attributeTasks } from "./token-scope";
 import { createDocumentTasks } from "./tasks/document-tasks";
 import { createJobIngestionTasks } from "./tasks/job-ingestion-tasks";
 import { createOutreachTasks } from "./tasks/outreach-tasks";
@@ -12,10 +13,13 @@ import type {
   FixLatexErrorsAssistInput,
   GenerateCVAdvancedInput,
   GenerateCoverLetterInput,
+  FollowUpEmailsInput,
   GenericColdEmailInput,
+  InterviewPrepInput,
   PersonalizedColdEmailInput,
   RefineContentInput,
   ResearchCompanyInput,
+  TailorResumeInput,
 } from "./service-types";
 export { MODEL_TYPES, type ModelType } from "./model-client";
 
@@ -24,11 +28,18 @@ aiLogger.step("Initializing AI service module");
 
 export class AIService {
   private readonly logger = createDebugLogger("ai-service-instance");
-  private readonly client = new ModelClient();
-  private readonly documents = createDocumentTasks(this.client);
-  private readonly jobs = createJobIngestionTasks(this.client);
-  private readonly outreach = createOutreachTasks(this.client);
-  private readonly research = createResearchTasks(this.client);
+  private readonly documents: ReturnType<typeof createDocumentTasks>;
+  private readonly jobs: ReturnType<typeof createJobIngestionTasks>;
+  private readonly outreach: ReturnType<typeof createOutreachTasks>;
+  private readonly research: ReturnType<typeof createResearchTasks>;
+
+  /** Pass a client over a stub or replay provider to run the tasks offline (see scripts/run-evals.ts). */
+  constructor(client: ModelClient = new ModelClient()) {
+    this.documents = attributeTasks(createDocumentTasks(client));
+    this.jobs = attributeTasks(createJobIngestionTasks(client));
+    this.outreach = attributeTasks(createOutreachTasks(client));
+    this.research = attributeTasks(createResearchTasks(client));
+  }
 
   extractJobDescription(rawContent: string) {
     return this.jobs.extractJobDescription(rawContent);
@@ -42,10 +53,18 @@ export class AIService {
     return this.jobs.extractEmailAddresses(jobDescription);
   }
 
-  generateCVAdvanced(input: GenerateCVAdvancedInput, options?: { onRetry?: RetryHandler }) {
+  generateCVAdvanced(input: GenerateCVAdvancedInput, options?: { onRetry?: RetryHandler; onToken?: TokenHandler }) {
     return this.documents.generateCVAdvanced(input, options);
   }
 
+  tailorResumeJson(input: TailorResumeInput, options?: { onRetry?: RetryHandler }) {
+    return this.documents.tailorResume(input, options);
+  }
+
+  extractResumeFromLatex(latexSource: string, options?: { onRetry?: RetryHandler }) {
+    return this.documents.extractResume(latexSource, options);
+  }
+
   fixCVPageCount(input: FixCVPageCountInput, options?: { onRetry?: RetryHandler }) {
     return this.documents.fixCVPageCount(input, options);
   }
@@ -54,10 +73,14 @@ export class AIService {
     return this.documents.fixLatexErrorsAssist(input, options);
   }
 
-  generateCoverLetterAdvanced(input: GenerateCoverLetterInput, options?: { onRetry?: RetryHandler }) {
+  generateCoverLetterAdvanced(input: GenerateCoverLetterInput, options?: { onRetry?: RetryHandler; onToken?: TokenHandler }) {
     return this.documents.generateCoverLetter(input, options);
   }
 
+  generateInterviewPrep(input: InterviewPrepInput, options?: { onRetry?: RetryHandler }) {
+    return this.documents.generateInterviewPrep(input, options);
+  }
+
   refineContentAdvanced(input: RefineContentInput, options?: { onRetry?: RetryHandler }) {
     return this.documents.refineContent(input, options);
   }
@@ -74,6 +97,10 @@ export class AIService {
     return this.outreach.generateGenericColdEmail(input, options);
   }
 
+  generateFollowUpEmails(input: FollowUpEmailsInput, options?: { onRetry?: RetryHandler }) {
+    return this.outreach.generateFollowUpEmails(input, options);
+  }
+
   async parseColdOutreachInput(userInput: string, options?: { onRetry?: RetryHandler }) {
     this.logger.step("Parsing cold outreach input", { inputLength: userInput.length });
     try {
@@ -1,23 +1,30 @@
-import { MODEL_TYPES, type ModelClient, type RetryHandler } from "../model-client";
+import { MODEL_TYPES, type ModelClient, type RetryHandler, type TokenHandler } from "../model-client";
 import { renderPrompt } from "../prompts";
 import { resolveResearchBrief } from "../context";
 import { clampStrategyForContext } from "../strategy-docs";
+import { parseStructuredResponse } from "../llama/structured-output";
 import type {
   FixCVPageCountInput,
   FixLatexErrorsAssistInput,
   GenerateCoverLetterInput,
   GenerateCVAdvancedInput,
+  InterviewPrepInput,
   RefineContentInput,
+  TailorResumeInput,
 } from "../service-types";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { interviewPrepSchema, type InterviewPrepPack } from "@/lib/interview-prep";
+import { resumeSchema, type Resume } from "@/lib/resume/schema";
+import { resumeTailoringSchema, type ResumeTailoring } from "@/lib/resume/tailoring";
 
 const logger = createDebugLogger("document-tasks");
 
 type TaskOptions = { onRetry?: RetryHandler };
+type StreamingTaskOptions = TaskOptions & { onToken?: TokenHandler };
 
 export function createDocumentTasks(client: ModelClient) {
   return {
-    async generateCVAdvanced(input: GenerateCVAdvancedInput, options?: TaskOptions): Promise<string> {
+    async generateCVAdvanced(input: GenerateCVAdvancedInput, options?: StreamingTaskOptions): Promise<string> {
       logger.step("Generating advanced CV", { companyName: input.companyName, jobTitle: input.jobTitle });
       const { researchBrief, ...rest } = input;
       const { roleInsights, candidateInsights } = resolveResearchBrief(researchBrief);
@@ -27,11 +34,40 @@ export function createDocumentTasks(client: ModelClient) {
         roleInsights,
         candidateInsights,
       });
-      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry);
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry, options?.onToken);
       logger.info("CV generation complete", { length: result.length });
       return result;
     },
 
+    async tailorResume(input: TailorResumeInput, options?: TaskOptions): Promise<ResumeTailoring | null> {
+      logger.step("Tailoring JSON resume", { companyName: input.companyName, jobTitle: input.jobTitle });
+      const { researchBrief, ...rest } = input;
+      const { roleInsights, candidateInsights } = resolveResearchBrief(researchBrief);
+      const prompt = renderPrompt("tailorResumeJson", {
+        ...rest,
+        cvStrategy: clampStrategyForContext("cvStrategy", rest.cvStrategy),
+        roleInsights,
+        candidateInsights,
+      });
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry);
+      const tailoring = parseStructuredResponse(result, resumeTailoringSchema, "resumeTailoring");
+      logger.info("Resume tailoring complete", {
+        valid: Boolean(tailoring),
+        workEntries: tailoring?.work.length ?? 0,
+        projectEntries: tailoring?.projects.length ?? 0,
+      });
+      return tailoring;
+    },
+
+    async extractResume(latexSource: string, options?: TaskOptions): Promise<Resume | null> {
+      logger.step("Extracting JSON resume from LaTeX", { length: latexSource.length });
+      const prompt = renderPrompt("extractResumeJson", { latexSource });
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.FLASH, undefined, options?.onRetry);
+      const resume = parseStructuredResponse(result, resumeSchema, "resumeExtraction");
+      logger.info("Resume extraction complete", { valid: Boolean(resume), workEntries: resume?.work.length ?? 0 });
+      return resume;
+    },
+
     async fixCVPageCount(input: FixCVPageCountInput, options?: TaskOptions): Promise<string> {
       const { actualPageCount, targetPageCount = 2 } = input;
       logger.step("Fixing CV page count", { actualPageCount, targetPageCount });
@@ -63,7 +99,7 @@ export function createDocumentTasks(client: ModelClient) {
       return result;
     },
 
-    async generateCoverLetter(input: GenerateCoverLetterInput, options?: TaskOptions): Promise<string> {
+    async generateCoverLetter(input: GenerateCoverLetterInput, options?: StreamingTaskOptions): Promise<string> {
       logger.step("Generating cover letter", { companyName: input.companyName, jobTitle: input.jobTitle });
       const { researchBrief, ...rest } = input;
       const { roleInsights, candidateInsights } = resolveResearchBrief(researchBrief);
@@ -79,11 +115,22 @@ export function createDocumentTasks(client: ModelClient) {
         roleInsights,
         candidateInsights,
       });
-      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry);
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry, options?.onToken);
       logger.info("Cover letter generation complete", { length: result.length });
       return result;
     },
 
+    async generateInterviewPrep(input: InterviewPrepInput, options?: TaskOptions): Promise<InterviewPrepPack | null> {
+      logger.step("Generating interview prep pack", { companyName: input.companyName, jobTitle: input.jobTitle });
+      const { researchBrief, ...rest } = input;
+      const { roleInsights, candidateInsights } = resolveResearchBrief(researchBrief);
+      const prompt = renderPrompt("generateInterviewPrep", { ...rest, roleInsights, candidateInsights });
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.PRO, undefined, options?.onRetry);
+      const pack = parseStructuredResponse(result, interviewPrepSchema, "interviewPrep");
+      logger.info("Interview prep pack complete", { valid: Boolean(pack), questions: pack?.questions.length ?? 0 });
+      return pack;
+    },
+
     async refineContent(input: RefineContentInput, options?: TaskOptions): Promise<string> {
       logger.step("Refining content", { contentLength: input.content.length });
       const chatHistoryText = input.chatHistory?.length
@@ -2,8 +2,10 @@ import { MODEL_TYPES, type ModelClient, type RetryHandler } from "../model-clien
 import { renderPrompt } from "../prompts";
 import { resolveContactIntel, resolveResearchBrief } from "../context";
 import { clampStrategyForContext } from "../strategy-docs";
-import type { GenericColdEmailInput, PersonalizedColdEmailInput } from "../service-types";
+import { parseStructuredResponse } from "../llama/structured-output";
+import type { FollowUpEmailsInput, GenericColdEmailInput, PersonalizedColdEmailInput } from "../service-types";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { followUpDraftsSchema, type FollowUpDraft } from "@/lib/follow-ups";
 
 const logger = createDebugLogger("outreach-tasks");
 
@@ -43,6 +45,22 @@ export function createOutreachTasks(client: ModelClient) {
       return result;
     },
 
+    async generateFollowUpEmails(input: FollowUpEmailsInput, options?: TaskOptions): Promise<FollowUpDraft[] | null> {
+      logger.step("Drafting follow-up emails", { companyName: input.companyName, count: input.delays.length });
+      const { delays, contactIntelSummary, ...rest } = input;
+      const prompt = renderPrompt("generateFollowUpEmails", {
+        ...rest,
+        coldEmailStrategy: clampStrategyForContext("coldEmailStrategy", rest.coldEmailStrategy),
+        contactIntelSummary: resolveContactIntel(contactIntelSummary),
+        followUpSchedule: delays.map((days, index) => `${index + 1}. +${days} days`).join("\n"),
+        followUpCount: String(delays.length),
+      });
+      const result = await client.generateWithRetry(prompt, MODEL_TYPES.FLASH, undefined, options?.onRetry);
+      const drafts = parseStructuredResponse(result, followUpDraftsSchema, "followUpEmails");
+      logger.info("Follow-up emails drafted", { valid: Boolean(drafts), count: drafts?.followUps.length ?? 0 });
+      return drafts?.followUps ?? null;
+    },
+
     async parseColdOutreachInput(userInput: string, options?: TaskOptions): Promise<{
       companyName: string;
       domainName: string | null;
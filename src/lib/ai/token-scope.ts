@@ -0,0 +1,46 @@
+import "server-only";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { env } from "@/env";
+import type { ModelTokenUsage } from "@/lib/ai/providers";
+import { estimateCostUsd, parseModelPricing, summarizeTokenUsage, type GenerationTokenUsage, type TokenUsageCall } from "@/lib/token-usage";
+
+type TokenScope = { calls: TokenUsageCall[] };
+
+const scopeStorage = new AsyncLocalStorage<TokenScope>();
+const taskStorage = new AsyncLocalStorage<string>();
+const pricing = parseModelPricing(env.AI_MODEL_PRICING);
+
+/**
+ * Collects the token usage of every model call made inside `run`, so a
+ * generation can be costed and charged. Calls outside a scope are not tracked.
+ */
+export function createTokenUsageScope() {
+  const scope: TokenScope = { calls: [] };
+  return {
+    run: <T>(callback: () => T): T => scopeStorage.run(scope, callback),
+    usage: (): GenerationTokenUsage => summarizeTokenUsage(scope.calls),
+  };
+}
+
+/** Wraps each task so the model calls it makes are attributed to the task's name. */
+export function attributeTasks<T extends Record<string, (...args: never[]) => unknown>>(tasks: T): T {
+  return Object.fromEntries(
+    Object.entries(tasks).map(([task, fn]) => [task, (...args: never[]) => taskStorage.run(task, () => fn(...args))]),
+  ) as T;
+}
+
+export function recordModelUsage(entry: { provider: string; modelName: string; usage: ModelTokenUsage }): void {
+  const scope = scopeStorage.getStore();
+  if (!scope) {
+    return;
+  }
+  scope.calls.push({
+    task: taskStorage.getStore() ?? "unattributed",
+    provider: entry.provider,
+    modelName: entry.modelName,
+    ...entry.usage,
+    costUsd: estimateCostUsd(entry.modelName, entry.usage, pricing),
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createApplicationTracker,
+  describeApplicationStage,
+  readApplicationTracker,
+  transitionApplication,
+} from "./application-tracker";
+
+const createdAt = "2025-03-01T09:00:00.000Z";
+
+describe("transitionApplication", () => {
+  it("records each stage change with where it came from", () => {
+    const applied = transitionApplication(createApplicationTracker(createdAt), "applied", { at: "2025-03-02T09:00:00.000Z" });
+    const screened = transitionApplication(applied, "recruiter_screen", { at: "2025-03-05T09:00:00.000Z", note: "  Call with Sam  " });
+
+    expect(screened).toMatchObject({ stage: "recruiter_screen", updatedAt: "2025-03-05T09:00:00.000Z" });
+    expect(screened.transitions.map(({ from, to, note }) => ({ from, to, note }))).toEqual([
+      { from: "saved", to: "applied", note: undefined },
+      { from: "applied", to: "recruiter_screen", note: "Call with Sam" },
+    ]);
+  });
+
+  it("counts interview rounds when the interview stage is entered again", () => {
+    const first = transitionApplication(createApplicationTracker(createdAt), "interview", { at: "2025-03-10T09:00:00.000Z" });
+    const second = transitionApplication(first, "interview", { at: "2025-03-17T09:00:00.000Z" });
+
+    expect(second.interviewRounds).toBe(2);
+    expect(second.transitions.map((transition) => transition.round)).toEqual([1, 2]);
+    expect(describeApplicationStage(second)).toBe("Interview · Round 2");
+  });
+
+  it("ignores a move to the stage the application is already in", () => {
+    const applied = transitionApplication(createApplicationTracker(createdAt), "applied", { at: "2025-03-02T09:00:00.000Z" });
+
+    expect(transitionApplication(applied, "applied", { at: "2025-03-09T09:00:00.000Z", note: "Again" })).toBe(applied);
+  });
+});
+
+describe("readApplicationTracker", () => {
+  it("starts sessions without a tracker as saved", () => {
+    expect(readApplicationTracker(undefined, createdAt)).toEqual(createApplicationTracker(createdAt));
+    expect(readApplicationTracker({ application: "applied" }, createdAt)).toEqual(createApplicationTracker(createdAt));
+  });
+
+  it("drops malformed entries and falls back for unknown fields", () => {
+    const tracker = readApplicationTracker(
+      {
+        application: {
+          stage: "archived",
+          interviewRounds: "two",
+          transitions: [
+            { to: "applied", at: "2025-03-02T09:00:00.000Z", from: "nowhere" },
+            { to: "hired", at: "2025-03-03T09:00:00.000Z" },
+            { to: "interview" },
+            null,
+          ],
+          notes: [{ body: "Sent portfolio", createdAt: "2025-03-04T09:00:00.000Z" }, { body: "   " }],
+          reminders: "tomorrow",
+        },
+      },
+      createdAt,
+    );
+
+    expect(tracker).toEqual({
+      stage: "saved",
+      interviewRounds: 0,
+      updatedAt: createdAt,
+      transitions: [{ id: "applied-2025-03-02T09:00:00.000Z", from: null, to: "applied", at: "2025-03-02T09:00:00.000Z" }],
+      notes: [{ id: "2025-03-04T09:00:00.000Z", body: "Sent portfolio", createdAt: "2025-03-04T09:00:00.000Z" }],
+      reminders: [],
+    });
+  });
+});
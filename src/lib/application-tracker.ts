@@ -0,0 +1,238 @@
+/**
+ * Application lifecycle tracked per session under `metadata.application`.
+ * Generation status (`SessionRecord.status`) stays separate: this models where
+ * the job application itself stands once the documents exist.
+ */
+
+export const APPLICATION_STAGES = [
+  "saved",
+  "applied",
+  "recruiter_screen",
+  "interview",
+  "offer",
+  "rejected",
+  "ghosted",
+] as const;
+
+export type ApplicationStage = (typeof APPLICATION_STAGES)[number];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  saved: "Saved",
+  applied: "Applied",
+  recruiter_screen: "Recruiter Screen",
+  interview: "Interviewing",
+  offer: "Offer",
+  rejected: "Rejected",
+  ghosted: "Ghosted",
+};
+
+export const CLOSED_APPLICATION_STAGES: ReadonlySet<ApplicationStage> = new Set(["offer", "rejected", "ghosted"]);
+
+export type ApplicationTransition = {
+  id: string;
+  from: ApplicationStage | null;
+  to: ApplicationStage;
+  at: string;
+  /** Interview round reached by this transition (only set for `interview`). */
+  round?: number;
+  note?: string;
+};
+
+export type ApplicationNote = {
+  id: string;
+  body: string;
+  createdAt: string;
+};
+
+export type ApplicationReminder = {
+  id: string;
+  label: string;
+  dueAt: string;
+  completedAt: string | null;
+};
+
+export type ApplicationTracker = {
+  stage: ApplicationStage;
+  interviewRounds: number;
+  updatedAt: string;
+  transitions: ApplicationTransition[];
+  notes: ApplicationNote[];
+  reminders: ApplicationReminder[];
+};
+
+export const APPLICATION_METADATA_KEY = "application";
+
+export function isApplicationStage(value: unknown): value is ApplicationStage {
+  return typeof value === "string" && (APPLICATION_STAGES as readonly string[]).includes(value);
+}
+
+function createId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+export function createApplicationTracker(createdAt: string): ApplicationTracker {
+  return {
+    stage: "saved",
+    interviewRounds: 0,
+    updatedAt: createdAt,
+    transitions: [],
+    notes: [],
+    reminders: [],
+  };
+}
+
+/**
+ * Reads the tracker from session metadata, tolerating partial or legacy
+ * payloads. Sessions created before the tracker existed start as `saved`.
+ */
+export function readApplicationTracker(
+  metadata: Record<string, unknown> | null | undefined,
+  fallbackCreatedAt: string,
+): ApplicationTracker {
+  const raw = metadata?.[APPLICATION_METADATA_KEY];
+  if (!raw || typeof raw !== "object") {
+    return createApplicationTracker(fallbackCreatedAt);
+  }
+  const source = raw as Record<string, unknown>;
+
+  const transitions = asArray(source.transitions).flatMap((entry): ApplicationTransition[] => {
+    const to = entry.to;
+    const at = asString(entry.at);
+    if (!isApplicationStage(to) || !at) {
+      return [];
+    }
+    return [{
+      id: asString(entry.id) ?? `${to}-${at}`,
+      from: isApplicationStage(entry.from) ? entry.from : null,
+      to,
+      at,
+      ...(typeof entry.round === "number" ? { round: entry.round } : {}),
+      ...(asString(entry.note) ? { note: asString(entry.note) } : {}),
+    }];
+  });
+
+  const notes = asArray(source.notes).flatMap((entry): ApplicationNote[] => {
+    const body = asString(entry.body);
+    const createdAt = asString(entry.createdAt);
+    return body && createdAt ? [{ id: asString(entry.id) ?? createdAt, body, createdAt }] : [];
+  });
+
+  const reminders = asArray(source.reminders).flatMap((entry): ApplicationReminder[] => {
+    const label = asString(entry.label);
+    const dueAt = asString(entry.dueAt);
+    if (!label || !dueAt) {
+      return [];
+    }
+    return [{
+      id: asString(entry.id) ?? `${dueAt}-${label}`,
+      label,
+      dueAt,
+      completedAt: asString(entry.completedAt) ?? null,
+    }];
+  });
+
+  return {
+    stage: isApplicationStage(source.stage) ? source.stage : "saved",
+    interviewRounds: typeof source.interviewRounds === "number" ? source.interviewRounds : 0,
+    updatedAt: asString(source.updatedAt) ?? fallbackCreatedAt,
+    transitions,
+    notes,
+    reminders,
+  };
+}
+
+export function transitionApplication(
+  tracker: ApplicationTracker,
+  stage: ApplicationStage,
+  options: { at: string; note?: string },
+): ApplicationTracker {
+  // Re-entering `interview` records the next round instead of being a no-op.
+  if (stage === tracker.stage && stage !== "interview") {
+    return tracker;
+  }
+  const interviewRounds = stage === "interview" ? tracker.interviewRounds + 1 : tracker.interviewRounds;
+  const note = options.note?.trim();
+  const transition: ApplicationTransition = {
+    id: createId(),
+    from: tracker.stage,
+    to: stage,
+    at: options.at,
+    ...(stage === "interview" ? { round: interviewRounds } : {}),
+    ...(note ? { note } : {}),
+  };
+  return {
+    ...tracker,
+    stage,
+    interviewRounds,
+    updatedAt: options.at,
+    transitions: [...tracker.transitions, transition],
+  };
+}
+
+export function addApplicationNote(tracker: ApplicationTracker, body: string, createdAt: string): ApplicationTracker {
+  return {
+    ...tracker,
+    updatedAt: createdAt,
+    notes: [...tracker.notes, { id: createId(), body: body.trim(), createdAt }],
+  };
+}
+
+export function addApplicationReminder(
+  tracker: ApplicationTracker,
+  reminder: { label: string; dueAt: string },
+  updatedAt: string,
+): ApplicationTracker {
+  return {
+    ...tracker,
+    updatedAt,
+    reminders: [...tracker.reminders, { id: createId(), label: reminder.label.trim(), dueAt: reminder.dueAt, completedAt: null }],
+  };
+}
+
+export function completeApplicationReminder(
+  tracker: ApplicationTracker,
+  reminderId: string,
+  completedAt: string,
+): ApplicationTracker {
+  return {
+    ...tracker,
+    updatedAt: completedAt,
+    reminders: tracker.reminders.map((reminder) =>
+      reminder.id === reminderId ? { ...reminder, completedAt: reminder.completedAt ?? completedAt } : reminder,
+    ),
+  };
+}
+
+export function removeApplicationReminder(tracker: ApplicationTracker, reminderId: string, updatedAt: string): ApplicationTracker {
+  return {
+    ...tracker,
+    updatedAt,
+    reminders: tracker.reminders.filter((reminder) => reminder.id !== reminderId),
+  };
+}
+
+/** Earliest open reminder, used for the "next action" hint on board cards. */
+export function getNextApplicationReminder(tracker: ApplicationTracker): ApplicationReminder | null {
+  const open = tracker.reminders.filter((reminder) => !reminder.completedAt);
+  if (!open.length) {
+    return null;
+  }
+  return open.reduce((earliest, reminder) => (Date.parse(reminder.dueAt) < Date.parse(earliest.dueAt) ? reminder : earliest));
+}
+
+export function describeApplicationStage(tracker: Pick<ApplicationTracker, "stage" | "interviewRounds">): string {
+  if (tracker.stage === "interview" && tracker.interviewRounds > 0) {
+    return `Interview · Round ${tracker.interviewRounds}`;
+  }
+  return APPLICATION_STAGE_LABELS[tracker.stage];
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  diffAtsScores,
+  extractJobKeywords,
+  latexToPlainText,
+  readAtsComparison,
+  scoreKeywordCoverage,
+} from "./keyword-score";
+
+describe("scoreKeywordCoverage", () => {
+  it("reports matched, missing and overused keywords with a percentage", () => {
+    const text = "Built Node.js services on Kubernetes. Kubernetes upgrades, Kubernetes autoscaling, Kubernetes operators.";
+    const result = scoreKeywordCoverage(text, ["Kubernetes", "node.js", "Terraform", "kubernetes"], { overuseThreshold: 4 });
+    expect(result.score).toBe(67);
+    expect(result.matched).toEqual([
+      { keyword: "Kubernetes", count: 4 },
+      { keyword: "node.js", count: 1 },
+    ]);
+    expect(result.missing).toEqual(["Terraform"]);
+    expect(result.overused).toEqual([{ keyword: "Kubernetes", count: 4 }]);
+  });
+
+  it("matches phrases across hyphenated PDF line breaks and ignores partial words", () => {
+    const text = "Led cross-func-\ntional teams and machine\nlearning work in Java";
+    const result = scoreKeywordCoverage(text, ["cross-functional", "machine learning", "JavaScript"]);
+    expect(result.matched.map((hit) => hit.keyword)).toEqual(["cross-functional", "machine learning"]);
+    expect(result.missing).toEqual(["JavaScript"]);
+  });
+
+  it("handles keywords with regex metacharacters", () => {
+    expect(scoreKeywordCoverage("C++ and C# daily", ["C++", "C#"]).score).toBe(100);
+  });
+});
+
+describe("diffAtsScores", () => {
+  it("lists keywords gained and lost between two scores", () => {
+    const before = scoreKeywordCoverage("python sql", ["python", "sql", "airflow"]);
+    const after = scoreKeywordCoverage("python airflow", ["python", "sql", "airflow"]);
+    expect(diffAtsScores(before, after)).toEqual({ delta: 0, gained: ["airflow"], lost: ["sql"] });
+  });
+});
+
+describe("extractJobKeywords", () => {
+  it("ranks repeated non-stopword terms deterministically", () => {
+    const jd = "We need GraphQL and React. GraphQL APIs, React UI, GraphQL schema. The team uses Postgres.";
+    expect(extractJobKeywords(jd, 2)).toEqual(["graphql", "react"]);
+  });
+});
+
+describe("latexToPlainText", () => {
+  it("drops commands and comments but keeps content", () => {
+    const text = latexToPlainText("\\section{Skills} % hidden\n\\textbf{Go} \\& Rust");
+    expect(text).toContain("Skills");
+    expect(text).toContain("Go");
+    expect(text).not.toContain("hidden");
+    expect(text).not.toContain("textbf");
+  });
+});
+
+describe("readAtsComparison", () => {
+  it("round-trips a stored comparison and rejects empty payloads", () => {
+    const tailored = scoreKeywordCoverage("rust", ["rust"]);
+    const stored = JSON.parse(JSON.stringify({ keywords: ["rust"], keywordSource: "research", original: null, tailored }));
+    expect(readAtsComparison(stored)).toEqual({ keywords: ["rust"], keywordSource: "research", original: null, tailored });
+    expect(readAtsComparison({ keywords: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+export type KeywordHit = {
+  keyword: string;
+  count: number;
+};
+
+export type AtsKeywordScore = {
+  score: number;
+  matched: KeywordHit[];
+  missing: string[];
+  overused: KeywordHit[];
+  source: "pdf" | "latex";
+};
+
+/** Scores for one generation: the user's original CV and the tailored output, against the same keywords. */
+export type AtsComparison = {
+  keywords: string[];
+  keywordSource: "research" | "job-description";
+  original: AtsKeywordScore | null;
+  tailored: AtsKeywordScore | null;
+};
+
+export type AtsScoreDiff = {
+  delta: number;
+  gained: string[];
+  lost: string[];
+};
+
+export const DEFAULT_OVERUSE_THRESHOLD = 6;
+
+const STOPWORDS = new Set(
+  (
+    "a about above after all also an and any are as at be been being both but by can could did do does doing for from " +
+    "had has have having he her here him his how i if in into is it its just me more most my no nor not of off on once " +
+    "only or other our out over own same she should so some such than that the their them then there these they this " +
+    "those through to too under until up very was we were what when where which while who whom why will with would you " +
+    "your ability able across already around role team teams work working experience years year strong excellent good " +
+    "great new including include includes within well using use used plus etc job candidate candidates position company " +
+    "looking join help responsibilities requirements required preferred skills skill knowledge understanding must may " +
+    "per via based day days time opportunity opportunities apply benefits salary"
+  ).split(" "),
+);
+
+/** Lowercases and joins PDF line-break hyphenation so phrase matches survive text extraction. */
+export function normalizeAtsText(text: string): string {
+  return text
+    .replace(/(\w)-\s*\n\s*(\w)/g, "$1$2")
+    .replace(/[‐-―]/g, "-")
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildKeywordPattern(keyword: string): RegExp {
+  const parts = keyword
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(escapeRegExp);
+  return new RegExp(`(?<![a-z0-9])${parts.join("[\\s-]+")}(?![a-z0-9])`, "g");
+}
+
+export function countKeyword(normalizedText: string, keyword: string): number {
+  if (!keyword.trim()) {
+    return 0;
+  }
+  return normalizedText.match(buildKeywordPattern(keyword))?.length ?? 0;
+}
+
+function dedupeKeywords(keywords: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  keywords.forEach((keyword) => {
+    const trimmed = keyword.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  });
+  return result;
+}
+
+export function scoreKeywordCoverage(
+  text: string,
+  keywords: string[],
+  options: { source?: AtsKeywordScore["source"]; overuseThreshold?: number } = {},
+): AtsKeywordScore {
+  const normalized = normalizeAtsText(text);
+  const threshold = options.overuseThreshold ?? DEFAULT_OVERUSE_THRESHOLD;
+  const matched: KeywordHit[] = [];
+  const missing: string[] = [];
+  const unique = dedupeKeywords(keywords);
+
+  unique.forEach((keyword) => {
+    const count = countKeyword(normalized, keyword);
+    if (count > 0) {
+      matched.push({ keyword, count });
+    } else {
+      missing.push(keyword);
+    }
+  });
+
+  return {
+    score: unique.length ? Math.round((matched.length / unique.length) * 100) : 0,
+    matched,
+    missing,
+    overused: matched.filter((hit) => hit.count >= threshold),
+    source: options.source ?? "pdf",
+  };
+}
+
+/**
+ * Frequency-based fallback used when the research brief could not supply
+ * keywords. Deterministic so re-scoring the same inputs gives the same result.
+ */
+export function extractJobKeywords(jobDescription: string, limit = 12): string[] {
+  const counts = new Map<string, number>();
+  const tokens = normalizeAtsText(jobDescription).match(/[a-z][a-z0-9+#.]*[a-z0-9+#]|[a-z]/g) ?? [];
+  tokens.forEach((token) => {
+    if (token.length < 3 || STOPWORDS.has(token)) {
+      return;
+    }
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([token]) => token);
+}
+
+export function diffAtsScores(before: AtsKeywordScore | null | undefined, after: AtsKeywordScore | null | undefined): AtsScoreDiff | null {
+  if (!before || !after) {
+    return null;
+  }
+  const beforeMatched = new Set(before.matched.map((hit) => hit.keyword.toLowerCase()));
+  const afterMatched = new Set(after.matched.map((hit) => hit.keyword.toLowerCase()));
+  return {
+    delta: after.score - before.score,
+    gained: after.matched.filter((hit) => !beforeMatched.has(hit.keyword.toLowerCase())).map((hit) => hit.keyword),
+    lost: before.matched.filter((hit) => !afterMatched.has(hit.keyword.toLowerCase())).map((hit) => hit.keyword),
+  };
+}
+
+/** Strips LaTeX markup for scoring when no compiled PDF is available. */
+export function latexToPlainText(latex: string): string {
+  return latex
+    .replace(/(?<!\\)%.*$/gm, "")
+    .replace(/\\(?:begin|end)\{[^}]*\}/g, " ")
+    .replace(/\\[a-zA-Z@]+\*?(?:\[[^\]]*\])?/g, " ")
+    .replace(/[{}$&~^_]/g, " ")
+    .replace(/\\\\/g, " ");
+}
+
+function readHits(value: unknown): KeywordHit[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((entry) => (entry && typeof entry === "object" ? (entry as Record<string, unknown>) : null))
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry && typeof entry.keyword === "string"))
+    .map((entry) => ({ keyword: entry.keyword as string, count: typeof entry.count === "number" ? entry.count : 0 }));
+}
+
+function readScore(value: unknown): AtsKeywordScore | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.score !== "number") {
+    return null;
+  }
+  return {
+    score: record.score,
+    matched: readHits(record.matched),
+    missing: Array.isArray(record.missing) ? record.missing.filter((item): item is string => typeof item === "string") : [],
+    overused: readHits(record.overused),
+    source: record.source === "latex" ? "latex" : "pdf",
+  };
+}
+
+/** Reads a persisted comparison back out of session metadata. */
+export function readAtsComparison(value: unknown): AtsComparison | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const keywords = Array.isArray(record.keywords)
+    ? record.keywords.filter((item): item is string => typeof item === "string")
+    : [];
+  if (!keywords.length) {
+    return null;
+  }
+  return {
+    keywords,
+    keywordSource: record.keywordSource === "job-description" ? "job-description" : "research",
+    original: readScore(record.original),
+    tailored: readScore(record.tailored),
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { MAX_BATCH_JOBS, parseBatchInput, splitCsvLine } from "./batch-input";
+
+describe("parseBatchInput", () => {
+  it("reads one URL per line and drops duplicates", () => {
+    const result = parseBatchInput(`
+      https://jobs.example.com/1
+      https://jobs.example.com/2
+      https://jobs.example.com/1
+    `);
+    expect(result.entries.map((entry) => entry.jobUrl)).toEqual([
+      "https://jobs.example.com/1",
+      "https://jobs.example.com/2",
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("maps CSV header columns to company and title overrides", () => {
+    const result = parseBatchInput([
+      "Company,Role,URL",
+      '"Acme, Inc.",Platform Engineer,https://acme.example.com/jobs/42',
+      "Globex,,https://globex.example.com/careers/7",
+    ].join("\n"));
+    expect(result.entries).toEqual([
+      { jobUrl: "https://acme.example.com/jobs/42", companyName: "Acme, Inc.", jobTitle: "Platform Engineer" },
+      { jobUrl: "https://globex.example.com/careers/7", companyName: "Globex" },
+    ]);
+  });
+
+  it("reports rows without a usable URL", () => {
+    const result = parseBatchInput("not a url\nhttps://jobs.example.com/3");
+    expect(result.entries).toHaveLength(1);
+    expect(result.errors).toEqual(["Line 1: no valid job URL found"]);
+  });
+
+  it("caps the queue at the batch limit", () => {
+    const raw = Array.from({ length: MAX_BATCH_JOBS + 5 }, (_, index) => `https://jobs.example.com/${index}`).join("\n");
+    const result = parseBatchInput(raw);
+    expect(result.entries).toHaveLength(MAX_BATCH_JOBS);
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+describe("splitCsvLine", () => {
+  it("handles escaped quotes inside quoted cells", () => {
+    expect(splitCsvLine('"He said ""hi""",b')).toEqual(['He said "hi"', "b"]);
+  });
+});
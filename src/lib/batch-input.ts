@@ -0,0 +1,111 @@
+import { isLikelyJobUrl } from "@/lib/url-utils";
+
+export const MAX_BATCH_JOBS = 50;
+
+export type BatchJobEntry = {
+  jobUrl: string;
+  companyName?: string;
+  jobTitle?: string;
+};
+
+export type BatchParseResult = {
+  entries: BatchJobEntry[];
+  errors: string[];
+};
+
+const URL_HEADERS = new Set(["url", "link", "joburl", "job_url", "joblink", "posting", "href"]);
+const COMPANY_HEADERS = new Set(["company", "companyname", "company_name", "employer", "organisation", "organization"]);
+const TITLE_HEADERS = new Set(["title", "jobtitle", "job_title", "role", "position"]);
+
+/** Splits one CSV record, honouring double-quoted fields and escaped quotes. */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (inQuotes) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === "," || char === "\t" || char === ";") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+type ColumnMap = { url: number; company: number | null; title: number | null };
+
+function detectHeader(cells: string[]): ColumnMap | null {
+  const normalized = cells.map((cell) => cell.toLowerCase().replace(/[\s-]/g, ""));
+  const url = normalized.findIndex((cell) => URL_HEADERS.has(cell));
+  if (url === -1) {
+    return null;
+  }
+  const company = normalized.findIndex((cell) => COMPANY_HEADERS.has(cell));
+  const title = normalized.findIndex((cell) => TITLE_HEADERS.has(cell));
+  return { url, company: company === -1 ? null : company, title: title === -1 ? null : title };
+}
+
+/**
+ * Parses pasted URLs (one per line) or CSV content into batch entries.
+ * CSV files may carry a header row naming url / company / title columns;
+ * without one, the first URL-looking cell on each row is used.
+ */
+export function parseBatchInput(raw: string): BatchParseResult {
+  const lines = raw.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const entries: BatchJobEntry[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let columns: ColumnMap | null = null;
+
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    if (index === 0) {
+      columns = detectHeader(cells);
+      if (columns) {
+        return;
+      }
+    }
+
+    const mapped = columns as ColumnMap | null;
+    const urlCell = mapped ? cells[mapped.url] ?? "" : cells.find((cell) => isLikelyJobUrl(cell)) ?? "";
+    if (!isLikelyJobUrl(urlCell)) {
+      errors.push(`Line ${index + 1}: no valid job URL found`);
+      return;
+    }
+    if (seen.has(urlCell)) {
+      return;
+    }
+    seen.add(urlCell);
+
+    const companyName = mapped?.company != null ? cells[mapped.company] : undefined;
+    const jobTitle = mapped?.title != null ? cells[mapped.title] : undefined;
+    entries.push({
+      jobUrl: urlCell,
+      ...(companyName ? { companyName } : {}),
+      ...(jobTitle ? { jobTitle } : {}),
+    });
+  });
+
+  if (entries.length > MAX_BATCH_JOBS) {
+    errors.push(`Only the first ${MAX_BATCH_JOBS} jobs are queued; ${entries.length - MAX_BATCH_JOBS} were skipped.`);
+    entries.length = MAX_BATCH_JOBS;
+  }
+
+  return { entries, errors };
+}
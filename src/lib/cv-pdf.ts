@@ -0,0 +1,61 @@
+import type { SessionRecord } from "@/lib/session";
+
+/**
+ * Tailored CV PDFs are not stored; they are rendered on demand from the LaTeX
+ * saved on the session. These helpers are shared by the PDF route and by
+ * anything else that needs the PDF (e.g. email attachments).
+ */
+
+type DocumentFilenameParts = {
+  companyName?: unknown;
+  jobTitle?: unknown;
+  userDisplayName?: unknown;
+};
+
+function slugifyForFilename(value: unknown, fallback: string): string {
+  if (typeof value !== "string") {
+    return fallback;
+  }
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) {
+    return fallback;
+  }
+  const sanitized = trimmed.replace(/[^a-z0-9]+/g, "-").replace(/(^-|-$)/g, "");
+  return sanitized || fallback;
+}
+
+export function buildDocumentFilename(parts: DocumentFilenameParts, suffix: string): string {
+  const company = slugifyForFilename(parts.companyName, "company");
+  const role = slugifyForFilename(parts.jobTitle, "role");
+  const candidate = slugifyForFilename(parts.userDisplayName, "");
+  const namePrefix = candidate ? `${candidate}-` : "";
+  return `${namePrefix}${company}-${role}-${suffix}.pdf`;
+}
+
+export function buildCvFilename(parts: DocumentFilenameParts): string {
+  return buildDocumentFilename(parts, "cv");
+}
+
+function isRedacted(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.startsWith("[REDACTED") || trimmed.includes("reason=latex");
+}
+
+/** Returns the CV LaTeX for a generation (latest when omitted), or null when none is renderable. */
+export function selectCvLatex(
+  session: Pick<SessionRecord, "metadata">,
+  generationId?: string,
+): { latex: string; generationId: string | null } | null {
+  const cvGenerations = Array.isArray(session.metadata?.cvGenerations)
+    ? (session.metadata?.cvGenerations as Array<Record<string, unknown>>)
+    : [];
+  const selected = generationId
+    ? cvGenerations.find((entry) => entry.generationId === generationId)
+    : cvGenerations[cvGenerations.length - 1];
+
+  const latex = (selected?.content as string) || (session.metadata?.cvFullLatex as string) || null;
+  if (!latex || isRedacted(latex)) {
+    return null;
+  }
+  return { latex, generationId: typeof selected?.generationId === "string" ? selected.generationId : null };
+}
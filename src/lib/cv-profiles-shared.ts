@@ -0,0 +1,13 @@
+export const DEFAULT_CV_PROFILE_ID = "default";
+export const DEFAULT_CV_PROFILE_NAME = "Default";
+export const MAX_CV_PROFILES = 10;
+export const MAX_CV_PROFILE_NAME_LENGTH = 60;
+/** Shape of the ids `createCvProfile` generates, plus the default profile's id. */
+export const CV_PROFILE_ID_PATTERN = /^[a-z0-9]{1,64}$/;
+
+export type CvProfileSummary = {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
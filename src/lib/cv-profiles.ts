@@ -0,0 +1,159 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import { Timestamp, type FirestoreDataConverter } from "firebase-admin/firestore";
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+import {
+  DEFAULT_CV_PROFILE_ID,
+  DEFAULT_CV_PROFILE_NAME,
+  MAX_CV_PROFILES,
+  type CvProfileSummary,
+} from "@/lib/cv-profiles-shared";
+import { deleteSourceDocumentsForProfile } from "@/lib/source-documents";
+
+/**
+ * Named CV profiles group a full set of source documents. The default profile
+ * needs no document of its own, so users who never create a profile keep
+ * reading their original `(userId, docType)` source documents.
+ */
+
+export type CvProfileRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+};
+
+const collectionName = "cvProfiles";
+const logger = createDebugLogger("cv-profiles");
+
+const converter: FirestoreDataConverter<CvProfileRecord> = {
+  toFirestore(record) {
+    const createdAt = record.createdAt instanceof Date ? record.createdAt : new Date();
+    const lastUsedAt = record.lastUsedAt instanceof Date ? record.lastUsedAt : null;
+    return {
+      profileId: record.id,
+      userId: record.userId,
+      name: record.name,
+      createdAt: Timestamp.fromDate(createdAt),
+      lastUsedAt: lastUsedAt ? Timestamp.fromDate(lastUsedAt) : null,
+    };
+  },
+  fromFirestore(snapshot) {
+    const data = snapshot.data();
+    return {
+      id: data.profileId,
+      userId: data.userId,
+      name: data.name,
+      createdAt: data.createdAt?.toDate?.() ?? new Date(0),
+      lastUsedAt: data.lastUsedAt?.toDate?.() ?? null,
+    };
+  },
+};
+
+function profileRef(userId: string, profileId: string) {
+  return getDb().collection(collectionName).withConverter(converter).doc(`${userId}-${profileId}`);
+}
+
+function defaultProfile(userId: string): CvProfileRecord {
+  return { id: DEFAULT_CV_PROFILE_ID, userId, name: DEFAULT_CV_PROFILE_NAME, createdAt: new Date(0), lastUsedAt: null };
+}
+
+export function toCvProfileSummary(record: CvProfileRecord): CvProfileSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt.toISOString(),
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+/** Lists the user's profiles with the default profile first, creation order after. */
+export async function listCvProfiles(userId: string): Promise<CvProfileRecord[]> {
+  const snapshot = await getDb().collection(collectionName).withConverter(converter).where("userId", "==", userId).get();
+  const records = snapshot.docs.map((doc) => doc.data());
+  const stored = records.find((record) => record.id === DEFAULT_CV_PROFILE_ID);
+  const others = records
+    .filter((record) => record.id !== DEFAULT_CV_PROFILE_ID)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return [stored ?? defaultProfile(userId), ...others];
+}
+
+/** The most recently selected profile is the one the workspace opens with. */
+export function resolveActiveCvProfileId(profiles: CvProfileRecord[]): string {
+  const used = profiles
+    .filter((profile) => profile.lastUsedAt)
+    .sort((a, b) => (b.lastUsedAt?.getTime() ?? 0) - (a.lastUsedAt?.getTime() ?? 0));
+  return used[0]?.id ?? DEFAULT_CV_PROFILE_ID;
+}
+
+export async function getCvProfile(userId: string, profileId: string): Promise<CvProfileRecord | null> {
+  const snapshot = await profileRef(userId, profileId).get();
+  if (snapshot.exists) {
+    return snapshot.data() ?? null;
+  }
+  return profileId === DEFAULT_CV_PROFILE_ID ? defaultProfile(userId) : null;
+}
+
+function assertUniqueName(profiles: CvProfileRecord[], name: string, ignoreId?: string) {
+  const normalized = name.trim().toLowerCase();
+  if (profiles.some((profile) => profile.id !== ignoreId && profile.name.trim().toLowerCase() === normalized)) {
+    throw new Error(`A profile named "${name.trim()}" already exists`);
+  }
+}
+
+export async function createCvProfile(userId: string, name: string): Promise<CvProfileRecord> {
+  const profiles = await listCvProfiles(userId);
+  if (profiles.length >= MAX_CV_PROFILES) {
+    throw new Error(`You can keep at most ${MAX_CV_PROFILES} CV profiles`);
+  }
+  assertUniqueName(profiles, name);
+  const now = new Date();
+  const record: CvProfileRecord = {
+    id: randomUUID().replace(/-/g, "").slice(0, 12),
+    userId,
+    name: name.trim(),
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  logger.step("Creating CV profile", { userId, profileId: record.id });
+  await profileRef(userId, record.id).set(record);
+  return record;
+}
+
+export async function renameCvProfile(userId: string, profileId: string, name: string): Promise<CvProfileRecord> {
+  const profiles = await listCvProfiles(userId);
+  const existing = profiles.find((profile) => profile.id === profileId);
+  if (!existing) {
+    throw new Error("Profile not found");
+  }
+  assertUniqueName(profiles, name, profileId);
+  const record = { ...existing, name: name.trim() };
+  await profileRef(userId, profileId).set(record, { merge: true });
+  return record;
+}
+
+export async function touchCvProfile(userId: string, profileId: string): Promise<CvProfileRecord> {
+  const existing = await getCvProfile(userId, profileId);
+  if (!existing) {
+    throw new Error("Profile not found");
+  }
+  const record = { ...existing, lastUsedAt: new Date() };
+  await profileRef(userId, profileId).set(record, { merge: true });
+  return record;
+}
+
+export async function deleteCvProfile(userId: string, profileId: string): Promise<void> {
+  if (profileId === DEFAULT_CV_PROFILE_ID) {
+    throw new Error("The default profile cannot be deleted");
+  }
+  const existing = await getCvProfile(userId, profileId);
+  if (!existing) {
+    throw new Error("Profile not found");
+  }
+  logger.step("Deleting CV profile", { userId, profileId });
+  await deleteSourceDocumentsForProfile(userId, profileId);
+  await profileRef(userId, profileId).delete();
+}
@@ -1,14 +1,24 @@
 import { createHash } from "node:crypto";
-import { promises as fs } from "node:fs";
-import { spawn } from "node:child_process";
-import os from "node:os";
-import path from "node:path";
 import pdfParse from "pdf-parse";
+import { AlignmentType, Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
 import { env } from "@/env";
 import { buildUserRequestStorageKey, type UserRequestPathInput } from "@/lib/storage/path-builder";
 import type { IStorageProvider, StorageUploadResult } from "@/lib/storage/types";
 import { createDebugLogger } from "@/lib/debug-logger";
 import { getActiveRequestId } from "@/lib/logging/request-id-context";
+import type { DocxBlock } from "@/lib/docx/document-blocks";
+import { assertSafeLatexSource } from "@/lib/latex-safety";
+import {
+  buildCompileCacheKey,
+  LatexCompileCache,
+  type CompileCacheMetrics,
+  type CompiledPdf,
+} from "@/lib/latex/compile-cache";
+import { getLatexCompilePool, type LatexCompileFailure } from "@/lib/latex/compile-pool";
+import { CompileQueueFullError } from "@/lib/latex/compile-queue";
+import { SandboxUnavailableError } from "@/lib/latex/sandbox";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
 
 type UserScopedStorageTarget = UserRequestPathInput & { scope: "user" };
 type CustomStorageTarget = { scope: "custom"; key: string };
@@ -20,6 +30,12 @@ type CompileLatexParams = {
   maxRetries?: number;
 };
 
+type SaveDocxParams = {
+  blocks: DocxBlock[];
+  storage: StorageTarget;
+  metadata?: Record<string, string>;
+};
+
 type GenerateDocumentParams = {
   content: string;
   storage: StorageTarget;
@@ -47,37 +63,20 @@ export class LatexCompileError extends Error {
     public readonly logExcerpt?: string,
     public readonly lineNumbers?: number[],
     public readonly errors?: LatexLogError[],
+    public readonly timedOut = false,
   ) {
     super(message);
     this.name = "LatexCompileError";
   }
 }
 
-const forbiddenLatexPatterns: ReadonlyArray<{ pattern: RegExp; reason: string }> = [
-  { pattern: /\\write18\b/i, reason: "\\write18 is not permitted" },
-  { pattern: /\\usepackage\s*\{[^}]*shellesc[^}]*\}/i, reason: "shellesc package is not allowed" },
-  { pattern: /\\usepackage\s*\{[^}]*verbatiminput[^}]*\}/i, reason: "verbatim input package is not allowed" },
-  { pattern: /\\(openout|openin)\b/i, reason: "Explicit file IO commands are blocked" },
-  { pattern: /\\includeonly/i, reason: "Selective include directives are blocked" },
-  {
-    pattern: /\\(?:input|include)\s*\{[^}]*([/\\]|\.\.)/i,
-    reason: "Absolute or parent-directory includes are not allowed",
-  },
-];
-
 const requestContextDebugEnabled = env.LOG_REQUEST_DEBUG;
-
-function assertSafeLatexSource(texSource: string) {
-  for (const rule of forbiddenLatexPatterns) {
-    if (rule.pattern.test(texSource)) {
-      throw new Error(`Unsafe LaTeX construct detected: ${rule.reason}`);
-    }
-  }
-}
+// Shared by every DocumentService instance, so previews, recompiles and the fix loop reuse each other's PDFs.
+const compileCache = new LatexCompileCache(env.LATEX_CACHE_MAX_MB * 1024 * 1024);
 
 export class DocumentService {
   private readonly targetPageCount = env.TARGET_PAGE_COUNT;
-  private readonly latexCmd = env.PDFLATEX_COMMAND;
+  private readonly compilePool = getLatexCompilePool();
   private readonly logger = createDebugLogger("document-service");
 
   constructor(private readonly storage: IStorageProvider) {}
@@ -114,9 +113,8 @@ export class DocumentService {
     for (let attempt = 1; attempt <= maxRetries; attempt += 1) {
       this.logger.step("Starting compile attempt", { attempt });
       try {
-        const pdfBuffer = await this.renderLatex(texSource);
-        this.logger.step("LaTeX render complete", { attempt, bytes: pdfBuffer.length });
-        const pageCount = await this.getPdfPageCount(pdfBuffer);
+        const { pdf: pdfBuffer, pageCount, cached } = await this.renderAndInspect(texSource);
+        this.logger.step("LaTeX render complete", { attempt, bytes: pdfBuffer.length, cached });
         this.logger.step("PDF page count computed", { pageCount, target: this.targetPageCount });
 
         if (pageCount !== this.targetPageCount) {
@@ -155,6 +153,15 @@ export class DocumentService {
           texLength: texSource.length,
           texFingerprint: this.computeContentFingerprint(texSource),
         });
+        // A saturated queue or a document that ran out its time would only hold a slot again,
+        // and a host without the required sandbox will not gain one between attempts.
+        if (
+          error instanceof CompileQueueFullError ||
+          error instanceof SandboxUnavailableError ||
+          (error instanceof LatexCompileError && error.timedOut)
+        ) {
+          break;
+        }
       }
     }
 
@@ -171,11 +178,14 @@ export class DocumentService {
     };
   }
 
-  async renderLatexEphemeral(texSource: string): Promise<{ buffer: Buffer; pageCount: number }> {
+  async renderLatexEphemeral(texSource: string): Promise<{ buffer: Buffer; pageCount: number; text: string }> {
     assertSafeLatexSource(texSource);
-    const pdfBuffer = await this.renderLatex(texSource);
-    const pageCount = await this.getPdfPageCount(pdfBuffer);
-    return { buffer: pdfBuffer, pageCount };
+    const { pdf, pageCount, text } = await this.renderAndInspect(texSource);
+    return { buffer: pdf, pageCount, text };
+  }
+
+  compileCacheMetrics(): CompileCacheMetrics {
+    return compileCache.metrics();
   }
 
   async saveTextArtifact(params: GenerateDocumentParams): Promise<StorageUploadResult> {
@@ -198,6 +208,51 @@ export class DocumentService {
     });
   }
 
+  async renderDocx(blocks: DocxBlock[]): Promise<Buffer> {
+    const paragraphs = blocks.map((block) => {
+      const children = block.runs.flatMap((run) =>
+        run.text.split("\n").map(
+          (line, index) => new TextRun({ text: line, bold: run.bold, italics: run.italic, break: index > 0 ? 1 : undefined }),
+        ),
+      );
+      switch (block.kind) {
+        case "title":
+          return new Paragraph({ children, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER });
+        case "subtitle":
+          return new Paragraph({ children, alignment: AlignmentType.CENTER, spacing: { after: 120 } });
+        case "heading":
+          return new Paragraph({ children, heading: HeadingLevel.HEADING_1, spacing: { before: 240, after: 80 } });
+        case "bullet":
+          return new Paragraph({ children, bullet: { level: 0 } });
+        default:
+          return new Paragraph({ children, spacing: { after: 120 } });
+      }
+    });
+    const document = new Document({ sections: [{ children: paragraphs }] });
+    return Packer.toBuffer(document);
+  }
+
+  async saveDocxArtifact(params: SaveDocxParams): Promise<StorageUploadResult> {
+    const storageKey = this.resolveStorageKey(params.storage);
+    this.traceRequestContext("save-docx-artifact", {
+      storageScope: params.storage.scope,
+      storageKey,
+    });
+    const buffer = await this.renderDocx(params.blocks);
+    this.logger.step("Saving DOCX artifact", {
+      storageScope: params.storage.scope,
+      storageKey,
+      blockCount: params.blocks.length,
+      bytes: buffer.length,
+    });
+    return this.storage.upload({
+      key: storageKey,
+      buffer,
+      contentType: DOCX_MIME_TYPE,
+      metadata: params.metadata,
+    });
+  }
+
   private resolveStorageKey(target: StorageTarget): string {
     if (target.scope === "custom") {
       return target.key;
@@ -212,107 +267,78 @@ export class DocumentService {
     });
   }
 
+  private async renderAndInspect(texSource: string): Promise<CompiledPdf & { cached: boolean }> {
+    const key = buildCompileCacheKey(texSource, await this.compilePool.engineVersion());
+    const { value, cached } = await compileCache.getOrCompile(key, async () => {
+      const pdf = await this.renderLatex(texSource);
+      const { pageCount, text } = await this.inspectPdf(pdf);
+      return { pdf, pageCount, text };
+    });
+    const { entries, bytes, hits, misses } = compileCache.metrics();
+    this.logger.step(cached ? "LaTeX compile cache hit" : "LaTeX compile cache stored", {
+      key,
+      pageCount: value.pageCount,
+      entries,
+      bytes,
+      hits,
+      misses,
+    });
+    return { ...value, cached };
+  }
+
   private async renderLatex(texSource: string): Promise<Buffer> {
     this.traceRequestContext("render-latex");
-    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), "cv-latex-"));
-    const texPath = path.join(workspace, "main.tex");
-    this.logger.step("Created LaTeX workspace", {
-      workspace,
-      texPath,
-      latexCmd: this.latexCmd,
+    this.logger.step("Submitting LaTeX compile job", {
+      engine: this.compilePool.engine,
       texLength: texSource.length,
     });
 
-    try {
-      await fs.writeFile(texPath, texSource, "utf-8");
-      this.logger.step("LaTeX source written", { texPath });
-
-      // Compile twice for stable references (TOC, refs, etc.)
-      await this.runLatexPass(workspace, 1);
-      await this.runLatexPass(workspace, 2);
-
-      const pdfPath = path.join(workspace, "main.pdf");
-      const pdfBuffer = await fs.readFile(pdfPath);
-      this.logger.info("pdflatex produced PDF", {
-        workspace,
-        pdfBytes: pdfBuffer.length,
+    const outcome = await this.compilePool.compile(texSource);
+    if (outcome.ok) {
+      this.logger.info("LaTeX engine produced PDF", {
+        engine: this.compilePool.engine,
+        pdfBytes: outcome.pdf.length,
       });
-      return pdfBuffer;
-    } finally {
-      await fs.rm(workspace, { recursive: true, force: true });
-      this.logger.step("Cleaned LaTeX workspace", { workspace });
+      return outcome.pdf;
     }
+    throw this.buildCompileError(outcome);
   }
 
-  private async runLatexPass(cwd: string, pass: number): Promise<void> {
-    this.traceRequestContext("run-latex-pass", { pass });
-    this.logger.step("Running pdflatex", { cwd, pass, cmd: this.latexCmd });
-    const args = ["-interaction=nonstopmode", "-halt-on-error", "-file-line-error", "-no-shell-escape", "main.tex"];
-
-    await new Promise<void>((resolve, reject) => {
-      const child = spawn(this.latexCmd, args, { cwd });
-      const stderrChunks: Buffer[] = [];
-      const stdoutChunks: Buffer[] = [];
-
-      child.stdout.on("data", (chunk) => {
-        stdoutChunks.push(Buffer.from(chunk));
-      });
-
-      child.stderr.on("data", (chunk) => {
-        stderrChunks.push(Buffer.from(chunk));
-        this.logger.data("pdflatex-stderr-bytes", { pass, bytes: chunk.length });
-      });
-      child.on("error", (error) => {
-        this.logger.error("pdflatex spawn error", {
-          pass,
-          cwd,
-          error: error.message,
-        });
-        reject(error);
-      });
-      child.on("close", async (code) => {
-        if (code === 0) {
-          this.logger.step("pdflatex pass succeeded", { pass });
-          resolve();
-        } else {
-          const stderrBuffer = Buffer.concat(stderrChunks);
-          const stdoutBuffer = Buffer.concat(stdoutChunks);
-          const logPath = path.join(cwd, "main.log");
-          const logContent = await this.safeReadFile(logPath);
-          const parsedErrors = logContent ? this.extractLatexErrors(logContent) : [];
-          const lineNumbers = parsedErrors.length
-            ? Array.from(new Set(parsedErrors.flatMap((item) => item.lineNumbers ?? [])))
-            : logContent
-              ? this.extractLatexErrorLines(logContent)
-              : [];
-
-          this.logger.error("pdflatex pass failed", {
-            pass,
-            code,
-            stderrBytes: stderrBuffer.length,
-            stdoutBytes: stdoutBuffer.length,
-            stderrFingerprint: this.computeContentFingerprint(stderrBuffer),
-            stdoutFingerprint: this.computeContentFingerprint(stdoutBuffer),
-            logBytes: logContent?.length ?? 0,
-            logFingerprint: logContent ? this.computeContentFingerprint(logContent) : null,
-            errorLineNumbers: lineNumbers,
-          });
-
-          const logExcerpt = logContent ? this.buildLogExcerpt(logContent) : null;
-          reject(
-            new LatexCompileError(
-              this.buildLatexFailureMessage(code, lineNumbers),
-              logExcerpt ?? undefined,
-              lineNumbers,
-              parsedErrors.length ? parsedErrors : undefined,
-            ),
-          );
-        }
-      });
+  private buildCompileError(failure: LatexCompileFailure): LatexCompileError {
+    const logContent = failure.log;
+    const parsedErrors = logContent ? this.extractLatexErrors(logContent) : [];
+    const lineNumbers = parsedErrors.length
+      ? Array.from(new Set(parsedErrors.flatMap((item) => item.lineNumbers ?? [])))
+      : logContent
+        ? this.extractLatexErrorLines(logContent)
+        : [];
+
+    this.logger.error("LaTeX compile failed", {
+      engine: this.compilePool.engine,
+      reason: failure.reason,
+      pass: failure.pass,
+      code: failure.code,
+      signal: failure.signal,
+      stderrBytes: failure.stderr.length,
+      stdoutBytes: failure.stdout.length,
+      stderrFingerprint: this.computeContentFingerprint(failure.stderr),
+      stdoutFingerprint: this.computeContentFingerprint(failure.stdout),
+      logBytes: logContent?.length ?? 0,
+      logFingerprint: logContent ? this.computeContentFingerprint(logContent) : null,
+      errorLineNumbers: lineNumbers,
     });
+
+    const logExcerpt = logContent ? this.buildLogExcerpt(logContent) : null;
+    return new LatexCompileError(
+      this.buildLatexFailureMessage(failure, lineNumbers),
+      logExcerpt ?? undefined,
+      lineNumbers,
+      parsedErrors.length ? parsedErrors : undefined,
+      failure.reason === "timeout",
+    );
   }
 
-  private async getPdfPageCount(buffer: Buffer): Promise<number> {
+  private async inspectPdf(buffer: Buffer): Promise<{ pageCount: number; text: string }> {
     this.logger.step("Parsing PDF for page count", { bytes: buffer.length });
     const data = await pdfParse(buffer);
     this.logger.data("pdf-parse-metrics", {
@@ -320,13 +346,14 @@ export class DocumentService {
       numpages: typeof data.numpages === "number" ? data.numpages : undefined,
       infoPages: typeof data.info?.Pages === "number" ? data.info.Pages : undefined,
     });
+    const text = data.text ?? "";
     if (typeof data.numpages === "number") {
       this.logger.step("PDF page count derived from numpages", { numpages: data.numpages });
-      return data.numpages;
+      return { pageCount: data.numpages, text };
     }
     if (typeof data.info?.Pages === "number") {
       this.logger.step("PDF page count derived from info.Pages", { pages: data.info.Pages });
-      return data.info.Pages;
+      return { pageCount: data.info.Pages, text };
     }
     throw new Error("Unable to determine PDF page count");
   }
@@ -342,15 +369,6 @@ export class DocumentService {
     return createHash("sha256").update(normalized).digest("hex");
   }
 
-  private async safeReadFile(filePath: string): Promise<string | null> {
-    try {
-      const content = await fs.readFile(filePath, "utf-8");
-      return content;
-    } catch {
-      return null;
-    }
-  }
-
   private extractLatexErrorLines(logContent: string, max = 5): number[] {
     const matches = logContent.matchAll(/l\.(\d+)/g);
     const seen = new Set<number>();
@@ -366,8 +384,14 @@ export class DocumentService {
     return Array.from(seen.values());
   }
 
-  private buildLatexFailureMessage(code: number | null, lineNumbers: number[]): string {
-    const base = `pdflatex exited with code ${code ?? "unknown"}`;
+  private buildLatexFailureMessage(failure: LatexCompileFailure, lineNumbers: number[]): string {
+    const engine = this.compilePool.engine;
+    if (failure.reason === "timeout") {
+      return `${engine} did not finish within ${Math.round(this.compilePool.timeoutMs / 1000)}s and was stopped`;
+    }
+    const base = failure.signal
+      ? `${engine} was stopped by ${failure.signal} after reaching its resource limits`
+      : `${engine} exited with code ${failure.code ?? "unknown"}`;
     if (!lineNumbers.length) {
       return base;
     }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { latexToDocxBlocks, parseLatexInline, plainTextToDocxBlocks } from "./document-blocks";
+
+describe("parseLatexInline", () => {
+  it("keeps emphasis as runs and drops layout commands", () => {
+    expect(parseLatexInline("\\textbf{Languages:} Java, C\\# \\vspace*{-2pt} and {\\it Go} -- 50\\%")).toEqual([
+      { text: "Languages:", bold: true },
+      { text: " Java, C# and " },
+      { text: "Go", italic: true },
+      { text: " – 50%" },
+    ]);
+  });
+
+  it("renders link text instead of the URL", () => {
+    expect(parseLatexInline("\\href{https://example.com}{Portfolio}")).toEqual([{ text: "Portfolio" }]);
+  });
+});
+
+describe("latexToDocxBlocks", () => {
+  it("maps sections, bullets and paragraphs in article-style CVs", () => {
+    const latex = [
+      "\\documentclass{article}",
+      "\\begin{document}",
+      "\\section*{Experience} % hidden comment",
+      "\\textbf{Acme} \\hfill 2020 -- 2024 \\\\",
+      "\\begin{itemize}[leftmargin=*]",
+      "  \\item Cut build times by 40\\%.",
+      "  \\item Led a team of \\textbf{five}.",
+      "\\end{itemize}",
+      "\\end{document}",
+    ].join("\n");
+    expect(latexToDocxBlocks(latex)).toEqual([
+      { kind: "heading", runs: [{ text: "Experience" }] },
+      { kind: "paragraph", runs: [{ text: "Acme", bold: true }, { text: " | 2020 – 2024" }] },
+      { kind: "bullet", runs: [{ text: "Cut build times by 40%." }] },
+      { kind: "bullet", runs: [{ text: "Led a team of " }, { text: "five", bold: true }, { text: "." }] },
+    ]);
+  });
+
+  it("builds the moderncv header from the preamble and detects small-caps headings", () => {
+    const latex = [
+      "\\documentclass{moderncv}",
+      "\\name{Ada}{Lovelace}",
+      "\\title{\\large{Engineer}}",
+      "\\email{ada@example.com}",
+      "\\social[github]{ada}",
+      "\\begin{document}",
+      "\\makecvtitle",
+      "\\textsc{\\Large{Core Skills}}%",
+      "\\vspace*{-0.015\\textwidth}%",
+      "",
+      "Analytical engines.",
+      "\\end{document}",
+    ].join("\n");
+    expect(latexToDocxBlocks(latex)).toEqual([
+      { kind: "title", runs: [{ text: "Ada Lovelace" }] },
+      { kind: "subtitle", runs: [{ text: "Engineer" }] },
+      { kind: "paragraph", runs: [{ text: "ada@example.com · ada" }] },
+      { kind: "heading", runs: [{ text: "Core Skills" }] },
+      { kind: "paragraph", runs: [{ text: "Analytical engines." }] },
+    ]);
+  });
+});
+
+describe("plainTextToDocxBlocks", () => {
+  it("splits paragraphs and keeps dash lists as bullets", () => {
+    expect(plainTextToDocxBlocks("Dear team,\n\n- one\n- two\n\nBest,\nAda")).toEqual([
+      { kind: "paragraph", runs: [{ text: "Dear team," }] },
+      { kind: "bullet", runs: [{ text: "one" }] },
+      { kind: "bullet", runs: [{ text: "two" }] },
+      { kind: "paragraph", runs: [{ text: "Best,\nAda" }] },
+    ]);
+  });
+});
@@ -0,0 +1,452 @@
+export type DocxRun = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+};
+
+export type DocxBlock = {
+  kind: "title" | "subtitle" | "heading" | "paragraph" | "bullet";
+  runs: DocxRun[];
+};
+
+type InlineStyle = { bold: boolean; italic: boolean };
+
+const SYMBOL_ESCAPES: Record<string, string> = {
+  "&": "&",
+  "%": "%",
+  $: "$",
+  "#": "#",
+  _: "_",
+  "{": "{",
+  "}": "}",
+  "~": "~",
+  ",": " ",
+  ";": " ",
+  ":": " ",
+  " ": " ",
+  "/": "",
+  "-": "",
+};
+
+/** Commands whose brace arguments are layout-only and should not appear in the document text. */
+const DROPPED_COMMANDS: Record<string, number> = {
+  vspace: 1,
+  hspace: 1,
+  setlength: 2,
+  addtolength: 2,
+  label: 1,
+  color: 1,
+  rule: 2,
+  pagestyle: 1,
+  thispagestyle: 1,
+  fontsize: 2,
+  includegraphics: 1,
+};
+
+const INLINE_REPLACEMENTS: Record<string, string> = {
+  LaTeX: "LaTeX",
+  TeX: "TeX",
+  textbullet: "•",
+  cdot: "·",
+  textbar: "|",
+  ldots: "…",
+  dots: "…",
+  quad: " ",
+  qquad: " ",
+};
+
+const BOLD_COMMANDS = new Set(["textbf"]);
+const ITALIC_COMMANDS = new Set(["textit", "emph", "textsl"]);
+const SKIP_FIRST_ARG_COMMANDS = new Set(["href", "textcolor"]);
+
+class InlineParser {
+  private index = 0;
+  readonly runs: DocxRun[] = [];
+
+  constructor(private readonly source: string) {}
+
+  parse(): DocxRun[] {
+    this.parseUntilClose({ bold: false, italic: false });
+    return mergeRuns(this.runs);
+  }
+
+  private push(text: string, style: InlineStyle) {
+    if (!text) {
+      return;
+    }
+    this.runs.push({ text, ...(style.bold ? { bold: true } : {}), ...(style.italic ? { italic: true } : {}) });
+  }
+
+  private skipWhitespace() {
+    while (this.index < this.source.length && /\s/.test(this.source[this.index])) {
+      this.index += 1;
+    }
+  }
+
+  private skipOptionalArg() {
+    this.skipWhitespace();
+    if (this.source[this.index] !== "[") {
+      return;
+    }
+    const close = this.source.indexOf("]", this.index);
+    this.index = close === -1 ? this.source.length : close + 1;
+  }
+
+  private readBraceArg(): string | null {
+    this.skipWhitespace();
+    if (this.source[this.index] !== "{") {
+      return null;
+    }
+    let depth = 0;
+    const start = this.index + 1;
+    for (; this.index < this.source.length; this.index += 1) {
+      const char = this.source[this.index];
+      if (char === "\\") {
+        this.index += 1;
+        continue;
+      }
+      if (char === "{") {
+        depth += 1;
+      } else if (char === "}") {
+        depth -= 1;
+        if (depth === 0) {
+          const value = this.source.slice(start, this.index);
+          this.index += 1;
+          return value;
+        }
+      }
+    }
+    return this.source.slice(start);
+  }
+
+  private parseNested(source: string, style: InlineStyle) {
+    const nested = new InlineParser(source);
+    nested.parseUntilClose(style);
+    this.runs.push(...nested.runs);
+  }
+
+  private parseCommand(style: InlineStyle) {
+    const match = /^[a-zA-Z@]+/.exec(this.source.slice(this.index));
+    if (!match) {
+      const symbol = this.source[this.index] ?? "";
+      this.index += 1;
+      if (symbol === "\\") {
+        this.push("\n", style);
+        this.skipOptionalArg();
+        return;
+      }
+      this.push(SYMBOL_ESCAPES[symbol] ?? symbol, style);
+      return;
+    }
+
+    const name = match[0];
+    this.index += name.length;
+    if (this.source[this.index] === "*") {
+      this.index += 1;
+    }
+    // TeX swallows the spaces after a control word.
+    this.skipWhitespace();
+
+    if (name in DROPPED_COMMANDS) {
+      this.skipOptionalArg();
+      for (let count = 0; count < DROPPED_COMMANDS[name]; count += 1) {
+        this.readBraceArg();
+      }
+      return;
+    }
+    if (name === "bf" || name === "bfseries") {
+      style.bold = true;
+      return;
+    }
+    if (name === "it" || name === "itshape" || name === "em") {
+      style.italic = true;
+      return;
+    }
+    if (name in INLINE_REPLACEMENTS) {
+      this.push(INLINE_REPLACEMENTS[name], style);
+      return;
+    }
+
+    this.skipOptionalArg();
+    if (SKIP_FIRST_ARG_COMMANDS.has(name)) {
+      this.readBraceArg();
+    }
+    const args: string[] = [];
+    let arg = this.readBraceArg();
+    while (arg !== null) {
+      args.push(arg);
+      const afterArg = this.index;
+      this.skipOptionalArg();
+      arg = this.readBraceArg();
+      if (arg === null) {
+        this.index = afterArg;
+      }
+    }
+
+    if (!args.length) {
+      // Bare macros are layout tweaks (\vfill, \Large, \makecvtitle) far more often than text.
+      if (name === "hfill") {
+        this.push(" | ", style);
+      }
+      return;
+    }
+
+    const nextStyle = {
+      bold: style.bold || BOLD_COMMANDS.has(name),
+      italic: style.italic || ITALIC_COMMANDS.has(name),
+    };
+    args
+      .filter((value) => value.trim().length)
+      .forEach((value, position) => {
+        if (position > 0) {
+          this.push(" · ", style);
+        }
+        this.parseNested(value, { ...nextStyle });
+      });
+  }
+
+  parseUntilClose(style: InlineStyle) {
+    let buffer = "";
+    const flush = () => {
+      this.push(buffer, style);
+      buffer = "";
+    };
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === "\\") {
+        flush();
+        this.index += 1;
+        this.parseCommand(style);
+        continue;
+      }
+      if (char === "{") {
+        flush();
+        this.index += 1;
+        this.parseUntilClose({ ...style });
+        continue;
+      }
+      if (char === "}") {
+        this.index += 1;
+        break;
+      }
+      if (char === "$") {
+        this.index += 1;
+        continue;
+      }
+      if (char === "~") {
+        buffer += " ";
+        this.index += 1;
+        continue;
+      }
+      if (this.source.startsWith("---", this.index)) {
+        buffer += "—";
+        this.index += 3;
+        continue;
+      }
+      if (this.source.startsWith("--", this.index)) {
+        buffer += "–";
+        this.index += 2;
+        continue;
+      }
+      if (this.source.startsWith("``", this.index) || this.source.startsWith("''", this.index)) {
+        buffer += '"';
+        this.index += 2;
+        continue;
+      }
+      buffer += char;
+      this.index += 1;
+    }
+    flush();
+  }
+}
+
+function mergeRuns(runs: DocxRun[]): DocxRun[] {
+  const merged: DocxRun[] = [];
+  runs.forEach((run) => {
+    const text = run.text.replace(/[ \t\r\n]+/g, " ");
+    const last = merged[merged.length - 1];
+    if (last && Boolean(last.bold) === Boolean(run.bold) && Boolean(last.italic) === Boolean(run.italic)) {
+      last.text += text;
+    } else {
+      merged.push({ ...run, text });
+    }
+  });
+  merged.forEach((run, index) => {
+    run.text = run.text.replace(/ {2,}/g, " ");
+    if (index > 0 && run.text.startsWith(" ") && merged[index - 1].text.endsWith(" ")) {
+      run.text = run.text.slice(1);
+    }
+  });
+  if (merged.length) {
+    merged[0].text = merged[0].text.replace(/^\s+/, "");
+    const tail = merged[merged.length - 1];
+    tail.text = tail.text.replace(/\s+$/, "");
+  }
+  return merged.filter((run) => run.text.length);
+}
+
+export function parseLatexInline(source: string): DocxRun[] {
+  return new InlineParser(source).parse();
+}
+
+export function runsToText(runs: DocxRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
+
+function stripComments(latex: string): string {
+  return latex.replace(/(^|[^\\])%.*$/gm, "$1");
+}
+
+function readPreambleArgs(preamble: string, command: string): string[] {
+  const pattern = new RegExp(`\\\\${command}(?:\\[[^\\]]*\\])?((?:\\s*\\{[^{}]*(?:\\{[^{}]*\\}[^{}]*)*\\})+)`);
+  const match = pattern.exec(preamble);
+  if (!match) {
+    return [];
+  }
+  return Array.from(match[1].matchAll(/\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g)).map((entry) => entry[1].trim());
+}
+
+/** moderncv keeps the header in the preamble and prints it via \makecvtitle. */
+function buildModernCvHeader(preamble: string): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  const name = readPreambleArgs(preamble, "name").filter(Boolean).join(" ");
+  if (name) {
+    blocks.push({ kind: "title", runs: parseLatexInline(name) });
+  }
+  const title = readPreambleArgs(preamble, "title")[0];
+  if (title) {
+    blocks.push({ kind: "subtitle", runs: parseLatexInline(title) });
+  }
+  const contact = ["address", "phone", "email", "homepage", "social"]
+    .flatMap((command) => {
+      const pattern = new RegExp(`\\\\${command}(?:\\[[^\\]]*\\])?\\s*((?:\\{[^{}]*\\}\\s*)+)`, "g");
+      return Array.from(preamble.matchAll(pattern)).map((match) =>
+        Array.from(match[1].matchAll(/\{([^{}]*)\}/g))
+          .map((entry) => runsToText(parseLatexInline(entry[1])))
+          .filter(Boolean)
+          .join(", "),
+      );
+    })
+    .filter(Boolean);
+  if (contact.length) {
+    blocks.push({ kind: "paragraph", runs: [{ text: contact.join(" · ") }] });
+  }
+  return blocks;
+}
+
+function readLeadingCommandArg(chunk: string, command: RegExp): { arg: string; rest: string } | null {
+  const match = command.exec(chunk);
+  if (!match) {
+    return null;
+  }
+  const parser = chunk.slice(match[0].length);
+  let depth = 1;
+  for (let index = 0; index < parser.length; index += 1) {
+    const char = parser[index];
+    if (char === "\\") {
+      index += 1;
+      continue;
+    }
+    if (char === "{") depth += 1;
+    if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return { arg: parser.slice(0, index), rest: parser.slice(index + 1) };
+      }
+    }
+  }
+  return { arg: parser, rest: "" };
+}
+
+function isStandaloneHeading(chunk: string, text: string): boolean {
+  if (!text || text.length > 60 || /[.:;]$/.test(text)) {
+    return false;
+  }
+  return /^(\\textsc\s*\{|\{\\(Large|large|LARGE|scshape))/.test(chunk) || /^\\textsc\s*\{\\(Large|large)/.test(chunk);
+}
+
+/**
+ * Converts LaTeX CV source into a flat list of document blocks. It covers the
+ * constructs our generated CVs use (sections, itemize, inline emphasis,
+ * moderncv headers) and degrades to plain paragraphs for anything else.
+ */
+export function latexToDocxBlocks(latex: string): DocxBlock[] {
+  const source = stripComments(latex.replace(/\r\n?/g, "\n"));
+  const beginIndex = source.indexOf("\\begin{document}");
+  const endIndex = source.lastIndexOf("\\end{document}");
+  const preamble = beginIndex >= 0 ? source.slice(0, beginIndex) : "";
+  let body = beginIndex >= 0 ? source.slice(beginIndex + "\\begin{document}".length, endIndex > beginIndex ? endIndex : undefined) : source;
+
+  const header = body.includes("\\makecvtitle") ? buildModernCvHeader(preamble) : [];
+  body = body
+    .replace(/\\makecvtitle/g, "")
+    .replace(/\\(item|section\*?|subsection\*?|begin\{|end\{)/g, "\n\n\\$1")
+    .replace(/\\\\(\[[^\]]*\])?/g, "\n\n");
+
+  const blocks: DocxBlock[] = [...header];
+  body.split(/\n\s*\n/).forEach((rawChunk) => {
+    let chunk = rawChunk.replace(/\s+/g, " ").trim();
+    if (!chunk) {
+      return;
+    }
+    const environment = /^\\(begin|end)\{[^}]*\}(\[[^\]]*\])?(\{[^}]*\})*/.exec(chunk);
+    if (environment) {
+      chunk = chunk.slice(environment[0].length).trim();
+      if (!chunk) {
+        return;
+      }
+    }
+
+    if (chunk.startsWith("\\item")) {
+      const runs = parseLatexInline(chunk.replace(/^\\item\s*(\[[^\]]*\])?/, ""));
+      if (runs.length) {
+        blocks.push({ kind: "bullet", runs });
+      }
+      return;
+    }
+
+    const section = readLeadingCommandArg(chunk, /^\\(?:sub)?section\*?\s*\{/);
+    if (section) {
+      const runs = parseLatexInline(section.arg);
+      if (runs.length) {
+        blocks.push({ kind: "heading", runs: runs.map((run) => ({ text: run.text })) });
+      }
+      const restRuns = parseLatexInline(section.rest);
+      if (restRuns.length) {
+        blocks.push({ kind: "paragraph", runs: restRuns });
+      }
+      return;
+    }
+
+    const runs = parseLatexInline(chunk);
+    const text = runsToText(runs);
+    if (!text.replace(/[|·\s]/g, "")) {
+      return;
+    }
+    if (isStandaloneHeading(chunk, text)) {
+      blocks.push({ kind: "heading", runs: [{ text }] });
+      return;
+    }
+    blocks.push({ kind: "paragraph", runs });
+  });
+
+  return blocks;
+}
+
+/** Splits plain-text letters into paragraphs, keeping dash or bullet lines as list items. */
+export function plainTextToDocxBlocks(text: string): DocxBlock[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => {
+      const lines = paragraph.split("\n").map((line) => line.trim()).filter(Boolean);
+      if (!lines.length) {
+        return [];
+      }
+      if (lines.every((line) => /^([-*•])\s+/.test(line))) {
+        return lines.map((line): DocxBlock => ({ kind: "bullet", runs: [{ text: line.replace(/^([-*•])\s+/, "") }] }));
+      }
+      return [{ kind: "paragraph", runs: [{ text: lines.join("\n") }] } satisfies DocxBlock];
+    });
+}
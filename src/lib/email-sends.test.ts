@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { appendEmailSend, EMAIL_SENDS_METADATA_KEY, MAX_EMAIL_SEND_RECORDS, readEmailSends, type EmailSendRecord } from "./email-sends";
+
+function record(index: number): EmailSendRecord {
+  return {
+    id: `send-${index}`,
+    messageId: `<${index}@mail>`,
+    to: "hiring@example.com",
+    subject: "Hello",
+    sentAt: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+    status: "sent",
+    attachment: "cv.pdf",
+  };
+}
+
+describe("readEmailSends", () => {
+  it("drops malformed entries and normalises optional fields", () => {
+    const sends = readEmailSends({
+      [EMAIL_SENDS_METADATA_KEY]: [
+        record(1),
+        { id: "broken" },
+        { id: "failed", to: "a@b.co", sentAt: "2025-01-01T00:00:00.000Z", status: "failed", error: "Connection refused" },
+      ],
+    });
+    expect(sends).toHaveLength(2);
+    expect(sends[1]).toEqual({
+      id: "failed",
+      messageId: null,
+      to: "a@b.co",
+      subject: "",
+      sentAt: "2025-01-01T00:00:00.000Z",
+      status: "failed",
+      attachment: null,
+      error: "Connection refused",
+    });
+  });
+
+  it("keeps only the newest records when appending", () => {
+    const existing = Array.from({ length: MAX_EMAIL_SEND_RECORDS }, (_, index) => record(index));
+    const next = appendEmailSend(existing, record(MAX_EMAIL_SEND_RECORDS));
+    expect(next).toHaveLength(MAX_EMAIL_SEND_RECORDS);
+    expect(next[0].id).toBe("send-1");
+    expect(next.at(-1)?.id).toBe(`send-${MAX_EMAIL_SEND_RECORDS}`);
+  });
+});
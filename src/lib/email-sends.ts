@@ -0,0 +1,63 @@
+/**
+ * Cold emails sent over SMTP, recorded per session under `metadata.emailSends`
+ * (oldest first). Failed attempts are kept too so the card can show why a send
+ * did not go out.
+ */
+
+export type EmailSendStatus = "sent" | "failed";
+
+export type EmailSendRecord = {
+  id: string;
+  messageId: string | null;
+  to: string;
+  subject: string;
+  sentAt: string;
+  status: EmailSendStatus;
+  attachment: string | null;
+  error?: string;
+};
+
+export const EMAIL_SENDS_METADATA_KEY = "emailSends";
+
+// Older attempts beyond this are dropped so session metadata stays small.
+export const MAX_EMAIL_SEND_RECORDS = 50;
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+export function readEmailSends(metadata: Record<string, unknown> | null | undefined): EmailSendRecord[] {
+  const raw = metadata?.[EMAIL_SENDS_METADATA_KEY];
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((entry): EmailSendRecord[] => {
+    if (!entry || typeof entry !== "object") {
+      return [];
+    }
+    const record = entry as Record<string, unknown>;
+    const id = asString(record.id);
+    const to = asString(record.to);
+    const sentAt = asString(record.sentAt);
+    if (!id || !to || !sentAt) {
+      return [];
+    }
+    const error = asString(record.error);
+    return [
+      {
+        id,
+        messageId: asString(record.messageId),
+        to,
+        subject: asString(record.subject) ?? "",
+        sentAt,
+        status: record.status === "failed" ? "failed" : "sent",
+        attachment: asString(record.attachment),
+        ...(error ? { error } : {}),
+      },
+    ];
+  });
+}
+
+export function appendEmailSend(records: EmailSendRecord[], record: EmailSendRecord): EmailSendRecord[] {
+  return [...records, record].slice(-MAX_EMAIL_SEND_RECORDS);
+}
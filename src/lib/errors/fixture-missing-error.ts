@@ -0,0 +1,14 @@
+/**
+ * The key is kept off the message: ModelClient retries on status codes found
+ * in error text, and a hex hash can contain "429" or "503".
+ */
+export class FixtureMissingError extends Error {
+  constructor(
+    public readonly namespace: string,
+    public readonly key: string,
+  ) {
+    super(`No recorded ${namespace} fixture for this request. Re-run with FIXTURE_MODE=record to capture it.`);
+    this.name = "FixtureMissingError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
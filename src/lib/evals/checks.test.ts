@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { checkColdEmailLength, checkKeywordCoverage, evalTextFromLatex, findUnsupportedClaims } from "./checks";
+import { buildEvalReport } from "./report";
+
+const cv = "Senior Engineer at Northwind (2019-2024). Cut infrastructure cost by 30% on Kubernetes.";
+
+describe("eval checks", () => {
+  it("flags numbers and names the sources never mention", () => {
+    expect(findUnsupportedClaims("I cut cost by 30% using Kubernetes at Northwind.", [cv])).toEqual([]);
+    expect(findUnsupportedClaims("I cut cost by 45% using Kubernetes at Globex.", [cv])).toEqual(["45%", "Globex"]);
+    expect(findUnsupportedClaims("I shipped it with Terraform.", [cv], ["Terraform"])).toEqual([]);
+  });
+
+  it("scores keyword coverage and cold email length against the case expectations", () => {
+    const text = evalTextFromLatex("\\documentclass[10pt]{article}\\begin{document}\\textbf{Go} and Kafka\\end{document}");
+    expect(text).toBe("Go and Kafka");
+    expect(checkKeywordCoverage(text, { keywords: ["Go", "Kafka", "gRPC"], minKeywordCoverage: 0.6 })?.passed).toBe(true);
+    expect(checkKeywordCoverage(text, {})).toBeNull();
+    expect(checkColdEmailLength("too short", { coldEmailMinWords: 5 })).toMatchObject({ passed: false, detail: "2 words (allowed 5-200)" });
+  });
+
+  it("summarizes pass rate and task errors", () => {
+    const report = buildEvalReport(
+      [
+        {
+          id: "case",
+          description: null,
+          tasks: [
+            { task: "generateCVAdvanced", durationMs: 1, output: "cv", error: null, checks: [{ name: "a", passed: true, detail: "" }, { name: "b", passed: false, detail: "" }] },
+            { task: "generateColdEmail", durationMs: 0, output: null, error: "No recorded response", checks: [] },
+          ],
+        },
+      ],
+      "recorded",
+      "2026-01-01T00:00:00.000Z",
+    );
+    expect(report.summary).toEqual({ cases: 1, checks: 2, passed: 1, failed: 1, errors: 1, passRate: 0.5 });
+  });
+});
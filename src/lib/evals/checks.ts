@@ -0,0 +1,127 @@
+import { latexToPlainText, scoreKeywordCoverage } from "@/lib/ats/keyword-score";
+import { checkGrounding as checkDocumentGrounding } from "@/lib/grounding/claims";
+
+/**
+ * Scoring for the offline eval harness (`scripts/run-evals.ts`). Every check
+ * is deterministic so a report only changes when the model output does.
+ */
+
+export type EvalTask = "generateCVAdvanced" | "generateCoverLetterAdvanced" | "generateColdEmail";
+
+export type EvalExpectations = {
+  /** Keywords the tailored documents should mention; defaults to none. */
+  keywords?: string[];
+  /** Share of `keywords` (0-1) a document must cover. */
+  minKeywordCoverage?: number;
+  pageCount?: number;
+  coldEmailMinWords?: number;
+  coldEmailMaxWords?: number;
+  /** Terms the output may use even though the CV never mentions them (tool names from the job ad, etc.). */
+  allowedTerms?: string[];
+};
+
+/** One golden case under `evals/golden/*.json`. */
+export type EvalCase = {
+  id: string;
+  description?: string;
+  companyName: string;
+  jobTitle: string;
+  jobDescription: string;
+  originalCV: string;
+  extensiveCV: string;
+  cvStrategy?: string;
+  coverLetterStrategy?: string;
+  coldEmailStrategy?: string;
+  companyProfile?: string;
+  contact?: { name: string; title: string; email: string } | null;
+  genericEmail?: string;
+  expected?: EvalExpectations;
+  /** Recorded model replies per task, used unless the runner is started with `--live`. */
+  responses?: Partial<Record<EvalTask, string>>;
+};
+
+export type EvalCheck = {
+  name: string;
+  passed: boolean;
+  detail: string;
+};
+
+export type EvalTaskResult = {
+  task: EvalTask;
+  durationMs: number;
+  output: string | null;
+  error: string | null;
+  checks: EvalCheck[];
+};
+
+export type EvalCaseResult = {
+  id: string;
+  description: string | null;
+  tasks: EvalTaskResult[];
+};
+
+export const DEFAULT_MIN_KEYWORD_COVERAGE = 0.6;
+export const DEFAULT_COLD_EMAIL_WORDS = { min: 60, max: 200 } as const;
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export function checkKeywordCoverage(text: string, expected: EvalExpectations | undefined): EvalCheck | null {
+  const keywords = expected?.keywords ?? [];
+  if (!keywords.length) {
+    return null;
+  }
+  const minimum = expected?.minKeywordCoverage ?? DEFAULT_MIN_KEYWORD_COVERAGE;
+  const score = scoreKeywordCoverage(text, keywords, { source: "latex" });
+  const passed = score.score / 100 >= minimum;
+  return {
+    name: "keyword-coverage",
+    passed,
+    detail: `${score.score}% covered (needs ${Math.round(minimum * 100)}%)${
+      score.missing.length ? `; missing ${score.missing.join(", ")}` : ""
+    }`,
+  };
+}
+
+export function checkPageCount(pageCount: number | null, target: number): EvalCheck {
+  return {
+    name: "page-count",
+    passed: pageCount === target,
+    detail: pageCount === null ? "PDF was not produced" : `${pageCount} page(s), expected ${target}`,
+  };
+}
+
+export function checkColdEmailLength(body: string, expected: EvalExpectations | undefined): EvalCheck {
+  const min = expected?.coldEmailMinWords ?? DEFAULT_COLD_EMAIL_WORDS.min;
+  const max = expected?.coldEmailMaxWords ?? DEFAULT_COLD_EMAIL_WORDS.max;
+  const words = countWords(body);
+  return {
+    name: "cold-email-length",
+    passed: words >= min && words <= max,
+    detail: `${words} words (allowed ${min}-${max})`,
+  };
+}
+
+export function findUnsupportedClaims(output: string, sources: string[], allowedTerms: string[] = []): string[] {
+  const report = checkDocumentGrounding(output, sources, { allowedTerms });
+  return [...new Set(report.unsupported.map((entry) => entry.claim))];
+}
+
+export function checkGrounding(text: string, sources: string[], expected: EvalExpectations | undefined): EvalCheck {
+  const { unsupported } = checkDocumentGrounding(text, sources, { allowedTerms: expected?.allowedTerms });
+  return {
+    name: "grounded-in-cv",
+    passed: unsupported.length === 0,
+    detail: unsupported.length
+      ? `not found in the CV or job description: ${unsupported.map((entry) => `${entry.claim} (line ${entry.line})`).join(", ")}`
+      : "every claim traced to a source",
+  };
+}
+
+/** Plain text of a LaTeX document body; the preamble's lengths and options would read as numeric claims. */
+export function evalTextFromLatex(latex: string): string {
+  const bodyStart = latex.indexOf("\\begin{document}");
+  const body = bodyStart >= 0 ? latex.slice(bodyStart) : latex;
+  return latexToPlainText(body).replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,106 @@
+import type { EvalCaseResult } from "@/lib/evals/checks";
+
+export type EvalReport = {
+  generatedAt: string;
+  mode: "recorded" | "live";
+  summary: {
+    cases: number;
+    checks: number;
+    passed: number;
+    failed: number;
+    errors: number;
+    passRate: number;
+  };
+  cases: EvalCaseResult[];
+};
+
+export function buildEvalReport(cases: EvalCaseResult[], mode: EvalReport["mode"], generatedAt = new Date().toISOString()): EvalReport {
+  const tasks = cases.flatMap((entry) => entry.tasks);
+  const checks = tasks.flatMap((task) => task.checks);
+  const passed = checks.filter((check) => check.passed).length;
+  return {
+    generatedAt,
+    mode,
+    summary: {
+      cases: cases.length,
+      checks: checks.length,
+      passed,
+      failed: checks.length - passed,
+      errors: tasks.filter((task) => task.error).length,
+      passRate: checks.length ? passed / checks.length : 0,
+    },
+    cases,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Self-contained page (no external assets) so the report can be attached to a CI run as-is. */
+export function renderEvalReportHtml(report: EvalReport): string {
+  const { summary } = report;
+  const caseSections = report.cases
+    .map((entry) => {
+      const rows = entry.tasks
+        .flatMap((task) => {
+          if (task.error) {
+            return [
+              `<tr class="fail"><td>${escapeHtml(task.task)}</td><td>error</td><td>✗</td><td>${escapeHtml(task.error)}</td></tr>`,
+            ];
+          }
+          return task.checks.map(
+            (check) =>
+              `<tr class="${check.passed ? "pass" : "fail"}"><td>${escapeHtml(task.task)}</td><td>${escapeHtml(check.name)}</td><td>${
+                check.passed ? "✓" : "✗"
+              }</td><td>${escapeHtml(check.detail)}</td></tr>`,
+          );
+        })
+        .join("\n");
+      const outputs = entry.tasks
+        .filter((task) => task.output)
+        .map(
+          (task) =>
+            `<details><summary>${escapeHtml(task.task)} output (${task.durationMs} ms)</summary><pre>${escapeHtml(task.output ?? "")}</pre></details>`,
+        )
+        .join("\n");
+      return `<section>
+<h2>${escapeHtml(entry.id)}</h2>
+${entry.description ? `<p>${escapeHtml(entry.description)}</p>` : ""}
+<table><thead><tr><th>Task</th><th>Check</th><th></th><th>Detail</th></tr></thead><tbody>
+${rows}
+</tbody></table>
+${outputs}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Generation eval report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #18181b; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; font-size: 14px; }
+th, td { border-bottom: 1px solid #e4e4e7; padding: 6px 8px; text-align: left; vertical-align: top; }
+tr.pass td:nth-child(3) { color: #059669; }
+tr.fail td:nth-child(3) { color: #dc2626; }
+pre { white-space: pre-wrap; background: #f4f4f5; padding: 0.75rem; font-size: 12px; }
+.summary { display: flex; gap: 1.5rem; color: #52525b; }
+</style>
+</head>
+<body>
+<h1>Generation eval report</h1>
+<p class="summary"><span>${escapeHtml(report.generatedAt)}</span><span>${report.mode} model</span><span>${summary.cases} case(s)</span><span>${
+    summary.passed
+  }/${summary.checks} checks passed (${Math.round(summary.passRate * 100)}%)</span><span>${summary.errors} task error(s)</span></p>
+${caseSections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,54 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/env", () => ({ env: { LOG_LEVEL: "error" } }));
+
+import { FixtureModelProvider } from "@/lib/ai/providers/fixture-provider";
+import { StubModelProvider } from "@/lib/ai/providers/stub-provider";
+import { FixtureMissingError } from "@/lib/errors/fixture-missing-error";
+import { FixtureRecorder, fixtureKey } from "./recorder";
+
+const request = { prompt: "Write a CV", modelType: "pro" as const, modelName: "stub-pro", json: false };
+const dirs: string[] = [];
+
+function fixtureDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), "fixtures-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  dirs.splice(0).forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+describe("fixture recorder", () => {
+  it("keys requests independently of property order", () => {
+    expect(fixtureKey({ path: "/a", body: null })).toBe(fixtureKey({ body: null, path: "/a" }));
+    expect(fixtureKey({ path: "/a" })).not.toBe(fixtureKey({ path: "/b" }));
+  });
+
+  it("replays recorded model calls without touching the wrapped provider", async () => {
+    const dir = fixtureDir();
+    const live = new StubModelProvider().enqueue("recorded reply");
+    await new FixtureModelProvider(live, new FixtureRecorder("record", dir)).generate(request);
+    expect(readdirSync(path.join(dir, "model"))).toHaveLength(1);
+
+    const offline = new StubModelProvider();
+    const replay = new FixtureModelProvider(offline, new FixtureRecorder("replay", dir));
+    const deltas: string[] = [];
+    await expect(replay.generateStream(request, (delta) => deltas.push(delta))).resolves.toEqual({ text: "recorded reply" });
+    expect(deltas).toEqual(["recorded ", "reply"]);
+    expect(offline.requests).toHaveLength(0);
+    await expect(replay.countTokens(request)).resolves.toBeNull();
+  });
+
+  it("fails replay for a request that was never recorded", async () => {
+    const replay = new FixtureRecorder("replay", fixtureDir());
+    const live = vi.fn(async () => "network");
+    await expect(replay.run("apollo", { path: "/people/match" }, live)).rejects.toBeInstanceOf(FixtureMissingError);
+    expect(live).not.toHaveBeenCalled();
+  });
+});
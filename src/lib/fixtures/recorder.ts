@@ -0,0 +1,94 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { FixtureMissingError } from "@/lib/errors/fixture-missing-error";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+/** One recorded call, stored as `<FIXTURE_DIR>/<namespace>/<key>.json`. */
+export type FixtureEntry<T = unknown> = {
+  namespace: string;
+  key: string;
+  request: Record<string, unknown>;
+  response: T;
+  recordedAt: string;
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Same request, same key: object key order does not matter. */
+export function fixtureKey(request: Record<string, unknown>): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex").slice(0, 32);
+}
+
+/**
+ * Records outbound calls (model prompts, Apollo requests) to disk and serves
+ * them back without the network. `record` always calls through and
+ * overwrites; `replay` never calls through and throws FixtureMissingError
+ * for a request it has not seen. Only successful responses are recorded.
+ */
+export class FixtureRecorder {
+  private readonly logger = createDebugLogger("fixture-recorder");
+  private readonly root: string;
+
+  constructor(
+    readonly mode: FixtureMode,
+    dir: string,
+  ) {
+    this.root = path.resolve(dir);
+  }
+
+  private filePath(namespace: string, key: string): string {
+    return path.join(this.root, namespace, `${key}.json`);
+  }
+
+  async run<T>(namespace: string, request: Record<string, unknown>, live: () => Promise<T>): Promise<T> {
+    if (this.mode === "off") {
+      return live();
+    }
+    const key = fixtureKey(request);
+    const filePath = this.filePath(namespace, key);
+
+    if (this.mode === "replay") {
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, "utf8");
+      } catch {
+        this.logger.warn("Fixture missing in replay mode", { namespace, key });
+        throw new FixtureMissingError(namespace, key);
+      }
+      this.logger.step("Replaying fixture", { namespace, key });
+      return (JSON.parse(raw) as FixtureEntry<T>).response;
+    }
+
+    const response = await live();
+    const entry: FixtureEntry<T> = { namespace, key, request, response, recordedAt: new Date().toISOString() };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, `${JSON.stringify(entry, null, 2)}\n`, "utf8");
+    this.logger.step("Recorded fixture", { namespace, key });
+    return response;
+  }
+}
+
+let cachedRecorder: FixtureRecorder | null = null;
+
+export function getFixtureRecorder(): FixtureRecorder {
+  if (!cachedRecorder) {
+    cachedRecorder = new FixtureRecorder(env.FIXTURE_MODE, env.FIXTURE_DIR);
+  }
+  return cachedRecorder;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  anchorFollowUpsOnSend,
+  createFollowUpSequence,
+  markDueFollowUps,
+  markReplyReceived,
+  nextFollowUpDueAt,
+  readFollowUps,
+  setFollowUpDelay,
+} from "./follow-ups";
+
+const drafts = [
+  { subject: "Re: Backend role", body: "Quick nudge" },
+  { subject: "Re: Backend role", body: "Last note" },
+];
+
+describe("follow-up sequences", () => {
+  it("schedules steps from the anchor and re-anchors on the first real send", () => {
+    const sequence = createFollowUpSequence(drafts, [4, 10], "2025-03-01T09:00:00.000Z");
+    expect(sequence.steps.map((step) => step.dueAt)).toEqual(["2025-03-05T09:00:00.000Z", "2025-03-11T09:00:00.000Z"]);
+
+    const sent = anchorFollowUpsOnSend(sequence, "2025-03-03T09:00:00.000Z");
+    expect(sent.anchorSource).toBe("sent");
+    expect(nextFollowUpDueAt(sent)).toBe("2025-03-07T09:00:00.000Z");
+    expect(anchorFollowUpsOnSend(sent, "2025-04-01T00:00:00.000Z")).toBe(sent);
+
+    const delayed = setFollowUpDelay(sent, sent.steps[0].id, 6);
+    expect(delayed.steps[0]).toMatchObject({ delayDays: 6, dueAt: "2025-03-09T09:00:00.000Z" });
+  });
+
+  it("surfaces due steps and stops everything once a reply arrives", () => {
+    const sequence = createFollowUpSequence(drafts, [4, 10], "2025-03-01T09:00:00.000Z");
+    const { sequence: surfaced, surfaced: due } = markDueFollowUps(sequence, "2025-03-06T00:00:00.000Z");
+    expect(due).toHaveLength(1);
+    expect(surfaced.steps.map((step) => step.status)).toEqual(["due", "scheduled"]);
+    expect(nextFollowUpDueAt(surfaced)).toBe("2025-03-11T09:00:00.000Z");
+
+    const replied = markReplyReceived(surfaced, "2025-03-07T00:00:00.000Z");
+    expect(replied.steps.map((step) => step.status)).toEqual(["cancelled", "cancelled"]);
+    expect(nextFollowUpDueAt(replied)).toBeNull();
+    expect(markDueFollowUps(replied, "2025-04-01T00:00:00.000Z").surfaced).toEqual([]);
+  });
+
+  it("round-trips through session metadata", () => {
+    const sequence = createFollowUpSequence(drafts, [4, 10], "2025-03-01T09:00:00.000Z");
+    expect(readFollowUps({ followUps: JSON.parse(JSON.stringify(sequence)) })).toEqual(sequence);
+    expect(readFollowUps({ followUps: { steps: [] } })).toBeNull();
+  });
+});
@@ -0,0 +1,216 @@
+import { z } from "zod";
+
+/**
+ * Follow-up sequence for a cold email, stored per session under
+ * `metadata.followUps`. Each step is due `delayDays` after the anchor: the time
+ * the original email was sent over SMTP, or the generation time until then.
+ * `metadata.followUpNextDueAt` mirrors the earliest scheduled due date so the
+ * scheduler script can query for due sessions.
+ */
+
+export const FOLLOW_UP_METADATA_KEY = "followUps";
+export const FOLLOW_UP_NEXT_DUE_KEY = "followUpNextDueAt";
+
+export const DEFAULT_FOLLOW_UP_DELAYS = [4, 10] as const;
+export const MAX_FOLLOW_UPS = 3;
+export const MAX_FOLLOW_UP_DELAY_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FollowUpStatus = "scheduled" | "due" | "sent" | "skipped" | "cancelled";
+
+export type FollowUpStep = {
+  id: string;
+  delayDays: number;
+  subject: string;
+  body: string;
+  status: FollowUpStatus;
+  dueAt: string;
+  surfacedAt?: string;
+  completedAt?: string;
+};
+
+export type FollowUpSequence = {
+  anchorAt: string;
+  anchorSource: "generated" | "sent";
+  replyReceivedAt: string | null;
+  steps: FollowUpStep[];
+};
+
+/** Shape the model returns for a drafted sequence. */
+export const followUpDraftsSchema = z.object({
+  followUps: z
+    .array(
+      z.object({
+        subject: z.string().trim().min(1).max(300),
+        body: z.string().trim().min(1).max(4000),
+      }),
+    )
+    .min(1)
+    .max(MAX_FOLLOW_UPS),
+});
+
+export type FollowUpDraft = z.infer<typeof followUpDraftsSchema>["followUps"][number];
+
+const OPEN_STATUSES: ReadonlySet<FollowUpStatus> = new Set(["scheduled", "due"]);
+
+function createId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(iso) + days * DAY_MS).toISOString();
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function isFollowUpStatus(value: unknown): value is FollowUpStatus {
+  return value === "scheduled" || value === "due" || value === "sent" || value === "skipped" || value === "cancelled";
+}
+
+function reschedule(step: FollowUpStep, anchorAt: string, delayDays: number): FollowUpStep {
+  const { surfacedAt: _surfacedAt, ...rest } = step;
+  void _surfacedAt;
+  return { ...rest, delayDays, status: "scheduled", dueAt: addDays(anchorAt, delayDays) };
+}
+
+export function isOpenFollowUp(step: FollowUpStep): boolean {
+  return OPEN_STATUSES.has(step.status);
+}
+
+export function readFollowUps(metadata: Record<string, unknown> | null | undefined): FollowUpSequence | null {
+  const raw = metadata?.[FOLLOW_UP_METADATA_KEY];
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const record = raw as Record<string, unknown>;
+  const anchorAt = asString(record.anchorAt);
+  if (!anchorAt || !Array.isArray(record.steps)) {
+    return null;
+  }
+  const steps = record.steps.flatMap((entry): FollowUpStep[] => {
+    if (!entry || typeof entry !== "object") {
+      return [];
+    }
+    const step = entry as Record<string, unknown>;
+    const id = asString(step.id);
+    const dueAt = asString(step.dueAt);
+    if (!id || !dueAt || typeof step.delayDays !== "number") {
+      return [];
+    }
+    const surfacedAt = asString(step.surfacedAt);
+    const completedAt = asString(step.completedAt);
+    return [
+      {
+        id,
+        delayDays: step.delayDays,
+        subject: asString(step.subject) ?? "",
+        body: asString(step.body) ?? "",
+        status: isFollowUpStatus(step.status) ? step.status : "scheduled",
+        dueAt,
+        ...(surfacedAt ? { surfacedAt } : {}),
+        ...(completedAt ? { completedAt } : {}),
+      },
+    ];
+  });
+  return {
+    anchorAt,
+    anchorSource: record.anchorSource === "sent" ? "sent" : "generated",
+    replyReceivedAt: asString(record.replyReceivedAt) ?? null,
+    steps,
+  };
+}
+
+export function createFollowUpSequence(
+  drafts: FollowUpDraft[],
+  delays: readonly number[],
+  anchorAt: string,
+): FollowUpSequence {
+  const steps = drafts.slice(0, Math.min(MAX_FOLLOW_UPS, delays.length)).map((draft, index) => ({
+    id: createId(),
+    delayDays: delays[index],
+    subject: draft.subject,
+    body: draft.body,
+    status: "scheduled" as const,
+    dueAt: addDays(anchorAt, delays[index]),
+  }));
+  return { anchorAt, anchorSource: "generated", replyReceivedAt: null, steps };
+}
+
+/** Re-anchors open steps on the moment the original email actually went out. */
+export function anchorFollowUpsOnSend(sequence: FollowUpSequence, sentAt: string): FollowUpSequence {
+  if (sequence.anchorSource === "sent") {
+    return sequence;
+  }
+  return {
+    ...sequence,
+    anchorAt: sentAt,
+    anchorSource: "sent",
+    steps: sequence.steps.map((step) =>
+      isOpenFollowUp(step) ? reschedule(step, sentAt, step.delayDays) : step,
+    ),
+  };
+}
+
+export function setFollowUpDelay(sequence: FollowUpSequence, stepId: string, delayDays: number): FollowUpSequence {
+  return {
+    ...sequence,
+    steps: sequence.steps.map((step) =>
+      step.id === stepId && isOpenFollowUp(step) ? reschedule(step, sequence.anchorAt, delayDays) : step,
+    ),
+  };
+}
+
+/** Flags scheduled steps whose due date has passed. Returns the steps that became due. */
+export function markDueFollowUps(sequence: FollowUpSequence, now: string): { sequence: FollowUpSequence; surfaced: FollowUpStep[] } {
+  if (sequence.replyReceivedAt) {
+    return { sequence, surfaced: [] };
+  }
+  const surfaced: FollowUpStep[] = [];
+  const steps = sequence.steps.map((step) => {
+    if (step.status !== "scheduled" || Date.parse(step.dueAt) > Date.parse(now)) {
+      return step;
+    }
+    const next: FollowUpStep = { ...step, status: "due", surfacedAt: now };
+    surfaced.push(next);
+    return next;
+  });
+  return { sequence: { ...sequence, steps }, surfaced };
+}
+
+export function completeFollowUp(
+  sequence: FollowUpSequence,
+  stepId: string,
+  status: "sent" | "skipped",
+  at: string,
+): FollowUpSequence {
+  return {
+    ...sequence,
+    steps: sequence.steps.map((step) =>
+      step.id === stepId && isOpenFollowUp(step) ? { ...step, status, completedAt: at } : step,
+    ),
+  };
+}
+
+/** A reply ends the sequence: every open step is cancelled. */
+export function markReplyReceived(sequence: FollowUpSequence, at: string): FollowUpSequence {
+  return {
+    ...sequence,
+    replyReceivedAt: at,
+    steps: sequence.steps.map((step) => (isOpenFollowUp(step) ? { ...step, status: "cancelled", completedAt: at } : step)),
+  };
+}
+
+export function nextFollowUpDueAt(sequence: FollowUpSequence | null): string | null {
+  if (!sequence || sequence.replyReceivedAt) {
+    return null;
+  }
+  const pending = sequence.steps.filter((step) => step.status === "scheduled").map((step) => step.dueAt);
+  return pending.length ? pending.reduce((min, value) => (value < min ? value : min)) : null;
+}
+
+export function countDueFollowUps(metadata: Record<string, unknown> | null | undefined): number {
+  return readFollowUps(metadata)?.steps.filter((step) => step.status === "due").length ?? 0;
+}
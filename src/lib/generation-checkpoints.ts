@@ -0,0 +1,100 @@
+import "server-only";
+
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+
+/**
+ * Per-step outputs of a generation run, stored under
+ * `sessions/{sessionId}/generationLogs/{generationId}/checkpoints/{step}` so a
+ * retry of the same generation can skip the steps that already finished.
+ * Payloads are stored as JSON strings: step outputs contain nested arrays and
+ * optional fields that Firestore would otherwise reject.
+ */
+
+export const CHECKPOINT_STEPS = [
+  "input",
+  "research",
+  "cv",
+  "ats",
+  "contacts",
+  "coverLetter",
+  "coldEmail",
+  "followUps",
+  "interviewPrep",
+] as const;
+
+export type CheckpointStep = (typeof CHECKPOINT_STEPS)[number];
+
+export type SavedCheckpoints = Partial<Record<CheckpointStep, unknown>>;
+
+/** Stays under Firestore's 1 MiB document limit with room for the envelope fields. */
+const MAX_PAYLOAD_BYTES = 900_000;
+
+const logger = createDebugLogger("generation-checkpoints");
+
+function checkpointsRef(sessionId: string, generationId: string) {
+  return getDb()
+    .collection("sessions")
+    .doc(sessionId)
+    .collection("generationLogs")
+    .doc(generationId)
+    .collection("checkpoints");
+}
+
+function isCheckpointStep(value: string): value is CheckpointStep {
+  return (CHECKPOINT_STEPS as readonly string[]).includes(value);
+}
+
+export async function loadGenerationCheckpoints(sessionId: string, generationId: string): Promise<SavedCheckpoints> {
+  const snapshot = await checkpointsRef(sessionId, generationId).get();
+  const saved: SavedCheckpoints = {};
+  for (const doc of snapshot.docs) {
+    const payload = doc.data().payload;
+    if (!isCheckpointStep(doc.id) || typeof payload !== "string") {
+      continue;
+    }
+    try {
+      saved[doc.id] = JSON.parse(payload);
+    } catch (error) {
+      logger.warn("Discarding unreadable checkpoint", {
+        sessionId,
+        generationId,
+        step: doc.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return saved;
+}
+
+/** Returns false when the payload is too large to checkpoint; the step will simply rerun on resume. */
+export async function saveGenerationCheckpoint(
+  sessionId: string,
+  generationId: string,
+  step: CheckpointStep,
+  value: unknown,
+): Promise<boolean> {
+  const payload = JSON.stringify(value ?? null);
+  if (Buffer.byteLength(payload, "utf8") > MAX_PAYLOAD_BYTES) {
+    logger.warn("Checkpoint payload too large; skipping", { sessionId, generationId, step, bytes: payload.length });
+    return false;
+  }
+  await checkpointsRef(sessionId, generationId).doc(step).set({
+    step,
+    payload,
+    savedAt: new Date().toISOString(),
+  });
+  logger.step("Saved generation checkpoint", { sessionId, generationId, step });
+  return true;
+}
+
+export async function clearGenerationCheckpoints(sessionId: string, generationId: string): Promise<void> {
+  const docs = await checkpointsRef(sessionId, generationId).listDocuments();
+  if (!docs.length) {
+    return;
+  }
+  const batch = getDb().batch();
+  docs.forEach((doc) => batch.delete(doc));
+  await batch.commit();
+  logger.step("Cleared generation checkpoints", { sessionId, generationId, count: docs.length });
+}
@@ -0,0 +1,209 @@
+import "server-only";
+
+import { createDebugLogger } from "@/lib/debug-logger";
+import {
+  formatSseComment,
+  formatSseEvent,
+  type GenerationEvent,
+  type SequencedGenerationEvent,
+} from "@/lib/generation-events";
+
+/**
+ * In-process buffer of generation events keyed by generationId. The workflow
+ * publishes into a channel; the POST response and any reconnecting GET are
+ * subscribers that replay what they missed and then follow live events.
+ * Channels are kept for a while after the final event so late reconnects can
+ * still read the outcome. Being in-memory, a reconnect has to reach the same
+ * server instance; otherwise the client falls back to the stored session.
+ */
+
+const MAX_BUFFERED_EVENTS = 20_000;
+const RETENTION_MS = 10 * 60 * 1000;
+const HEARTBEAT_MS = 15_000;
+
+type Listener = (entry: SequencedGenerationEvent | null) => void;
+
+type Channel = {
+  userId: string;
+  sessionId: string;
+  events: SequencedGenerationEvent[];
+  nextId: number;
+  listeners: Set<Listener>;
+  done: boolean;
+};
+
+export type GenerationChannel = {
+  publish: (event: GenerationEvent) => void;
+  close: () => void;
+  /** Ends every subscriber without a final event and forgets the channel, so reconnects get a 404. */
+  detach: () => void;
+};
+
+declare global {
+  // Route handlers are bundled separately, so the POST that starts a generation and the
+  // GET that reconnects to it only share channels through a process-wide map.
+  var __generationEventChannels__: Map<string, Channel> | undefined;
+}
+
+const channels = (globalThis.__generationEventChannels__ ??= new Map<string, Channel>());
+const logger = createDebugLogger("generation-event-hub");
+const encoder = new TextEncoder();
+
+function scheduleRemoval(generationId: string, channel: Channel) {
+  const timer = setTimeout(() => {
+    if (channels.get(generationId) === channel) {
+      channels.delete(generationId);
+    }
+  }, RETENTION_MS);
+  timer.unref?.();
+}
+
+/**
+ * Opens the channel the workflow publishes into. A channel that is still open
+ * for the same user is reused, so the request that queued a generation keeps
+ * streaming once a worker on this instance picks it up; finished ones are replaced.
+ */
+export function openGenerationChannel(
+  generationId: string,
+  owner: { userId: string; sessionId: string },
+): GenerationChannel {
+  const existing = channels.get(generationId);
+  const channel: Channel =
+    existing && !existing.done && existing.userId === owner.userId
+      ? existing
+      : { ...owner, events: [], nextId: 1, listeners: new Set(), done: false };
+  channels.set(generationId, channel);
+
+  const publish = (event: GenerationEvent) => {
+    if (channel.done) {
+      return;
+    }
+    const entry = { id: channel.nextId++, event };
+    channel.events.push(entry);
+    if (channel.events.length > MAX_BUFFERED_EVENTS) {
+      channel.events.shift();
+    }
+    for (const listener of channel.listeners) {
+      listener(entry);
+    }
+    if (event.type === "final") {
+      close();
+    }
+  };
+
+  const close = () => {
+    if (channel.done) {
+      return;
+    }
+    if (!channel.events.some((entry) => entry.event.type === "final")) {
+      publish({ type: "final", status: "failed", message: "Generation ended unexpectedly." });
+      return;
+    }
+    channel.done = true;
+    for (const listener of channel.listeners) {
+      listener(null);
+    }
+    channel.listeners.clear();
+    scheduleRemoval(generationId, channel);
+    logger.step("Generation channel closed", { generationId, events: channel.nextId - 1 });
+  };
+
+  const detach = () => {
+    if (channel.done) {
+      return;
+    }
+    channel.done = true;
+    for (const listener of channel.listeners) {
+      listener(null);
+    }
+    channel.listeners.clear();
+    if (channels.get(generationId) === channel) {
+      channels.delete(generationId);
+    }
+    logger.step("Generation channel detached", { generationId, events: channel.nextId - 1 });
+  };
+
+  return { publish, close, detach };
+}
+
+/**
+ * SSE stream of a generation's events after `lastEventId`. Returns null when
+ * the channel is unknown on this instance or belongs to another user.
+ */
+export function createGenerationEventStream(
+  generationId: string,
+  userId: string,
+  lastEventId = 0,
+): ReadableStream<Uint8Array> | null {
+  const channel = channels.get(generationId);
+  if (!channel || channel.userId !== userId) {
+    return null;
+  }
+
+  let listener: Listener | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  const stop = () => {
+    if (listener) {
+      channel.listeners.delete(listener);
+      listener = null;
+    }
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const entry of channel.events) {
+        if (entry.id > lastEventId) {
+          controller.enqueue(encoder.encode(formatSseEvent(entry)));
+        }
+      }
+      if (channel.done) {
+        controller.close();
+        return;
+      }
+      listener = (entry) => {
+        try {
+          if (entry) {
+            controller.enqueue(encoder.encode(formatSseEvent(entry)));
+          } else {
+            stop();
+            controller.close();
+          }
+        } catch {
+          // The client went away; the workflow keeps publishing for reconnects.
+          stop();
+        }
+      };
+      channel.listeners.add(listener);
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(formatSseComment("keep-alive")));
+        } catch {
+          stop();
+        }
+      }, HEARTBEAT_MS);
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
+
+/** One-shot SSE stream for requests that fail before a workflow starts. */
+export function createFailedEventStream(message: string): ReadableStream<Uint8Array> {
+  const events: SequencedGenerationEvent[] = [
+    { id: 1, event: { type: "error", message } },
+    { id: 2, event: { type: "final", status: "failed", message } },
+  ];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const entry of events) {
+        controller.enqueue(encoder.encode(formatSseEvent(entry)));
+      }
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyLiveGenerationEvent,
+  createSseParser,
+  EMPTY_LIVE_GENERATION,
+  formatSseComment,
+  formatSseEvent,
+  scopeTokenAttempt,
+} from "./generation-events";
+
+describe("generation SSE protocol", () => {
+  it("round-trips events split across arbitrary chunks", () => {
+    const wire =
+      formatSseEvent({ id: 1, event: { type: "step", message: "Researching" } }) +
+      formatSseComment("keep-alive") +
+      formatSseEvent({ id: 2, event: { type: "token", artifact: "cv", delta: "\\section{", attempt: 1 } }) +
+      formatSseEvent({ id: 3, event: { type: "final", status: "completed", artifacts: {} } });
+    const parser = createSseParser();
+    const events = [wire.slice(0, 17), wire.slice(17, 60), wire.slice(60)].flatMap((chunk) => parser.push(chunk));
+
+    expect(events).toEqual([
+      { id: 1, event: { type: "step", message: "Researching" } },
+      { id: 2, event: { type: "token", artifact: "cv", delta: "\\section{", attempt: 1 } },
+      { id: 3, event: { type: "final", status: "completed", artifacts: {} } },
+    ]);
+  });
+
+  it("drops unknown event types and malformed data", () => {
+    const parser = createSseParser();
+    expect(parser.push("id: 1\nevent: ping\ndata: {}\n\nid: 2\nevent: step\ndata: not-json\n\n")).toEqual([]);
+  });
+
+  it("restarts a draft when the model call is retried", () => {
+    let state = applyLiveGenerationEvent(EMPTY_LIVE_GENERATION, { type: "token", artifact: "cv", delta: "Hel", attempt: 1 });
+    state = applyLiveGenerationEvent(state, { type: "token", artifact: "cv", delta: "lo", attempt: 1 });
+    expect(state.drafts.cv?.text).toBe("Hello");
+
+    state = applyLiveGenerationEvent(state, { type: "token", artifact: "cv", delta: "Again", attempt: 2 });
+    state = applyLiveGenerationEvent(state, { type: "progress", completed: 1, total: 6, label: "Writing the tailored CV" });
+    expect(state).toEqual({
+      progress: { completed: 1, total: 6, label: "Writing the tailored CV" },
+      drafts: { cv: { text: "Again", attempt: 2 } },
+    });
+  });
+
+  it("starts a fresh draft when a retried job streams the same model attempt again", () => {
+    const firstJob = scopeTokenAttempt({ type: "token", artifact: "cv", delta: "Failed draft", attempt: 1 }, 1);
+    const retriedJob = scopeTokenAttempt({ type: "token", artifact: "cv", delta: "Retry", attempt: 1 }, 2);
+    let state = applyLiveGenerationEvent(EMPTY_LIVE_GENERATION, firstJob);
+    state = applyLiveGenerationEvent(state, retriedJob);
+
+    expect(state.drafts.cv?.text).toBe("Retry");
+    expect(scopeTokenAttempt({ type: "step", message: "Researching" }, 2)).toEqual({ type: "step", message: "Researching" });
+  });
+});
@@ -0,0 +1,162 @@
+import type { ArtifactPayload, GenerationArtifacts } from "@/hooks/useStreamableValue";
+
+/**
+ * Typed event protocol for `/api/generate`, delivered as Server-Sent Events.
+ * Every event carries a per-generation sequence number as its SSE `id`, so a
+ * client that drops mid-generation can resume from
+ * `/api/generate/events?generationId=...` with a `Last-Event-ID` header.
+ */
+
+export type GenerationArtifactName = keyof GenerationArtifacts;
+
+/** Artifacts whose text is streamed token by token while the model writes. */
+export type StreamedArtifactName = "cv" | "coverLetter";
+
+export type GenerationLineLevel = "info" | "warning" | "error";
+
+export type GenerationProgress = {
+  completed: number;
+  total: number;
+  label: string;
+};
+
+export type GenerationEvent =
+  | { type: "step"; message: string }
+  | ({ type: "progress" } & GenerationProgress)
+  /** `attempt` changes when the model call is retried; drafts for a new attempt replace the old text. */
+  | { type: "token"; artifact: StreamedArtifactName; delta: string; attempt: number }
+  | { type: "artifact"; artifact: GenerationArtifactName; payload: ArtifactPayload }
+  | { type: "warning"; message: string }
+  | { type: "error"; message: string }
+  | { type: "final"; status: "completed" | "failed"; artifacts?: GenerationArtifacts; message?: string };
+
+export type GenerationEventType = GenerationEvent["type"];
+
+export type SequencedGenerationEvent = {
+  id: number;
+  event: GenerationEvent;
+};
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<GenerationEventType>([
+  "step",
+  "progress",
+  "token",
+  "artifact",
+  "warning",
+  "error",
+  "final",
+]);
+
+export function formatSseEvent({ id, event }: SequencedGenerationEvent): string {
+  const { type, ...data } = event;
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function formatSseComment(comment: string): string {
+  return `: ${comment}\n\n`;
+}
+
+function toGenerationEvent(type: string, data: string): GenerationEvent | null {
+  if (!EVENT_TYPES.has(type)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(data) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return null;
+    }
+    return { ...(parsed as Record<string, unknown>), type } as GenerationEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental SSE parser: feed decoded chunks as they arrive and it returns
+ * the events completed so far. Comments and unknown event types are dropped.
+ */
+export function createSseParser() {
+  let buffer = "";
+  let id: number | null = null;
+  let type = "message";
+  let data: string[] = [];
+
+  const dispatch = (out: SequencedGenerationEvent[]) => {
+    const event = data.length ? toGenerationEvent(type, data.join("\n")) : null;
+    if (event && id !== null) {
+      out.push({ id, event });
+    }
+    id = null;
+    type = "message";
+    data = [];
+  };
+
+  return {
+    push(chunk: string): SequencedGenerationEvent[] {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+      const out: SequencedGenerationEvent[] = [];
+      for (const line of lines) {
+        if (!line) {
+          dispatch(out);
+          continue;
+        }
+        if (line.startsWith(":")) {
+          continue;
+        }
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "id") {
+          const parsed = Number.parseInt(value, 10);
+          id = Number.isFinite(parsed) ? parsed : null;
+        } else if (field === "event") {
+          type = value;
+        } else if (field === "data") {
+          data.push(value);
+        }
+      }
+      return out;
+    },
+  };
+}
+
+export type LiveGenerationDraft = {
+  text: string;
+  attempt: number;
+};
+
+/** What the chat view shows while a generation is still running. */
+export type LiveGenerationState = {
+  progress: GenerationProgress | null;
+  drafts: Partial<Record<StreamedArtifactName, LiveGenerationDraft>>;
+};
+
+export const EMPTY_LIVE_GENERATION: LiveGenerationState = { progress: null, drafts: {} };
+
+const TOKEN_ATTEMPTS_PER_JOB_ATTEMPT = 1000;
+
+/**
+ * ModelClient numbers token attempts from 1 on every run, but a retried job
+ * keeps publishing on the same stream. Spacing each job attempt's numbers
+ * apart makes the retry's draft replace the failed attempt's text.
+ */
+export function scopeTokenAttempt(event: GenerationEvent, jobAttempt: number): GenerationEvent {
+  if (event.type !== "token" || jobAttempt <= 1) {
+    return event;
+  }
+  return { ...event, attempt: (jobAttempt - 1) * TOKEN_ATTEMPTS_PER_JOB_ATTEMPT + event.attempt };
+}
+
+export function applyLiveGenerationEvent(state: LiveGenerationState, event: GenerationEvent): LiveGenerationState {
+  if (event.type === "progress") {
+    return { ...state, progress: { completed: event.completed, total: event.total, label: event.label } };
+  }
+  if (event.type !== "token") {
+    return state;
+  }
+  const current = state.drafts[event.artifact];
+  const text = current && current.attempt === event.attempt ? current.text + event.delta : event.delta;
+  return { ...state, drafts: { ...state.drafts, [event.artifact]: { text, attempt: event.attempt } } };
+}
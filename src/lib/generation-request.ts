@@ -0,0 +1,86 @@
+import type { ChatMode } from "@/store/session-store";
+
+export const DEFAULT_CV_STRATEGY = "Emphasize quantified impact and LaTeX layout parity.";
+export const DEFAULT_COVER_LETTER_STRATEGY = "Concise one-page cover letter.";
+export const DEFAULT_COLD_EMAIL_STRATEGY = "Short email under 150 words.";
+
+export type GenerationSourceDocuments = {
+  originalCV: string;
+  extensiveCV: string;
+  resumeJson?: string;
+  cvTemplate?: string;
+  cvStrategy?: string;
+  coverLetterStrategy?: string;
+  coldEmailStrategy?: string;
+};
+
+export type GenerationRequestFields = {
+  sessionId: string;
+  generationId: string;
+  mode: ChatMode;
+  jobDescription: string;
+  companyName: string;
+  jobTitle: string;
+  companyWebsite: string;
+  contactName: string;
+  contactTitle: string;
+  contactEmail: string;
+  companyProfile: string;
+  genericEmail: string;
+  jobSourceUrl: string;
+  emailAddresses: string[];
+  sourceDocuments: GenerationSourceDocuments;
+  cvProfileId?: string;
+};
+
+/** Builds the multipart body expected by `/api/generate`. */
+export function buildGenerationFormData(fields: GenerationRequestFields): FormData {
+  const { sourceDocuments } = fields;
+  const formData = new FormData();
+  formData.append("sessionId", fields.sessionId);
+  formData.append("generationId", fields.generationId);
+  formData.append("jobDescription", fields.jobDescription);
+  formData.append("companyName", fields.companyName);
+  formData.append("jobTitle", fields.jobTitle);
+  formData.append("companyWebsite", fields.companyWebsite);
+  formData.append("mode", fields.mode);
+  formData.append("originalCV", sourceDocuments.originalCV);
+  formData.append("extensiveCV", sourceDocuments.extensiveCV);
+  formData.append("resumeJson", sourceDocuments.resumeJson ?? "");
+  formData.append("cvTemplate", sourceDocuments.cvTemplate ?? "");
+  formData.append("cvStrategy", sourceDocuments.cvStrategy || DEFAULT_CV_STRATEGY);
+  formData.append("coverLetterStrategy", sourceDocuments.coverLetterStrategy || DEFAULT_COVER_LETTER_STRATEGY);
+  formData.append("coldEmailStrategy", sourceDocuments.coldEmailStrategy || DEFAULT_COLD_EMAIL_STRATEGY);
+  formData.append("validatedCVText", "");
+  formData.append("contactName", fields.contactName);
+  formData.append("contactTitle", fields.contactTitle);
+  formData.append("contactEmail", fields.contactEmail);
+  formData.append("companyProfile", fields.companyProfile);
+  formData.append("genericEmail", fields.genericEmail);
+  formData.append("jobSourceUrl", fields.jobSourceUrl);
+  formData.append("emailAddresses", fields.emailAddresses.join(","));
+  formData.append("cvProfileId", fields.cvProfileId ?? "");
+  return formData;
+}
+
+/** A JSON Resume replaces the LaTeX CV pair; otherwise both CV documents are required. */
+export function hasCvSource(sourceDocuments: GenerationSourceDocuments): boolean {
+  if (sourceDocuments.resumeJson?.trim()) {
+    return true;
+  }
+  return Boolean(sourceDocuments.originalCV && sourceDocuments.extensiveCV);
+}
+
+export function createGenerationId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `gen-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createClientRequestId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `req-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { PROCESSING_TIMEOUT_MS } from "@/app/actions/generate/constants";
+import { readResumableGenerationId } from "./generation-resume";
+
+describe("readResumableGenerationId", () => {
+  it("offers a failed run that saved checkpoints", () => {
+    expect(readResumableGenerationId({ status: "failed", metadata: { resumableGenerationId: "gen-1" } })).toBe("gen-1");
+    expect(readResumableGenerationId({ status: "failed", metadata: {} })).toBeNull();
+  });
+
+  it("offers a processing run only once it has outlived the processing timeout", () => {
+    const startedAt = Date.parse("2026-01-01T00:00:00.000Z");
+    const session = {
+      status: "processing",
+      metadata: { activeGenerationId: "gen-2", processingHoldStartedAt: new Date(startedAt).toISOString() },
+    };
+
+    expect(readResumableGenerationId(session, startedAt + 60_000)).toBeNull();
+    expect(readResumableGenerationId(session, startedAt + PROCESSING_TIMEOUT_MS + 1)).toBe("gen-2");
+  });
+
+  it("ignores completed sessions", () => {
+    expect(readResumableGenerationId({ status: "completed", metadata: { resumableGenerationId: "gen-3" } })).toBeNull();
+  });
+});
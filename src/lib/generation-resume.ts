@@ -0,0 +1,40 @@
+import { PROCESSING_TIMEOUT_MS } from "@/app/actions/generate/constants";
+
+/**
+ * Session metadata that marks a generation as resumable from its checkpoints:
+ * `resumableGenerationId` is set when a run fails, and a run still marked
+ * `activeGenerationId` after the processing timeout is treated as abandoned.
+ */
+
+export const ACTIVE_GENERATION_KEY = "activeGenerationId";
+export const RESUMABLE_GENERATION_KEY = "resumableGenerationId";
+
+type SessionLike = {
+  status: string;
+  metadata?: Record<string, unknown> | null;
+};
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+export function readResumableGenerationId(session: SessionLike, now: number = Date.now()): string | null {
+  const metadata = session.metadata ?? {};
+  if (session.status === "failed") {
+    return asString(metadata[RESUMABLE_GENERATION_KEY]);
+  }
+  if (session.status !== "processing") {
+    return null;
+  }
+  const activeGenerationId = asString(metadata[ACTIVE_GENERATION_KEY]);
+  const startedAt = Date.parse(asString(metadata.processingHoldStartedAt) ?? "");
+  if (!activeGenerationId || Number.isNaN(startedAt)) {
+    return null;
+  }
+  return now - startedAt > PROCESSING_TIMEOUT_MS ? activeGenerationId : null;
+}
+
+/** The generation a processing session is running or waiting on, if any. */
+export function readActiveGenerationId(session: SessionLike): string | null {
+  return session.status === "processing" ? asString(session.metadata?.[ACTIVE_GENERATION_KEY]) : null;
+}
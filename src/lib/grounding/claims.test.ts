@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { checkGrounding, extractClaims, readGroundingReport } from "./claims";
+
+const extensiveCV = `Senior Engineer, Northwind Logistics (05/2019 - 2024)
+Cut infrastructure cost by 30% with Kubernetes. Led a team of 4.`;
+
+const latex = String.raw`\documentclass[10pt]{article}
+\usepackage[margin=0.6in]{geometry}
+\begin{document}
+\textbf{Senior Engineer, Northwind Logistics} \hfill May 2019 -- 2024
+\item Cut infrastructure cost by 30\% with Kubernetes.
+\item Led a team of 12 engineers at Globex using Terraform.
+\end{document}`;
+
+describe("fact grounding", () => {
+  it("reports claims missing from the sources with their LaTeX line", () => {
+    const report = checkGrounding(latex, [extensiveCV], { format: "latex" });
+    expect(report.unsupported.map(({ claim, kind, line }) => ({ claim, kind, line }))).toEqual([
+      { claim: "12", kind: "number", line: 6 },
+      { claim: "Globex", kind: "term", line: 6 },
+      { claim: "Terraform", kind: "term", line: 6 },
+    ]);
+    expect(report.unsupported[0].excerpt).toBe("Led a team of 12 engineers at Globex using Terraform.");
+    expect(report.checkedClaims).toBeGreaterThan(report.unsupported.length);
+  });
+
+  it("skips the preamble and treats dates by year", () => {
+    const claims = extractClaims(latex, "latex");
+    expect(claims.some((claim) => claim.line < 4)).toBe(false);
+    expect(claims.filter((claim) => claim.kind === "date").map((claim) => claim.claim)).toEqual(["May 2019", "2024"]);
+    expect(checkGrounding("Joined in March 2020.", [extensiveCV]).unsupported.map((claim) => claim.claim)).toEqual(["March 2020"]);
+  });
+
+  it("round-trips a stored report", () => {
+    const report = checkGrounding("Built it with Terraform.", [extensiveCV], { allowedTerms: [] });
+    expect(readGroundingReport(JSON.parse(JSON.stringify(report)))).toEqual(report);
+    expect(readGroundingReport({ unsupported: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { latexToPlainText, normalizeAtsText } from "@/lib/ats/keyword-score";
+
+/**
+ * Deterministic fact check for generated documents. Numbers, dates, and
+ * mid-sentence capitalized terms (titles, employers, technologies) are pulled
+ * from each line and looked up in the source documents; whatever cannot be
+ * found is reported with its line so the user can fix it before sending.
+ * Sentence-initial words are skipped, so some claims slip through, but the
+ * report rarely cries wolf.
+ */
+
+export type ClaimKind = "number" | "date" | "term";
+
+export type DocumentClaim = {
+  claim: string;
+  kind: ClaimKind;
+  /** 1-based line in the checked document (the LaTeX source for CVs). */
+  line: number;
+  excerpt: string;
+};
+
+export type GroundingReport = {
+  format: "latex" | "text";
+  checkedClaims: number;
+  unsupported: DocumentClaim[];
+};
+
+const MONTH_PATTERN = "jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec";
+const DATE_CLAIM = new RegExp(`\\b(?:(?:${MONTH_PATTERN})[a-z]*\\.?\\s+)?(?:19|20)\\d{2}\\b`, "gi");
+const NUMERIC_CLAIM = /(?<![\w.])\d+(?:[.,]\d+)*\s*(?:%|\+|k\b|m\b|x\b)?/gi;
+const CAPITALIZED_TERM = /(?<=[a-z,;:]\s+)[A-Z][A-Za-z0-9+#.-]*[A-Za-z0-9+#]/g;
+const MAX_EXCERPT_LENGTH = 120;
+
+/** Capitalized words that carry no factual claim. */
+const COMMON_TERMS = new Set([
+  "january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "dear", "hiring", "manager", "team", "regards", "sincerely",
+  "best", "thanks", "thank", "hello", "hi", "present", "current", "email", "phone",
+]);
+
+function compact(value: string): string {
+  return normalizeAtsText(value).replace(/[\s\\]/g, "");
+}
+
+function plainLines(document: string, format: GroundingReport["format"]): Array<{ line: number; text: string }> {
+  const lines = document.replace(/\r/g, "").split("\n");
+  const bodyStart = format === "latex" ? lines.findIndex((line) => line.includes("\\begin{document}")) : -1;
+  return lines
+    .map((line, index) => ({ line: index + 1, text: format === "latex" ? latexToPlainText(line) : line }))
+    .filter((entry) => entry.line > bodyStart + 1 || bodyStart < 0)
+    .map((entry) => ({ ...entry, text: entry.text.replace(/\s+/g, " ").trim() }))
+    .filter((entry) => entry.text.length > 0);
+}
+
+export function extractClaims(document: string, format: GroundingReport["format"] = "text"): DocumentClaim[] {
+  const claims: DocumentClaim[] = [];
+  for (const { line, text } of plainLines(document, format)) {
+    const excerpt = text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+    const found: Array<{ index: number; claim: string; kind: ClaimKind }> = [];
+    const dateSpans: Array<[number, number]> = [];
+    for (const match of text.matchAll(DATE_CLAIM)) {
+      found.push({ index: match.index, claim: match[0], kind: "date" });
+      dateSpans.push([match.index, match.index + match[0].length]);
+    }
+    for (const match of text.matchAll(NUMERIC_CLAIM)) {
+      const insideDate = dateSpans.some(([start, end]) => match.index >= start && match.index < end);
+      if (!insideDate) {
+        found.push({ index: match.index, claim: match[0].trim(), kind: "number" });
+      }
+    }
+    for (const match of text.matchAll(CAPITALIZED_TERM)) {
+      const insideDate = dateSpans.some(([start, end]) => match.index >= start && match.index < end);
+      if (!insideDate && !COMMON_TERMS.has(match[0].toLowerCase())) {
+        found.push({ index: match.index, claim: match[0], kind: "term" });
+      }
+    }
+    const seen = new Set<string>();
+    for (const entry of found.sort((a, b) => a.index - b.index)) {
+      if (!seen.has(entry.claim)) {
+        seen.add(entry.claim);
+        claims.push({ claim: entry.claim, kind: entry.kind, line, excerpt });
+      }
+    }
+  }
+  return claims;
+}
+
+function isSupported(claim: DocumentClaim, haystack: string): boolean {
+  if (claim.kind === "date") {
+    // Sources write dates many ways ("05/2021", "May '21"); the year is what has to match.
+    const years = claim.claim.match(/(?:19|20)\d{2}/g) ?? [];
+    return years.every((year) => haystack.includes(year));
+  }
+  return haystack.includes(compact(claim.claim));
+}
+
+export function checkGrounding(
+  document: string,
+  sources: string[],
+  options: { format?: GroundingReport["format"]; allowedTerms?: string[] } = {},
+): GroundingReport {
+  const format = options.format ?? "text";
+  const haystack = compact([...sources, ...(options.allowedTerms ?? [])].join(" "));
+  const claims = extractClaims(document, format);
+  return {
+    format,
+    checkedClaims: claims.length,
+    unsupported: claims.filter((claim) => !isSupported(claim, haystack)),
+  };
+}
+
+/** Reads a persisted report back out of session metadata. */
+export function readGroundingReport(value: unknown): GroundingReport | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.checkedClaims !== "number" || !Array.isArray(record.unsupported)) {
+    return null;
+  }
+  const unsupported = record.unsupported
+    .map((entry) => (entry && typeof entry === "object" ? (entry as Record<string, unknown>) : null))
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry && typeof entry.claim === "string" && typeof entry.line === "number"))
+    .map((entry) => ({
+      claim: entry.claim as string,
+      kind: entry.kind === "number" || entry.kind === "date" ? entry.kind : ("term" as ClaimKind),
+      line: entry.line as number,
+      excerpt: typeof entry.excerpt === "string" ? entry.excerpt : "",
+    }));
+  return {
+    format: record.format === "latex" ? "latex" : "text",
+    checkedClaims: record.checkedClaims,
+    unsupported,
+  };
+}
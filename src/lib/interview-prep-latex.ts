@@ -0,0 +1,60 @@
+import type { InterviewPrepPack } from "./interview-prep";
+import { escapeLatex } from "./resume/latex-templates";
+
+/**
+ * Typesets an interview prep pack for PDF export. Like the resume templates,
+ * the LaTeX is built here and every model-written string is escaped.
+ */
+
+type InterviewPrepHeading = {
+  companyName?: string;
+  jobTitle?: string;
+};
+
+function renderItemize(items: string[]): string[] {
+  return ["\\begin{itemize}", ...items.map((item) => `  \\item ${escapeLatex(item)}`), "\\end{itemize}"];
+}
+
+export function buildInterviewPrepLatex(pack: InterviewPrepPack, heading: InterviewPrepHeading): string {
+  const title = [heading.jobTitle, heading.companyName].filter((value) => value?.trim()).join(" at ");
+  const lines: string[] = [
+    "\\documentclass[10pt,a4paper]{article}",
+    "\\usepackage[margin=0.8in]{geometry}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{enumitem}",
+    "\\setlength{\\parindent}{0pt}",
+    "\\setlength{\\parskip}{4pt}",
+    "\\setlist[itemize]{leftmargin=*,itemsep=2pt,topsep=2pt}",
+    "\\pagestyle{plain}",
+    "\\begin{document}",
+    "{\\LARGE\\bfseries Interview Preparation}\\\\[2pt]",
+  ];
+  if (title) {
+    lines.push(`{\\large ${escapeLatex(title)}}`);
+  }
+
+  lines.push("\\section*{Likely Questions}");
+  pack.questions.forEach((item, index) => {
+    lines.push(
+      `\\subsection*{${index + 1}. ${escapeLatex(item.question)}}`,
+      `\\textit{Pain point: ${escapeLatex(item.painPoint)}}`,
+      "",
+      `\\textbf{Situation.} ${escapeLatex(item.answer.situation)}`,
+      "",
+      `\\textbf{Task.} ${escapeLatex(item.answer.task)}`,
+      "",
+      `\\textbf{Action.} ${escapeLatex(item.answer.action)}`,
+      "",
+      `\\textbf{Result.} ${escapeLatex(item.answer.result)}`,
+    );
+    if (item.evidence) {
+      lines.push("", `{\\small Drawn from: ${escapeLatex(item.evidence)}}`);
+    }
+  });
+
+  lines.push("\\section*{Questions to Ask}", ...renderItemize(pack.questionsToAsk));
+  lines.push("\\section*{Talking Points}", ...renderItemize(pack.talkingPoints));
+  lines.push("\\end{document}", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { formatInterviewPrepText, readInterviewPrep, type InterviewPrepPack } from "./interview-prep";
+import { buildInterviewPrepLatex } from "./interview-prep-latex";
+
+const pack: InterviewPrepPack = {
+  questions: [
+    {
+      question: "How would you cut our 40% p95 latency?",
+      painPoint: "Slow checkout API",
+      answer: {
+        situation: "Checkout at Acme & Co timed out under load.",
+        task: "Bring p95 under 200ms.",
+        action: "Profiled the hot path and added a read-through cache.",
+        result: "p95 fell from 900ms to 150ms.",
+      },
+      evidence: "Acme Co, Senior Engineer",
+    },
+  ],
+  questionsToAsk: ["What does success look like in 90 days?"],
+  talkingPoints: ["Scaled payments_v2 to 5k rps"],
+};
+
+describe("readInterviewPrep", () => {
+  it("returns the stored pack and rejects malformed entries", () => {
+    const record = readInterviewPrep({ interviewPrep: { generationId: "g1", createdAt: "2025-01-01T00:00:00.000Z", pack } });
+    expect(record?.generationId).toBe("g1");
+    expect(record?.pack.questions).toHaveLength(1);
+    expect(readInterviewPrep({ interviewPrep: { pack: { questions: [] } } })).toBeNull();
+    expect(readInterviewPrep(undefined)).toBeNull();
+  });
+});
+
+describe("interview prep rendering", () => {
+  it("formats every section as plain text", () => {
+    const text = formatInterviewPrepText(pack);
+    expect(text).toContain("1. How would you cut our 40% p95 latency?");
+    expect(text).toContain("Result: p95 fell from 900ms to 150ms.");
+    expect(text).toContain("QUESTIONS TO ASK\n\n- What does success look like in 90 days?");
+  });
+
+  it("escapes model text in the LaTeX export", () => {
+    const latex = buildInterviewPrepLatex(pack, { companyName: "Acme & Co", jobTitle: "Backend Engineer" });
+    expect(latex).toContain("Backend Engineer at Acme \\& Co");
+    expect(latex).toContain("40\\% p95");
+    expect(latex).toContain("payments\\_v2");
+    expect(latex.trim().endsWith("\\end{document}")).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+/**
+ * Interview preparation pack drafted from the research brief: likely questions
+ * tied to the role's pain points, STAR answers grounded in the extensive CV,
+ * questions for the interviewer, and talking points. The latest pack is stored
+ * per session under `metadata.interviewPrep`.
+ */
+
+export const INTERVIEW_PREP_METADATA_KEY = "interviewPrep";
+
+const textSchema = (max: number) => z.string().trim().min(1).max(max);
+
+export const interviewPrepSchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        question: textSchema(400),
+        painPoint: textSchema(300),
+        answer: z.object({
+          situation: textSchema(1200),
+          task: textSchema(1200),
+          action: textSchema(1600),
+          result: textSchema(1200),
+        }),
+        evidence: z.string().trim().max(300).optional(),
+      }),
+    )
+    .min(1)
+    .max(12),
+  questionsToAsk: z.array(textSchema(400)).min(1).max(10),
+  talkingPoints: z.array(textSchema(600)).min(1).max(10),
+});
+
+export type InterviewPrepPack = z.infer<typeof interviewPrepSchema>;
+
+export type InterviewPrepRecord = {
+  generationId: string | null;
+  createdAt: string;
+  pack: InterviewPrepPack;
+};
+
+export function readInterviewPrep(metadata: Record<string, unknown> | null | undefined): InterviewPrepRecord | null {
+  const raw = metadata?.[INTERVIEW_PREP_METADATA_KEY];
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const record = raw as Record<string, unknown>;
+  const parsed = interviewPrepSchema.safeParse(record.pack);
+  if (!parsed.success) {
+    return null;
+  }
+  return {
+    generationId: typeof record.generationId === "string" ? record.generationId : null,
+    createdAt: typeof record.createdAt === "string" ? record.createdAt : "",
+    pack: parsed.data,
+  };
+}
+
+/** Plain-text rendering used for copy/paste and as the artifact's text content. */
+export function formatInterviewPrepText(pack: InterviewPrepPack): string {
+  const sections: string[] = ["LIKELY QUESTIONS"];
+  pack.questions.forEach((item, index) => {
+    sections.push(
+      [
+        `${index + 1}. ${item.question}`,
+        `   Pain point: ${item.painPoint}`,
+        `   Situation: ${item.answer.situation}`,
+        `   Task: ${item.answer.task}`,
+        `   Action: ${item.answer.action}`,
+        `   Result: ${item.answer.result}`,
+        ...(item.evidence ? [`   Drawn from: ${item.evidence}`] : []),
+      ].join("\n"),
+    );
+  });
+  sections.push("QUESTIONS TO ASK", pack.questionsToAsk.map((question) => `- ${question}`).join("\n"));
+  sections.push("TALKING POINTS", pack.talkingPoints.map((point) => `- ${point}`).join("\n"));
+  return sections.join("\n\n");
+}
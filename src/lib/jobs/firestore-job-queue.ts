@@ -0,0 +1,122 @@
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+import {
+  claimJob,
+  createQueuedJob,
+  finishJob,
+  isClaimable,
+  requestJobCancel,
+  requeueJob,
+  scheduleRetry,
+  type EnqueueJobInput,
+  type FinishedJobStatus,
+  type GenerationJob,
+  type GenerationJobStatus,
+} from "@/lib/jobs/policy";
+import type { IJobQueue } from "@/lib/jobs/types";
+
+const JOBS_COLLECTION = "generationJobs";
+/** Candidates fetched per claim; losing a race for one simply moves on to the next. */
+const CLAIM_BATCH = 5;
+const LIST_LIMIT = 50;
+
+/**
+ * Jobs live in the top-level `generationJobs` collection keyed by
+ * generationId. Every state change runs in a transaction, so two workers
+ * racing for the same job cannot both claim it.
+ */
+export class FirestoreJobQueue implements IJobQueue {
+  private readonly db = getDb();
+  private readonly logger = createDebugLogger("firestore-job-queue");
+
+  private get collection() {
+    return this.db.collection(JOBS_COLLECTION);
+  }
+
+  private async update(
+    jobId: string,
+    mutate: (job: GenerationJob) => GenerationJob | null,
+  ): Promise<GenerationJob | null> {
+    const ref = this.collection.doc(jobId);
+    return this.db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      const next = mutate(snapshot.data() as GenerationJob);
+      if (next) {
+        tx.set(ref, next);
+      }
+      return next;
+    });
+  }
+
+  async enqueue(input: EnqueueJobInput): Promise<GenerationJob> {
+    const job = createQueuedJob(input, new Date());
+    await this.collection.doc(job.id).set(job);
+    this.logger.step("Job enqueued", { jobId: job.id, sessionId: job.sessionId });
+    return job;
+  }
+
+  async get(jobId: string): Promise<GenerationJob | null> {
+    const snapshot = await this.collection.doc(jobId).get();
+    return snapshot.exists ? (snapshot.data() as GenerationJob) : null;
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<GenerationJob | null> {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const [queued, lapsed] = await Promise.all([
+      this.collection.where("status", "==", "queued").where("runAfter", "<=", nowIso).orderBy("runAfter").limit(CLAIM_BATCH).get(),
+      this.collection
+        .where("status", "==", "running")
+        .where("leaseExpiresAt", "<=", nowIso)
+        .orderBy("leaseExpiresAt")
+        .limit(CLAIM_BATCH)
+        .get(),
+    ]);
+    for (const doc of [...queued.docs, ...lapsed.docs]) {
+      const claimed = await this.update(doc.id, (job) => (isClaimable(job, now) ? claimJob(job, workerId, now, leaseMs) : null));
+      if (claimed) {
+        this.logger.step("Job claimed", { jobId: claimed.id, workerId, attempt: claimed.attempts });
+        return claimed;
+      }
+    }
+    return null;
+  }
+
+  async renewLease(jobId: string, workerId: string, leaseMs: number): Promise<GenerationJob | null> {
+    const now = new Date();
+    return this.update(jobId, (job) =>
+      job.status === "running" && job.leaseOwner === workerId
+        ? { ...job, leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(), updatedAt: now.toISOString() }
+        : null,
+    );
+  }
+
+  async retry(jobId: string, workerId: string, error: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) => (job.leaseOwner === workerId ? scheduleRetry(job, error, new Date()) : null));
+  }
+
+  async finish(jobId: string, workerId: string, status: FinishedJobStatus, error: string | null): Promise<void> {
+    const finished = await this.update(jobId, (job) =>
+      job.leaseOwner === workerId ? finishJob(job, status, error, new Date()) : null,
+    );
+    this.logger.step("Job finished", { jobId, workerId, status, recorded: Boolean(finished) });
+  }
+
+  async cancel(jobId: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) => requestJobCancel(job, new Date()));
+  }
+
+  async requeue(jobId: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) =>
+      job.status === "dead" || job.status === "cancelled" ? requeueJob(job, new Date()) : null,
+    );
+  }
+
+  async list(status: GenerationJobStatus): Promise<GenerationJob[]> {
+    const snapshot = await this.collection.where("status", "==", status).orderBy("updatedAt", "desc").limit(LIST_LIMIT).get();
+    return snapshot.docs.map((doc) => doc.data() as GenerationJob);
+  }
+}
@@ -0,0 +1,98 @@
+import { createDebugLogger } from "@/lib/debug-logger";
+import {
+  claimJob,
+  createQueuedJob,
+  finishJob,
+  isClaimable,
+  requestJobCancel,
+  requeueJob,
+  scheduleRetry,
+  type EnqueueJobInput,
+  type FinishedJobStatus,
+  type GenerationJob,
+  type GenerationJobStatus,
+} from "@/lib/jobs/policy";
+import type { IJobQueue } from "@/lib/jobs/types";
+
+declare global {
+  // Route handlers and the worker started from instrumentation are bundled
+  // separately, so they only share the in-memory queue through a process-wide map.
+  var __localGenerationJobs__: Map<string, GenerationJob> | undefined;
+}
+
+/**
+ * Single-process stand-in for local development and tests. Jobs follow the
+ * same lifecycle as the Firestore queue but are lost when the server restarts.
+ */
+export class LocalJobQueue implements IJobQueue {
+  private readonly jobs = (globalThis.__localGenerationJobs__ ??= new Map<string, GenerationJob>());
+  private readonly logger = createDebugLogger("local-job-queue");
+
+  private update(jobId: string, mutate: (job: GenerationJob) => GenerationJob | null): GenerationJob | null {
+    const job = this.jobs.get(jobId);
+    const next = job ? mutate(job) : null;
+    if (next) {
+      this.jobs.set(jobId, next);
+    }
+    return next;
+  }
+
+  async enqueue(input: EnqueueJobInput): Promise<GenerationJob> {
+    const job = createQueuedJob(input, new Date());
+    this.jobs.set(job.id, job);
+    this.logger.step("Job enqueued", { jobId: job.id, sessionId: job.sessionId });
+    return job;
+  }
+
+  async get(jobId: string): Promise<GenerationJob | null> {
+    return this.jobs.get(jobId) ?? null;
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<GenerationJob | null> {
+    const now = new Date();
+    const next = [...this.jobs.values()]
+      .filter((job) => isClaimable(job, now))
+      .sort((a, b) => a.runAfter.localeCompare(b.runAfter))[0];
+    if (!next) {
+      return null;
+    }
+    const claimed = claimJob(next, workerId, now, leaseMs);
+    this.jobs.set(claimed.id, claimed);
+    this.logger.step("Job claimed", { jobId: claimed.id, workerId, attempt: claimed.attempts });
+    return claimed;
+  }
+
+  async renewLease(jobId: string, workerId: string, leaseMs: number): Promise<GenerationJob | null> {
+    const now = new Date();
+    return this.update(jobId, (job) =>
+      job.status === "running" && job.leaseOwner === workerId
+        ? { ...job, leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(), updatedAt: now.toISOString() }
+        : null,
+    );
+  }
+
+  async retry(jobId: string, workerId: string, error: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) => (job.leaseOwner === workerId ? scheduleRetry(job, error, new Date()) : null));
+  }
+
+  async finish(jobId: string, workerId: string, status: FinishedJobStatus, error: string | null): Promise<void> {
+    this.update(jobId, (job) => (job.leaseOwner === workerId ? finishJob(job, status, error, new Date()) : null));
+    this.logger.step("Job finished", { jobId, workerId, status });
+  }
+
+  async cancel(jobId: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) => requestJobCancel(job, new Date()));
+  }
+
+  async requeue(jobId: string): Promise<GenerationJob | null> {
+    return this.update(jobId, (job) =>
+      job.status === "dead" || job.status === "cancelled" ? requeueJob(job, new Date()) : null,
+    );
+  }
+
+  async list(status: GenerationJobStatus): Promise<GenerationJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.status === status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
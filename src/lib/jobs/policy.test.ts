@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  claimJob,
+  createQueuedJob,
+  hasExhaustedAttempts,
+  isClaimable,
+  requestJobCancel,
+  retryDelayMs,
+  scheduleRetry,
+} from "./policy";
+
+const now = new Date("2026-05-01T10:00:00.000Z");
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+function queuedJob() {
+  return createQueuedJob(
+    {
+      id: "gen-1",
+      userId: "user-1",
+      sessionId: "session-1",
+      payload: "{}",
+      userDisplayName: null,
+      requestId: null,
+      holdKey: "session-1:req",
+      maxAttempts: 2,
+    },
+    now,
+  );
+}
+
+describe("generation job policy", () => {
+  it("reclaims a running job only after its lease lapses", () => {
+    const running = claimJob(queuedJob(), "worker-a", now, 60_000);
+    expect(running).toMatchObject({ status: "running", attempts: 1, leaseOwner: "worker-a" });
+    expect(isClaimable(running, later(59_000))).toBe(false);
+    expect(isClaimable(running, later(60_000))).toBe(true);
+
+    const recovered = claimJob(claimJob(running, "worker-b", later(60_000), 60_000), "worker-c", later(120_000), 60_000);
+    expect(hasExhaustedAttempts(recovered)).toBe(true);
+  });
+
+  it("backs off retries and waits until runAfter", () => {
+    expect([1, 2, 3, 10].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 600_000]);
+
+    const retried = scheduleRetry(claimJob(queuedJob(), "worker-a", now, 60_000), "overloaded", now);
+    expect(retried).toMatchObject({ status: "queued", attempts: 1, lastError: "overloaded", leaseOwner: null });
+    expect(isClaimable(retried, later(29_999))).toBe(false);
+    expect(isClaimable(retried, later(30_000))).toBe(true);
+  });
+
+  it("cancels queued jobs immediately and flags running ones", () => {
+    expect(requestJobCancel(queuedJob(), now).status).toBe("cancelled");
+
+    const running = requestJobCancel(claimJob(queuedJob(), "worker-a", now, 60_000), now);
+    expect(running).toMatchObject({ status: "running", cancelRequested: true });
+  });
+});
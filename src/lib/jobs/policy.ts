@@ -0,0 +1,140 @@
+/**
+ * Claim, lease, and retry rules shared by every job queue implementation.
+ * A worker claims a job by taking a lease; while it runs the job it keeps
+ * renewing the lease. A job whose lease lapses (the worker's instance died)
+ * becomes claimable again, and the claim counts as a fresh attempt.
+ */
+
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "cancelled" | "dead";
+
+export type GenerationJob = {
+  /** The generationId of the run; resuming a generation re-enqueues the same job. */
+  id: string;
+  userId: string;
+  sessionId: string;
+  status: GenerationJobStatus;
+  /** JSON of the parsed generation form. */
+  payload: string;
+  userDisplayName: string | null;
+  requestId: string | null;
+  holdKey: string;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  cancelRequested: boolean;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EnqueueJobInput = Pick<
+  GenerationJob,
+  "id" | "userId" | "sessionId" | "payload" | "userDisplayName" | "requestId" | "holdKey" | "maxAttempts"
+>;
+
+export type FinishedJobStatus = Extract<GenerationJobStatus, "succeeded" | "cancelled" | "dead">;
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+
+export function createQueuedJob(input: EnqueueJobInput, now: Date): GenerationJob {
+  const timestamp = now.toISOString();
+  return {
+    ...input,
+    status: "queued",
+    attempts: 0,
+    runAfter: timestamp,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    cancelRequested: false,
+    lastError: null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+export function isClaimable(job: GenerationJob, now: Date): boolean {
+  const time = now.getTime();
+  if (job.status === "queued") {
+    return !job.cancelRequested && Date.parse(job.runAfter) <= time;
+  }
+  return job.status === "running" && job.leaseExpiresAt !== null && Date.parse(job.leaseExpiresAt) <= time;
+}
+
+export function claimJob(job: GenerationJob, workerId: string, now: Date, leaseMs: number): GenerationJob {
+  return {
+    ...job,
+    status: "running",
+    attempts: job.attempts + 1,
+    leaseOwner: workerId,
+    leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/** True when the claim was a recovery of a lapsed lease on the job's final attempt. */
+export function hasExhaustedAttempts(job: GenerationJob): boolean {
+  return job.attempts > job.maxAttempts;
+}
+
+export function canRetry(job: GenerationJob): boolean {
+  return job.attempts < job.maxAttempts;
+}
+
+/** Exponential backoff: 30s, 60s, 120s, ... capped at ten minutes. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+export function scheduleRetry(job: GenerationJob, error: string, now: Date): GenerationJob {
+  return {
+    ...job,
+    status: "queued",
+    runAfter: new Date(now.getTime() + retryDelayMs(job.attempts)).toISOString(),
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    lastError: error,
+    updatedAt: now.toISOString(),
+  };
+}
+
+export function finishJob(job: GenerationJob, status: FinishedJobStatus, error: string | null, now: Date): GenerationJob {
+  return {
+    ...job,
+    status,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    lastError: error ?? job.lastError,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Queued jobs are cancelled outright; running jobs are flagged so their worker
+ * aborts at the next lease renewal. Finished jobs are left alone.
+ */
+export function requestJobCancel(job: GenerationJob, now: Date): GenerationJob {
+  if (job.status === "queued") {
+    return finishJob({ ...job, cancelRequested: true }, "cancelled", "Cancelled before it started.", now);
+  }
+  if (job.status === "running") {
+    return { ...job, cancelRequested: true, updatedAt: now.toISOString() };
+  }
+  return job;
+}
+
+/** Puts a dead-lettered job back in the queue with a fresh attempt budget. */
+export function requeueJob(job: GenerationJob, now: Date): GenerationJob {
+  return {
+    ...job,
+    status: "queued",
+    attempts: 0,
+    runAfter: now.toISOString(),
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    cancelRequested: false,
+    updatedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,35 @@
+import { env } from "@/env";
+import { FirestoreJobQueue } from "@/lib/jobs/firestore-job-queue";
+import { LocalJobQueue } from "@/lib/jobs/local-job-queue";
+import type {
+  EnqueueJobInput,
+  FinishedJobStatus,
+  GenerationJob,
+  GenerationJobStatus,
+} from "@/lib/jobs/policy";
+
+export interface IJobQueue {
+  /** Adds the job, replacing any earlier job with the same id (a resumed generation). */
+  enqueue(input: EnqueueJobInput): Promise<GenerationJob>;
+  get(jobId: string): Promise<GenerationJob | null>;
+  /** Takes the oldest runnable job, including running jobs whose lease has lapsed. */
+  claim(workerId: string, leaseMs: number): Promise<GenerationJob | null>;
+  /** Returns null when the worker no longer holds the lease. */
+  renewLease(jobId: string, workerId: string, leaseMs: number): Promise<GenerationJob | null>;
+  retry(jobId: string, workerId: string, error: string): Promise<GenerationJob | null>;
+  finish(jobId: string, workerId: string, status: FinishedJobStatus, error: string | null): Promise<void>;
+  cancel(jobId: string): Promise<GenerationJob | null>;
+  /** Moves a dead-lettered or cancelled job back to the queue. */
+  requeue(jobId: string): Promise<GenerationJob | null>;
+  list(status: GenerationJobStatus): Promise<GenerationJob[]>;
+}
+
+export function getJobQueue(): IJobQueue {
+  switch (env.JOB_QUEUE_PROVIDER) {
+    case "local":
+      return new LocalJobQueue();
+    case "firestore":
+    default:
+      return new FirestoreJobQueue();
+  }
+}
@@ -0,0 +1,20 @@
+const forbiddenLatexPatterns: ReadonlyArray<{ pattern: RegExp; reason: string }> = [
+  { pattern: /\\write18\b/i, reason: "\\write18 is not permitted" },
+  { pattern: /\\usepackage\s*\{[^}]*shellesc[^}]*\}/i, reason: "shellesc package is not allowed" },
+  { pattern: /\\usepackage\s*\{[^}]*verbatiminput[^}]*\}/i, reason: "verbatim input package is not allowed" },
+  { pattern: /\\(openout|openin)\b/i, reason: "Explicit file IO commands are blocked" },
+  { pattern: /\\includeonly/i, reason: "Selective include directives are blocked" },
+  {
+    pattern: /\\(?:input|include)\s*\{[^}]*([/\\]|\.\.)/i,
+    reason: "Absolute or parent-directory includes are not allowed",
+  },
+];
+
+/** Rejects LaTeX that could run shell commands or read files outside the compile directory. */
+export function assertSafeLatexSource(texSource: string) {
+  for (const rule of forbiddenLatexPatterns) {
+    if (rule.pattern.test(texSource)) {
+      throw new Error(`Unsafe LaTeX construct detected: ${rule.reason}`);
+    }
+  }
+}
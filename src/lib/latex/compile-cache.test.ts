@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCompileCacheKey, LatexCompileCache, type CompiledPdf } from "./compile-cache";
+
+function compiled(bytes: number, pageCount = 1): CompiledPdf {
+  return { pdf: Buffer.alloc(bytes), pageCount, text: "" };
+}
+
+describe("buildCompileCacheKey", () => {
+  it("ignores line endings and trailing whitespace but not the engine version", () => {
+    const key = buildCompileCacheKey("\\begin{document}\nHi\n\\end{document}\n", "pdflatex:pdfTeX 1.40.24");
+    expect(buildCompileCacheKey("\\begin{document}  \r\nHi\t\r\n\\end{document}\r\n\r\n", "pdflatex:pdfTeX 1.40.24")).toBe(key);
+    expect(buildCompileCacheKey("\\begin{document}\n Hi\n\\end{document}\n", "pdflatex:pdfTeX 1.40.24")).not.toBe(key);
+    expect(buildCompileCacheKey("\\begin{document}\nHi\n\\end{document}\n", "pdflatex:pdfTeX 1.40.25")).not.toBe(key);
+  });
+});
+
+describe("LatexCompileCache", () => {
+  it("evicts the least recently used entries once the byte budget is exceeded", () => {
+    const cache = new LatexCompileCache(100);
+    cache.set("a", compiled(40));
+    cache.set("b", compiled(40));
+    cache.get("a");
+    cache.set("c", compiled(40));
+    cache.set("huge", compiled(101));
+
+    expect(cache.get("a")).not.toBeNull();
+    expect(cache.get("b")).toBeNull();
+    expect(cache.get("huge")).toBeNull();
+    expect(cache.metrics()).toMatchObject({ entries: 2, bytes: 80, evictions: 1 });
+  });
+
+  it("shares one compile between concurrent requests and does not store failures", async () => {
+    const cache = new LatexCompileCache(1000);
+    let compiles = 0;
+    const compile = async () => {
+      compiles += 1;
+      return compiled(10, 2);
+    };
+
+    const [first, second] = await Promise.all([cache.getOrCompile("k", compile), cache.getOrCompile("k", compile)]);
+    const third = await cache.getOrCompile("k", compile);
+    expect(compiles).toBe(1);
+    expect([first.cached, second.cached, third.cached]).toEqual([false, true, true]);
+    expect(third.value.pageCount).toBe(2);
+
+    await expect(cache.getOrCompile("bad", async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(cache.get("bad")).toBeNull();
+    expect(cache.metrics()).toMatchObject({ hits: 2, misses: 2 });
+  });
+});
@@ -0,0 +1,126 @@
+import { createHash } from "node:crypto";
+
+export type CompiledPdf = {
+  pdf: Buffer;
+  pageCount: number;
+  text: string;
+};
+
+export type CompileCacheMetrics = {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+type CacheEntry = CompiledPdf & { bytes: number };
+
+/**
+ * TeX drops trailing spaces from every input line, so line endings and
+ * trailing whitespace never change the output and stay out of the key.
+ */
+export function normalizeLatexSource(texSource: string): string {
+  return texSource
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n+$/, "\n");
+}
+
+export function buildCompileCacheKey(texSource: string, engineVersion: string): string {
+  return createHash("sha256").update(engineVersion).update("\0").update(normalizeLatexSource(texSource)).digest("hex");
+}
+
+function entrySize(entry: CompiledPdf): number {
+  return entry.pdf.length + Buffer.byteLength(entry.text, "utf-8");
+}
+
+/**
+ * Least-recently-used PDFs bounded by total bytes. Concurrent requests for
+ * the same key share one compile, and failed compiles are never stored.
+ */
+export class LatexCompileCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inflight = new Map<string, Promise<CompiledPdf>>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  get(key: string): CompiledPdf | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, value: CompiledPdf): void {
+    const bytes = entrySize(value);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+    this.delete(key);
+    this.entries.set(key, { ...value, bytes });
+    this.bytes += bytes;
+    while (this.bytes > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value as string | undefined;
+      if (!oldestKey) {
+        break;
+      }
+      this.delete(oldestKey);
+      this.evictions += 1;
+    }
+  }
+
+  async getOrCompile(key: string, compile: () => Promise<CompiledPdf>): Promise<{ value: CompiledPdf; cached: boolean }> {
+    const cached = this.get(key);
+    if (cached) {
+      this.hits += 1;
+      return { value: cached, cached: true };
+    }
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.hits += 1;
+      return { value: await pending, cached: true };
+    }
+
+    this.misses += 1;
+    const job = compile();
+    this.inflight.set(key, job);
+    try {
+      const value = await job;
+      this.set(key, value);
+      return { value, cached: false };
+    } finally {
+      this.inflight.delete(key);
+    }
+  }
+
+  metrics(): CompileCacheMetrics {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private delete(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
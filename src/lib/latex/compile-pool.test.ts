@@ -0,0 +1,53 @@
+import { EventEmitter } from "node:events";
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { spawn } = vi.hoisted(() => ({ spawn: vi.fn() }));
+
+vi.mock("node:child_process", () => ({ spawn }));
+vi.mock("@/env", () => ({ env: {} }));
+
+import { LatexCompilePool } from "./compile-pool";
+import { SandboxUnavailableError } from "./sandbox";
+
+function createPool(requireSandbox: boolean) {
+  return new LatexCompilePool({
+    engine: "pdflatex",
+    command: "pdflatex",
+    concurrency: 1,
+    maxQueued: 0,
+    timeoutMs: 5000,
+    limits: { cpuSeconds: 5, memoryMb: 256 },
+    isolateNetwork: true,
+    requireSandbox,
+  });
+}
+
+describe("LatexCompilePool", () => {
+  beforeEach(() => {
+    // Every probe and engine run behaves as if the binary were not installed.
+    spawn.mockReset().mockImplementation(() => {
+      const child = Object.assign(new EventEmitter(), { pid: undefined, stdout: new EventEmitter(), stderr: new EventEmitter() });
+      queueMicrotask(() => child.emit("error", new Error("spawn ENOENT")));
+      return child;
+    });
+  });
+
+  it("refuses to compile when the sandbox is required and the host lacks it", async () => {
+    const pool = createPool(true);
+
+    await expect(pool.compile("\\documentclass{article}")).rejects.toMatchObject({
+      name: "SandboxUnavailableError",
+      missing: ["prlimit", "network namespace"],
+    });
+    await expect(pool.compile("\\documentclass{article}")).rejects.toBeInstanceOf(SandboxUnavailableError);
+    expect(spawn.mock.calls.map(([command]) => command)).toEqual(["prlimit", "unshare"]);
+  });
+
+  it("falls back to an unsandboxed run when the sandbox is optional", async () => {
+    const pool = createPool(false);
+
+    await expect(pool.compile("\\documentclass{article}")).rejects.toThrow("spawn ENOENT");
+    expect(spawn.mock.calls.at(-1)?.[0]).toBe("pdflatex");
+  });
+});
@@ -0,0 +1,311 @@
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { CompileQueue, type CompileQueueMetrics } from "./compile-queue";
+import {
+  buildEnginePasses,
+  buildSandboxEnv,
+  missingSandboxProtections,
+  SandboxUnavailableError,
+  wrapInSandbox,
+  type EngineInvocation,
+  type LatexEngine,
+  type SandboxLimits,
+  type SandboxSupport,
+} from "./sandbox";
+
+export type LatexCompileFailure = {
+  ok: false;
+  reason: "exit" | "timeout";
+  pass: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  log: string | null;
+  stdout: Buffer;
+  stderr: Buffer;
+};
+
+export type LatexCompileOutcome = { ok: true; pdf: Buffer } | LatexCompileFailure;
+
+export type LatexCompilePoolMetrics = CompileQueueMetrics & {
+  engine: LatexEngine;
+  timedOut: number;
+  sandbox: SandboxSupport | null;
+};
+
+type LatexCompilePoolOptions = {
+  engine: LatexEngine;
+  command: string;
+  concurrency: number;
+  maxQueued: number;
+  /** Wall-clock budget for all passes of one job. */
+  timeoutMs: number;
+  limits: SandboxLimits;
+  isolateNetwork: boolean;
+  /** Refuse to compile instead of running engines without the limits above. */
+  requireSandbox: boolean;
+};
+
+type PassOutcome = {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  stdout: Buffer;
+  stderr: Buffer;
+};
+
+const MAX_CAPTURED_OUTPUT_BYTES = 256 * 1024;
+const PROBE_TIMEOUT_MS = 5000;
+
+function collectCapped(stream: NodeJS.ReadableStream, chunks: Buffer[]) {
+  let total = 0;
+  stream.on("data", (chunk) => {
+    if (total >= MAX_CAPTURED_OUTPUT_BYTES) {
+      return;
+    }
+    const buffer = Buffer.from(chunk);
+    chunks.push(buffer);
+    total += buffer.length;
+  });
+}
+
+function killProcessGroup(pid: number | undefined) {
+  if (!pid) {
+    return;
+  }
+  try {
+    // Engines run detached, so the negative pid reaches unshare, prlimit and the engine together.
+    process.kill(-pid, "SIGKILL");
+  } catch {
+    // Already exited.
+  }
+}
+
+function canRun(command: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: "ignore", detached: true });
+    const timer = setTimeout(() => killProcessGroup(child.pid), PROBE_TIMEOUT_MS);
+    child.on("error", () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve(code === 0);
+    });
+  });
+}
+
+async function probeSandboxSupport(isolateNetwork: boolean): Promise<SandboxSupport> {
+  const prlimit = await canRun("prlimit", ["--cpu=1", "--", "true"]);
+  const networkNamespace = isolateNetwork ? await canRun("unshare", ["--net", "--map-root-user", "--", "true"]) : false;
+  return { prlimit, networkNamespace };
+}
+
+function readFirstLine(command: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "ignore"], detached: true });
+    const chunks: Buffer[] = [];
+    const timer = setTimeout(() => killProcessGroup(child.pid), PROBE_TIMEOUT_MS);
+    collectCapped(child.stdout, chunks);
+    child.on("error", () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      const firstLine = Buffer.concat(chunks).toString("utf-8").split("\n")[0]?.trim();
+      resolve(code === 0 && firstLine ? firstLine : null);
+    });
+  });
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs LaTeX engines as sandboxed child processes behind a capped queue, so a
+ * heavy or hostile document holds one slot for at most `timeoutMs` instead of
+ * competing with request handling for the whole host.
+ */
+export class LatexCompilePool {
+  private readonly queue: CompileQueue;
+  private readonly logger = createDebugLogger("latex-compile-pool");
+  private supportProbe: Promise<SandboxSupport> | null = null;
+  private versionProbe: Promise<string> | null = null;
+  private support: SandboxSupport | null = null;
+  private timedOut = 0;
+
+  constructor(private readonly options: LatexCompilePoolOptions) {
+    this.queue = new CompileQueue({ concurrency: options.concurrency, maxQueued: options.maxQueued });
+  }
+
+  get engine(): LatexEngine {
+    return this.options.engine;
+  }
+
+  get timeoutMs(): number {
+    return this.options.timeoutMs;
+  }
+
+  async compile(texSource: string): Promise<LatexCompileOutcome> {
+    const enqueuedAt = Date.now();
+    const before = this.queue.metrics();
+    if (before.running >= before.concurrency) {
+      this.logger.step("LaTeX compile job queued", { queued: before.queued + 1, running: before.running });
+    }
+    const outcome = await this.queue.run(() => this.runJob(texSource, Date.now() - enqueuedAt));
+    const { queued, running, averageWaitMs } = this.queue.metrics();
+    this.logger.data("latex-compile-pool-metrics", { queued, running, averageWaitMs, timedOut: this.timedOut });
+    return outcome;
+  }
+
+  /**
+   * First line of `<engine> --version`, e.g. "pdfTeX 3.141592653-2.6-1.40.24
+   * (TeX Live 2022/Debian)". Falls back to the engine name so caching still
+   * works when the binary does not answer.
+   */
+  engineVersion(): Promise<string> {
+    this.versionProbe ??= readFirstLine(this.options.command, ["--version"]).then((version) => {
+      if (!version) {
+        this.logger.warn("Could not read LaTeX engine version", { engine: this.options.engine, command: this.options.command });
+      }
+      return `${this.options.engine}:${version ?? "unknown"}`;
+    });
+    return this.versionProbe;
+  }
+
+  metrics(): LatexCompilePoolMetrics {
+    return { ...this.queue.metrics(), engine: this.options.engine, timedOut: this.timedOut, sandbox: this.support };
+  }
+
+  private detectSupport(): Promise<SandboxSupport> {
+    this.supportProbe ??= probeSandboxSupport(this.options.isolateNetwork).then((support) => {
+      this.support = support;
+      const missing = missingSandboxProtections(support, { isolateNetwork: this.options.isolateNetwork });
+      if (missing.length && this.options.requireSandbox) {
+        this.logger.error("LaTeX sandbox incomplete; compiles are refused", { engine: this.options.engine, missing });
+        return support;
+      }
+      if (!support.prlimit) {
+        this.logger.warn("prlimit unavailable; LaTeX jobs run without CPU and memory limits");
+      }
+      if (this.options.isolateNetwork && !support.networkNamespace) {
+        this.logger.warn("Network namespaces unavailable; LaTeX jobs keep host network access");
+      }
+      this.logger.info("LaTeX sandbox ready", { engine: this.options.engine, ...support });
+      return support;
+    });
+    return this.supportProbe;
+  }
+
+  private async runJob(texSource: string, waitMs: number): Promise<LatexCompileOutcome> {
+    const support = await this.detectSupport();
+    if (this.options.requireSandbox) {
+      const missing = missingSandboxProtections(support, { isolateNetwork: this.options.isolateNetwork });
+      if (missing.length) {
+        throw new SandboxUnavailableError(missing);
+      }
+    }
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), "cv-latex-"));
+    const deadline = Date.now() + this.options.timeoutMs;
+    this.logger.step("LaTeX compile job started", { engine: this.options.engine, workspace, waitMs });
+
+    try {
+      await fs.writeFile(path.join(workspace, "main.tex"), texSource, "utf-8");
+      const childEnv = buildSandboxEnv(workspace, process.env);
+      const passes = buildEnginePasses(this.options.engine, this.options.command, { offline: this.options.isolateNetwork });
+
+      for (const [index, pass] of passes.entries()) {
+        const invocation = wrapInSandbox(pass, this.options.limits, support);
+        const outcome = await this.runPass(invocation, workspace, childEnv, deadline - Date.now());
+        if (outcome.timedOut || outcome.code !== 0) {
+          if (outcome.timedOut) {
+            this.timedOut += 1;
+          }
+          this.logger.warn("LaTeX compile pass failed", {
+            pass: index + 1,
+            code: outcome.code,
+            signal: outcome.signal,
+            timedOut: outcome.timedOut,
+          });
+          return {
+            ok: false,
+            reason: outcome.timedOut ? "timeout" : "exit",
+            pass: index + 1,
+            code: outcome.code,
+            signal: outcome.signal,
+            log: await readOptionalFile(path.join(workspace, "main.log")),
+            stdout: outcome.stdout,
+            stderr: outcome.stderr,
+          };
+        }
+      }
+
+      return { ok: true, pdf: await fs.readFile(path.join(workspace, "main.pdf")) };
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true });
+    }
+  }
+
+  private runPass(
+    invocation: EngineInvocation,
+    cwd: string,
+    childEnv: Record<string, string>,
+    timeoutMs: number,
+  ): Promise<PassOutcome> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(invocation.command, invocation.args, {
+        cwd,
+        // Next.js types NODE_ENV as required; engines have no use for it.
+        env: childEnv as NodeJS.ProcessEnv,
+        detached: true,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessGroup(child.pid);
+      }, Math.max(timeoutMs, 0));
+
+      collectCapped(child.stdout, stdout);
+      collectCapped(child.stderr, stderr);
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on("close", (code, signal) => {
+        clearTimeout(timer);
+        resolve({ code, signal, timedOut, stdout: Buffer.concat(stdout), stderr: Buffer.concat(stderr) });
+      });
+    });
+  }
+}
+
+let sharedPool: LatexCompilePool | null = null;
+
+/** One pool per server process, so the concurrency cap holds across routes and actions. */
+export function getLatexCompilePool(): LatexCompilePool {
+  sharedPool ??= new LatexCompilePool({
+    engine: env.LATEX_ENGINE,
+    command: env.LATEX_ENGINE === "tectonic" ? env.TECTONIC_COMMAND : env.PDFLATEX_COMMAND,
+    concurrency: env.LATEX_COMPILE_CONCURRENCY,
+    maxQueued: env.LATEX_COMPILE_QUEUE_LIMIT,
+    timeoutMs: env.LATEX_COMPILE_TIMEOUT_MS,
+    limits: { cpuSeconds: env.LATEX_CPU_SECONDS, memoryMb: env.LATEX_MEMORY_MB },
+    isolateNetwork: env.LATEX_ISOLATE_NETWORK,
+    requireSandbox: env.LATEX_REQUIRE_SANDBOX,
+  });
+  return sharedPool;
+}
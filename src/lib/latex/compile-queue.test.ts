@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { CompileQueue, CompileQueueFullError } from "./compile-queue";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe("CompileQueue", () => {
+  it("caps running jobs and starts waiters in order", async () => {
+    let clock = 0;
+    const queue = new CompileQueue({ concurrency: 1, maxQueued: 2, now: () => clock });
+    const first = deferred();
+    const started: string[] = [];
+
+    const a = queue.run(async () => {
+      started.push("a");
+      await first.promise;
+    });
+    const b = queue.run(async () => {
+      started.push("b");
+    });
+    const c = queue.run(async () => {
+      started.push("c");
+    });
+    await expect(queue.run(async () => undefined)).rejects.toBeInstanceOf(CompileQueueFullError);
+
+    expect(started).toEqual(["a"]);
+    expect(queue.metrics()).toMatchObject({ running: 1, queued: 2, peakQueued: 2, rejected: 1 });
+
+    clock = 40;
+    first.resolve();
+    await Promise.all([a, b, c]);
+
+    expect(started).toEqual(["a", "b", "c"]);
+    expect(queue.metrics()).toMatchObject({ running: 0, queued: 0, completed: 3, maxWaitMs: 40 });
+  });
+
+  it("frees the slot when a job throws", async () => {
+    const queue = new CompileQueue({ concurrency: 1, maxQueued: 0 });
+    await expect(queue.run(async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(queue.run(async () => "ok")).resolves.toBe("ok");
+    expect(queue.metrics()).toMatchObject({ running: 0, completed: 1, failed: 1 });
+  });
+});
@@ -0,0 +1,111 @@
+export type CompileQueueOptions = {
+  concurrency: number;
+  /** Jobs allowed to wait for a slot; further submissions are rejected. */
+  maxQueued: number;
+  now?: () => number;
+};
+
+export type CompileQueueMetrics = {
+  concurrency: number;
+  running: number;
+  queued: number;
+  peakQueued: number;
+  completed: number;
+  failed: number;
+  rejected: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  averageRunMs: number;
+};
+
+export class CompileQueueFullError extends Error {
+  constructor(public readonly maxQueued: number) {
+    super(`LaTeX compile queue is full (${maxQueued} waiting). Try again shortly.`);
+    this.name = "CompileQueueFullError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+type Waiter = { enqueuedAt: number; start: () => void };
+
+/**
+ * FIFO queue with a fixed number of compile slots. Rejecting past `maxQueued`
+ * keeps a burst of heavy documents from piling up behind the slots.
+ */
+export class CompileQueue {
+  private readonly waiters: Waiter[] = [];
+  private readonly now: () => number;
+  private running = 0;
+  private peakQueued = 0;
+  private completed = 0;
+  private failed = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private totalRunMs = 0;
+
+  constructor(private readonly options: CompileQueueOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    const startedAt = this.now();
+    try {
+      const result = await task();
+      this.completed += 1;
+      return result;
+    } catch (error) {
+      this.failed += 1;
+      throw error;
+    } finally {
+      this.totalRunMs += this.now() - startedAt;
+      this.release();
+    }
+  }
+
+  metrics(): CompileQueueMetrics {
+    const started = this.completed + this.failed + this.running;
+    const finished = this.completed + this.failed;
+    return {
+      concurrency: this.options.concurrency,
+      running: this.running,
+      queued: this.waiters.length,
+      peakQueued: this.peakQueued,
+      completed: this.completed,
+      failed: this.failed,
+      rejected: this.rejected,
+      averageWaitMs: started ? Math.round(this.totalWaitMs / started) : 0,
+      maxWaitMs: this.maxWaitMs,
+      averageRunMs: finished ? Math.round(this.totalRunMs / finished) : 0,
+    };
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.options.concurrency) {
+      this.running += 1;
+      return Promise.resolve();
+    }
+    if (this.waiters.length >= this.options.maxQueued) {
+      this.rejected += 1;
+      return Promise.reject(new CompileQueueFullError(this.options.maxQueued));
+    }
+    return new Promise<void>((resolve) => {
+      this.waiters.push({ enqueuedAt: this.now(), start: () => resolve() });
+      this.peakQueued = Math.max(this.peakQueued, this.waiters.length);
+    });
+  }
+
+  private release() {
+    const next = this.waiters.shift();
+    if (!next) {
+      this.running -= 1;
+      return;
+    }
+    // The slot passes straight to the next job, so `running` is unchanged.
+    const waited = this.now() - next.enqueuedAt;
+    this.totalWaitMs += waited;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+    next.start();
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { buildEnginePasses, buildSandboxEnv, missingSandboxProtections, wrapInSandbox } from "./sandbox";
+
+describe("wrapInSandbox", () => {
+  it("nests the engine inside prlimit and a network namespace", () => {
+    const [pass] = buildEnginePasses("pdflatex", "pdflatex", { offline: true });
+    const wrapped = wrapInSandbox(pass, { cpuSeconds: 20, memoryMb: 512 }, { prlimit: true, networkNamespace: true });
+
+    expect(wrapped.command).toBe("unshare");
+    expect(wrapped.args.slice(0, 5)).toEqual(["--net", "--map-root-user", "--", "prlimit", "--cpu=20"]);
+    expect(wrapped.args).toContain(`--as=${512 * 1024 * 1024}`);
+    expect(wrapped.args.slice(-2)).toEqual(["-no-shell-escape", "main.tex"]);
+  });
+
+  it("runs the engine directly when the host supports neither tool", () => {
+    const [pass] = buildEnginePasses("tectonic", "tectonic", { offline: true });
+    expect(wrapInSandbox(pass, { cpuSeconds: 20, memoryMb: 512 }, { prlimit: false, networkNamespace: false })).toEqual(pass);
+    expect(pass.args).toEqual(["--untrusted", "--keep-logs", "--chatter", "minimal", "--only-cached", "main.tex"]);
+  });
+});
+
+describe("missingSandboxProtections", () => {
+  it("reports each protection the host cannot apply", () => {
+    expect(missingSandboxProtections({ prlimit: true, networkNamespace: true }, { isolateNetwork: true })).toEqual([]);
+    expect(missingSandboxProtections({ prlimit: false, networkNamespace: true }, { isolateNetwork: true })).toEqual(["prlimit"]);
+    expect(missingSandboxProtections({ prlimit: false, networkNamespace: false }, { isolateNetwork: true })).toEqual([
+      "prlimit",
+      "network namespace",
+    ]);
+  });
+
+  it("only requires a network namespace when network isolation is on", () => {
+    expect(missingSandboxProtections({ prlimit: true, networkNamespace: false }, { isolateNetwork: false })).toEqual([]);
+  });
+});
+
+describe("buildSandboxEnv", () => {
+  it("keeps only PATH from the host and turns on kpathsea paranoid mode", () => {
+    const env = buildSandboxEnv("/tmp/cv-latex-1", { PATH: "/usr/bin", HOME: "/home/node", FIREBASE_PRIVATE_KEY: "secret" });
+    expect(env).toMatchObject({ PATH: "/usr/bin", HOME: "/tmp/cv-latex-1", openin_any: "p", openout_any: "p" });
+    expect(env).not.toHaveProperty("FIREBASE_PRIVATE_KEY");
+  });
+});
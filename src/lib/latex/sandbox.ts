@@ -0,0 +1,120 @@
+export const LATEX_ENGINES = ["pdflatex", "tectonic"] as const;
+export type LatexEngine = (typeof LATEX_ENGINES)[number];
+
+export type SandboxLimits = {
+  cpuSeconds: number;
+  memoryMb: number;
+};
+
+/** What the host can enforce; probed once at startup. */
+export type SandboxSupport = {
+  prlimit: boolean;
+  networkNamespace: boolean;
+};
+
+export type EngineInvocation = {
+  command: string;
+  args: string[];
+};
+
+export class SandboxUnavailableError extends Error {
+  constructor(public readonly missing: string[]) {
+    super(`LaTeX sandbox is incomplete on this host (missing: ${missing.join(", ")}); compiles are disabled.`);
+    this.name = "SandboxUnavailableError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const MAX_OUTPUT_FILE_BYTES = 64 * 1024 * 1024;
+const MAX_OPEN_FILES = 256;
+
+/**
+ * Arguments for each engine run. pdflatex needs a second pass for stable
+ * references; tectonic reruns internally. `offline` stops tectonic fetching
+ * bundle files, which would fail anyway inside a network namespace.
+ */
+export function buildEnginePasses(engine: LatexEngine, command: string, options: { offline: boolean }): EngineInvocation[] {
+  if (engine === "tectonic") {
+    const args = ["--untrusted", "--keep-logs", "--chatter", "minimal"];
+    if (options.offline) {
+      args.push("--only-cached");
+    }
+    return [{ command, args: [...args, "main.tex"] }];
+  }
+  const args = ["-interaction=nonstopmode", "-halt-on-error", "-file-line-error", "-no-shell-escape", "main.tex"];
+  return [
+    { command, args },
+    { command, args },
+  ];
+}
+
+/**
+ * Wraps an engine run in whatever isolation the host supports: a private
+ * network namespace, then rlimits on CPU time, address space, output file
+ * size and open files. Missing tools are skipped here; the pool refuses to
+ * run at all when `LATEX_REQUIRE_SANDBOX` is on and one is missing.
+ */
+export function wrapInSandbox(invocation: EngineInvocation, limits: SandboxLimits, support: SandboxSupport): EngineInvocation {
+  let command = invocation.command;
+  let args = invocation.args;
+
+  if (support.prlimit) {
+    args = [
+      `--cpu=${limits.cpuSeconds}`,
+      `--as=${limits.memoryMb * 1024 * 1024}`,
+      `--fsize=${MAX_OUTPUT_FILE_BYTES}`,
+      `--nofile=${MAX_OPEN_FILES}`,
+      "--",
+      command,
+      ...args,
+    ];
+    command = "prlimit";
+  }
+
+  if (support.networkNamespace) {
+    args = ["--net", "--map-root-user", "--", command, ...args];
+    command = "unshare";
+  }
+
+  return { command, args };
+}
+
+/**
+ * Protections the pool is configured to apply but the host cannot enforce.
+ * The network namespace only counts when network isolation is switched on.
+ */
+export function missingSandboxProtections(support: SandboxSupport, options: { isolateNetwork: boolean }): string[] {
+  const missing: string[] = [];
+  if (!support.prlimit) {
+    missing.push("prlimit");
+  }
+  if (options.isolateNetwork && !support.networkNamespace) {
+    missing.push("network namespace");
+  }
+  return missing;
+}
+
+/**
+ * Environment for engine processes. Nothing from the app's environment leaks
+ * in beyond PATH, and kpathsea's paranoid mode blocks `\input` or `\openout`
+ * on absolute paths, parent directories and dotfiles.
+ */
+export function buildSandboxEnv(workspace: string, base: Record<string, string | undefined>): Record<string, string> {
+  const env: Record<string, string> = {
+    PATH: base.PATH ?? "/usr/local/bin:/usr/bin:/bin",
+    HOME: workspace,
+    TMPDIR: workspace,
+    LANG: "C.UTF-8",
+    TEXMFVAR: `${workspace}/.texmf-var`,
+    openin_any: "p",
+    openout_any: "p",
+    shell_escape: "f",
+  };
+  if (base.TECTONIC_CACHE_DIR) {
+    env.TECTONIC_CACHE_DIR = base.TECTONIC_CACHE_DIR;
+  } else if (base.HOME) {
+    // HOME moves into the workspace, so point tectonic back at the shared bundle cache.
+    env.TECTONIC_CACHE_DIR = `${base.HOME}/.cache/Tectonic`;
+  }
+  return env;
+}
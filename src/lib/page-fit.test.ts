@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+
+import { applyLayoutProfile, COMPRESSION_STEPS, fitLatexToPageCount, rankBulletCandidates, trimBullets } from "./page-fit";
+
+const cv = [
+  "\\documentclass[11pt,a4paper]{article}",
+  "\\usepackage[margin=0.7in]{geometry}",
+  "\\usepackage{enumitem}",
+  "\\begin{document}",
+  "\\begin{itemize}",
+  "  \\item Led the Kubernetes migration for 40 services",
+  "  \\item Mentored two engineers",
+  "  \\item Organised the team offsite",
+  "  \\item Cut Kubernetes costs by 30\\%",
+  "\\end{itemize}",
+  "\\end{document}",
+].join("\n");
+
+const jobDescription = "Kubernetes platform engineer. Kubernetes, Terraform, and Terraform modules.";
+
+function linespreadOf(latex: string): number {
+  return Number(/\\linespread\{([\d.]+)\}/.exec(latex)?.[1] ?? 1);
+}
+
+describe("applyLayoutProfile", () => {
+  it("adds overrides before the document body and steps the font size", () => {
+    const latex = applyLayoutProfile(cv, COMPRESSION_STEPS[COMPRESSION_STEPS.length - 1]);
+    expect(latex).toContain("\\documentclass[10pt,a4paper]{article}");
+    expect(latex).toMatch(/\\linespread\{0\.92\}\n\\geometry\{margin=0\.42in\}\n\\setlist\{itemsep=0pt,topsep=2pt\}\n\\begin\{document\}/);
+  });
+});
+
+describe("fitLatexToPageCount", () => {
+  it("uses the gentlest layout step that reaches the target without touching bullets", async () => {
+    const rendered: string[] = [];
+    const result = await fitLatexToPageCount({
+      latex: cv,
+      pageCount: 3,
+      targetPageCount: 2,
+      jobDescription,
+      maxCompiles: 8,
+      render: async (latex) => {
+        rendered.push(latex);
+        return { pageCount: linespreadOf(latex) <= 0.96 ? 2 : 3, text: "" };
+      },
+    });
+
+    expect(result).toMatchObject({ layoutStep: 4, bulletsRemoved: 0, pageCount: 2 });
+    expect(result?.compiles).toBeLessThanOrEqual(4);
+    expect(result?.latex).toContain("Organised the team offsite");
+  });
+
+  it("drops the lowest priority bullets when layout alone is not enough", async () => {
+    const result = await fitLatexToPageCount({
+      latex: cv,
+      pageCount: 3,
+      targetPageCount: 2,
+      jobDescription,
+      maxCompiles: 8,
+      render: async (latex) => ({ pageCount: (latex.match(/\\item\b/g)?.length ?? 0) > 3 ? 3 : 2, text: "" }),
+    });
+
+    expect(result).toMatchObject({ layoutStep: COMPRESSION_STEPS.length, bulletsRemoved: 1 });
+    expect(result?.latex).not.toContain("Organised the team offsite");
+    expect(result?.latex).toContain("Cut Kubernetes costs");
+    expect(rankBulletCandidates(cv, jobDescription)).toHaveLength(2);
+  });
+
+  it("drops bullets from the step before one that overshoots the target", async () => {
+    const result = await fitLatexToPageCount({
+      latex: cv,
+      pageCount: 3,
+      targetPageCount: 2,
+      jobDescription,
+      maxCompiles: 8,
+      render: async (latex) => {
+        if (linespreadOf(latex) <= 0.96) {
+          return { pageCount: 1, text: "" };
+        }
+        return { pageCount: (latex.match(/\\item\b/g)?.length ?? 0) > 3 ? 3 : 2, text: "" };
+      },
+    });
+
+    expect(result).toMatchObject({ layoutStep: 3, bulletsRemoved: 1, pageCount: 2 });
+    expect(result?.latex).toContain("\\linespread{0.98}");
+    expect(result?.latex).not.toContain("Organised the team offsite");
+  });
+
+  it("gives up when no layout or bullet count hits the target, or the compile budget runs out", async () => {
+    const overshoot = await fitLatexToPageCount({
+      latex: cv,
+      pageCount: 3,
+      targetPageCount: 2,
+      jobDescription,
+      maxCompiles: 8,
+      render: async () => ({ pageCount: 1, text: "" }),
+    });
+    expect(overshoot).toBeNull();
+
+    const noBudget = await fitLatexToPageCount({
+      latex: cv,
+      pageCount: 1,
+      targetPageCount: 2,
+      jobDescription,
+      maxCompiles: 0,
+      render: async () => ({ pageCount: 2, text: "" }),
+    });
+    expect(noBudget).toBeNull();
+  });
+});
+
+describe("rankBulletCandidates", () => {
+  it("never offers a bullet that holds a nested list", () => {
+    const nested = [
+      "\\begin{document}",
+      "\\begin{itemize}",
+      "  \\item Platform team lead",
+      "  \\begin{itemize}",
+      "    \\item Led the Kubernetes migration for 40 services",
+      "    \\item Mentored two engineers",
+      "    \\item Organised the team offsite",
+      "  \\end{itemize}",
+      "  \\item Ran the on-call rota",
+      "  \\item Wrote the incident handbook",
+      "\\end{itemize}",
+      "\\end{document}",
+    ].join("\n");
+
+    const candidates = rankBulletCandidates(nested, jobDescription);
+    const trimmed = trimBullets(nested, candidates, candidates.length);
+
+    expect(candidates).toHaveLength(1);
+    expect(trimmed).not.toContain("Organised the team offsite");
+    expect(trimmed.match(/\\begin\{itemize\}/g)).toHaveLength(2);
+    expect(trimmed.match(/\\end\{itemize\}/g)).toHaveLength(2);
+    expect(trimmed).toContain("Ran the on-call rota");
+  });
+});
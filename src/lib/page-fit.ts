@@ -0,0 +1,310 @@
+import { countKeyword, extractJobKeywords, latexToPlainText, normalizeAtsText } from "@/lib/ats/keyword-score";
+
+/**
+ * Layout-only page fitting. Each step of a ladder is at least as tight (or as
+ * loose) as the one before, so the page count is monotonic along it and a
+ * binary search finds the gentlest step that hits the target. Wording is never
+ * changed; the last resort for long CVs drops whole bullets, lowest priority
+ * first.
+ */
+
+export type LayoutProfile = {
+  linespread: number;
+  /** Multiplier for existing geometry margins; margins are only touched when geometry is loaded. */
+  marginScale: number;
+  listSpacing: "default" | "tight" | "loose";
+  sectionSpacing: "default" | "tight" | "loose";
+  /** Moves a 10pt/11pt/12pt class option by this many sizes. */
+  fontStep: -1 | 0 | 1;
+};
+
+const DEFAULT_PROFILE: LayoutProfile = {
+  linespread: 1,
+  marginScale: 1,
+  listSpacing: "default",
+  sectionSpacing: "default",
+  fontStep: 0,
+};
+
+export const COMPRESSION_STEPS: ReadonlyArray<LayoutProfile> = [
+  { ...DEFAULT_PROFILE, linespread: 0.98 },
+  { ...DEFAULT_PROFILE, linespread: 0.98, marginScale: 0.9 },
+  { ...DEFAULT_PROFILE, linespread: 0.98, marginScale: 0.9, listSpacing: "tight" },
+  { ...DEFAULT_PROFILE, linespread: 0.96, marginScale: 0.9, listSpacing: "tight" },
+  { ...DEFAULT_PROFILE, linespread: 0.96, marginScale: 0.8, listSpacing: "tight", sectionSpacing: "tight" },
+  { linespread: 0.96, marginScale: 0.8, listSpacing: "tight", sectionSpacing: "tight", fontStep: -1 },
+  { linespread: 0.94, marginScale: 0.7, listSpacing: "tight", sectionSpacing: "tight", fontStep: -1 },
+  { linespread: 0.92, marginScale: 0.6, listSpacing: "tight", sectionSpacing: "tight", fontStep: -1 },
+];
+
+export const EXPANSION_STEPS: ReadonlyArray<LayoutProfile> = [
+  { ...DEFAULT_PROFILE, linespread: 1.03 },
+  { ...DEFAULT_PROFILE, linespread: 1.03, listSpacing: "loose" },
+  { ...DEFAULT_PROFILE, linespread: 1.06, listSpacing: "loose", sectionSpacing: "loose" },
+  { ...DEFAULT_PROFILE, linespread: 1.06, marginScale: 1.15, listSpacing: "loose", sectionSpacing: "loose" },
+  { linespread: 1.06, marginScale: 1.15, listSpacing: "loose", sectionSpacing: "loose", fontStep: 1 },
+  { linespread: 1.1, marginScale: 1.3, listSpacing: "loose", sectionSpacing: "loose", fontStep: 1 },
+];
+
+const LIST_SPACING = {
+  tight: { itemsep: "0pt", topsep: "2pt" },
+  loose: { itemsep: "3pt", topsep: "5pt" },
+};
+
+const SECTION_SPACING = {
+  tight: { before: "1.2ex", after: "0.6ex" },
+  loose: { before: "3.5ex", after: "1.8ex" },
+};
+
+const GEOMETRY_LENGTH_KEYS = new Set(["margin", "left", "right", "top", "bottom", "hmargin", "vmargin", "lmargin", "rmargin", "tmargin", "bmargin"]);
+const FONT_SIZES = [10, 11, 12];
+/** Lists keep at least this many bullets when trimming. */
+const MIN_BULLETS_PER_LIST = 2;
+
+function loadsPackage(latex: string, name: string): boolean {
+  return new RegExp(`\\\\usepackage\\s*(?:\\[[^\\]]*\\])?\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`).test(latex);
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/** Rewrites geometry length options (and `scale`) so the text area grows or shrinks with `marginScale`. */
+function scaleGeometry(latex: string, marginScale: number): string | null {
+  const match = /\\usepackage\s*\[([^\]]*)\]\s*\{geometry\}/.exec(latex);
+  if (!match) {
+    return null;
+  }
+  const scaled = match[1]
+    .split(",")
+    .map((option) => option.trim())
+    .flatMap((option) => {
+      const [key, value] = option.split("=").map((part) => part?.trim());
+      if (!key || !value) {
+        return [];
+      }
+      if (key === "scale" && /^\d*\.?\d+$/.test(value)) {
+        const next = Math.min(0.96, 1 - (1 - Number(value)) * marginScale);
+        return [`scale=${formatNumber(next)}`];
+      }
+      const length = /^(\d*\.?\d+)(in|cm|mm|pt|em|ex)$/.exec(value);
+      if (GEOMETRY_LENGTH_KEYS.has(key) && length) {
+        return [`${key}=${formatNumber(Number(length[1]) * marginScale)}${length[2]}`];
+      }
+      return [];
+    });
+  return scaled.length ? `\\geometry{${scaled.join(",")}}` : null;
+}
+
+function stepFontSize(latex: string, step: number): string {
+  if (!step) {
+    return latex;
+  }
+  return latex.replace(/\\documentclass\s*\[([^\]]*)\]/, (whole, options: string) =>
+    whole.replace(options, options.replace(/\b(\d+)pt\b/, (size, points: string) => {
+      const index = FONT_SIZES.indexOf(Number(points));
+      const next = FONT_SIZES[index + step];
+      return index >= 0 && next ? `${next}pt` : size;
+    })),
+  );
+}
+
+/** `\normalsize` resets `\@listi` from `\@listI` in the standard classes, so both are patched. */
+function listSpacingPatch(settings: string): string {
+  return [
+    "\\makeatletter",
+    `\\@ifundefined{@listi}{}{\\g@addto@macro\\@listi{${settings}}}`,
+    `\\@ifundefined{@listI}{}{\\g@addto@macro\\@listI{${settings}}}`,
+    "\\makeatother",
+  ].join("\n");
+}
+
+/** Returns the LaTeX with the profile's overrides added just before `\begin{document}`. */
+export function applyLayoutProfile(latex: string, profile: LayoutProfile): string {
+  const beginIndex = latex.indexOf("\\begin{document}");
+  if (beginIndex < 0) {
+    return latex;
+  }
+  const overrides: string[] = [];
+  if (profile.linespread !== 1) {
+    overrides.push(`\\linespread{${formatNumber(profile.linespread)}}`);
+  }
+  if (profile.marginScale !== 1 && loadsPackage(latex, "geometry")) {
+    const geometry = scaleGeometry(latex, profile.marginScale);
+    if (geometry) {
+      overrides.push(geometry);
+    }
+  }
+  if (profile.listSpacing !== "default") {
+    const { itemsep, topsep } = LIST_SPACING[profile.listSpacing];
+    overrides.push(
+      loadsPackage(latex, "enumitem")
+        ? `\\setlist{itemsep=${itemsep},topsep=${topsep}}`
+        : listSpacingPatch(`\\setlength{\\itemsep}{${itemsep}}\\setlength{\\topsep}{${topsep}}`),
+    );
+  }
+  if (profile.sectionSpacing !== "default" && loadsPackage(latex, "titlesec")) {
+    const { before, after } = SECTION_SPACING[profile.sectionSpacing];
+    overrides.push(`\\titlespacing*{\\section}{0pt}{${before}}{${after}}`);
+  }
+  const adjusted = stepFontSize(latex, profile.fontStep);
+  if (!overrides.length) {
+    return adjusted;
+  }
+  const insertAt = adjusted.indexOf("\\begin{document}");
+  return `${adjusted.slice(0, insertAt)}% page-fit overrides\n${overrides.join("\n")}\n${adjusted.slice(insertAt)}`;
+}
+
+export type BulletCandidate = {
+  /** Offsets of the `\item ...` text to remove, trailing newline included. */
+  start: number;
+  end: number;
+  score: number;
+};
+
+/**
+ * Scores every `\item` inside an itemize list. Bullets with numbers, job
+ * keywords, or an early position in their list score higher; only bullets
+ * beyond each list's first `MIN_BULLETS_PER_LIST` by score are candidates.
+ * Lists that contain a nested itemize are skipped (their nested lists are
+ * still scored), so a removed bullet never takes a sublist with it.
+ * Returned lowest score first.
+ */
+export function rankBulletCandidates(latex: string, jobDescription: string): BulletCandidate[] {
+  const keywords = extractJobKeywords(jobDescription, 30);
+  const candidates: BulletCandidate[] = [];
+  const listPattern = /\\begin\{itemize\}(?:\[[^\]]*\])?((?:(?!\\begin\{itemize\})[\s\S])*?)\\end\{itemize\}/g;
+  for (const list of latex.matchAll(listPattern)) {
+    const bodyStart = (list.index ?? 0) + list[0].indexOf(list[1]);
+    const items = Array.from(list[1].matchAll(/\\item\b[\s\S]*?(?=\\item\b|$)/g)).map((item, position) => {
+      const text = normalizeAtsText(latexToPlainText(item[0].replace(/^\\item\s*(\[[^\]]*\])?/, "")));
+      const keywordHits = keywords.filter((keyword) => countKeyword(text, keyword) > 0).length;
+      const score = (/\d/.test(text) ? 2 : 0) + Math.min(keywordHits, 4) + Math.max(0, 2 - position);
+      const start = bodyStart + (item.index ?? 0);
+      return { start, end: start + item[0].length, score, position };
+    });
+    if (items.length <= MIN_BULLETS_PER_LIST) {
+      continue;
+    }
+    const kept = [...items].sort((a, b) => b.score - a.score || a.position - b.position).slice(0, MIN_BULLETS_PER_LIST);
+    candidates.push(...items.filter((item) => !kept.includes(item)).map(({ start, end, score }) => ({ start, end, score })));
+  }
+  return candidates.sort((a, b) => a.score - b.score || b.start - a.start);
+}
+
+/** Removes the first `count` candidates from `rankBulletCandidates`. */
+export function trimBullets(latex: string, candidates: BulletCandidate[], count: number): string {
+  return candidates
+    .slice(0, count)
+    .sort((a, b) => b.start - a.start)
+    .reduce((source, candidate) => source.slice(0, candidate.start) + source.slice(candidate.end), latex);
+}
+
+export type PageFitRender = (latex: string) => Promise<{ pageCount: number; text: string }>;
+
+export type PageFitResult = {
+  latex: string;
+  pageCount: number;
+  text: string;
+  /** 1-based index into the ladder that was used; 0 when only bullets were dropped. */
+  layoutStep: number;
+  bulletsRemoved: number;
+  compiles: number;
+};
+
+type PageFitInput = {
+  latex: string;
+  pageCount: number;
+  targetPageCount: number;
+  jobDescription: string;
+  render: PageFitRender;
+  maxCompiles: number;
+};
+
+/**
+ * Binary search for the smallest `n` in [1, upper] where `fits(n)` holds,
+ * assuming it is monotonic. Returns null when even `upper` does not fit.
+ */
+async function searchSmallest(upper: number, fits: (n: number) => Promise<boolean | null>): Promise<number | null> {
+  let low = 1;
+  let high = upper;
+  let found: number | null = null;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const result = await fits(mid);
+    if (result === null) {
+      return found;
+    }
+    if (result) {
+      found = mid;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Tries layout-only changes to bring a CV to `targetPageCount`, compiling at
+ * most `maxCompiles` times. Returns null when neither the layout ladder nor
+ * dropping bullets hits the target, so the caller can fall back to rewriting
+ * the content.
+ */
+export async function fitLatexToPageCount(input: PageFitInput): Promise<PageFitResult | null> {
+  const { latex, targetPageCount, render, maxCompiles } = input;
+  if (input.pageCount === targetPageCount || maxCompiles <= 0) {
+    return null;
+  }
+  const shrinking = input.pageCount > targetPageCount;
+  const steps = shrinking ? COMPRESSION_STEPS : EXPANSION_STEPS;
+  const cache = new Map<string, { pageCount: number; text: string }>();
+  let compiles = 0;
+
+  const evaluate = async (source: string) => {
+    const cached = cache.get(source);
+    if (cached) {
+      return cached;
+    }
+    if (compiles >= maxCompiles) {
+      return null;
+    }
+    compiles += 1;
+    const rendered = await render(source);
+    cache.set(source, rendered);
+    return rendered;
+  };
+  const reachesTarget = (pageCount: number) => (shrinking ? pageCount <= targetPageCount : pageCount >= targetPageCount);
+  const result = (source: string, layoutStep: number, bulletsRemoved: number): PageFitResult | null => {
+    const rendered = cache.get(source);
+    return rendered?.pageCount === targetPageCount
+      ? { latex: source, pageCount: rendered.pageCount, text: rendered.text, layoutStep, bulletsRemoved, compiles }
+      : null;
+  };
+
+  const stepSource = (step: number) => applyLayoutProfile(latex, steps[step - 1]);
+  const step = await searchSmallest(steps.length, async (n) => {
+    const rendered = await evaluate(stepSource(n));
+    return rendered ? reachesTarget(rendered.pageCount) : null;
+  });
+  if (step !== null) {
+    const fitted = result(stepSource(step), step, 0);
+    if (fitted || !shrinking) {
+      return fitted;
+    }
+  }
+  if (!shrinking) {
+    return null;
+  }
+
+  // When a step overshoots (e.g. 3 pages straight to 1), the step before it is
+  // still too long, so bullets come off that gentler layout instead.
+  const layoutStep = step === null ? steps.length : step - 1;
+  const base = layoutStep ? stepSource(layoutStep) : latex;
+  const candidates = rankBulletCandidates(base, input.jobDescription);
+  const removed = await searchSmallest(candidates.length, async (n) => {
+    const rendered = await evaluate(trimBullets(base, candidates, n));
+    return rendered ? reachesTarget(rendered.pageCount) : null;
+  });
+  return removed === null ? null : result(trimBullets(base, candidates, removed), layoutStep, removed);
+}
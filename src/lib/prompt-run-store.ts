@@ -0,0 +1,64 @@
+import "server-only";
+
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { PromptUsage } from "@/lib/ai/prompt-experiments";
+import { countPageFixAttempts, type PromptRunRecord } from "@/lib/prompt-runs";
+
+const PROMPT_RUNS_COLLECTION = "promptRuns";
+const logger = createDebugLogger("prompt-run-store");
+
+function collection() {
+  return getDb().collection(PROMPT_RUNS_COLLECTION);
+}
+
+/**
+ * Records the prompts a generation attempt used. Resumed attempts skip the
+ * steps that already finished, so their usage is merged into the earlier one.
+ */
+export async function recordPromptRun(entry: {
+  generationId: string;
+  userId: string;
+  sessionId: string;
+  prompts: PromptUsage;
+  cvStatus: "success" | "failed" | null;
+}): Promise<void> {
+  const ref = collection().doc(entry.generationId);
+  const now = new Date().toISOString();
+  await getDb().runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const existing = snapshot.exists ? (snapshot.data() as PromptRunRecord) : null;
+    const prompts = { ...(existing?.prompts ?? {}), ...entry.prompts };
+    const record: PromptRunRecord = {
+      generationId: entry.generationId,
+      userId: entry.userId,
+      sessionId: entry.sessionId,
+      prompts,
+      cvStatus: entry.cvStatus ?? existing?.cvStatus ?? null,
+      pageFixAttempts: countPageFixAttempts(prompts),
+      rating: existing?.rating ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    tx.set(ref, record);
+  });
+  logger.step("Prompt run recorded", { generationId: entry.generationId, prompts: Object.keys(entry.prompts).length });
+}
+
+/** Returns false when the generation has no prompt run or belongs to someone else. */
+export async function ratePromptRun(generationId: string, userId: string, rating: number): Promise<boolean> {
+  const ref = collection().doc(generationId);
+  return getDb().runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists || (snapshot.data() as PromptRunRecord).userId !== userId) {
+      return false;
+    }
+    tx.update(ref, { rating, updatedAt: new Date().toISOString() });
+    return true;
+  });
+}
+
+export async function listRecentPromptRuns(limit: number): Promise<PromptRunRecord[]> {
+  const snapshot = await collection().orderBy("createdAt", "desc").limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as PromptRunRecord);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import promptCatalog from "@/prompts.json";
+
+import { assignPromptVersion, DEFAULT_PROMPT_VERSION, parsePromptCatalog, resolvePromptTemplate } from "./ai/prompt-experiments";
+import { countPageFixAttempts, summarizePromptRuns, type PromptRunRecord } from "./prompt-runs";
+
+const definition = {
+  template: "base",
+  versions: { concise: "short" },
+  experiment: { assignment: "user" as const, weights: { default: 50, concise: 50 } },
+};
+
+function run(overrides: Partial<PromptRunRecord>): PromptRunRecord {
+  return {
+    generationId: "gen",
+    userId: "user",
+    sessionId: "session",
+    prompts: {},
+    cvStatus: "success",
+    pageFixAttempts: 0,
+    rating: null,
+    createdAt: "2026-05-01T00:00:00.000Z",
+    updatedAt: "2026-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("prompt experiments", () => {
+  it("keeps a user on one version and splits users across versions", () => {
+    const versions = Array.from({ length: 200 }, (_, index) =>
+      assignPromptVersion("generateCVAdvanced", definition, { userId: `user-${index}`, generationId: `gen-${index}` }),
+    );
+    expect(new Set(versions)).toEqual(new Set([DEFAULT_PROMPT_VERSION, "concise"]));
+    expect(versions.filter((version) => version === "concise").length).toBeGreaterThan(60);
+
+    const pinned = assignPromptVersion("generateCVAdvanced", definition, { userId: "user-7", generationId: "another" });
+    expect(pinned).toBe(versions[7]);
+    expect(resolvePromptTemplate(definition, "concise")).toBe("short");
+  });
+
+  it("falls back to the default version without an experiment or a seed", () => {
+    expect(assignPromptVersion("key", { template: "base" }, { userId: "user" })).toBe(DEFAULT_PROMPT_VERSION);
+    expect(assignPromptVersion("key", definition, {})).toBe(DEFAULT_PROMPT_VERSION);
+  });
+
+  it("accepts the shipped prompt catalog", () => {
+    expect(Object.keys(parsePromptCatalog(promptCatalog))).toEqual(Object.keys(promptCatalog));
+  });
+
+  it("rejects experiment arms without a version and versions missing variables", () => {
+    const entry = {
+      workflow: "cv",
+      description: "Tailors the CV",
+      variables: ["jobDescription", "originalCV"],
+      template: "Job: {{jobDescription}}\nCV: {{originalCV}}",
+      versions: { concise: "Job: {{jobDescription}}" },
+      experiment: { assignment: "user", weights: { default: 50, concise: 25, bold: 25 } },
+    };
+
+    expect(() => parsePromptCatalog({ generateCVAdvanced: entry })).toThrow(/Experiment arm "bold" is not a defined version/);
+    expect(() => parsePromptCatalog({ generateCVAdvanced: entry })).toThrow(/Version is missing \{\{originalCV\}\}/);
+    expect(() =>
+      parsePromptCatalog({ generateCVAdvanced: { ...entry, experiment: { assignment: "session", weights: {} } } }),
+    ).toThrow(/experiment\.assignment/);
+  });
+
+  it("compares outcomes per prompt version", () => {
+    const prompts = (version: string) => ({ generateCVAdvanced: { version, renders: 1 } });
+    const stats = summarizePromptRuns([
+      run({ prompts: prompts("default"), cvStatus: "success", rating: 4 }),
+      run({ prompts: prompts("default"), cvStatus: "failed", pageFixAttempts: 2 }),
+      run({ prompts: prompts("concise"), cvStatus: "success", rating: 5 }),
+    ]);
+
+    expect(stats).toEqual([
+      { key: "generateCVAdvanced", version: "concise", runs: 1, compileSuccessRate: 1, avgPageFixAttempts: 0, ratedRuns: 1, avgRating: 5 },
+      { key: "generateCVAdvanced", version: "default", runs: 2, compileSuccessRate: 0.5, avgPageFixAttempts: 1, ratedRuns: 1, avgRating: 4 },
+    ]);
+    expect(countPageFixAttempts({ fixCVTooLong: { version: "default", renders: 2 }, fixCVTooShort: { version: "default", renders: 1 } })).toBe(3);
+  });
+});
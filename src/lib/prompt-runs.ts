@@ -0,0 +1,85 @@
+import type { PromptUsage } from "@/lib/ai/prompt-experiments";
+
+/**
+ * One record per generation in the `promptRuns` collection: the prompt
+ * versions it used and its outcome. The admin prompts view aggregates these
+ * per prompt version to tell whether a prompt change helped.
+ */
+
+export type PromptRunRecord = {
+  generationId: string;
+  userId: string;
+  sessionId: string;
+  prompts: PromptUsage;
+  cvStatus: "success" | "failed" | null;
+  pageFixAttempts: number;
+  rating: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PromptVersionStats = {
+  key: string;
+  version: string;
+  runs: number;
+  compileSuccessRate: number | null;
+  avgPageFixAttempts: number;
+  ratedRuns: number;
+  avgRating: number | null;
+};
+
+/** Session metadata map of generationId to the user's 1-5 rating, so the artifacts view can show it. */
+export const GENERATION_RATINGS_KEY = "generationRatings";
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+const PAGE_FIX_PROMPT_KEYS = ["fixCVTooLong", "fixCVTooShort"];
+
+export function countPageFixAttempts(usage: PromptUsage): number {
+  return PAGE_FIX_PROMPT_KEYS.reduce((total, key) => total + (usage[key]?.renders ?? 0), 0);
+}
+
+export function readGenerationRating(metadata: Record<string, unknown> | null | undefined, generationId: string): number | null {
+  const ratings = metadata?.[GENERATION_RATINGS_KEY];
+  if (!ratings || typeof ratings !== "object") {
+    return null;
+  }
+  const value = (ratings as Record<string, unknown>)[generationId];
+  return typeof value === "number" && value >= MIN_RATING && value <= MAX_RATING ? value : null;
+}
+
+export function summarizePromptRuns(runs: PromptRunRecord[]): PromptVersionStats[] {
+  type Totals = { runs: number; cvRuns: number; cvSuccesses: number; pageFixes: number; ratedRuns: number; ratingSum: number };
+  const totals = new Map<string, { key: string; version: string } & Totals>();
+
+  for (const run of runs) {
+    for (const [key, { version }] of Object.entries(run.prompts)) {
+      const id = `${key}\u0000${version}`;
+      const entry = totals.get(id) ?? { key, version, runs: 0, cvRuns: 0, cvSuccesses: 0, pageFixes: 0, ratedRuns: 0, ratingSum: 0 };
+      entry.runs += 1;
+      entry.pageFixes += run.pageFixAttempts;
+      if (run.cvStatus) {
+        entry.cvRuns += 1;
+        entry.cvSuccesses += run.cvStatus === "success" ? 1 : 0;
+      }
+      if (run.rating !== null) {
+        entry.ratedRuns += 1;
+        entry.ratingSum += run.rating;
+      }
+      totals.set(id, entry);
+    }
+  }
+
+  return [...totals.values()]
+    .map((entry) => ({
+      key: entry.key,
+      version: entry.version,
+      runs: entry.runs,
+      compileSuccessRate: entry.cvRuns ? entry.cvSuccesses / entry.cvRuns : null,
+      avgPageFixAttempts: entry.pageFixes / entry.runs,
+      ratedRuns: entry.ratedRuns,
+      avgRating: entry.ratedRuns ? entry.ratingSum / entry.ratedRuns : null,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key) || a.version.localeCompare(b.version));
+}
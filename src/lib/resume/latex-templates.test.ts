@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { latexToDocxBlocks } from "@/lib/docx/document-blocks";
+import { assertSafeLatexSource } from "@/lib/latex-safety";
+
+import { escapeLatex, formatResumeDate, RESUME_TEMPLATE_GALLERY, renderResumeLatex } from "./latex-templates";
+import { RESUME_TEMPLATE_IDS, resolveResumeTemplate, resumeSchema } from "./schema";
+
+const resume = resumeSchema.parse({
+  basics: { name: "Ada Lovelace", email: "ada@example.com", profiles: [{ network: "GitHub", username: "ada" }] },
+  work: [{ name: "R&D Labs", position: "Engineer", startDate: "2021-03", highlights: ["Cut costs by 30% for #1 client"] }],
+  skills: [{ name: "Languages", keywords: ["C#", "TypeScript"] }],
+  meta: { template: "moderncv" },
+});
+
+describe("escapeLatex", () => {
+  it("escapes every LaTeX special character", () => {
+    expect(escapeLatex("a_b & 50% {x} $5 #1 ~ ^ \\")).toBe(
+      "a\\_b \\& 50\\% \\{x\\} \\$5 \\#1 \\textasciitilde{} \\textasciicircum{} \\textbackslash{}",
+    );
+  });
+});
+
+describe("renderResumeLatex", () => {
+  it("formats ISO dates and open-ended ranges", () => {
+    expect(formatResumeDate("2021-03-01")).toBe("Mar 2021");
+    expect(renderResumeLatex(resume, "classic")).toContain("\\textbf{Engineer} \\hfill Mar 2021 -- Present\\\\");
+  });
+
+  it("uses the template from resume metadata", () => {
+    const latex = renderResumeLatex(resume);
+    expect(latex).toContain("\\documentclass[11pt,a4paper,sans]{moderncv}");
+    expect(latex).toContain("\\social[github]{ada}");
+    expect(latex).toContain("\\cventry{Mar 2021 -- Present}{Engineer}{R\\&D Labs}{}{}");
+  });
+
+  it("produces LaTeX the DOCX exporter can read back", () => {
+    const blocks = latexToDocxBlocks(renderResumeLatex(resume, "classic"));
+    expect(blocks).toContainEqual({ kind: "heading", runs: [{ text: "Experience" }] });
+    expect(blocks).toContainEqual({ kind: "bullet", runs: [{ text: "Cut costs by 30% for #1 client" }] });
+  });
+
+  it("renders every gallery template as safe LaTeX with the same content", () => {
+    expect(RESUME_TEMPLATE_GALLERY.map((template) => template.id).sort()).toEqual([...RESUME_TEMPLATE_IDS].sort());
+    for (const template of RESUME_TEMPLATE_IDS) {
+      const latex = renderResumeLatex(resume, template);
+      expect(() => assertSafeLatexSource(latex)).not.toThrow();
+      expect(latex).toContain("Cut costs by 30\\% for \\#1 client");
+      expect(latex).toContain("\\end{document}");
+    }
+    expect(() => assertSafeLatexSource("\\input{/etc/passwd}")).toThrow(/Unsafe LaTeX/);
+  });
+
+  it("prefers the resume's pinned template over the user's default", () => {
+    expect(resolveResumeTemplate(resume, "ats")).toBe("moderncv");
+    expect(resolveResumeTemplate({ ...resume, meta: undefined }, "ats")).toBe("ats");
+  });
+});
@@ -0,0 +1,665 @@
+import { resolveResumeTemplate, type Resume, type ResumeTemplateId } from "./schema";
+
+/**
+ * LaTeX is generated here from structured resume data, never by the model, so
+ * every user-supplied string goes through `escapeLatex` and the templates only
+ * use packages available on the compile host.
+ */
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  _: "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const MODERNCV_SOCIAL_NETWORKS = new Set(["linkedin", "github", "twitter", "gitlab", "stackoverflow", "orcid"]);
+
+export function escapeLatex(value: string): string {
+  return value.replace(/[\\&%$#_{}~^]/g, (char) => LATEX_ESCAPES[char] ?? char);
+}
+
+function escapeUrl(value: string): string {
+  return value.replace(/[\\{}]/g, "").replace(/[%#]/g, (char) => `\\${char}`);
+}
+
+export function formatResumeDate(value?: string): string {
+  if (!value) {
+    return "";
+  }
+  const match = /^(\d{4})-(\d{2})/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const month = MONTHS[Number(match[2]) - 1];
+  return month ? `${month} ${match[1]}` : match[1];
+}
+
+function formatDateRange(startDate?: string, endDate?: string): string {
+  const start = formatResumeDate(startDate);
+  const end = formatResumeDate(endDate) || (start ? "Present" : "");
+  if (!start) {
+    return end;
+  }
+  return `${start} -- ${end}`;
+}
+
+function compact(values: Array<string | undefined | null>): string[] {
+  return values.map((value) => value?.trim() ?? "").filter(Boolean);
+}
+
+function renderItemize(items: string[]): string {
+  if (!items.length) {
+    return "";
+  }
+  return ["\\begin{itemize}", ...items.map((item) => `  \\item ${escapeLatex(item)}`), "\\end{itemize}"].join("\n");
+}
+
+function contactLine(resume: Resume): string[] {
+  const { basics } = resume;
+  const location = compact([basics.location?.city, basics.location?.region, basics.location?.countryCode]).join(", ");
+  return compact([
+    basics.email ? `\\href{mailto:${escapeUrl(basics.email)}}{${escapeLatex(basics.email)}}` : null,
+    basics.phone ? escapeLatex(basics.phone) : null,
+    location ? escapeLatex(location) : null,
+    basics.url ? `\\href{${escapeUrl(basics.url)}}{${escapeLatex(basics.url.replace(/^https?:\/\//, ""))}}` : null,
+    ...basics.profiles.map((profile) =>
+      profile.url
+        ? `\\href{${escapeUrl(profile.url)}}{${escapeLatex(profile.username || profile.network || profile.url)}}`
+        : profile.username
+          ? escapeLatex(compact([profile.network, profile.username]).join(": "))
+          : null,
+    ),
+  ]);
+}
+
+function renderClassic(resume: Resume): string {
+  const { basics } = resume;
+  const lines: string[] = [
+    "\\documentclass[10pt,a4paper]{article}",
+    "\\usepackage[margin=0.7in]{geometry}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{enumitem}",
+    "\\usepackage[hidelinks]{hyperref}",
+    "\\setlength{\\parindent}{0pt}",
+    "\\setlist[itemize]{leftmargin=*,itemsep=1pt,topsep=2pt}",
+    "\\pagestyle{empty}",
+    "\\makeatletter",
+    "\\renewcommand{\\section}{\\@startsection{section}{1}{0pt}{10pt}{4pt}{\\large\\bfseries}}",
+    "\\makeatother",
+    "\\begin{document}",
+    "\\begin{center}",
+    `{\\LARGE\\bfseries ${escapeLatex(basics.name)}}\\\\[2pt]`,
+  ];
+  if (basics.label) {
+    lines.push(`${escapeLatex(basics.label)}\\\\[2pt]`);
+  }
+  const contacts = contactLine(resume);
+  if (contacts.length) {
+    lines.push(contacts.join(" $\\cdot$ "));
+  }
+  lines.push("\\end{center}");
+
+  if (basics.summary) {
+    lines.push("\\section*{Summary}", escapeLatex(basics.summary));
+  }
+
+  if (resume.work.length) {
+    lines.push("\\section*{Experience}");
+    for (const entry of resume.work) {
+      const heading = entry.position ? `\\textbf{${escapeLatex(entry.position)}}` : `\\textbf{${escapeLatex(entry.name)}}`;
+      lines.push(`${heading} \\hfill ${formatDateRange(entry.startDate, entry.endDate)}\\\\`);
+      const subtitle = compact([entry.position ? entry.name : null, entry.location]).map(escapeLatex).join(", ");
+      if (subtitle) {
+        lines.push(`\\textit{${subtitle}}\\\\`);
+      }
+      if (entry.summary) {
+        lines.push(escapeLatex(entry.summary));
+      }
+      lines.push(renderItemize(entry.highlights), "");
+    }
+  }
+
+  if (resume.projects.length) {
+    lines.push("\\section*{Projects}");
+    for (const project of resume.projects) {
+      const dates = formatDateRange(project.startDate, project.endDate);
+      lines.push(`\\textbf{${escapeLatex(project.name)}}${dates ? ` \\hfill ${dates}` : ""}\\\\`);
+      if (project.description) {
+        lines.push(escapeLatex(project.description));
+      }
+      lines.push(renderItemize(project.highlights), "");
+    }
+  }
+
+  if (resume.skills.length) {
+    lines.push("\\section*{Skills}");
+    lines.push(
+      resume.skills
+        .map((skill) =>
+          skill.keywords.length
+            ? `\\textbf{${escapeLatex(skill.name)}:} ${escapeLatex(skill.keywords.join(", "))}`
+            : `\\textbf{${escapeLatex(skill.name)}}`,
+        )
+        .join("\\\\\n"),
+    );
+  }
+
+  if (resume.education.length) {
+    lines.push("\\section*{Education}");
+    for (const entry of resume.education) {
+      const degree = compact([entry.studyType, entry.area]).join(", ");
+      lines.push(`\\textbf{${escapeLatex(entry.institution)}} \\hfill ${formatDateRange(entry.startDate, entry.endDate)}\\\\`);
+      const details = compact([degree, entry.score ? `Score: ${entry.score}` : null]).join(" -- ");
+      if (details) {
+        lines.push(`${escapeLatex(details)}\\\\`);
+      }
+    }
+  }
+
+  lines.push(...renderClassicExtras(resume), "\\end{document}", "");
+  return lines.join("\n");
+}
+
+function renderClassicExtras(resume: Resume): string[] {
+  const lines: string[] = [];
+  if (resume.certificates.length) {
+    lines.push(
+      "\\section*{Certifications}",
+      renderItemize(
+        resume.certificates.map((cert) => compact([cert.name, cert.issuer, formatResumeDate(cert.date)]).join(", ")),
+      ),
+    );
+  }
+  if (resume.awards.length) {
+    lines.push(
+      "\\section*{Awards}",
+      renderItemize(resume.awards.map((award) => compact([award.title, award.awarder, formatResumeDate(award.date)]).join(", "))),
+    );
+  }
+  if (resume.languages.length) {
+    lines.push(
+      "\\section*{Languages}",
+      escapeLatex(resume.languages.map((lang) => compact([lang.language, lang.fluency ? `(${lang.fluency})` : null]).join(" ")).join(", ")),
+    );
+  }
+  return lines;
+}
+
+function splitName(name: string): [string, string] {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return [parts[0], ""];
+  }
+  return [parts.slice(0, -1).join(" "), parts[parts.length - 1]];
+}
+
+function renderModerncv(resume: Resume): string {
+  const { basics } = resume;
+  const [firstName, lastName] = splitName(basics.name);
+  const lines: string[] = [
+    "\\documentclass[11pt,a4paper,sans]{moderncv}",
+    "\\moderncvstyle{banking}",
+    "\\moderncvcolor{blue}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[scale=0.82]{geometry}",
+    `\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`,
+  ];
+  if (basics.label) {
+    lines.push(`\\title{${escapeLatex(basics.label)}}`);
+  }
+  if (basics.phone) {
+    lines.push(`\\phone[mobile]{${escapeLatex(basics.phone)}}`);
+  }
+  if (basics.email) {
+    lines.push(`\\email{${escapeLatex(basics.email)}}`);
+  }
+  if (basics.url) {
+    lines.push(`\\homepage{${escapeLatex(basics.url.replace(/^https?:\/\//, ""))}}`);
+  }
+  for (const profile of basics.profiles) {
+    const network = profile.network?.toLowerCase();
+    if (network && profile.username && MODERNCV_SOCIAL_NETWORKS.has(network)) {
+      lines.push(`\\social[${network}]{${escapeLatex(profile.username)}}`);
+    }
+  }
+  lines.push("\\begin{document}", "\\makecvtitle");
+
+  if (basics.summary) {
+    lines.push("\\section{Summary}", `\\cvitem{}{${escapeLatex(basics.summary)}}`);
+  }
+
+  if (resume.work.length) {
+    lines.push("\\section{Experience}");
+    for (const entry of resume.work) {
+      const body = compact([entry.summary ? escapeLatex(entry.summary) : null, renderItemize(entry.highlights)]).join("\n");
+      lines.push(
+        `\\cventry{${formatDateRange(entry.startDate, entry.endDate)}}{${escapeLatex(entry.position ?? "")}}{${escapeLatex(entry.name)}}{${escapeLatex(entry.location ?? "")}}{}{${body}}`,
+      );
+    }
+  }
+
+  if (resume.projects.length) {
+    lines.push("\\section{Projects}");
+    for (const project of resume.projects) {
+      const body = compact([project.description ? escapeLatex(project.description) : null, renderItemize(project.highlights)]).join("\n");
+      lines.push(`\\cventry{${formatDateRange(project.startDate, project.endDate)}}{${escapeLatex(project.name)}}{}{}{}{${body}}`);
+    }
+  }
+
+  if (resume.skills.length) {
+    lines.push("\\section{Skills}");
+    for (const skill of resume.skills) {
+      lines.push(`\\cvitem{${escapeLatex(skill.name)}}{${escapeLatex(skill.keywords.join(", "))}}`);
+    }
+  }
+
+  if (resume.education.length) {
+    lines.push("\\section{Education}");
+    for (const entry of resume.education) {
+      const degree = compact([entry.studyType, entry.area]).join(", ");
+      lines.push(
+        `\\cventry{${formatDateRange(entry.startDate, entry.endDate)}}{${escapeLatex(degree)}}{${escapeLatex(entry.institution)}}{}{${escapeLatex(entry.score ?? "")}}{}`,
+      );
+    }
+  }
+
+  if (resume.certificates.length) {
+    lines.push("\\section{Certifications}");
+    for (const cert of resume.certificates) {
+      lines.push(`\\cvitem{${escapeLatex(formatResumeDate(cert.date))}}{${escapeLatex(compact([cert.name, cert.issuer]).join(", "))}}`);
+    }
+  }
+
+  if (resume.awards.length) {
+    lines.push("\\section{Awards}");
+    for (const award of resume.awards) {
+      lines.push(`\\cvitem{${escapeLatex(formatResumeDate(award.date))}}{${escapeLatex(compact([award.title, award.awarder]).join(", "))}}`);
+    }
+  }
+
+  if (resume.languages.length) {
+    lines.push("\\section{Languages}");
+    for (const lang of resume.languages) {
+      lines.push(`\\cvitem{${escapeLatex(lang.language)}}{${escapeLatex(lang.fluency ?? "")}}`);
+    }
+  }
+
+  lines.push("\\end{document}", "");
+  return lines.join("\n");
+}
+
+function renderSkillLines(resume: Resume): string {
+  return resume.skills
+    .map((skill) =>
+      skill.keywords.length
+        ? `\\textbf{${escapeLatex(skill.name)}:} ${escapeLatex(skill.keywords.join(", "))}`
+        : `\\textbf{${escapeLatex(skill.name)}}`,
+    )
+    .join("\\\\\n");
+}
+
+/**
+ * Single column, standard section names, no tables, columns, or icons, and a
+ * Unicode map so parsers extract the PDF text in reading order.
+ */
+function renderAts(resume: Resume): string {
+  const { basics } = resume;
+  const lines: string[] = [
+    "\\documentclass[11pt,letterpaper]{article}",
+    "\\usepackage[margin=0.75in]{geometry}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{lmodern}",
+    "\\usepackage{enumitem}",
+    "\\usepackage[hidelinks]{hyperref}",
+    "\\input{glyphtounicode}",
+    "\\pdfgentounicode=1",
+    "\\setlength{\\parindent}{0pt}",
+    "\\setlist[itemize]{leftmargin=*,itemsep=1pt,topsep=2pt}",
+    "\\pagestyle{empty}",
+    "\\makeatletter",
+    "\\renewcommand{\\section}{\\@startsection{section}{1}{0pt}{10pt}{4pt}{\\large\\bfseries}}",
+    "\\makeatother",
+    "\\begin{document}",
+    `{\\Large\\bfseries ${escapeLatex(basics.name)}}\\\\`,
+  ];
+  if (basics.label) {
+    lines.push(`${escapeLatex(basics.label)}\\\\`);
+  }
+  const contacts = contactLine(resume);
+  if (contacts.length) {
+    lines.push(contacts.join(" | "));
+  }
+
+  if (basics.summary) {
+    lines.push("\\section*{Summary}", escapeLatex(basics.summary));
+  }
+
+  if (resume.work.length) {
+    lines.push("\\section*{Work Experience}");
+    for (const entry of resume.work) {
+      const title = compact([entry.position, entry.name]).map(escapeLatex).join(", ");
+      const details = compact([entry.location, formatDateRange(entry.startDate, entry.endDate)]).map(escapeLatex).join(" | ");
+      lines.push(`\\textbf{${title}}\\\\`);
+      if (details) {
+        lines.push(`${details}\\\\`);
+      }
+      if (entry.summary) {
+        lines.push(escapeLatex(entry.summary));
+      }
+      lines.push(renderItemize(entry.highlights), "");
+    }
+  }
+
+  if (resume.skills.length) {
+    lines.push("\\section*{Skills}", renderSkillLines(resume));
+  }
+
+  if (resume.projects.length) {
+    lines.push("\\section*{Projects}");
+    for (const project of resume.projects) {
+      const dates = formatDateRange(project.startDate, project.endDate);
+      lines.push(`\\textbf{${escapeLatex(project.name)}}${dates ? ` | ${dates}` : ""}\\\\`);
+      if (project.description) {
+        lines.push(escapeLatex(project.description));
+      }
+      lines.push(renderItemize(project.highlights), "");
+    }
+  }
+
+  if (resume.education.length) {
+    lines.push("\\section*{Education}");
+    for (const entry of resume.education) {
+      const degree = compact([entry.studyType, entry.area]).join(", ");
+      const details = compact([degree, formatDateRange(entry.startDate, entry.endDate), entry.score ? `Score: ${entry.score}` : null]);
+      lines.push(`\\textbf{${escapeLatex(entry.institution)}}\\\\`);
+      if (details.length) {
+        lines.push(`${escapeLatex(details.join(" | "))}\\\\`);
+      }
+    }
+  }
+
+  lines.push(...renderClassicExtras(resume), "\\end{document}", "");
+  return lines.join("\n");
+}
+
+/**
+ * Contact details, skills, and education in a narrow left column beside the
+ * experience. `paracol` lets both columns break across pages.
+ */
+function renderTwoColumn(resume: Resume): string {
+  const { basics } = resume;
+  const lines: string[] = [
+    "\\documentclass[10pt,a4paper]{article}",
+    "\\usepackage[margin=0.6in]{geometry}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{helvet}",
+    "\\renewcommand{\\familydefault}{\\sfdefault}",
+    "\\usepackage{xcolor}",
+    "\\usepackage{enumitem}",
+    "\\usepackage{titlesec}",
+    "\\usepackage{paracol}",
+    "\\usepackage[hidelinks]{hyperref}",
+    "\\definecolor{accent}{HTML}{1F4E79}",
+    "\\setlength{\\parindent}{0pt}",
+    "\\setlist[itemize]{leftmargin=*,itemsep=1pt,topsep=2pt}",
+    "\\titleformat{\\section}{\\color{accent}\\large\\bfseries}{}{0pt}{}[\\titlerule]",
+    "\\titlespacing*{\\section}{0pt}{8pt}{4pt}",
+    "\\columnratio{0.32}",
+    "\\setlength{\\columnsep}{1.5em}",
+    "\\pagestyle{empty}",
+    "\\begin{document}",
+    `{\\Huge\\bfseries\\color{accent} ${escapeLatex(basics.name)}}\\\\[2pt]`,
+  ];
+  if (basics.label) {
+    lines.push(`{\\large ${escapeLatex(basics.label)}}\\\\`);
+  }
+  lines.push("\\vspace{4pt}", "\\begin{paracol}{2}");
+
+  const contacts = contactLine(resume);
+  if (contacts.length) {
+    lines.push("\\section*{Contact}", contacts.join("\\\\\n"));
+  }
+  if (resume.skills.length) {
+    lines.push("\\section*{Skills}");
+    for (const skill of resume.skills) {
+      lines.push(`\\textbf{${escapeLatex(skill.name)}}\\\\`);
+      if (skill.keywords.length) {
+        lines.push(`${escapeLatex(skill.keywords.join(", "))}\\\\[3pt]`);
+      }
+    }
+  }
+  if (resume.education.length) {
+    lines.push("\\section*{Education}");
+    for (const entry of resume.education) {
+      const degree = compact([entry.studyType, entry.area]).join(", ");
+      lines.push(`\\textbf{${escapeLatex(entry.institution)}}\\\\`);
+      for (const detail of compact([degree, formatDateRange(entry.startDate, entry.endDate), entry.score])) {
+        lines.push(`${escapeLatex(detail)}\\\\`);
+      }
+      lines.push("\\vspace{3pt}");
+    }
+  }
+  if (resume.languages.length) {
+    lines.push("\\section*{Languages}");
+    lines.push(resume.languages.map((lang) => escapeLatex(compact([lang.language, lang.fluency ? `(${lang.fluency})` : null]).join(" "))).join("\\\\\n"));
+  }
+  if (resume.certificates.length) {
+    lines.push(
+      "\\section*{Certifications}",
+      renderItemize(resume.certificates.map((cert) => compact([cert.name, cert.issuer, formatResumeDate(cert.date)]).join(", "))),
+    );
+  }
+
+  lines.push("\\switchcolumn");
+  if (basics.summary) {
+    lines.push("\\section*{Profile}", escapeLatex(basics.summary));
+  }
+  if (resume.work.length) {
+    lines.push("\\section*{Experience}");
+    for (const entry of resume.work) {
+      const heading = escapeLatex(entry.position ?? entry.name);
+      lines.push(`\\textbf{${heading}} \\hfill {\\small ${formatDateRange(entry.startDate, entry.endDate)}}\\\\`);
+      const subtitle = compact([entry.position ? entry.name : null, entry.location]).map(escapeLatex).join(", ");
+      if (subtitle) {
+        lines.push(`{\\color{accent}${subtitle}}\\\\`);
+      }
+      if (entry.summary) {
+        lines.push(escapeLatex(entry.summary));
+      }
+      lines.push(renderItemize(entry.highlights), "");
+    }
+  }
+  if (resume.projects.length) {
+    lines.push("\\section*{Projects}");
+    for (const project of resume.projects) {
+      const dates = formatDateRange(project.startDate, project.endDate);
+      lines.push(`\\textbf{${escapeLatex(project.name)}}${dates ? ` \\hfill {\\small ${dates}}` : ""}\\\\`);
+      if (project.description) {
+        lines.push(escapeLatex(project.description));
+      }
+      lines.push(renderItemize(project.highlights), "");
+    }
+  }
+  if (resume.awards.length) {
+    lines.push(
+      "\\section*{Awards}",
+      renderItemize(resume.awards.map((award) => compact([award.title, award.awarder, formatResumeDate(award.date)]).join(", "))),
+    );
+  }
+
+  lines.push("\\end{paracol}", "\\end{document}", "");
+  return lines.join("\n");
+}
+
+/** Education and awards lead, as academic committees read them first. */
+function renderAcademic(resume: Resume): string {
+  const { basics } = resume;
+  const lines: string[] = [
+    "\\documentclass[11pt,a4paper]{article}",
+    "\\usepackage[margin=1in]{geometry}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{lmodern}",
+    "\\usepackage{enumitem}",
+    "\\usepackage{titlesec}",
+    "\\usepackage[hidelinks]{hyperref}",
+    "\\setlength{\\parindent}{0pt}",
+    "\\setlist[itemize]{leftmargin=1.5em,itemsep=1pt,topsep=2pt}",
+    "\\titleformat{\\section}{\\scshape\\large}{}{0pt}{}[\\titlerule]",
+    "\\titlespacing*{\\section}{0pt}{12pt}{6pt}",
+    "\\pagestyle{plain}",
+    "\\begin{document}",
+    "\\begin{center}",
+    `{\\LARGE\\scshape ${escapeLatex(basics.name)}}\\\\[4pt]`,
+  ];
+  if (basics.label) {
+    lines.push(`\\textit{${escapeLatex(basics.label)}}\\\\[2pt]`);
+  }
+  const contacts = contactLine(resume);
+  if (contacts.length) {
+    lines.push(contacts.join(" \\quad "));
+  }
+  lines.push("\\end{center}");
+
+  if (basics.summary) {
+    lines.push("\\section*{Summary}", escapeLatex(basics.summary));
+  }
+
+  if (resume.education.length) {
+    lines.push("\\section*{Education}");
+    for (const entry of resume.education) {
+      const degree = compact([entry.studyType, entry.area]).join(" in ");
+      lines.push(`\\textbf{${escapeLatex(degree || entry.institution)}} \\hfill ${formatDateRange(entry.startDate, entry.endDate)}\\\\`);
+      const details = compact([degree ? entry.institution : null, entry.score]).map(escapeLatex).join(" -- ");
+      if (details) {
+        lines.push(`\\textit{${details}}\\\\`);
+      }
+      if (entry.courses.length) {
+        lines.push(`Coursework: ${escapeLatex(entry.courses.join(", "))}\\\\`);
+      }
+      lines.push("");
+    }
+  }
+
+  if (resume.awards.length) {
+    lines.push("\\section*{Honours and Awards}");
+    for (const award of resume.awards) {
+      lines.push(`${escapeLatex(compact([award.title, award.awarder]).join(", "))} \\hfill ${formatResumeDate(award.date)}\\\\`);
+      if (award.summary) {
+        lines.push(`\\textit{${escapeLatex(award.summary)}}\\\\`);
+      }
+    }
+  }
+
+  if (resume.work.length) {
+    lines.push("\\section*{Research and Professional Experience}");
+    for (const entry of resume.work) {
+      lines.push(`\\textbf{${escapeLatex(entry.position ?? entry.name)}} \\hfill ${formatDateRange(entry.startDate, entry.endDate)}\\\\`);
+      const subtitle = compact([entry.position ? entry.name : null, entry.location]).map(escapeLatex).join(", ");
+      if (subtitle) {
+        lines.push(`\\textit{${subtitle}}\\\\`);
+      }
+      if (entry.summary) {
+        lines.push(escapeLatex(entry.summary));
+      }
+      lines.push(renderItemize(entry.highlights), "");
+    }
+  }
+
+  if (resume.projects.length) {
+    lines.push("\\section*{Selected Projects}");
+    for (const project of resume.projects) {
+      lines.push(`\\textbf{${escapeLatex(project.name)}}${project.description ? ` -- ${escapeLatex(project.description)}` : ""}`);
+      lines.push(renderItemize(project.highlights), "");
+    }
+  }
+
+  if (resume.skills.length) {
+    lines.push("\\section*{Skills}", renderSkillLines(resume));
+  }
+
+  if (resume.certificates.length) {
+    lines.push(
+      "\\section*{Certifications}",
+      renderItemize(resume.certificates.map((cert) => compact([cert.name, cert.issuer, formatResumeDate(cert.date)]).join(", "))),
+    );
+  }
+  if (resume.languages.length) {
+    lines.push(
+      "\\section*{Languages}",
+      escapeLatex(resume.languages.map((lang) => compact([lang.language, lang.fluency ? `(${lang.fluency})` : null]).join(" ")).join(", ")),
+    );
+  }
+
+  lines.push("\\end{document}", "");
+  return lines.join("\n");
+}
+
+const TEMPLATE_RENDERERS: Record<ResumeTemplateId, (resume: Resume) => string> = {
+  classic: renderClassic,
+  moderncv: renderModerncv,
+  ats: renderAts,
+  twocolumn: renderTwoColumn,
+  academic: renderAcademic,
+};
+
+export type ResumeTemplateInfo = {
+  id: ResumeTemplateId;
+  label: string;
+  description: string;
+  /** Preview image served from `public/`. */
+  thumbnail: string;
+};
+
+export const RESUME_TEMPLATE_GALLERY: ReadonlyArray<ResumeTemplateInfo> = [
+  {
+    id: "ats",
+    label: "ATS single column",
+    description: "Plain single column with standard headings that applicant tracking systems parse reliably.",
+    thumbnail: "/templates/ats.svg",
+  },
+  {
+    id: "classic",
+    label: "Classic (article)",
+    description: "Compact article layout with centred header and dated entries.",
+    thumbnail: "/templates/classic.svg",
+  },
+  {
+    id: "twocolumn",
+    label: "Two-column modern",
+    description: "Accent colour, contact and skills in a sidebar beside the experience.",
+    thumbnail: "/templates/twocolumn.svg",
+  },
+  {
+    id: "moderncv",
+    label: "moderncv banking",
+    description: "The moderncv class in its banking style.",
+    thumbnail: "/templates/moderncv.svg",
+  },
+  {
+    id: "academic",
+    label: "Academic",
+    description: "Serif CV that leads with education and awards, for research and teaching roles.",
+    thumbnail: "/templates/academic.svg",
+  },
+];
+
+export const RESUME_TEMPLATE_LABELS = Object.fromEntries(
+  RESUME_TEMPLATE_GALLERY.map((template) => [template.id, template.label]),
+) as Record<ResumeTemplateId, string>;
+
+export function renderResumeLatex(resume: Resume, template: ResumeTemplateId = resolveResumeTemplate(resume)): string {
+  return TEMPLATE_RENDERERS[template](resume);
+}
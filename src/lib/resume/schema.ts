@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+/**
+ * Subset of the JSON Resume schema (https://jsonresume.org/schema) that the CV
+ * templates render. Unknown keys are stripped, so exports from other JSON
+ * Resume tools import without edits.
+ */
+
+const text = (limit: number) => z.string().trim().max(limit);
+const optionalText = (limit: number) => text(limit).optional();
+const highlights = z.array(text(600)).max(20).default([]);
+
+export const RESUME_TEMPLATE_IDS = ["classic", "moderncv", "ats", "twocolumn", "academic"] as const;
+export type ResumeTemplateId = (typeof RESUME_TEMPLATE_IDS)[number];
+
+const profileSchema = z.object({
+  network: optionalText(80),
+  username: optionalText(120),
+  url: optionalText(400),
+});
+
+const basicsSchema = z.object({
+  name: text(120).min(1, "basics.name is required"),
+  label: optionalText(160),
+  email: optionalText(200),
+  phone: optionalText(60),
+  url: optionalText(400),
+  summary: optionalText(2000),
+  location: z
+    .object({
+      city: optionalText(120),
+      region: optionalText(120),
+      countryCode: optionalText(8),
+    })
+    .optional(),
+  profiles: z.array(profileSchema).max(10).default([]),
+});
+
+const workSchema = z.object({
+  name: text(160).min(1, "work[].name is required"),
+  position: optionalText(160),
+  location: optionalText(160),
+  url: optionalText(400),
+  startDate: optionalText(40),
+  endDate: optionalText(40),
+  summary: optionalText(1200),
+  highlights,
+});
+
+const educationSchema = z.object({
+  institution: text(200).min(1, "education[].institution is required"),
+  area: optionalText(160),
+  studyType: optionalText(120),
+  startDate: optionalText(40),
+  endDate: optionalText(40),
+  score: optionalText(60),
+  courses: z.array(text(160)).max(20).default([]),
+});
+
+const skillSchema = z.object({
+  name: text(120).min(1, "skills[].name is required"),
+  level: optionalText(60),
+  keywords: z.array(text(80)).max(40).default([]),
+});
+
+const projectSchema = z.object({
+  name: text(160).min(1, "projects[].name is required"),
+  description: optionalText(1200),
+  url: optionalText(400),
+  startDate: optionalText(40),
+  endDate: optionalText(40),
+  highlights,
+  keywords: z.array(text(80)).max(30).default([]),
+});
+
+const awardSchema = z.object({
+  title: text(200).min(1, "awards[].title is required"),
+  date: optionalText(40),
+  awarder: optionalText(160),
+  summary: optionalText(600),
+});
+
+const certificateSchema = z.object({
+  name: text(200).min(1, "certificates[].name is required"),
+  date: optionalText(40),
+  issuer: optionalText(160),
+  url: optionalText(400),
+});
+
+const languageSchema = z.object({
+  language: text(80).min(1, "languages[].language is required"),
+  fluency: optionalText(80),
+});
+
+export const resumeSchema = z.object({
+  basics: basicsSchema,
+  work: z.array(workSchema).max(40).default([]),
+  education: z.array(educationSchema).max(20).default([]),
+  skills: z.array(skillSchema).max(40).default([]),
+  projects: z.array(projectSchema).max(40).default([]),
+  awards: z.array(awardSchema).max(30).default([]),
+  certificates: z.array(certificateSchema).max(30).default([]),
+  languages: z.array(languageSchema).max(20).default([]),
+  meta: z
+    .object({
+      template: z.enum(RESUME_TEMPLATE_IDS).optional(),
+    })
+    .optional(),
+});
+
+export type Resume = z.infer<typeof resumeSchema>;
+export type ResumeWork = Resume["work"][number];
+export type ResumeProject = Resume["projects"][number];
+export type ResumeSkill = Resume["skills"][number];
+
+export type ResumeParseResult =
+  | { ok: true; resume: Resume }
+  | { ok: false; errors: string[] };
+
+function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") {
+      return `${acc}[${segment}]`;
+    }
+    return acc ? `${acc}.${String(segment)}` : String(segment);
+  }, "");
+}
+
+/** Parses and validates a JSON Resume document, returning readable issues instead of throwing. */
+export function parseResumeJson(raw: string): ResumeParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return { ok: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const result = resumeSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.slice(0, 10).map((issue) => {
+        const path = formatIssuePath(issue.path);
+        return path ? `${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+  return { ok: true, resume: result.data };
+}
+
+/** A template pinned in the resume's metadata wins over the user's default. */
+export function resolveResumeTemplate(resume: Resume, fallback?: ResumeTemplateId): ResumeTemplateId {
+  return resume.meta?.template ?? fallback ?? "classic";
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { parseResumeJson, type Resume } from "./schema";
+import { applyResumeTailoring, resumeTailoringSchema } from "./tailoring";
+
+function sampleResume(): Resume {
+  const parsed = parseResumeJson(
+    JSON.stringify({
+      basics: { name: "Ada Lovelace", label: "Engineer", summary: "Original summary" },
+      work: [
+        { name: "Acme", position: "Engineer", startDate: "2020-01", highlights: ["Built A", "Built B"] },
+        { name: "Globex", position: "Intern", startDate: "2018-06", endDate: "2019-08", highlights: ["Fixed C"] },
+      ],
+      skills: [{ name: "Languages", keywords: ["TypeScript", "Go", "Rust"] }],
+    }),
+  );
+  if (!parsed.ok) {
+    throw new Error(parsed.errors.join("; "));
+  }
+  return parsed.resume;
+}
+
+describe("applyResumeTailoring", () => {
+  it("keeps selected entries in source order with rewritten highlights", () => {
+    const tailoring = resumeTailoringSchema.parse({
+      summary: "Tailored summary",
+      work: [
+        { index: 1, highlights: ["Fixed C for payments"] },
+        { index: 0, highlights: [] },
+        { index: 7, highlights: ["Invented"] },
+      ],
+    });
+    const result = applyResumeTailoring(sampleResume(), tailoring);
+    expect(result.basics.summary).toBe("Tailored summary");
+    expect(result.work.map((entry) => entry.name)).toEqual(["Acme", "Globex"]);
+    expect(result.work[0].highlights).toEqual(["Built A", "Built B"]);
+    expect(result.work[1].highlights).toEqual(["Fixed C for payments"]);
+  });
+
+  it("drops skill keywords the candidate never listed", () => {
+    const tailoring = resumeTailoringSchema.parse({
+      skills: [{ index: 0, keywords: ["go", "Kubernetes", "TypeScript"] }],
+    });
+    const result = applyResumeTailoring(sampleResume(), tailoring);
+    expect(result.skills[0].keywords).toEqual(["Go", "TypeScript"]);
+    expect(result.work).toHaveLength(2);
+  });
+});
+
+describe("parseResumeJson", () => {
+  it("reports readable paths for invalid documents", () => {
+    const result = parseResumeJson(JSON.stringify({ basics: { name: "" }, work: [{ position: "Dev" }] }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toContain("basics.name: basics.name is required");
+      expect(result.errors.some((error) => error.startsWith("work[0].name"))).toBe(true);
+    }
+  });
+});
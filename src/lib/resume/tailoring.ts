@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+import type { Resume } from "./schema";
+
+const MAX_TAILORED_HIGHLIGHTS = 8;
+
+const selectedEntrySchema = z.object({
+  index: z.number().int().min(0),
+  highlights: z.array(z.string().trim().min(1).max(600)).max(MAX_TAILORED_HIGHLIGHTS).default([]),
+});
+
+/**
+ * What the model returns: which source entries to keep and rewritten bullet
+ * text. Names, employers, and dates are never part of the output, so they
+ * always come from the candidate's own resume.
+ */
+export const resumeTailoringSchema = z.object({
+  label: z.string().trim().max(160).optional(),
+  summary: z.string().trim().max(2000).optional(),
+  work: z.array(selectedEntrySchema).max(40).default([]),
+  projects: z.array(selectedEntrySchema).max(40).default([]),
+  skills: z
+    .array(
+      z.object({
+        index: z.number().int().min(0),
+        keywords: z.array(z.string().trim().min(1).max(80)).max(40).default([]),
+      }),
+    )
+    .max(40)
+    .default([]),
+  education: z.array(z.number().int().min(0)).max(20).optional(),
+});
+
+export type ResumeTailoring = z.infer<typeof resumeTailoringSchema>;
+
+/** Serializes the resume with stable entry indexes for the tailoring prompt. */
+export function buildResumePromptView(resume: Resume): string {
+  return JSON.stringify(
+    {
+      basics: { label: resume.basics.label, summary: resume.basics.summary },
+      work: resume.work.map((entry, index) => ({ index, ...entry })),
+      projects: resume.projects.map((entry, index) => ({ index, ...entry })),
+      skills: resume.skills.map((entry, index) => ({ index, ...entry })),
+      education: resume.education.map((entry, index) => ({ index, ...entry })),
+    },
+    null,
+    2,
+  );
+}
+
+function pickByIndex<T, S extends { index: number }>(source: T[], selections: S[]): Array<{ entry: T; selection: S }> {
+  const seen = new Set<number>();
+  return selections
+    .filter((selection) => {
+      if (selection.index >= source.length || seen.has(selection.index)) {
+        return false;
+      }
+      seen.add(selection.index);
+      return true;
+    })
+    .sort((a, b) => a.index - b.index)
+    .map((selection) => ({ entry: source[selection.index], selection }));
+}
+
+/**
+ * Applies a tailoring to the source resume. Entries keep their source order,
+ * skill keywords are limited to ones the candidate already listed, and an
+ * empty selection for a section falls back to the source section.
+ */
+export function applyResumeTailoring(resume: Resume, tailoring: ResumeTailoring): Resume {
+  const work = pickByIndex(resume.work, tailoring.work).map(({ entry, selection }) => ({
+    ...entry,
+    highlights: selection.highlights.length ? selection.highlights : entry.highlights,
+  }));
+  const projects = pickByIndex(resume.projects, tailoring.projects).map(({ entry, selection }) => ({
+    ...entry,
+    highlights: selection.highlights.length ? selection.highlights : entry.highlights,
+  }));
+  const skills = pickByIndex(resume.skills, tailoring.skills).map(({ entry, selection }) => {
+    const known = new Map(entry.keywords.map((keyword) => [keyword.toLowerCase(), keyword]));
+    const keywords = selection.keywords
+      .map((keyword) => known.get(keyword.toLowerCase()))
+      .filter((keyword): keyword is string => Boolean(keyword));
+    return { ...entry, keywords: keywords.length ? Array.from(new Set(keywords)) : entry.keywords };
+  });
+  const education = tailoring.education
+    ? pickByIndex(
+        resume.education,
+        tailoring.education.map((index) => ({ index })),
+      ).map(({ entry }) => entry)
+    : resume.education;
+
+  return {
+    ...resume,
+    basics: {
+      ...resume.basics,
+      label: tailoring.label || resume.basics.label,
+      summary: tailoring.summary || resume.basics.summary,
+    },
+    work: work.length ? work : resume.work,
+    projects: tailoring.projects.length ? projects : resume.projects,
+    skills: skills.length ? skills : resume.skills,
+    education: education.length ? education : resume.education,
+  };
+}
@@ -89,11 +89,16 @@ export async function getAccessControlConfig(): Promise<AccessControlConfig> {
   return nextConfig;
 }
 
+export function isAdminEmail(email?: string | null): boolean {
+  const normalizedEmail = (email ?? "").trim().toLowerCase();
+  return Boolean(env.ADMIN_EMAIL && normalizedEmail === env.ADMIN_EMAIL.toLowerCase());
+}
+
 export async function isUserAllowed(uid: string, email?: string | null): Promise<boolean> {
   const normalizedEmail = (email ?? "").trim().toLowerCase();
   
   // Admin Bypass
-  if (env.ADMIN_EMAIL && normalizedEmail === env.ADMIN_EMAIL.toLowerCase()) {
+  if (isAdminEmail(normalizedEmail)) {
     allowedUsersLogger.info("Admin bypass granted", { uid, email: normalizedEmail });
     return true;
   }
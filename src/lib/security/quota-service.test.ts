@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({ profile: null as unknown }));
+
+vi.mock("@/env", () => ({ env: {} }));
+
+vi.mock("@/lib/firebase-admin", () => ({
+  getDb: () => ({
+    runTransaction: async <T>(update: (tx: unknown) => Promise<T>) =>
+      update({
+        get: async () => ({ id: "user-1", exists: store.profile !== null, data: () => store.profile }),
+        set: (_ref: unknown, value: unknown) => {
+          store.profile = value;
+        },
+      }),
+  }),
+}));
+
+vi.mock("@/lib/security/allowed-users", () => ({
+  getAccessControlConfig: async () => ({ holdTimeoutMinutes: 60 }),
+}));
+
+vi.mock("@/lib/security/user-profile", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./user-profile")>()),
+  getUserProfileRef: () => ({}),
+}));
+
+import { quotaService } from "./quota-service";
+import { serializeUserProfile, userProfileFromSnapshot } from "./user-profile";
+
+const HOLD_KEY = "session-1:generation-1";
+const MINUTE = 60_000;
+
+function quota() {
+  return userProfileFromSnapshot({ id: "user-1", data: () => store.profile } as never).quota;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-03-01T09:00:00.000Z"));
+  const now = new Date();
+  store.profile = serializeUserProfile({
+    uid: "user-1",
+    email: "user@example.com",
+    createdAt: now,
+    updatedAt: now,
+    quota: { totalAllocated: 10, remaining: 10, onHold: 0, holds: {} },
+    allocations: [],
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("quota holds across job attempts", () => {
+  it("still charges a generation whose retry outlives the original hold", async () => {
+    await quotaService.placeHold({ uid: "user-1", sessionId: HOLD_KEY, amount: 2, minAmount: 1 });
+
+    // Attempt 2 starts after a 45-minute timeout and backoff, and refreshes the hold.
+    vi.advanceTimersByTime(50 * MINUTE);
+    await quotaService.placeHold({ uid: "user-1", sessionId: HOLD_KEY, amount: 2, minAmount: 1 });
+    expect(quota()).toMatchObject({ remaining: 8, onHold: 2 });
+
+    // Past the first hold's expiry, but inside the refreshed one.
+    vi.advanceTimersByTime(40 * MINUTE);
+    await quotaService.commitHold("user-1", HOLD_KEY, 3);
+    expect(quota()).toMatchObject({ remaining: 7, onHold: 0, holds: {} });
+  });
+
+  it("places the hold again when it lapsed before the retry started", async () => {
+    await quotaService.placeHold({ uid: "user-1", sessionId: HOLD_KEY, amount: 2, minAmount: 1 });
+
+    vi.advanceTimersByTime(70 * MINUTE);
+    await quotaService.placeHold({ uid: "user-1", sessionId: HOLD_KEY, amount: 2, minAmount: 1 });
+    expect(quota()).toMatchObject({ remaining: 8, onHold: 2 });
+
+    await quotaService.commitHold("user-1", HOLD_KEY, 2);
+    expect(quota()).toMatchObject({ remaining: 8, onHold: 0 });
+  });
+
+  it("charges nothing when an expired hold is committed without a refresh", async () => {
+    await quotaService.placeHold({ uid: "user-1", sessionId: HOLD_KEY, amount: 2, minAmount: 1 });
+
+    vi.advanceTimersByTime(90 * MINUTE);
+    // Any later hold placement sweeps the expired hold back into `remaining`.
+    await quotaService.placeHold({ uid: "user-1", sessionId: "session-2:generation-2", amount: 1 });
+    await quotaService.commitHold("user-1", HOLD_KEY, 2);
+    expect(quota()).toMatchObject({ remaining: 9, onHold: 1 });
+  });
+});
@@ -37,6 +37,8 @@ export type PlaceHoldOptions = {
   uid: string;
   sessionId: string;
   amount?: number;
+  /** Hold whatever remains, down to this much, when `amount` is not available. Defaults to `amount`. */
+  minAmount?: number;
   holdDurationMs?: number;
 };
 
@@ -68,8 +70,9 @@ export class QuotaService {
   }
 
   async placeHold(options: PlaceHoldOptions): Promise<{ hold: TokenHold; quota: UserQuota }> {
-    const amount = options.amount ?? 1;
-    if (amount <= 0) {
+    const requested = options.amount ?? 1;
+    const minAmount = Math.min(options.minAmount ?? requested, requested);
+    if (minAmount <= 0) {
       throw new Error("Hold amount must be greater than zero");
     }
     const config = await getAccessControlConfig();
@@ -98,14 +101,15 @@ export class QuotaService {
         return { profile, hold: existingHold };
       }
 
-      if (profile.quota.remaining < amount) {
+      if (profile.quota.remaining < minAmount) {
         quotaLogger.warn("Quota exceeded", {
           uid: options.uid,
           remaining: profile.quota.remaining,
-          requested: amount,
+          requested: minAmount,
         });
         throw new QuotaExceededError();
       }
+      const amount = Math.min(requested, profile.quota.remaining);
 
       const hold: TokenHold = {
         sessionId: options.sessionId,
@@ -128,7 +132,12 @@ export class QuotaService {
     return { hold: result.hold, quota: result.profile.quota };
   }
 
-  async commitHold(uid: string, sessionId: string): Promise<UserQuota> {
+  /**
+   * Settles the hold. With `consumed`, the difference from the held amount is
+   * refunded or, when the generation used more, charged from what remains
+   * (never below zero).
+   */
+  async commitHold(uid: string, sessionId: string, consumed?: number | null): Promise<UserQuota> {
     const ref = getUserProfileRef(uid);
     const result = await getDb().runTransaction(async (tx) => {
       const snap = await tx.get(ref);
@@ -142,6 +151,11 @@ export class QuotaService {
         return profile.quota;
       }
       profile.quota.onHold = Math.max(0, profile.quota.onHold - hold.amount);
+      if (typeof consumed === "number") {
+        const difference = hold.amount - consumed;
+        profile.quota.remaining = Math.max(0, profile.quota.remaining + difference);
+        quotaLogger.info("Hold settled by consumption", { uid, sessionId, held: hold.amount, consumed });
+      }
       delete profile.quota.holds[sessionId];
       profile.updatedAt = new Date();
       tx.set(ref, serializeUserProfile(profile));
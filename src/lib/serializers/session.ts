@@ -20,11 +20,12 @@ function mapChatHistory(entries: ChatLogEntry[]): SerializableChatMessage[] {
     const rawJobInput = typeof payload["rawJobInput"] === "string" ? (payload["rawJobInput"] as string) : undefined;
     const generationId = typeof payload["generationId"] === "string" ? (payload["generationId"] as string) : undefined;
     const clientTimestamp = typeof payload["clientTimestamp"] === "string" ? (payload["clientTimestamp"] as string) : undefined;
+    const artifact = typeof payload["artifact"] === "string" ? (payload["artifact"] as string) : undefined;
     const resolvedTimestamp = clientTimestamp ?? entry.timestamp;
 
     return {
       id: entry.id ?? `${entry.timestamp}-${index}`,
-      role: kind === "prompt" ? "user" : "assistant",
+      role: kind === "prompt" || payload["role"] === "user" ? "user" : "assistant",
       content: entry.message,
       level: entry.level,
       timestamp: resolvedTimestamp,
@@ -33,6 +34,7 @@ function mapChatHistory(entries: ChatLogEntry[]): SerializableChatMessage[] {
         rawJobInput,
         generationId,
         clientTimestamp,
+        artifact,
       },
     };
   });
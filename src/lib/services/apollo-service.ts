@@ -64,8 +64,9 @@ export class ApolloService {
 
   constructor(private readonly ai: AIService = aiService) {}
 
+  /** Replay serves recorded Apollo responses, so it needs no key. */
   isEnabled(): boolean {
-    return Boolean(env.APOLLO_API_KEY);
+    return Boolean(env.APOLLO_API_KEY) || env.FIXTURE_MODE === "replay";
   }
 
   async findContact(params: FindContactParams): Promise<ApolloCandidate | null> {
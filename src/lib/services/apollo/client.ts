@@ -1,10 +1,17 @@
 import { env } from "@/env";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { getFixtureRecorder } from "@/lib/fixtures/recorder";
 import { BASE_URL } from "./config";
 
 const httpLogger = createDebugLogger("apollo-http");
 
+/** Recorded and replayed under FIXTURE_MODE; the key covers path, method, and body but never the API key. */
 export async function fetchJson<T>(path: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const request = { path, method: init.method ?? "GET", body: typeof init.body === "string" ? init.body : null };
+  return getFixtureRecorder().run("apollo", request, () => fetchLive<T>(path, init, timeoutMs));
+}
+
+async function fetchLive<T>(path: string, init: RequestInit, timeoutMs: number): Promise<T> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
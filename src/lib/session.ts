@@ -2,7 +2,26 @@ import { randomUUID } from "node:crypto";
 import { Timestamp, type FirestoreDataConverter, type DocumentData } from "firebase-admin/firestore";
 import { env } from "@/env";
 import { getDb } from "@/lib/firebase-admin";
+import {
+  APPLICATION_METADATA_KEY,
+  readApplicationTracker,
+  type ApplicationTracker,
+} from "@/lib/application-tracker";
 import { createDebugLogger } from "@/lib/debug-logger";
+import {
+  FOLLOW_UP_METADATA_KEY,
+  FOLLOW_UP_NEXT_DUE_KEY,
+  nextFollowUpDueAt,
+  readFollowUps,
+  type FollowUpSequence,
+} from "@/lib/follow-ups";
+import {
+  EMAIL_SENDS_METADATA_KEY,
+  appendEmailSend,
+  readEmailSends,
+  type EmailSendRecord,
+} from "@/lib/email-sends";
+import { INTERVIEW_PREP_METADATA_KEY, readInterviewPrep } from "@/lib/interview-prep";
 import { sanitizeForStorage } from "@/lib/logging/redaction";
 import { quotaService } from "@/lib/security/quota-service";
 
@@ -310,6 +329,93 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * Reads the session inside a transaction, checks ownership, and merges the
+   * keys returned by `mutate` into its metadata. Concurrent writers to other
+   * metadata keys are never overwritten with a stale copy.
+   */
+  async updateSessionMetadataInTransaction(
+    id: string,
+    userId: string,
+    mutate: (current: SessionRecord) => Record<string, unknown>,
+  ): Promise<SessionRecord> {
+    return this.db.runTransaction(async (tx) => {
+      const ref = this.collection.doc(id);
+      const snap = await tx.get(ref);
+      if (!snap.exists) {
+        this.logger.error("Session not found during metadata update", { id });
+        throw new Error(`Session ${id} not found`);
+      }
+      const current = snap.data();
+      if (!current) {
+        throw new Error(`Session ${id} failed to deserialize`);
+      }
+      if (current.userId !== userId) {
+        this.logger.error("Session ownership mismatch during metadata update", {
+          id,
+          expectedUserId: current.userId,
+          providedUserId: userId,
+        });
+        throw new Error("Session ownership validation failed");
+      }
+
+      const updated: SessionRecord = {
+        ...current,
+        metadata: { ...current.metadata, ...mutate(current) },
+        updatedAt: new Date(),
+        version: current.version + 1,
+      };
+
+      tx.set(ref, updated);
+      return updated;
+    });
+  }
+
+  async updateApplicationTracker(
+    id: string,
+    userId: string,
+    mutate: (current: ApplicationTracker) => ApplicationTracker,
+  ): Promise<SessionRecord> {
+    this.logger.step("Updating application tracker", { id, userId });
+    const updated = await this.updateSessionMetadataInTransaction(id, userId, (current) => {
+      const tracker = mutate(readApplicationTracker(current.metadata, current.createdAt.toISOString()));
+      return this.sanitizeMetadataForPersistence({ [APPLICATION_METADATA_KEY]: tracker }) ?? {};
+    });
+    this.logger.step("Application tracker updated", { id, version: updated.version });
+    return updated;
+  }
+
+  async recordEmailSend(id: string, userId: string, record: EmailSendRecord): Promise<SessionRecord> {
+    this.logger.step("Recording email send", { id, userId, status: record.status });
+    const updated = await this.updateSessionMetadataInTransaction(id, userId, (current) => {
+      const sends = appendEmailSend(readEmailSends(current.metadata), record);
+      return this.sanitizeMetadataForPersistence({ [EMAIL_SENDS_METADATA_KEY]: sends }) ?? {};
+    });
+    this.logger.step("Email send recorded", { id, version: updated.version });
+    return updated;
+  }
+
+  async updateFollowUps(
+    id: string,
+    userId: string,
+    mutate: (current: FollowUpSequence) => FollowUpSequence,
+  ): Promise<SessionRecord> {
+    this.logger.step("Updating follow-up sequence", { id, userId });
+    const updated = await this.updateSessionMetadataInTransaction(id, userId, (current) => {
+      const existing = readFollowUps(current.metadata);
+      if (!existing) {
+        throw new Error("This session has no follow-up sequence");
+      }
+      const sequence = mutate(existing);
+      return {
+        ...this.sanitizeMetadataForPersistence({ [FOLLOW_UP_METADATA_KEY]: sequence }),
+        [FOLLOW_UP_NEXT_DUE_KEY]: nextFollowUpDueAt(sequence),
+      };
+    });
+    this.logger.step("Follow-up sequence updated", { id, version: updated.version });
+    return updated;
+  }
+
   async deleteSession(id: string, userId: string): Promise<{ deletedFileKeys: string[] }> {
     this.logger.step("Deleting session", { id, userId });
     return this.db.runTransaction(async (tx) => {
@@ -383,6 +489,9 @@ export class SessionRepository {
         delete cleanedMetadata.coldEmailBody;
         delete cleanedMetadata.coldEmailTo;
       }
+      if (readInterviewPrep(cleanedMetadata)?.generationId === generationId) {
+        delete cleanedMetadata[INTERVIEW_PREP_METADATA_KEY];
+      }
 
       const hadProcessingState = current.status === "processing";
       const fallbackStatus: SessionStatus = hadProcessingState
@@ -499,11 +608,14 @@ export class SessionRepository {
 
   private async deleteGenerationLogs(sessionId: string, generationId: string): Promise<void> {
     const runRef = this.db.collection(collectionName).doc(sessionId).collection("generationLogs").doc(generationId);
-    const entries = await runRef.collection("entries").listDocuments();
-    if (entries.length) {
-      const batch = this.db.batch();
-      entries.forEach((entry) => batch.delete(entry));
-      await batch.commit();
+    // Log entries and resume checkpoints both live under the run document.
+    for (const subcollection of ["entries", "checkpoints"]) {
+      const docs = await runRef.collection(subcollection).listDocuments();
+      if (docs.length) {
+        const batch = this.db.batch();
+        docs.forEach((doc) => batch.delete(doc));
+        await batch.commit();
+      }
     }
     await runRef.delete();
     this.logger.step("Deleted generation log subcollection", { sessionId, generationId });
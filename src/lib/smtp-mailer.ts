@@ -0,0 +1,79 @@
+import "server-only";
+
+import { isIP } from "node:net";
+import nodemailer from "nodemailer";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { readSmtpPassword, resolveAllowedSmtpAddress, type SmtpSettingsRecord } from "@/lib/smtp-settings";
+
+export type MailAttachment = {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+};
+
+export type OutgoingMail = {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+};
+
+export type SentMail = {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+};
+
+const SMTP_TIMEOUT_MS = 20_000;
+const logger = createDebugLogger("smtp-mailer");
+
+function toAddressList(value: Array<string | { address: string }>): string[] {
+  return value.map((entry) => (typeof entry === "string" ? entry : entry.address));
+}
+
+/** Sends one message through the user's SMTP account. Throws when the server rejects every recipient. */
+export async function sendSmtpMail(settings: SmtpSettingsRecord, mail: OutgoingMail): Promise<SentMail> {
+  const address = await resolveAllowedSmtpAddress(settings.host);
+  const hostname = settings.host.trim();
+  const password = readSmtpPassword(settings);
+  const transport = nodemailer.createTransport({
+    // Connect to the address that was checked; TLS still verifies the certificate against the hostname.
+    host: address,
+    port: settings.port,
+    secure: settings.security === "ssl",
+    requireTLS: settings.security === "starttls",
+    ignoreTLS: settings.security === "none",
+    tls: isIP(hostname) ? undefined : { servername: hostname },
+    auth: settings.username ? { user: settings.username, pass: password ?? "" } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  try {
+    const info = await transport.sendMail({
+      from: settings.fromName ? { name: settings.fromName, address: settings.fromAddress } : settings.fromAddress,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      attachments: mail.attachments,
+    });
+    const result: SentMail = {
+      messageId: info.messageId,
+      accepted: toAddressList(info.accepted),
+      rejected: toAddressList(info.rejected),
+    };
+    logger.step("SMTP message sent", {
+      host: settings.host,
+      messageId: result.messageId,
+      accepted: result.accepted.length,
+      rejected: result.rejected.length,
+    });
+    if (!result.accepted.length) {
+      throw new Error(`SMTP server rejected ${mail.to}`);
+    }
+    return result;
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,13 @@
+export type SmtpSecurity = "ssl" | "starttls" | "none";
+
+/** Client-safe view of a user's SMTP settings; the password itself never leaves the server. */
+export type SmtpSettingsView = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string;
+  fromName: string;
+  fromAddress: string;
+  hasPassword: boolean;
+  updatedAt: string;
+};
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { lookup, env } = vi.hoisted(() => ({
+  lookup: vi.fn(),
+  env: { SMTP_ALLOW_PRIVATE_HOSTS: false },
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("node:dns/promises", () => ({ lookup }));
+vi.mock("@/env", () => ({ env }));
+vi.mock("@/lib/firebase-admin", () => ({ getDb: vi.fn() }));
+
+import { isPrivateHost, resolveAllowedSmtpAddress } from "./smtp-settings";
+
+describe("isPrivateHost", () => {
+  it.each([
+    "localhost",
+    "mail.localhost",
+    "smtp.internal",
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.31.255.255",
+    "192.168.0.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "100.127.255.254",
+    "0.0.0.0",
+    "::1",
+    "[::1]",
+    "fd12:3456::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+    "[::ffff:10.0.0.1]",
+  ])("blocks %s", (host) => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each(["smtp.gmail.com", "8.8.8.8", "100.128.0.1", "172.32.0.1", "2001:4860:4860::8888", "::ffff:8.8.8.8"])(
+    "allows %s",
+    (host) => {
+      expect(isPrivateHost(host)).toBe(false);
+    },
+  );
+});
+
+describe("resolveAllowedSmtpAddress", () => {
+  beforeEach(() => {
+    lookup.mockReset();
+    env.SMTP_ALLOW_PRIVATE_HOSTS = false;
+  });
+
+  it("returns the vetted address for a public host", async () => {
+    lookup.mockResolvedValue([{ address: "203.0.113.7", family: 4 }]);
+
+    await expect(resolveAllowedSmtpAddress(" smtp.example.com ")).resolves.toBe("203.0.113.7");
+    expect(lookup).toHaveBeenCalledWith("smtp.example.com", { all: true });
+  });
+
+  it("rejects a public name when any resolved address is private", async () => {
+    lookup.mockResolvedValue([
+      { address: "203.0.113.7", family: 4 },
+      { address: "::ffff:127.0.0.1", family: 6 },
+    ]);
+
+    await expect(resolveAllowedSmtpAddress("smtp.example.com")).rejects.toThrow("resolves to a private network address");
+  });
+
+  it("skips resolution when private hosts are allowed", async () => {
+    env.SMTP_ALLOW_PRIVATE_HOSTS = true;
+
+    await expect(resolveAllowedSmtpAddress("localhost")).resolves.toBe("localhost");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+import "server-only";
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { Timestamp, type FirestoreDataConverter } from "firebase-admin/firestore";
+import { env } from "@/env";
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { SmtpSecurity, SmtpSettingsView } from "@/lib/smtp-settings-shared";
+
+/**
+ * Per-user SMTP account used to send cold emails. Passwords are stored
+ * AES-256-GCM encrypted with `SMTP_ENCRYPTION_KEY` and never leave the server.
+ */
+
+export type SmtpSettingsRecord = {
+  userId: string;
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string;
+  encryptedPassword: string | null;
+  fromName: string;
+  fromAddress: string;
+  updatedAt: Date;
+};
+
+export type SmtpSettingsUpdate = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string;
+  /** `undefined` keeps the stored password, an empty string clears it. */
+  password?: string;
+  fromName: string;
+  fromAddress: string;
+};
+
+const collectionName = "smtpSettings";
+const logger = createDebugLogger("smtp-settings");
+
+const converter: FirestoreDataConverter<SmtpSettingsRecord> = {
+  toFirestore(record) {
+    const updatedAt = record.updatedAt instanceof Date ? record.updatedAt : new Date();
+    return {
+      userId: record.userId,
+      host: record.host,
+      port: record.port,
+      security: record.security,
+      username: record.username,
+      encryptedPassword: record.encryptedPassword,
+      fromName: record.fromName,
+      fromAddress: record.fromAddress,
+      updatedAt: Timestamp.fromDate(updatedAt),
+    };
+  },
+  fromFirestore(snapshot) {
+    const data = snapshot.data();
+    return {
+      userId: data.userId,
+      host: data.host ?? "",
+      port: typeof data.port === "number" ? data.port : 587,
+      security: data.security === "ssl" || data.security === "none" ? data.security : "starttls",
+      username: data.username ?? "",
+      encryptedPassword: data.encryptedPassword ?? null,
+      fromName: data.fromName ?? "",
+      fromAddress: data.fromAddress ?? "",
+      updatedAt: data.updatedAt?.toDate?.() ?? new Date(0),
+    };
+  },
+};
+
+function settingsRef(userId: string) {
+  return getDb().collection(collectionName).withConverter(converter).doc(userId);
+}
+
+function requireEncryptionKey(): Buffer {
+  if (!env.SMTP_ENCRYPTION_KEY) {
+    throw new Error("SMTP_ENCRYPTION_KEY must be configured before SMTP passwords can be stored.");
+  }
+  return Buffer.from(env.SMTP_ENCRYPTION_KEY, "base64");
+}
+
+function encryptPassword(password: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", requireEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(password, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+function decryptPassword(encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Stored SMTP password is malformed; save it again in Settings.");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", requireEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+/**
+ * True for localhost names and for loopback, private, link-local and
+ * carrier-grade NAT addresses. IPv4-mapped IPv6 forms such as
+ * `::ffff:127.0.0.1` match their IPv4 range.
+ */
+export function isPrivateHost(host: string): boolean {
+  const normalized = normalizeHost(host);
+  if (normalized === "localhost" || normalized.endsWith(".localhost") || normalized.endsWith(".internal")) {
+    return true;
+  }
+  const version = isIP(normalized);
+  return version !== 0 && privateRanges.check(normalized, version === 4 ? "ipv4" : "ipv6");
+}
+
+/** Blocks loopback and private-network hosts unless `SMTP_ALLOW_PRIVATE_HOSTS` is on. */
+export function assertAllowedSmtpHost(host: string): void {
+  if (!env.SMTP_ALLOW_PRIVATE_HOSTS && isPrivateHost(host)) {
+    throw new Error(`SMTP host ${host} is on a private network and is not allowed here.`);
+  }
+}
+
+/**
+ * Resolves the SMTP host and returns the address to connect to. Every address
+ * in the DNS answer is checked, and the caller connects to the vetted one, so
+ * a public name cannot point the connection at a private network.
+ */
+export async function resolveAllowedSmtpAddress(host: string): Promise<string> {
+  assertAllowedSmtpHost(host);
+  const normalized = normalizeHost(host);
+  if (env.SMTP_ALLOW_PRIVATE_HOSTS) {
+    return normalized;
+  }
+  const addresses = await lookup(normalized, { all: true });
+  if (addresses.some((entry) => isPrivateHost(entry.address))) {
+    throw new Error(`SMTP host ${host} resolves to a private network address and is not allowed here.`);
+  }
+  const [first] = addresses;
+  if (!first) {
+    throw new Error(`SMTP host ${host} did not resolve to any address.`);
+  }
+  return first.address;
+}
+
+export async function getSmtpSettings(userId: string): Promise<SmtpSettingsRecord | null> {
+  const snapshot = await settingsRef(userId).get();
+  return snapshot.exists ? snapshot.data() ?? null : null;
+}
+
+export async function saveSmtpSettings(userId: string, update: SmtpSettingsUpdate): Promise<SmtpSettingsRecord> {
+  assertAllowedSmtpHost(update.host);
+  const current = await getSmtpSettings(userId);
+  const encryptedPassword =
+    update.password === undefined
+      ? current?.encryptedPassword ?? null
+      : update.password
+        ? encryptPassword(update.password)
+        : null;
+  const record: SmtpSettingsRecord = {
+    userId,
+    host: update.host.trim(),
+    port: update.port,
+    security: update.security,
+    username: update.username.trim(),
+    encryptedPassword,
+    fromName: update.fromName.trim(),
+    fromAddress: update.fromAddress.trim(),
+    updatedAt: new Date(),
+  };
+  await settingsRef(userId).set(record);
+  logger.step("SMTP settings saved", { userId, host: record.host, port: record.port, hasPassword: Boolean(encryptedPassword) });
+  return record;
+}
+
+export async function deleteSmtpSettings(userId: string): Promise<void> {
+  await settingsRef(userId).delete();
+  logger.step("SMTP settings deleted", { userId });
+}
+
+export function readSmtpPassword(record: SmtpSettingsRecord): string | null {
+  return record.encryptedPassword ? decryptPassword(record.encryptedPassword) : null;
+}
+
+export function toSmtpSettingsView(record: SmtpSettingsRecord): SmtpSettingsView {
+  return {
+    host: record.host,
+    port: record.port,
+    security: record.security,
+    username: record.username,
+    fromName: record.fromName,
+    fromAddress: record.fromAddress,
+    hasPassword: Boolean(record.encryptedPassword),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
@@ -3,10 +3,13 @@ import "server-only";
 import { Timestamp, type FirestoreDataConverter } from "firebase-admin/firestore";
 import { getDb } from "@/lib/firebase-admin";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { DEFAULT_CV_PROFILE_ID } from "@/lib/cv-profiles-shared";
 
 export type SourceDocumentType =
   | "original_cv"
   | "extensive_cv"
+  | "resume_json"
+  | "cv_template"
   | "cover_letter"
   | "cv_strategy"
   | "cover_letter_strategy"
@@ -16,6 +19,7 @@ export type SourceDocumentType =
 export type SourceDocumentRecord = {
   id: string;
   userId: string;
+  profileId: string;
   docType: SourceDocumentType;
   content: string;
   updatedAt: Date;
@@ -24,6 +28,9 @@ export type SourceDocumentRecord = {
 export type SourceDocumentSnapshot = {
   originalCV: string;
   extensiveCV: string;
+  resumeJson: string;
+  /** Default template id for generated CVs; empty keeps the master CV layout. */
+  cvTemplate: string;
   coverLetter: string;
   cvStrategy: string;
   coverLetterStrategy: string;
@@ -32,7 +39,23 @@ export type SourceDocumentSnapshot = {
   updatedAt: string | null;
 };
 
+export type SourceDocumentRevisionSource = "save" | "restore";
+
+/** Immutable copy of a source document written on every save that changes its content. */
+export type SourceDocumentRevision = {
+  id: string;
+  docType: SourceDocumentType;
+  profileId: string;
+  content: string;
+  size: number;
+  source: SourceDocumentRevisionSource;
+  createdAt: Date;
+};
+
 const collectionName = "sourceDocuments";
+const revisionsCollectionName = "revisions";
+// Autosave produces many small revisions; the oldest beyond this cap are pruned.
+export const MAX_SOURCE_DOCUMENT_REVISIONS = 200;
 const logger = createDebugLogger("source-documents");
 
 const converter: FirestoreDataConverter<SourceDocumentRecord> = {
@@ -40,6 +63,7 @@ const converter: FirestoreDataConverter<SourceDocumentRecord> = {
     const updatedAt = record.updatedAt instanceof Date ? record.updatedAt : new Date();
     return {
       userId: record.userId,
+      profileId: record.profileId,
       docType: record.docType,
       content: record.content,
       updatedAt: Timestamp.fromDate(updatedAt),
@@ -50,6 +74,7 @@ const converter: FirestoreDataConverter<SourceDocumentRecord> = {
     return {
       id: snapshot.id,
       userId: data.userId,
+      profileId: data.profileId ?? DEFAULT_CV_PROFILE_ID,
       docType: data.docType as SourceDocumentType,
       content: data.content,
       updatedAt: data.updatedAt?.toDate?.() ?? new Date(),
@@ -57,13 +82,44 @@ const converter: FirestoreDataConverter<SourceDocumentRecord> = {
   },
 };
 
-function getDocId(userId: string, docType: SourceDocumentType): string {
-  return `${userId}-${docType}`;
+const revisionConverter: FirestoreDataConverter<SourceDocumentRevision> = {
+  toFirestore(revision) {
+    const createdAt = revision.createdAt instanceof Date ? revision.createdAt : new Date();
+    return {
+      docType: revision.docType,
+      profileId: revision.profileId,
+      content: revision.content,
+      size: revision.size,
+      source: revision.source,
+      createdAt: Timestamp.fromDate(createdAt),
+    };
+  },
+  fromFirestore(snapshot) {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      docType: data.docType as SourceDocumentType,
+      profileId: data.profileId ?? DEFAULT_CV_PROFILE_ID,
+      content: data.content ?? "",
+      size: data.size ?? 0,
+      source: data.source === "restore" ? "restore" : "save",
+      createdAt: data.createdAt?.toDate?.() ?? new Date(),
+    };
+  },
+};
+
+// Default-profile ids predate CV profiles and must stay stable for existing users.
+function getDocId(userId: string, docType: SourceDocumentType, profileId: string): string {
+  return profileId === DEFAULT_CV_PROFILE_ID ? `${userId}-${docType}` : `${userId}-${profileId}-${docType}`;
 }
 
-export async function getSourceDocument(userId: string, docType: SourceDocumentType): Promise<SourceDocumentRecord | null> {
+export async function getSourceDocument(
+  userId: string,
+  docType: SourceDocumentType,
+  profileId: string = DEFAULT_CV_PROFILE_ID,
+): Promise<SourceDocumentRecord | null> {
   const db = getDb();
-  const ref = db.collection(collectionName).withConverter(converter).doc(getDocId(userId, docType));
+  const ref = db.collection(collectionName).withConverter(converter).doc(getDocId(userId, docType, profileId));
   const snapshot = await ref.get();
   if (!snapshot.exists) {
     return null;
@@ -72,27 +128,128 @@ export async function getSourceDocument(userId: string, docType: SourceDocumentT
   return data ?? null;
 }
 
-export async function saveSourceDocument(userId: string, docType: SourceDocumentType, content: string): Promise<SourceDocumentRecord> {
+function revisionsRef(userId: string, docType: SourceDocumentType, profileId: string) {
+  return getDb()
+    .collection(collectionName)
+    .doc(getDocId(userId, docType, profileId))
+    .collection(revisionsCollectionName)
+    .withConverter(revisionConverter);
+}
+
+/**
+ * Saves the document and records an immutable revision in the same
+ * transaction. Saves that do not change the content write nothing, so
+ * autosave flushes of unchanged text do not flood the history.
+ */
+export async function saveSourceDocument(
+  userId: string,
+  docType: SourceDocumentType,
+  content: string,
+  profileId: string = DEFAULT_CV_PROFILE_ID,
+  revisionSource: SourceDocumentRevisionSource = "save",
+): Promise<SourceDocumentRecord> {
   const db = getDb();
-  const ref = db.collection(collectionName).withConverter(converter).doc(getDocId(userId, docType));
+  const ref = db.collection(collectionName).withConverter(converter).doc(getDocId(userId, docType, profileId));
+  const revisionRef = revisionsRef(userId, docType, profileId).doc();
   const now = new Date();
   const record: SourceDocumentRecord = {
     id: ref.id,
     userId,
+    profileId,
     docType,
     content,
     updatedAt: now,
   };
-  logger.step("Saving source document", { userId, docType, bytes: content.length });
-  await ref.set(record, { merge: true });
+  logger.step("Saving source document", { userId, profileId, docType, bytes: content.length });
+  const changed = await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(ref);
+    if (current.exists && current.data()?.content === content) {
+      return false;
+    }
+    transaction.set(ref, record, { merge: true });
+    transaction.set(revisionRef, {
+      id: revisionRef.id,
+      docType,
+      profileId,
+      content,
+      size: Buffer.byteLength(content, "utf-8"),
+      source: revisionSource,
+      createdAt: now,
+    });
+    return true;
+  });
+  if (changed) {
+    await pruneRevisions(userId, docType, profileId).catch((error) => {
+      logger.warn("Failed to prune source document revisions", {
+        userId,
+        docType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
   return record;
 }
 
-export async function getSourceDocumentsForUser(userId: string): Promise<SourceDocumentSnapshot> {
+async function pruneRevisions(userId: string, docType: SourceDocumentType, profileId: string) {
+  const stale = await revisionsRef(userId, docType, profileId)
+    .orderBy("createdAt", "desc")
+    .offset(MAX_SOURCE_DOCUMENT_REVISIONS)
+    .select()
+    .get();
+  if (stale.empty) {
+    return;
+  }
+  const batch = getDb().batch();
+  stale.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  logger.step("Pruned source document revisions", { userId, docType, profileId, count: stale.size });
+}
+
+/** Lists revisions newest first. Content is omitted to keep the listing small. */
+export async function listSourceDocumentRevisions(
+  userId: string,
+  docType: SourceDocumentType,
+  profileId: string = DEFAULT_CV_PROFILE_ID,
+): Promise<Array<Omit<SourceDocumentRevision, "content">>> {
+  const snapshot = await revisionsRef(userId, docType, profileId)
+    .orderBy("createdAt", "desc")
+    .select("docType", "profileId", "size", "source", "createdAt")
+    .get();
+  return snapshot.docs.map((doc) => {
+    const revision = doc.data();
+    return {
+      id: revision.id,
+      docType: revision.docType,
+      profileId: revision.profileId,
+      size: revision.size,
+      source: revision.source,
+      createdAt: revision.createdAt,
+    };
+  });
+}
+
+export async function getSourceDocumentRevision(
+  userId: string,
+  docType: SourceDocumentType,
+  revisionId: string,
+  profileId: string = DEFAULT_CV_PROFILE_ID,
+): Promise<SourceDocumentRevision | null> {
+  const snapshot = await revisionsRef(userId, docType, profileId).doc(revisionId).get();
+  return snapshot.exists ? snapshot.data() ?? null : null;
+}
+
+async function listProfileRecords(userId: string, profileId: string): Promise<SourceDocumentRecord[]> {
   const db = getDb();
   const collection = db.collection(collectionName).withConverter(converter);
   const snapshot = await collection.where("userId", "==", userId).get();
-  const records = snapshot.docs.map((doc) => doc.data());
+  return snapshot.docs.map((doc) => doc.data()).filter((record) => record.profileId === profileId);
+}
+
+export async function getSourceDocumentsForUser(
+  userId: string,
+  profileId: string = DEFAULT_CV_PROFILE_ID,
+): Promise<SourceDocumentSnapshot> {
+  const records = await listProfileRecords(userId, profileId);
 
   const pick = (type: SourceDocumentType) => records.find((doc) => doc.docType === type)?.content ?? "";
   const latest = records.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
@@ -100,6 +257,8 @@ export async function getSourceDocumentsForUser(userId: string): Promise<SourceD
   return {
     originalCV: pick("original_cv"),
     extensiveCV: pick("extensive_cv"),
+    resumeJson: pick("resume_json"),
+    cvTemplate: pick("cv_template"),
     coverLetter: pick("cover_letter"),
     cvStrategy: pick("cv_strategy"),
     coverLetterStrategy: pick("cover_letter_strategy"),
@@ -108,3 +267,19 @@ export async function getSourceDocumentsForUser(userId: string): Promise<SourceD
     updatedAt: latest?.updatedAt?.toISOString() ?? null,
   };
 }
+
+/** Seeds a new profile with another profile's documents so users start from a copy. */
+export async function copySourceDocuments(userId: string, fromProfileId: string, toProfileId: string): Promise<number> {
+  const records = await listProfileRecords(userId, fromProfileId);
+  await Promise.all(records.map((record) => saveSourceDocument(userId, record.docType, record.content, toProfileId)));
+  logger.step("Copied source documents between profiles", { userId, fromProfileId, toProfileId, count: records.length });
+  return records.length;
+}
+
+export async function deleteSourceDocumentsForProfile(userId: string, profileId: string): Promise<void> {
+  const db = getDb();
+  const records = await listProfileRecords(userId, profileId);
+  // recursiveDelete also removes each document's revision history.
+  await Promise.all(records.map((record) => db.recursiveDelete(db.collection(collectionName).doc(record.id))));
+  logger.step("Deleted profile source documents", { userId, profileId, count: records.length });
+}
@@ -0,0 +1,68 @@
+import { mkdtempSync, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const { root } = await vi.hoisted(async () => {
+  const { mkdtemp } = await import("node:fs/promises");
+  const { tmpdir } = await import("node:os");
+  const { join } = await import("node:path");
+  return { root: await mkdtemp(join(tmpdir(), "local-storage-")) };
+});
+
+vi.mock("@/env", () => ({ env: { LOCAL_STORAGE_DIR: root } }));
+
+import { LocalDiskStorageProvider } from "./local-disk-provider";
+
+const sibling = `${root}-evil`;
+const outside = mkdtempSync(path.join(os.tmpdir(), "local-storage-outside-"));
+
+afterAll(async () => {
+  await Promise.all([root, sibling, outside].map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("LocalDiskStorageProvider", () => {
+  const provider = new LocalDiskStorageProvider();
+
+  it("round-trips an upload through download, exists and delete", async () => {
+    const key = "users/user-1/requests/cv.pdf";
+    const result = await provider.upload({ key, buffer: Buffer.from("%PDF-1.4"), contentType: "application/pdf" });
+
+    expect(result).toEqual({ key, url: `/api/download?key=${encodeURIComponent(key)}`, contentType: "application/pdf" });
+    await expect(fs.readFile(path.join(root, key), "utf-8")).resolves.toBe("%PDF-1.4");
+    await expect(provider.download(key)).resolves.toEqual(Buffer.from("%PDF-1.4"));
+    await expect(provider.exists(key)).resolves.toBe(true);
+
+    await provider.delete(key);
+    await expect(provider.exists(key)).resolves.toBe(false);
+    await expect(provider.download(key)).rejects.toThrow(`File ${key} not found in local storage`);
+  });
+
+  it.each(["../escape.txt", "users/../../escape.txt", "users/..", ".."])("rejects the parent segment in %s", async (key) => {
+    await expect(provider.upload({ key, buffer: Buffer.from("x") })).rejects.toThrow(`Invalid storage key: ${key}`);
+  });
+
+  it("rejects keys that would land in a sibling directory sharing the root's prefix", async () => {
+    await fs.mkdir(sibling, { recursive: true });
+    await fs.writeFile(path.join(sibling, "x"), "secret");
+    const key = `../${path.basename(sibling)}/x`;
+
+    await expect(provider.download(key)).rejects.toThrow("Invalid storage key");
+    await expect(provider.exists(key)).rejects.toThrow("Invalid storage key");
+  });
+
+  it("keeps absolute and leading-slash keys inside the root", async () => {
+    const absolute = path.join(outside, "absolute.txt");
+    await provider.upload({ key: absolute, buffer: Buffer.from("inside") });
+
+    await expect(fs.readFile(path.join(root, absolute), "utf-8")).resolves.toBe("inside");
+    await expect(fs.access(absolute)).rejects.toThrow();
+    await expect(provider.download("//users/user-1/../../x")).rejects.toThrow("Invalid storage key");
+    await expect(provider.upload({ key: "/", buffer: Buffer.from("x") })).rejects.toThrow("Invalid storage key: /");
+  });
+
+  it.each(["users\\..\\..\\escape.txt", "..\\escape.txt", "users\\cv.pdf"])("rejects the backslash key %s", async (key) => {
+    await expect(provider.upload({ key, buffer: Buffer.from("x") })).rejects.toThrow("Invalid storage key");
+  });
+});
@@ -0,0 +1,85 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { buildProxiedDownloadUrl } from "@/lib/storage/path-builder";
+import type { IStorageProvider, StorageUploadInput, StorageUploadResult } from "@/lib/storage/types";
+
+/**
+ * Stores artifacts under LOCAL_STORAGE_DIR using the storage key as the
+ * relative path. There is no signing service on disk, so uploads hand back
+ * the `/api/download` proxy URL, which enforces the same ownership check as
+ * every other provider.
+ */
+export class LocalDiskStorageProvider implements IStorageProvider {
+  private readonly root = path.resolve(env.LOCAL_STORAGE_DIR);
+  private readonly logger = createDebugLogger("local-storage");
+
+  constructor() {
+    this.logger.step("Local disk storage provider initialized", { root: this.root });
+  }
+
+  private resolvePath(key: string): string {
+    const normalizedKey = key.replace(/^\/+/u, "");
+    // Backslashes and NUL never appear in generated keys; rejecting them keeps Windows separators out too.
+    if (!normalizedKey || /[\\\0]/u.test(normalizedKey) || normalizedKey.split("/").some((segment) => segment === "..")) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    const resolved = path.resolve(this.root, normalizedKey);
+    if (!resolved.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Storage key escapes storage root: ${key}`);
+    }
+    return resolved;
+  }
+
+  async upload(input: StorageUploadInput): Promise<StorageUploadResult> {
+    const summary = {
+      key: input.key,
+      bytes: input.buffer.length,
+      contentType: input.contentType ?? null,
+    };
+    this.logger.step("Uploading file", summary);
+    const filePath = this.resolvePath(input.key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, input.buffer);
+    this.logger.step("File written to disk", summary);
+
+    return {
+      key: input.key,
+      url: buildProxiedDownloadUrl(input.key),
+      contentType: input.contentType,
+    };
+  }
+
+  async download(key: string): Promise<Buffer> {
+    this.logger.step("Downloading file", { key });
+    try {
+      const contents = await fs.readFile(this.resolvePath(key));
+      this.logger.step("File downloaded", { key, bytes: contents.length });
+      return contents;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.logger.error("File not found on disk", { key });
+        throw new Error(`File ${key} not found in local storage`);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    this.logger.step("Checking if file exists", { key });
+    const exists = await fs
+      .access(this.resolvePath(key))
+      .then(() => true)
+      .catch(() => false);
+    this.logger.step("Existence check complete", { key, exists });
+    return exists;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.logger.step("Deleting file", { key });
+    await fs.rm(this.resolvePath(key), { force: true });
+    this.logger.step("File removed", { key });
+  }
+}
@@ -60,3 +60,7 @@ export function buildSmokeTestStorageKey(timestamp: string): string {
   const safeTimestamp = sanitizeSegment(timestamp.replace(/[:.]/g, "-"), new Date().toISOString());
   return `tests/smoke/${safeTimestamp}.pdf`;
 }
+
+export function buildProxiedDownloadUrl(key: string): string {
+  return `/api/download?key=${encodeURIComponent(key)}`;
+}
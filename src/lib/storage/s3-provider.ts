@@ -0,0 +1,119 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import { env } from "@/env";
+import { createDebugLogger } from "@/lib/debug-logger";
+import type { IStorageProvider, StorageUploadInput, StorageUploadResult } from "@/lib/storage/types";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60 * 24;
+
+function isNotFound(error: unknown): boolean {
+  if (error instanceof S3ServiceException) {
+    return error.$metadata.httpStatusCode === 404 || error.name === "NotFound" || error.name === "NoSuchKey";
+  }
+  return false;
+}
+
+/**
+ * Works against AWS S3 and S3-compatible servers such as MinIO
+ * (set S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for the latter).
+ */
+export class S3StorageProvider implements IStorageProvider {
+  private readonly bucket = env.S3_BUCKET;
+  private readonly logger = createDebugLogger("s3-storage");
+  private readonly client = new S3Client({
+    region: env.S3_REGION,
+    endpoint: env.S3_ENDPOINT || undefined,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    credentials: env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+      : undefined,
+  });
+
+  constructor() {
+    this.logger.step("S3 storage provider initialized", {
+      bucket: this.bucket,
+      endpoint: env.S3_ENDPOINT || null,
+    });
+  }
+
+  async upload(input: StorageUploadInput): Promise<StorageUploadResult> {
+    const summary = {
+      key: input.key,
+      bytes: input.buffer.length,
+      contentType: input.contentType ?? null,
+      hasMetadata: Boolean(input.metadata && Object.keys(input.metadata).length),
+    };
+    this.logger.step("Uploading file", summary);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: input.key,
+        Body: input.buffer,
+        ContentType: input.contentType,
+        Metadata: input.metadata,
+      }),
+    );
+    this.logger.step("File saved to bucket", summary);
+
+    const signedUrl = await getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: input.key }),
+      { expiresIn: SIGNED_URL_TTL_SECONDS },
+    );
+    this.logger.step("Signed URL generated", { key: input.key });
+
+    return {
+      key: input.key,
+      url: signedUrl,
+      contentType: input.contentType,
+    };
+  }
+
+  async download(key: string): Promise<Buffer> {
+    this.logger.step("Downloading file", { key });
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) {
+        throw new Error(`File ${key} returned an empty body`);
+      }
+      const contents = Buffer.from(await result.Body.transformToByteArray());
+      this.logger.step("File downloaded", { key, bytes: contents.length });
+      return contents;
+    } catch (error) {
+      if (isNotFound(error)) {
+        this.logger.error("File not found in bucket", { key });
+        throw new Error(`File ${key} not found in S3 storage`);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    this.logger.step("Checking if file exists", { key });
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      this.logger.step("Existence check complete", { key, exists: true });
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        this.logger.step("Existence check complete", { key, exists: false });
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.logger.step("Deleting file", { key });
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    this.logger.step("Delete request sent", { key });
+  }
+}
@@ -1,5 +1,8 @@
+import { env } from "@/env";
 import { getStorageBucket } from "@/lib/firebase-admin";
 import { createDebugLogger } from "@/lib/debug-logger";
+import { LocalDiskStorageProvider } from "@/lib/storage/local-disk-provider";
+import { S3StorageProvider } from "@/lib/storage/s3-provider";
 
 export type StorageUploadInput = {
   key: string;
@@ -90,5 +93,13 @@ export class FirebaseStorageProvider implements IStorageProvider {
 }
 
 export function getStorageProvider(): IStorageProvider {
-  return new FirebaseStorageProvider();
+  switch (env.STORAGE_PROVIDER) {
+    case "local":
+      return new LocalDiskStorageProvider();
+    case "s3":
+      return new S3StorageProvider();
+    case "firebase":
+    default:
+      return new FirebaseStorageProvider();
+  }
 }
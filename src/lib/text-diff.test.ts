@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { diffLines, summarizeDiff } from "./text-diff";
+
+describe("diffLines", () => {
+  it("pairs edited lines and keeps line numbers per side", () => {
+    const rows = diffLines("a\nb\nc\nd", "a\nB\nc\nd\ne");
+    expect(rows.map((row) => row.kind)).toEqual(["same", "changed", "same", "same", "added"]);
+    expect(rows[1]).toEqual({
+      kind: "changed",
+      left: { lineNumber: 2, text: "b" },
+      right: { lineNumber: 2, text: "B" },
+    });
+    expect(rows[4].right).toEqual({ lineNumber: 5, text: "e" });
+    expect(summarizeDiff(rows)).toEqual({ added: 1, removed: 0, changed: 1 });
+  });
+
+  it("aligns the shared suffix after insertions and removals", () => {
+    const rows = diffLines("x\ny\nend", "new\nx\nend");
+    expect(rows).toEqual([
+      { kind: "added", left: null, right: { lineNumber: 1, text: "new" } },
+      { kind: "same", left: { lineNumber: 1, text: "x" }, right: { lineNumber: 2, text: "x" } },
+      { kind: "removed", left: { lineNumber: 2, text: "y" }, right: null },
+      { kind: "same", left: { lineNumber: 3, text: "end" }, right: { lineNumber: 3, text: "end" } },
+    ]);
+  });
+
+  it("treats empty documents as all additions", () => {
+    expect(summarizeDiff(diffLines("", "one\ntwo"))).toEqual({ added: 2, removed: 0, changed: 0 });
+  });
+});
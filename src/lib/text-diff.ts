@@ -0,0 +1,142 @@
+export type DiffLine = {
+  lineNumber: number;
+  text: string;
+};
+
+export type SideBySideRow = {
+  kind: "same" | "added" | "removed" | "changed";
+  left: DiffLine | null;
+  right: DiffLine | null;
+};
+
+export type DiffSummary = {
+  added: number;
+  removed: number;
+  changed: number;
+};
+
+type Op = { type: "same" | "del" | "ins"; left?: number; right?: number };
+
+// Above this many LCS cells the middle section is shown as a block replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(value: string): string[] {
+  return value.length ? value.replace(/\r\n?/g, "\n").split("\n") : [];
+}
+
+function diffMiddle(before: string[], after: string[], offset: number): Op[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...before.map((_, index) => ({ type: "del" as const, left: offset + index })),
+      ...after.map((_, index) => ({ type: "ins" as const, right: offset + index })),
+    ];
+  }
+  // lengths[i * (m + 1) + j] = LCS length of before[i..] and after[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      lengths[i * (m + 1) + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      ops.push({ type: "same", left: offset + i, right: offset + j });
+      i += 1;
+      j += 1;
+    } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+      ops.push({ type: "ins", right: offset + j });
+      j += 1;
+    } else {
+      ops.push({ type: "del", left: offset + i });
+      i += 1;
+    }
+  }
+  return ops;
+}
+
+/**
+ * Line-based side-by-side diff. Adjacent removals and additions are paired
+ * into "changed" rows so edited lines sit next to each other.
+ */
+export function diffLines(before: string, after: string): SideBySideRow[] {
+  const left = splitLines(before);
+  const right = splitLines(after);
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  // Both sides share the prefix, so middle indexes line up from the same offset.
+  const middle = diffMiddle(left.slice(prefix, left.length - suffix), right.slice(prefix, right.length - suffix), prefix);
+  const rightShift = right.length - left.length;
+  const ops: Op[] = [
+    ...Array.from({ length: prefix }, (_, index) => ({ type: "same" as const, left: index, right: index })),
+    ...middle,
+    ...Array.from({ length: suffix }, (_, index) => {
+      const leftIndex = left.length - suffix + index;
+      return { type: "same" as const, left: leftIndex, right: leftIndex + rightShift };
+    }),
+  ];
+
+  const toLine = (lines: string[], index: number): DiffLine => ({ lineNumber: index + 1, text: lines[index] });
+  const rows: SideBySideRow[] = [];
+  let cursor = 0;
+  while (cursor < ops.length) {
+    const op = ops[cursor];
+    if (op.type === "same") {
+      rows.push({ kind: "same", left: toLine(left, op.left!), right: toLine(right, op.right!) });
+      cursor += 1;
+      continue;
+    }
+    const deletions: number[] = [];
+    const insertions: number[] = [];
+    while (cursor < ops.length && ops[cursor].type !== "same") {
+      const pending = ops[cursor];
+      if (pending.type === "del") {
+        deletions.push(pending.left!);
+      } else {
+        insertions.push(pending.right!);
+      }
+      cursor += 1;
+    }
+    const paired = Math.max(deletions.length, insertions.length);
+    for (let index = 0; index < paired; index += 1) {
+      const removed = deletions[index];
+      const added = insertions[index];
+      rows.push({
+        kind: removed !== undefined && added !== undefined ? "changed" : removed !== undefined ? "removed" : "added",
+        left: removed !== undefined ? toLine(left, removed) : null,
+        right: added !== undefined ? toLine(right, added) : null,
+      });
+    }
+  }
+  return rows;
+}
+
+export function summarizeDiff(rows: SideBySideRow[]): DiffSummary {
+  return rows.reduce<DiffSummary>(
+    (acc, row) => {
+      if (row.kind === "added") acc.added += 1;
+      if (row.kind === "removed") acc.removed += 1;
+      if (row.kind === "changed") acc.changed += 1;
+      return acc;
+    },
+    { added: 0, removed: 0, changed: 0 },
+  );
+}
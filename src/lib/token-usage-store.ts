@@ -0,0 +1,65 @@
+import "server-only";
+
+import { env } from "@/env";
+import { getDb } from "@/lib/firebase-admin";
+import { createDebugLogger } from "@/lib/debug-logger";
+import { estimateHoldUnits, mergeTokenUsage, type GenerationTokenUsage, type TokenUsageRecord } from "@/lib/token-usage";
+
+const TOKEN_USAGE_COLLECTION = "tokenUsage";
+const HOLD_HISTORY_SIZE = 5;
+const logger = createDebugLogger("token-usage-store");
+
+function collection() {
+  return getDb().collection(TOKEN_USAGE_COLLECTION);
+}
+
+/** Adds one attempt's usage to the generation's record; failed attempts are recorded too. */
+export async function recordTokenUsage(entry: {
+  generationId: string;
+  userId: string;
+  sessionId: string;
+  usage: GenerationTokenUsage;
+}): Promise<void> {
+  if (!entry.usage.calls) {
+    return;
+  }
+  const ref = collection().doc(entry.generationId);
+  const now = new Date().toISOString();
+  await getDb().runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const existing = snapshot.exists ? (snapshot.data() as TokenUsageRecord) : null;
+    const record: TokenUsageRecord = {
+      ...mergeTokenUsage(existing, entry.usage),
+      generationId: entry.generationId,
+      userId: entry.userId,
+      sessionId: entry.sessionId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    tx.set(ref, record);
+  });
+  logger.step("Token usage recorded", {
+    generationId: entry.generationId,
+    totalTokens: entry.usage.totalTokens,
+    costUsd: entry.usage.costUsd,
+  });
+}
+
+export async function listUserTokenUsage(userId: string, limit: number): Promise<TokenUsageRecord[]> {
+  const snapshot = await collection().where("userId", "==", userId).orderBy("createdAt", "desc").limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as TokenUsageRecord);
+}
+
+/** Quota units to hold for the user's next generation; one unit while QUOTA_TOKENS_PER_UNIT is off. */
+export async function estimateGenerationHold(userId: string): Promise<number> {
+  if (env.QUOTA_TOKENS_PER_UNIT <= 0) {
+    return 1;
+  }
+  try {
+    const recent = await listUserTokenUsage(userId, HOLD_HISTORY_SIZE);
+    return estimateHoldUnits(recent.map((record) => record.totalTokens), env.QUOTA_TOKENS_PER_UNIT);
+  } catch (error) {
+    logger.warn("Falling back to a one-unit hold", { userId, error: error instanceof Error ? error.message : String(error) });
+    return 1;
+  }
+}
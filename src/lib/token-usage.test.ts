@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  estimateCostUsd,
+  estimateHoldUnits,
+  mergeTokenUsage,
+  parseModelPricing,
+  quotaUnitsForTokens,
+  summarizeTokenUsage,
+  type TokenUsageCall,
+} from "./token-usage";
+
+function call(overrides: Partial<TokenUsageCall>): TokenUsageCall {
+  return {
+    task: "generateCVAdvanced",
+    provider: "gemini",
+    modelName: "gemini-2.5-pro",
+    promptTokens: 1000,
+    completionTokens: 500,
+    totalTokens: 1500,
+    costUsd: 0,
+    ...overrides,
+  };
+}
+
+describe("token usage accounting", () => {
+  it("prices calls by exact model or longest prefix and ignores unpriced models", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 100_000 };
+    expect(estimateCostUsd("gemini-2.5-pro", usage)).toBeCloseTo(2.25);
+    expect(estimateCostUsd("gemini-2.5-flash-preview-05-20", usage)).toBeCloseTo(0.55);
+    expect(estimateCostUsd("llama3.1:8b", usage)).toBe(0);
+
+    const pricing = parseModelPricing('{"llama3.1":{"input":0.1,"output":0.1},"broken":{"input":"x"}}');
+    expect(estimateCostUsd("llama3.1:8b", usage, pricing)).toBeCloseTo(0.11);
+    expect(pricing.broken).toBeUndefined();
+    expect(parseModelPricing("not json")).toEqual(parseModelPricing(""));
+  });
+
+  it("totals calls per task and merges resumed attempts", () => {
+    const first = summarizeTokenUsage([call({ costUsd: 0.01 }), call({ task: "fixCVPageCount", totalTokens: 200, costUsd: 0.002 })]);
+    expect(first).toMatchObject({ calls: 2, totalTokens: 1700 });
+    expect(first.byTask.fixCVPageCount).toMatchObject({ calls: 1, totalTokens: 200 });
+
+    const merged = mergeTokenUsage(first, summarizeTokenUsage([call({ task: "fixCVPageCount", totalTokens: 300 })]));
+    expect(merged).toMatchObject({ calls: 3, totalTokens: 2000 });
+    expect(merged.byTask.fixCVPageCount).toMatchObject({ calls: 2, totalTokens: 500 });
+    expect(mergeTokenUsage(null, first)).toBe(first);
+  });
+
+  it("converts tokens to quota units and sizes holds from history", () => {
+    expect(quotaUnitsForTokens(25_000, 0)).toBeNull();
+    expect(quotaUnitsForTokens(25_000, 10_000)).toBe(3);
+    expect(quotaUnitsForTokens(0, 10_000)).toBe(1);
+    expect(estimateHoldUnits([], 10_000)).toBe(1);
+    expect(estimateHoldUnits([15_000, 25_000], 10_000)).toBe(2);
+    expect(estimateHoldUnits([90_000], 0)).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+/** USD per million tokens. */
+export type ModelPrice = { input: number; output: number };
+
+export type ModelPricing = Record<string, ModelPrice>;
+
+/** List prices for the default tier models; override or extend with AI_MODEL_PRICING. */
+export const DEFAULT_MODEL_PRICING: ModelPricing = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+
+export type TokenUsageCall = {
+  task: string;
+  provider: string;
+  modelName: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type TokenUsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type GenerationTokenUsage = TokenUsageTotals & {
+  byTask: Record<string, TokenUsageTotals>;
+};
+
+export type TokenUsageRecord = GenerationTokenUsage & {
+  generationId: string;
+  userId: string;
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Reads the AI_MODEL_PRICING JSON on top of the defaults; malformed entries are ignored. */
+export function parseModelPricing(raw: string | undefined): ModelPricing {
+  if (!raw?.trim()) {
+    return DEFAULT_MODEL_PRICING;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    const overrides = Object.entries(parsed).filter(
+      ([, price]) => typeof price?.input === "number" && typeof price?.output === "number",
+    ) as Array<[string, ModelPrice]>;
+    return { ...DEFAULT_MODEL_PRICING, ...Object.fromEntries(overrides) };
+  } catch {
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+/**
+ * Matches the exact model name first, then the longest priced prefix so dated
+ * or preview variants ("gemini-2.5-pro-preview-06-05") inherit the base price.
+ * Unpriced models (a local Ollama, say) cost nothing.
+ */
+export function estimateCostUsd(
+  modelName: string,
+  usage: { promptTokens: number; completionTokens: number },
+  pricing: ModelPricing = DEFAULT_MODEL_PRICING,
+): number {
+  const key =
+    modelName in pricing
+      ? modelName
+      : Object.keys(pricing)
+          .filter((candidate) => modelName.startsWith(candidate))
+          .sort((a, b) => b.length - a.length)[0];
+  const price = key ? pricing[key] : undefined;
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function emptyTokenTotals(): TokenUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals(target: TokenUsageTotals, source: TokenUsageTotals): TokenUsageTotals {
+  return {
+    calls: target.calls + source.calls,
+    promptTokens: target.promptTokens + source.promptTokens,
+    completionTokens: target.completionTokens + source.completionTokens,
+    totalTokens: target.totalTokens + source.totalTokens,
+    costUsd: target.costUsd + source.costUsd,
+  };
+}
+
+function totalsOf(usage: TokenUsageTotals): TokenUsageTotals {
+  const { calls, promptTokens, completionTokens, totalTokens, costUsd } = usage;
+  return { calls, promptTokens, completionTokens, totalTokens, costUsd };
+}
+
+function totalsFromCall(call: TokenUsageCall): TokenUsageTotals {
+  return { calls: 1, promptTokens: call.promptTokens, completionTokens: call.completionTokens, totalTokens: call.totalTokens, costUsd: call.costUsd };
+}
+
+export function summarizeTokenUsage(calls: TokenUsageCall[]): GenerationTokenUsage {
+  const byTask: Record<string, TokenUsageTotals> = {};
+  let totals = emptyTokenTotals();
+  for (const call of calls) {
+    const entry = totalsFromCall(call);
+    totals = addTotals(totals, entry);
+    byTask[call.task] = addTotals(byTask[call.task] ?? emptyTokenTotals(), entry);
+  }
+  return { ...totals, byTask };
+}
+
+/** Resumed and retried attempts add to the usage the generation already recorded. */
+export function mergeTokenUsage(existing: GenerationTokenUsage | null, next: GenerationTokenUsage): GenerationTokenUsage {
+  if (!existing) {
+    return next;
+  }
+  const byTask = { ...existing.byTask };
+  for (const [task, totals] of Object.entries(next.byTask)) {
+    byTask[task] = addTotals(byTask[task] ?? emptyTokenTotals(), totals);
+  }
+  return { ...addTotals(totalsOf(existing), totalsOf(next)), byTask };
+}
+
+/**
+ * Quota units a generation consumed when QUOTA_TOKENS_PER_UNIT is set. Null
+ * keeps the flat one-unit-per-generation charge; every generation costs at
+ * least one unit.
+ */
+export function quotaUnitsForTokens(totalTokens: number, tokensPerUnit: number): number | null {
+  if (tokensPerUnit <= 0) {
+    return null;
+  }
+  return Math.max(1, Math.ceil(totalTokens / tokensPerUnit));
+}
+
+/** Sizes a new hold from the user's recent generations: their average consumption, or one unit without history. */
+export function estimateHoldUnits(recentTotalTokens: number[], tokensPerUnit: number): number {
+  if (tokensPerUnit <= 0 || !recentTotalTokens.length) {
+    return 1;
+  }
+  const average = recentTotalTokens.reduce((sum, value) => sum + value, 0) / recentTotalTokens.length;
+  return quotaUnitsForTokens(average, tokensPerUnit) ?? 1;
+}
+
+export type DailyTokenUsage = TokenUsageTotals & { day: string };
+
+/** Per-day and per-task totals for the usage dashboard, newest day first. */
+export function summarizeUserUsage(records: TokenUsageRecord[]): {
+  totals: TokenUsageTotals;
+  generations: number;
+  byDay: DailyTokenUsage[];
+  byTask: Array<TokenUsageTotals & { task: string }>;
+} {
+  let totals = emptyTokenTotals();
+  const byDay = new Map<string, TokenUsageTotals>();
+  const byTask = new Map<string, TokenUsageTotals>();
+  for (const record of records) {
+    const recordTotals = totalsOf(record);
+    totals = addTotals(totals, recordTotals);
+    const day = record.createdAt.slice(0, 10);
+    byDay.set(day, addTotals(byDay.get(day) ?? emptyTokenTotals(), recordTotals));
+    for (const [task, taskTotals] of Object.entries(record.byTask ?? {})) {
+      byTask.set(task, addTotals(byTask.get(task) ?? emptyTokenTotals(), taskTotals));
+    }
+  }
+  return {
+    totals,
+    generations: records.length,
+    byDay: [...byDay.entries()].map(([day, value]) => ({ day, ...value })).sort((a, b) => b.day.localeCompare(a.day)),
+    byTask: [...byTask.entries()].map(([task, value]) => ({ task, ...value })).sort((a, b) => b.totalTokens - a.totalTokens),
+  };
+}
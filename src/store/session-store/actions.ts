@@ -1,4 +1,5 @@
 import type { StoreApi } from "zustand";
+import { applyLiveGenerationEvent, EMPTY_LIVE_GENERATION } from "@/lib/generation-events";
 import { buildArtifactsFromSession } from "./artifacts";
 import type { ChatMessage, SessionStoreState } from "./types";
 import { appendOrMerge, extractSessionMode, mergeChatHistories, persistMode, sessionSortValue } from "./utils";
@@ -136,6 +137,21 @@ export function createSessionActions(
           generatedDocuments: state.currentSessionId === sessionId ? artifacts : state.generatedDocuments,
         };
       }),
+    applyGenerationEvent: (sessionId, event) =>
+      set((state) => {
+        const current = state.liveGenerations[sessionId] ?? EMPTY_LIVE_GENERATION;
+        const next = applyLiveGenerationEvent(current, event);
+        return next === current ? state : { liveGenerations: { ...state.liveGenerations, [sessionId]: next } };
+      }),
+    clearLiveGeneration: (sessionId) =>
+      set((state) => {
+        if (!state.liveGenerations[sessionId]) {
+          return state;
+        }
+        const liveGenerations = { ...state.liveGenerations };
+        delete liveGenerations[sessionId];
+        return { liveGenerations };
+      }),
     setMode: (mode) => {
       if (typeof window !== "undefined") {
         localStorage.setItem("chatMode", mode);
@@ -150,6 +166,24 @@ export function createSessionActions(
         },
       }));
     },
+    setCvProfiles: (profiles) => set({ cvProfiles: profiles }),
+    applyCvProfile: (profileId, sourceDocuments, profiles) => {
+      set((state) => {
+        // Strategy playbooks are global seeds, so an empty profile keeps the ones already loaded.
+        const next = { ...state.sourceDocuments };
+        for (const [key, value] of Object.entries(sourceDocuments) as Array<[keyof typeof next, string | undefined]>) {
+          const isStrategy = key.endsWith("Strategy");
+          if (typeof value === "string" && (value || !isStrategy)) {
+            next[key] = value;
+          }
+        }
+        return {
+          activeCvProfileId: profileId,
+          sourceDocuments: next,
+          ...(profiles ? { cvProfiles: profiles } : {}),
+        };
+      });
+    },
     setSessionStatus: (sessionId, status) =>
       set((state) => {
         const index = state.sessions.findIndex((session) => session.id === sessionId);
@@ -191,10 +225,13 @@ export function createSessionActions(
         delete sessionArtifacts[sessionId];
         const sessionGenerating = { ...state.sessionGenerating };
         delete sessionGenerating[sessionId];
+        const liveGenerations = { ...state.liveGenerations };
+        delete liveGenerations[sessionId];
         const updates: Partial<SessionStoreState> = {
           sessions,
           sessionArtifacts,
           sessionGenerating,
+          liveGenerations,
         };
         if (state.currentSessionId === sessionId) {
           const nextActive = sessions[0] ?? null;
@@ -1,4 +1,7 @@
 import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
+import { readAtsComparison } from "@/lib/ats/keyword-score";
+import { readGroundingReport } from "@/lib/grounding/claims";
+import { formatInterviewPrepText, readInterviewPrep } from "@/lib/interview-prep";
 import type { ClientSession } from "./types";
 
 type ArtifactPreviews = {
@@ -124,6 +127,9 @@ export function buildArtifactsFromSession(session?: ClientSession | null): Gener
               return true;
             })
         : undefined,
+      ats: readAtsComparison(entry.ats) ?? undefined,
+      grounding: readGroundingReport(entry.grounding) ?? undefined,
+      template: typeof entry.template === "string" ? entry.template : undefined,
     }))
     .filter((entry) => entry.generationId && (entry.content || entry.status));
 
@@ -162,6 +168,7 @@ export function buildArtifactsFromSession(session?: ClientSession | null): Gener
       generationId: latestCv?.generationId,
       versions: cvVersionsList,
       changeSummary: previews.cvChangeSummary,
+      docxDownloadUrl: files.cvDocx?.url,
     };
   }
   if (files.coverLetter) {
@@ -172,6 +179,7 @@ export function buildArtifactsFromSession(session?: ClientSession | null): Gener
         status: typeof entry.status === "string" ? entry.status : undefined,
         message: typeof entry.message === "string" ? entry.message : undefined,
         createdAt: typeof entry.createdAt === "string" ? entry.createdAt : undefined,
+        grounding: readGroundingReport(entry.grounding) ?? undefined,
       }))
       .filter((entry) => entry.generationId && entry.content);
     const coverLetterVersions = coverLetterVersionsUnsorted
@@ -201,6 +209,7 @@ export function buildArtifactsFromSession(session?: ClientSession | null): Gener
       metadata: { label: files.coverLetter.label },
       generationId: latestCover?.generationId,
       versions: coverLetterVersionsList,
+      docxDownloadUrl: files.coverLetterDocx?.url,
     };
   }
   if (files.coldEmail) {
@@ -217,5 +226,17 @@ export function buildArtifactsFromSession(session?: ClientSession | null): Gener
     };
   }
 
+  const interviewPrep = readInterviewPrep(session.metadata);
+  if (interviewPrep) {
+    artifacts.interviewPrep = {
+      content: formatInterviewPrepText(interviewPrep.pack),
+      downloadUrl: `/api/render-pdf?sessionId=${encodeURIComponent(session.id)}&artifact=interview-prep&disposition=attachment`,
+      storageKey: "inline-render",
+      mimeType: "application/pdf",
+      prepPack: interviewPrep.pack,
+      generationId: interviewPrep.generationId ?? undefined,
+    };
+  }
+
   return Object.keys(artifacts).length ? artifacts : null;
 }
@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useEffect, useRef, type ReactNode } from "react";
 import { createStore, useStore } from "zustand";
+import { DEFAULT_CV_PROFILE_ID } from "@/lib/cv-profiles-shared";
 import { buildArtifactsFromSession } from "./artifacts";
 import { createSessionActions } from "./actions";
 import type { InitialSessionState, SessionStore, SessionStoreState } from "./types";
@@ -36,11 +37,16 @@ function createSessionStore(initialState?: InitialSessionState) {
     generatedDocuments: initialArtifacts ?? null,
     sessionArtifacts: initialArtifactsMap,
     sessionGenerating: initialGeneratingMap,
+    liveGenerations: {},
     pendingGlobalGeneration: false,
     mode: initialState?.mode ?? "standard",
+    cvProfiles: initialState?.cvProfiles ?? [],
+    activeCvProfileId: initialState?.activeCvProfileId ?? DEFAULT_CV_PROFILE_ID,
     sourceDocuments: {
       originalCV: initialState?.sourceDocuments?.originalCV ?? "",
       extensiveCV: initialState?.sourceDocuments?.extensiveCV ?? "",
+      resumeJson: initialState?.sourceDocuments?.resumeJson ?? "",
+      cvTemplate: initialState?.sourceDocuments?.cvTemplate ?? "",
       coverLetter: initialState?.sourceDocuments?.coverLetter ?? "",
       cvStrategy: initialState?.sourceDocuments?.cvStrategy ?? "",
       coverLetterStrategy: initialState?.sourceDocuments?.coverLetterStrategy ?? "",
@@ -1,5 +1,7 @@
 import type { StoreApi } from "zustand";
 import type { GenerationArtifacts } from "@/hooks/useStreamableValue";
+import type { CvProfileSummary } from "@/lib/cv-profiles-shared";
+import type { GenerationEvent, LiveGenerationState } from "@/lib/generation-events";
 import type { SessionStatus } from "@/lib/session";
 import type { SerializableChatMessage, SerializableSession } from "@/types/session";
 
@@ -16,11 +18,17 @@ export type SessionStoreState = {
   generatedDocuments: GenerationArtifacts | null;
   sessionArtifacts: Record<string, GenerationArtifacts | null>;
   sessionGenerating: Record<string, boolean>;
+  /** Progress and streamed drafts of the generation running in each session. */
+  liveGenerations: Record<string, LiveGenerationState>;
   pendingGlobalGeneration: boolean;
   mode: ChatMode;
+  cvProfiles: CvProfileSummary[];
+  activeCvProfileId: string;
   sourceDocuments: {
     originalCV: string;
     extensiveCV: string;
+    resumeJson: string;
+    cvTemplate: string;
     coverLetter: string;
     cvStrategy: string;
     coverLetterStrategy: string;
@@ -39,8 +47,16 @@ export type SessionStoreState = {
     appendChatMessage: (sessionId: string, message: ChatMessage) => void;
     setIsGenerating: (sessionId: string | null, value: boolean) => void;
     setGeneratedDocuments: (sessionId: string | null, artifacts: GenerationArtifacts | null) => void;
+    applyGenerationEvent: (sessionId: string, event: GenerationEvent) => void;
+    clearLiveGeneration: (sessionId: string) => void;
     setMode: (mode: ChatMode) => void;
     updateSourceDocument: (docType: keyof SessionStoreState["sourceDocuments"], value: string) => void;
+    setCvProfiles: (profiles: CvProfileSummary[]) => void;
+    applyCvProfile: (
+      profileId: string,
+      sourceDocuments: Partial<SessionStoreState["sourceDocuments"]>,
+      profiles?: CvProfileSummary[],
+    ) => void;
     setSessionStatus: (sessionId: string, status: SessionStatus) => void;
     touchSessionTimestamp: (sessionId: string, timestamp?: string) => void;
     setQuota: (quota: SessionStoreState["quota"]) => void;
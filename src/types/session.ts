@@ -1,6 +1,6 @@
 import type { GeneratedFile, SessionStatus } from "@/lib/session";
 
-export type ChatMessageKind = "prompt" | "summary" | "log" | "system";
+export type ChatMessageKind = "prompt" | "summary" | "log" | "system" | "refine";
 
 export type ChatMessageMetadata = {
   kind?: ChatMessageKind;
@@ -8,6 +8,8 @@ export type ChatMessageMetadata = {
   rawJobInput?: string;
   generationId?: string;
   clientTimestamp?: string;
+  /** Which artifact a `refine` message belongs to. */
+  artifact?: string;
 } | null;
 
 export type SerializableChatMessage = {